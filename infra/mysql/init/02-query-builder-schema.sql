@@ -11,7 +11,7 @@ CREATE TABLE database_settings (
     port INT NOT NULL DEFAULT 3306,
     database_name VARCHAR(100) NOT NULL,
     username VARCHAR(100) NOT NULL,
-    password VARCHAR(255), -- Encrypted/hashed in production
+    password TEXT, -- Encrypted by the backend when SECRETS_MASTER_KEY is set
     ssl_enabled BOOLEAN DEFAULT FALSE,
     is_active BOOLEAN DEFAULT TRUE,
     is_default BOOLEAN DEFAULT FALSE,
@@ -24,7 +24,7 @@ CREATE TABLE ai_settings (
     id INT PRIMARY KEY AUTO_INCREMENT,
     name VARCHAR(100) NOT NULL UNIQUE,
     enabled BOOLEAN DEFAULT FALSE,
-    api_key VARCHAR(255), -- Encrypted in production
+    api_key TEXT, -- Encrypted by the backend when SECRETS_MASTER_KEY is set
     model VARCHAR(100) NOT NULL DEFAULT 'claude-sonnet-4-20250514',
     temperature DECIMAL(3,2) NOT NULL DEFAULT 0.20 CHECK (temperature >= 0.0 AND temperature <= 1.0),
     max_tokens INT NOT NULL DEFAULT 2000 CHECK (max_tokens > 0 AND max_tokens <= 8000),
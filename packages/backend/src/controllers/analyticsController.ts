@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { analyticsService, AnalyticsFilter } from '../services/analyticsService';
+import { connectionService } from '../services/connectionService';
+import { analyticsQuerySchema } from '../utils/validators';
+
+type Aggregate = (filter: AnalyticsFilter) => Promise<unknown>;
+
+// Every analytics endpoint takes the same query-string filters, covers only the
+// caller's connections and wraps the aggregate in `data`
+const analyticsHandler = (name: string, aggregate: Aggregate) => async (req: Request, res: Response) => {
+  const parse = analyticsQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    const details = parse.error.errors.map((err) => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${details.map((d) => `${d.field} - ${d.message}`).join(', ')}`,
+      details
+    });
+  }
+
+  try {
+    const { from, to } = analyticsService.range(parse.data);
+    const databaseIds = await connectionService.visibleDatabaseIds(req.user);
+    const data = await aggregate({ ...parse.data, from, to, databaseIds });
+    return res.json({ success: true, data, from: from.toISOString(), to: to.toISOString() });
+  } catch (error) {
+    console.error(`Failed to compute ${name}:`, error);
+    return res.status(500).json({ error: `Failed to compute ${name}` });
+  }
+};
+
+export const getOverview = analyticsHandler('analytics', (filter) => analyticsService.overview(filter));
+export const getSuccessRates = analyticsHandler('success rates', (filter) => analyticsService.successRates(filter));
+export const getLatency = analyticsHandler('latency', (filter) => analyticsService.latency(filter));
+export const getErrorCodes = analyticsHandler('error codes', (filter) => analyticsService.errorCodes(filter));
+export const getTopTables = analyticsHandler('top tables', (filter) => analyticsService.topTables(filter));
+export const getSourceShare = analyticsHandler('source share', (filter) => analyticsService.sourceShare(filter));
+export const getConfidenceTrend = analyticsHandler('confidence trend', (filter) => analyticsService.confidenceTrend(filter));
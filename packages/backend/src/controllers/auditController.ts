@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import { auditService, isHashChainEnabled } from '../services/auditService';
+import { auditQuerySchema } from '../utils/validators';
+
+export const listAuditEvents = async (req: Request, res: Response) => {
+  const parse = auditQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    const details = parse.error.errors.map((err) => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${details.map((d) => `${d.field} - ${d.message}`).join(', ')}`,
+      details
+    });
+  }
+
+  try {
+    const page = await auditService.list(parse.data);
+    return res.json({ success: true, data: page.events, nextCursor: page.nextCursor });
+  } catch (error) {
+    console.error('Failed to list audit events:', error);
+    return res.status(500).json({ error: 'Failed to fetch audit events' });
+  }
+};
+
+// Walks the whole log, so it is only run on request
+export const verifyAuditChain = async (_req: Request, res: Response) => {
+  try {
+    const report = await auditService.verifyChain();
+    return res.json({ success: true, data: { ...report, enabled: isHashChainEnabled() } });
+  } catch (error) {
+    console.error('Failed to verify audit chain:', error);
+    return res.status(500).json({ error: 'Failed to verify audit log' });
+  }
+};
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { userService } from '../services/userService';
+import { OidcError, oidcService } from '../services/oidcService';
+import { signToken } from '../utils/authTokens';
+import { isAuthDisabled } from '../middleware/auth';
+import { isSandboxMode } from '../utils/sandbox';
+
+// Where the browser is sent after single sign-on, with the token in the URL fragment
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+const redirectToFrontend = (res: Response, fragment: Record<string, string>) =>
+  res.redirect(`${frontendUrl()}/#${new URLSearchParams(fragment).toString()}`);
+
+/** Which sign-in methods the login page should offer */
+export const getAuthConfig = (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      authDisabled: isAuthDisabled(),
+      sandboxMode: isSandboxMode(),
+      oidcEnabled: oidcService.isEnabled()
+    }
+  });
+};
+
+export const login = async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body as { username: string; password: string };
+    const user = await userService.authenticate(username, password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    return res.json({ success: true, data: { token: signToken(user), user } });
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+};
+
+export const getCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const current = req.user!;
+    // With authentication disabled there is no account behind the request
+    if (isAuthDisabled()) {
+      return res.json({ success: true, data: { ...current, display_name: null, email: null } });
+    }
+    const user = await userService.get(current.id);
+    if (!user) return res.status(401).json({ error: 'Authentication required' });
+    return res.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Failed to get current user:', error);
+    return res.status(500).json({ error: 'Failed to fetch current user' });
+  }
+};
+
+export const startOidcLogin = async (req: Request, res: Response) => {
+  try {
+    return res.redirect(await oidcService.beginLogin());
+  } catch (error) {
+    console.error('Failed to start single sign-on:', error);
+    return redirectToFrontend(res, { error: error instanceof OidcError ? error.message : 'Single sign-on failed' });
+  }
+};
+
+export const completeOidcLogin = async (req: Request, res: Response) => {
+  const { code, state, error } = req.query as Record<string, string | undefined>;
+  if (error || !code || !state) {
+    return redirectToFrontend(res, { error: error ? `Identity provider returned ${error}` : 'Single sign-on failed' });
+  }
+
+  try {
+    const profile = await oidcService.completeLogin(code, state);
+    const user = await userService.findOrCreateOidcUser(profile);
+    if (!user.is_active) {
+      return redirectToFrontend(res, { error: 'This account is disabled' });
+    }
+    return redirectToFrontend(res, { token: signToken(user) });
+  } catch (err) {
+    console.error('Failed to complete single sign-on:', err);
+    return redirectToFrontend(res, { error: err instanceof OidcError ? err.message : 'Single sign-on failed' });
+  }
+};
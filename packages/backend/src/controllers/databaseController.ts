@@ -1,51 +1,52 @@
 import { Request, Response } from 'express';
-import databaseService, { DatabaseConfig } from '../services/databaseSystemService';
-import { clearCachedRules } from '../services/rulesService';
-import { recreateDestinationPool } from '../index';
+import type { DatabaseConfig } from '../services/databaseSystemService';
+import { connectionService } from '../services/connectionService';
+import { getSessionId } from '../services/conversationService';
+import { resultCacheService } from '../services/resultCacheService';
+import { isSandboxMode } from '../utils/sandbox';
 
-export const listDatabases = async (_req: Request, res: Response) => {
+// Mask passwords for security
+const maskPassword = (db: DatabaseConfig) => ({
+  ...db,
+  password: db.password ? '********' : ''
+});
+
+// Connections the caller may use; is_selected marks the one they are working against
+export const listDatabases = async (req: Request, res: Response) => {
   try {
-    const databases = await databaseService.getDatabaseConfigs();
-    // Mask passwords for security
-    const maskedDatabases = databases.map(db => ({
-      ...db,
-      password: db.password ? '********' : ''
-    }));
-    return res.json(maskedDatabases);
+    const sessionId = getSessionId(req.headers?.['x-session-id']);
+    const databases = await connectionService.listDatabases(req.user);
+    const active = await connectionService.getActiveDatabase(req.user, sessionId);
+    return res.json(databases.map((db) => ({ ...maskPassword(db), is_selected: db.id === active?.id })));
   } catch {
     return res.status(500).json({ error: 'Failed to fetch database configurations' });
   }
 };
 
+// Change the caller's own active connection; other users are not affected
 export const switchDatabase = async (req: Request, res: Response) => {
+  if (isSandboxMode()) {
+    return res.status(403).json({ error: 'Configuration editing is disabled in sandbox mode' });
+  }
   try {
     const { id } = req.params;
     const databaseId = parseInt(id);
     if (isNaN(databaseId)) return res.status(400).json({ error: 'Invalid database ID' });
-    
-    // Use the new proper switching method
-    const success = await databaseService.switchDefaultDatabase(databaseId);
-    
-    if (!success) {
-      return res.status(404).json({ error: 'Database configuration not found or switching failed' });
-    }
-
-    // Clear cached rules so they reload from the new database
-    clearCachedRules();
 
-    // Recreate destination pool to connect to the new database
-    const poolRecreated = await recreateDestinationPool();
-    if (!poolRecreated) {
-      console.warn('Failed to recreate destination pool after database switch');
+    const sessionId = getSessionId(req.headers?.['x-session-id']);
+    const previous = await connectionService.getActiveDatabase(req.user, sessionId);
+    const targetDb = await connectionService.selectDatabase(req.user, sessionId, databaseId);
+    if (!targetDb) {
+      return res.status(404).json({ error: 'Database configuration not found or not available to you' });
     }
+    // Switching is also how users pick up changes on a connection, so its cached results are run again
+    if (previous) resultCacheService.invalidate(previous.id);
+    resultCacheService.invalidate(databaseId);
 
-    // Get the updated database configuration to return
-    const targetDb = await databaseService.getDefaultDatabaseConfig();
-    
-    return res.json({ 
-      success: true, 
-      message: `Switched to database: ${targetDb?.name || 'Unknown'}`, 
-      database: targetDb 
+    return res.json({
+      success: true,
+      message: `Switched to database: ${targetDb.name}`,
+      database: maskPassword(targetDb)
     });
   } catch (error) {
     console.error('Database switching error:', error);
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { getDestinationDriver } from '../services/pools';
+import { connectionService, NO_DATABASE_ACCESS } from '../services/connectionService';
+import { getSessionId } from '../services/conversationService';
+import { queryLogService } from '../services/queryLogService';
+import { databaseService } from '../services/databaseSystemService';
+import { EXPORT_CONTENT_TYPES, streamQueryExport } from '../services/exportService';
+import { checkSqlSafety } from '../utils/sqlSafety';
+import { resultLineage } from '../utils/masking';
+import { bindParameters, findParameterNames, ParameterValue, QueryParameter, resolveParameterValues } from '../utils/queryParameters';
+import type { ExportFormat } from '../utils/validators';
+
+export const exportQuery = async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const { sql, format, filename, parameters, parameterDefinitions } = req.body as {
+    sql: string;
+    format: ExportFormat;
+    filename?: string;
+    parameters?: Record<string, ParameterValue>;
+    parameterDefinitions?: QueryParameter[];
+  };
+  const userSession = req.headers['x-session-id'] as string || 'anonymous';
+  const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
+  const summary = `${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`;
+
+  try {
+    const database = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers['x-session-id']));
+    const destinationDriver = database ? getDestinationDriver(database) : null;
+
+    // Same read-only and query-policy gate as /validate-query
+    const policy = database ? await databaseService.getQueryPolicy(database.id) : null;
+    const safety = checkSqlSafety(sql, policy, destinationDriver?.dialect);
+    if (!safety.isSafe) {
+      const error = safety.violations[0].message;
+      await queryLogService.logQuery({
+        query_type: 'export',
+        natural_language_query: `Export rejected by safety policy: ${summary}`,
+        generated_sql: sql,
+        execution_status: 'validation_error',
+        execution_time_ms: Date.now() - startTime,
+        error_message: error,
+        user_session: userSession,
+        ip_address: ipAddress,
+        error_code: safety.violations[0].code,
+        database_settings_id: database?.id
+      });
+      return res.status(400).json({ error, violations: safety.violations });
+    }
+
+    const resolved = resolveParameterValues(findParameterNames(sql, destinationDriver?.dialect), parameterDefinitions, parameters);
+    if ('errors' in resolved) {
+      return res.status(400).json({ error: resolved.errors[0], parameterErrors: resolved.errors });
+    }
+
+    if (!database || !destinationDriver) {
+      return res.status(403).json({ error: NO_DATABASE_ACCESS });
+    }
+
+    const maskingRules = await databaseService.getMaskingRules(database.id);
+
+    // Client disconnects (closing the tab, aborting the download) cancel the export
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    const { contentType, extension } = EXPORT_CONTENT_TYPES[format];
+    const baseName = (filename || `export-${new Date(startTime).toISOString().replace(/[:.]/g, '-')}`).replace(/\.[^.]+$/, '');
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${extension}"`);
+
+    const bound = bindParameters(sql.trim(), resolved.values, destinationDriver.dialect);
+    const result = await streamQueryExport(destinationDriver, bound.sql, {
+      format,
+      params: bound.params.length > 0 ? bound.params : undefined,
+      output: res,
+      maskingRules,
+      lineage: resultLineage(safety.ast),
+      signal: controller.signal,
+      maxRows: policy?.maxLimit
+    });
+
+    await queryLogService.logQuery({
+      query_type: 'export',
+      natural_language_query: `${result.cancelled ? 'Export cancelled' : `Export (${format})`}: ${summary}`,
+      generated_sql: sql,
+      execution_status: result.cancelled ? 'execution_error' : 'success',
+      execution_time_ms: Date.now() - startTime,
+      error_message: result.cancelled
+        ? `Cancelled by client after ${result.rowCount} rows`
+        : result.truncated ? `Truncated to ${result.rowCount} rows by the query policy` : undefined,
+      user_session: userSession,
+      ip_address: ipAddress,
+      error_code: result.cancelled ? 'CANCELLED' : undefined,
+      database_settings_id: database.id
+    });
+    return;
+  } catch (error: any) {
+    console.error('Export failed:', error);
+    await queryLogService.logQuery({
+      query_type: 'export',
+      natural_language_query: `Export failed: ${summary}`,
+      generated_sql: sql,
+      execution_status: 'execution_error',
+      execution_time_ms: Date.now() - startTime,
+      error_message: error?.message,
+      user_session: userSession,
+      ip_address: ipAddress,
+      error_code: error?.code !== undefined ? String(error.code) : undefined
+    });
+
+    // Once data has been sent the only way to signal failure is to cut the download short
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    return res.status(error?.sqlState ? 400 : 500).json({
+      error: error?.sqlState ? error.message : 'Export failed',
+      errorCode: error?.code,
+      message: process.env.NODE_ENV === 'development' ? error?.message : undefined
+    });
+  }
+};
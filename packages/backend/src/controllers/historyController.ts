@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { queryLogService } from '../services/queryLogService';
+import { connectionService } from '../services/connectionService';
+import { historyQuerySchema } from '../utils/validators';
+
+export const listHistory = async (req: Request, res: Response) => {
+  const parse = historyQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    const details = parse.error.errors.map((err) => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${details.map((d) => `${d.field} - ${d.message}`).join(', ')}`,
+      details
+    });
+  }
+
+  try {
+    const databaseIds = await connectionService.visibleDatabaseIds(req.user);
+    const page = await queryLogService.searchHistory({ ...parse.data, databaseIds });
+    return res.json({ success: true, data: page.entries, nextCursor: page.nextCursor });
+  } catch (error) {
+    console.error('Failed to search query history:', error);
+    return res.status(500).json({ error: 'Failed to fetch query history' });
+  }
+};
+
+export const getHistoryEntry = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid history entry ID' });
+
+    const entry = await queryLogService.getHistoryEntry(id, await connectionService.visibleDatabaseIds(req.user));
+    if (!entry) return res.status(404).json({ error: 'History entry not found' });
+    return res.json({ success: true, data: entry });
+  } catch (error) {
+    console.error('Failed to get history entry:', error);
+    return res.status(500).json({ error: 'Failed to fetch history entry' });
+  }
+};
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { getDestinationDriver } from '../services/pools';
+import { connectionService, NO_DATABASE_ACCESS } from '../services/connectionService';
+import { getSessionId } from '../services/conversationService';
+import { queryLogService } from '../services/queryLogService';
+import { databaseService } from '../services/databaseSystemService';
+import { canAccessJob, isFinished, QueryJob, queryJobService } from '../services/queryJobService';
+import { checkSqlSafety } from '../utils/sqlSafety';
+import { resultLineage } from '../utils/masking';
+import { bindParameters, findParameterNames, resolveParameterValues } from '../utils/queryParameters';
+import { DEFAULT_JOB_RESULTS_PAGE_SIZE, jobResultsQuerySchema, QueryJobInput } from '../utils/validators';
+
+// Comment lines keep proxies from closing an idle event stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// The job, or a 404 when it does not exist or belongs to someone else
+const loadJob = async (req: Request, res: Response): Promise<QueryJob | null> => {
+  const job = await queryJobService.get(String(req.params.id));
+  if (!job || !canAccessJob(job, req.user)) {
+    res.status(404).json({ error: 'Query job not found' });
+    return null;
+  }
+  return job;
+};
+
+export const submitJob = async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const { sql, parameters, parameterDefinitions } = req.body as QueryJobInput;
+  const userSession = req.headers['x-session-id'] as string || 'anonymous';
+  const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
+
+  try {
+    const database = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers['x-session-id']));
+    const destinationDriver = database ? getDestinationDriver(database) : null;
+
+    // Same read-only and query-policy gate as /validate-query
+    const policy = database ? await databaseService.getQueryPolicy(database.id) : null;
+    const safety = checkSqlSafety(sql, policy, destinationDriver?.dialect);
+    if (!safety.isSafe) {
+      const error = safety.violations[0].message;
+      await queryLogService.logQuery({
+        query_type: 'job',
+        natural_language_query: `Job rejected by safety policy: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`,
+        generated_sql: sql,
+        execution_status: 'validation_error',
+        execution_time_ms: Date.now() - startTime,
+        error_message: error,
+        user_session: userSession,
+        ip_address: ipAddress,
+        error_code: safety.violations[0].code,
+        database_settings_id: database?.id
+      });
+      return res.status(400).json({ error, violations: safety.violations });
+    }
+
+    const resolved = resolveParameterValues(findParameterNames(sql, destinationDriver?.dialect), parameterDefinitions, parameters);
+    if ('errors' in resolved) {
+      return res.status(400).json({ error: resolved.errors[0], parameterErrors: resolved.errors });
+    }
+
+    if (!database || !destinationDriver) {
+      return res.status(403).json({ error: NO_DATABASE_ACCESS });
+    }
+
+    const bound = bindParameters(sql.trim(), resolved.values, destinationDriver.dialect);
+    const job = await queryJobService.submit({
+      user: req.user,
+      database,
+      sql,
+      boundSql: bound.sql,
+      params: bound.params,
+      maskingRules: await databaseService.getMaskingRules(database.id),
+      lineage: resultLineage(safety.ast),
+      maxRows: policy?.maxLimit,
+      userSession,
+      ipAddress
+    });
+    return res.status(202).json({ success: true, data: job });
+  } catch (error) {
+    console.error('Failed to submit query job:', error);
+    return res.status(500).json({ error: 'Failed to submit query job' });
+  }
+};
+
+export const listJobs = async (req: Request, res: Response) => {
+  try {
+    const jobs = await queryJobService.list(req.user?.id);
+    return res.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Failed to list query jobs:', error);
+    return res.status(500).json({ error: 'Failed to fetch query jobs' });
+  }
+};
+
+export const getJob = async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    return res.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Failed to get query job:', error);
+    return res.status(500).json({ error: 'Failed to fetch query job' });
+  }
+};
+
+export const getJobResults = async (req: Request, res: Response) => {
+  const parse = jobResultsQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    const details = parse.error.errors.map((err) => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${details.map((d) => `${d.field} - ${d.message}`).join(', ')}`,
+      details
+    });
+  }
+
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    if (job.status !== 'succeeded') {
+      return res.status(409).json({ error: `Query job is ${job.status}; results are only available once it has succeeded` });
+    }
+    const results = await queryJobService.results(job.id, parse.data.page ?? 1, parse.data.pageSize ?? DEFAULT_JOB_RESULTS_PAGE_SIZE);
+    if (!results) return res.status(404).json({ error: 'Query job results not found' });
+    return res.json({ success: true, data: { ...results, maskedColumns: job.masked_columns, truncated: job.truncated } });
+  } catch (error) {
+    console.error('Failed to read query job results:', error);
+    return res.status(500).json({ error: 'Failed to fetch query job results' });
+  }
+};
+
+/**
+ * Server-sent events with the job's state: one `status` event straight away
+ * and one per change (including progress), ending after the job finishes.
+ */
+export const streamJobEvents = async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop nginx from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let closed = false;
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    const send = (current: QueryJob) => {
+      if (closed) return;
+      res.write(`event: status\ndata: ${JSON.stringify(current)}\n\n`);
+      if (isFinished(current.status)) close();
+    };
+    const unsubscribe = queryJobService.subscribe(job.id, send);
+    req.on('close', close);
+
+    // Read again after subscribing so a change in between is not missed
+    send((await queryJobService.get(job.id)) ?? job);
+  } catch (error) {
+    console.error('Failed to stream query job events:', error);
+    if (!res.headersSent) return res.status(500).json({ error: 'Failed to stream query job events' });
+    res.end();
+  }
+};
+
+export const cancelJob = async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    if (!(await queryJobService.cancel(job.id))) {
+      return res.status(409).json({ error: 'Query job is not queued or running' });
+    }
+    return res.json({ success: true, data: await queryJobService.get(job.id) });
+  } catch (error) {
+    console.error('Failed to cancel query job:', error);
+    return res.status(500).json({ error: 'Failed to cancel query job' });
+  }
+};
+
+export const deleteJob = async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req, res);
+    if (!job) return;
+    await queryJobService.remove(job.id);
+    return res.json({ success: true, message: 'Query job deleted' });
+  } catch (error) {
+    console.error('Failed to delete query job:', error);
+    return res.status(500).json({ error: 'Failed to delete query job' });
+  }
+};
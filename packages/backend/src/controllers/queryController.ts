@@ -1,23 +1,137 @@
 import { Request, Response } from 'express';
 import aiService from '../services/aiService';
-import { getCachedRules, loadRulesFromFile, QueryPattern } from '../services/rulesService';
+import { getCachedRules, QueryPattern } from '../services/rulesService';
 import { sanitizeInput, normalizeLimitClause } from '../utils/validators';
 import { databaseService } from '../services/databaseSystemService';
 import { queryLogService } from '../services/queryLogService';
+import { checkSqlPolicy, checkSqlSafety, SqlViolation } from '../utils/sqlSafety';
+import { getDestinationDriver } from '../services/pools';
+import { connectionService, NO_DATABASE_ACCESS, PermittedDatabase } from '../services/connectionService';
+import type { DatabaseDriver } from '../services/drivers';
+import type { RepairAttempt, TokenUsage } from '../services/aiProviders';
+import type { GenerationResult } from '../services/aiService';
+import type { QueryPolicy } from '../utils/queryPolicy';
+import type { Dialect } from '../utils/dialects';
+import { conversationKey, conversationService, getSessionId } from '../services/conversationService';
+import { DEFAULT_SCHEMA_TOP_K, retrieveSchema } from '../utils/schemaRetrieval';
+import { selectProfiles } from '../utils/schemaProfile';
+import { findParameterNames, guessParameterValues, ParameterValue, QueryParameter, queryParameterSchema } from '../utils/queryParameters';
+import { resolveParameterLookups } from '../services/parameterService';
+import { estimateCost, usageService } from '../services/usageService';
 
-export const getPatterns = async (_req: Request, res: Response) => {
+// Default number of times failing AI output is sent back for repair
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+const repairAttemptsFromEnv = (): number => {
+  const configured = Number.parseInt(process.env.AI_REPAIR_ATTEMPTS ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? Math.min(configured, 5) : DEFAULT_REPAIR_ATTEMPTS;
+};
+
+const schemaTopKFromEnv = (): number => {
+  const configured = Number.parseInt(process.env.SCHEMA_RETRIEVAL_TOP_K ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_SCHEMA_TOP_K;
+};
+
+interface GenerationAttempt {
+  sql: string;
+  error: RepairAttempt['error'] | null;
+}
+
+// Query log columns for the tokens an AI generation used; cached answers record zero
+const usageLogFields = (usage: TokenUsage, model: string | undefined) => ({
+  input_tokens: usage.inputTokens,
+  output_tokens: usage.outputTokens,
+  estimated_cost: estimateCost(model, usage)
+});
+
+// Reject generated SQL that the active connection's query policy would refuse anyway
+const rejectPolicyViolations = async (
+  res: Response,
+  details: {
+    prompt: string;
+    sql: string;
+    source: string;
+    model?: string;
+    violations: SqlViolation[];
+    startTime: number;
+    userSession: string;
+    ipAddress: string;
+    databaseId: number;
+    attempts?: GenerationAttempt[];
+    usage?: TokenUsage;
+    userId?: number;
+  }
+) => {
+  const repairRounds = details.attempts ? details.attempts.length - 1 : undefined;
+  await queryLogService.logQuery({
+    query_type: 'generation',
+    natural_language_query: details.prompt,
+    generated_sql: details.sql,
+    execution_status: 'validation_error',
+    execution_time_ms: Date.now() - details.startTime,
+    error_message: details.violations[0].message,
+    user_session: details.userSession,
+    ip_address: details.ipAddress,
+    repair_rounds: repairRounds,
+    source: details.source,
+    model: details.model,
+    error_code: details.violations[0].code,
+    database_settings_id: details.databaseId,
+    user_id: details.userId,
+    ...(details.usage ? usageLogFields(details.usage, details.model) : {})
+  });
+
+  return res.status(400).json({
+    error: 'Generated query violates the query policy for this database',
+    sql: details.sql,
+    source: details.source,
+    violations: details.violations,
+    ...(details.attempts ? { attempts: details.attempts, repairRounds } : {})
+  });
+};
+
+/**
+ * EXPLAIN the query on the destination database and return the error it
+ * raised, or null when it compiles. Queries the safety gate would refuse are
+ * never sent; they are reported by the preview instead.
+ */
+const explainError = async (
+  driver: DatabaseDriver,
+  sql: string,
+  policy: QueryPolicy | null,
+  dialect: Dialect
+): Promise<RepairAttempt['error'] | null> => {
+  if (!checkSqlSafety(sql, policy, dialect).isSafe) return null;
+  try {
+    await driver.explain(sql.trim());
+    return null;
+  } catch (error: any) {
+    return {
+      ...(error?.code !== undefined ? { code: String(error.code) } : {}),
+      message: error?.message || String(error)
+    };
+  }
+};
+
+export const getPatterns = async (req: Request, res: Response) => {
   try {
-    const rules = await getCachedRules();
+    const database = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers?.['x-session-id']));
+    if (!database) {
+      return res.json({ patterns: [], schema: {}, relationships: [], total: 0 });
+    }
+
+    const rules = await getCachedRules(database.id);
     const patterns = rules.query_patterns.map((pattern) => ({
       intent: pattern.intent,
       description: pattern.description,
       keywords: pattern.keywords,
-      examples: pattern.examples || []
+      examples: pattern.examples || [],
+      parameters: pattern.parameters || []
     }));
     
-    // Get dynamic schema from the active database instead of static rules.json
-  const dynamicSchema = await databaseService.getDatabaseSchema();
-  const relationships = await databaseService.getDatabaseRelationships();
+    // Get dynamic schema from the caller's active database instead of static rules.json
+    const dynamicSchema = await databaseService.getDatabaseSchema(database.id);
+    const relationships = await databaseService.getDatabaseRelationships(database.id);
     
     return res.json({ 
       patterns, 
@@ -35,39 +149,146 @@ export const generateQuery = async (req: Request, res: Response) => {
   const startTime = Date.now();
   let generatedSql: string | null = null;
   let confidence: number | null = null;
+  let database: PermittedDatabase | null = null;
   
   try {
-    const { prompt, useAI = true } = req.body as { prompt: string; useAI?: boolean };
+    const { prompt, useAI = true, maxRepairs = repairAttemptsFromEnv(), regenerate = false } = req.body as {
+      prompt: string;
+      useAI?: boolean;
+      maxRepairs?: number;
+      regenerate?: boolean;
+    };
     
     // Extract user session and IP for logging
     const userSession = req.headers['x-session-id'] as string || 'anonymous';
     const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
+    // Earlier prompts in this session, so follow-ups can refine the last query
+    const sessionId = conversationKey(req.user, req.headers['x-session-id']);
+    const history = conversationService.getTurns(sessionId);
+    // Regenerating the latest answer replaces that turn rather than refining it
+    if (regenerate && history[history.length - 1]?.prompt === prompt) {
+      history.pop();
+      conversationService.removeLastTurn(sessionId);
+    }
+
+    // Generate against the caller's own connection
+    database = await connectionService.getActiveDatabase(req.user, sessionId);
+    if (!database) {
+      return res.status(403).json({ error: NO_DATABASE_ACCESS });
+    }
+    const databaseId = database.id;
+    const driver = getDestinationDriver(database);
+    const dialect = driver.dialect;
 
     // Load rules (cached)
-    const rules = await getCachedRules();
+    const rules = await getCachedRules(databaseId);
     
-    // Get dynamic schema from the active database
-    const dynamicSchema = await databaseService.getDatabaseSchema();
+    // Get dynamic schema and query policy from the active database
+    const dynamicSchema = await databaseService.getDatabaseSchema(databaseId);
+    const policy = await databaseService.getQueryPolicy(databaseId);
+
+    // Over a monthly budget, generation falls back to pattern matching until the month ends
+    const aiBudgetExceeded = useAI && aiService.enabled && await usageService.budgetExceeded(databaseId);
+    const aiStatus = { aiEnabled: aiService.enabled, ...(aiBudgetExceeded ? { aiBudgetExceeded } : {}) };
+
+    // Tokens of every provider call, repairs included. Kept outside the AI
+    // branch so tokens spent before a failure are still recorded
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const addUsage = (result: GenerationResult) => {
+      usage.inputTokens += result.usage?.inputTokens ?? 0;
+      usage.outputTokens += result.usage?.outputTokens ?? 0;
+    };
 
     // Try AI service first if enabled and requested
-    if (useAI && aiService.enabled) {
+    if (useAI && aiService.enabled && !aiBudgetExceeded) {
       try {
-        const aiResult = await aiService.generateQuery({ prompt, schema: dynamicSchema });
+        // Only the tables relevant to this conversation go into the prompt
+        const relationships = await databaseService.getDatabaseRelationships(databaseId);
+        const retrievalQuery = [...history.map((turn) => turn.prompt), history[history.length - 1]?.sql ?? '', prompt].join(' ');
+        const retrieval = retrieveSchema(retrievalQuery, dynamicSchema, relationships, schemaTopKFromEnv());
+        const schemaRetrieval = { totalTables: retrieval.totalTables, filtered: retrieval.filtered, tables: retrieval.tables };
+        // Sample values and ranges for those tables, so filters use values that exist
+        const [storedProfile, maskingRules] = await Promise.all([
+          databaseService.getSchemaProfile(databaseId),
+          databaseService.getMaskingRules(databaseId)
+        ]);
+        const profile = selectProfiles(storedProfile, Object.keys(retrieval.schema), maskingRules);
+
+        const request = {
+          prompt,
+          schema: retrieval.schema,
+          profile,
+          relationships: retrieval.relationships,
+          policy,
+          dialect,
+          history
+        };
+        let aiResult: GenerationResult | null = await aiService.generateQuery(request, { databaseId, regenerate });
         if (aiResult) {
-          // Normalize any malformed LIMIT clauses from AI output
-          generatedSql = normalizeLimitClause(aiResult.sql, 20, 500);
+          addUsage(aiResult);
+          const attempts: GenerationAttempt[] = [];
+
+          // Send SQL the database rejects back to the provider with the error, up to maxRepairs times
+          for (;;) {
+            // Normalize any malformed LIMIT clauses from AI output
+            generatedSql = normalizeLimitClause(aiResult.sql, 20, 500);
+            const violations = checkSqlPolicy(generatedSql, policy, dialect);
+            if (violations.length > 0) {
+              attempts.push({ sql: generatedSql, error: { code: violations[0].code, message: violations[0].message } });
+              return rejectPolicyViolations(res, {
+                prompt,
+                sql: generatedSql,
+                source: aiService.getProvider(),
+                model: aiService.getModel(),
+                violations,
+                startTime,
+                userSession,
+                ipAddress,
+                databaseId,
+                attempts,
+                usage,
+                userId: req.user?.id
+              });
+            }
+
+            const error = await explainError(driver, generatedSql, policy, dialect);
+            attempts.push({ sql: generatedSql, error });
+            if (!error || attempts.length > maxRepairs) break;
+
+            const repaired = await aiService.generateQuery({
+              ...request,
+              repairs: attempts.map((attempt) => ({ sql: attempt.sql, error: attempt.error! }))
+            }, { databaseId });
+            if (!repaired) break;
+            addUsage(repaired);
+            aiResult = repaired;
+          }
+
           confidence = aiResult.confidence;
-          
-          // Log successful AI query generation
+          const repairRounds = attempts.length - 1;
+          const usageFields = usageLogFields(usage, aiService.getModel());
+          const finalError = attempts[attempts.length - 1].error;
+
+          // Log AI query generation; SQL that still fails EXPLAIN counts as a validation error
           await queryLogService.logQuery({
+            query_type: 'generation',
             natural_language_query: prompt,
             generated_sql: generatedSql,
-            execution_status: 'success',
+            execution_status: finalError ? 'validation_error' : 'success',
             confidence_score: confidence,
             execution_time_ms: Date.now() - startTime,
+            error_message: finalError?.message,
             user_session: userSession,
-            ip_address: ipAddress
+            ip_address: ipAddress,
+            repair_rounds: repairRounds,
+            source: aiService.getProvider(),
+            model: aiService.getModel(),
+            error_code: finalError?.code,
+            database_settings_id: databaseId,
+            user_id: req.user?.id,
+            ...usageFields
           });
+          conversationService.addTurn(sessionId, { prompt, sql: generatedSql, reasoning: aiResult.reasoning });
           
           return res.json({
             sql: generatedSql,
@@ -80,10 +301,34 @@ export const generateQuery = async (req: Request, res: Response) => {
               description: aiResult.reasoning,
               keywords: []
             },
-            extractedValues: []
+            extractedValues: [],
+            attempts,
+            repairRounds,
+            schemaRetrieval,
+            cache: { hit: Boolean(aiResult.cachedAt), cachedAt: aiResult.cachedAt?.toISOString() ?? null },
+            usage: { ...usage, estimatedCost: usageFields.estimated_cost }
+          });
+        }
+      } catch (error: any) {
+        // Tokens already spent still count towards usage and budgets
+        if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+          await queryLogService.logQuery({
+            query_type: 'generation',
+            natural_language_query: prompt,
+            generated_sql: generatedSql || undefined,
+            execution_status: 'execution_error',
+            execution_time_ms: Date.now() - startTime,
+            error_message: error?.message,
+            user_session: userSession,
+            ip_address: ipAddress,
+            source: aiService.getProvider(),
+            model: aiService.getModel(),
+            error_code: 'AI_GENERATION_FAILED',
+            database_settings_id: databaseId,
+            user_id: req.user?.id,
+            ...usageLogFields(usage, aiService.getModel())
           });
         }
-      } catch {
         // fallthrough to pattern matching
       }
     }
@@ -114,43 +359,63 @@ export const generateQuery = async (req: Request, res: Response) => {
     if (!bestMatch.pattern || bestMatch.score === 0) {
       // Log failed pattern matching
       await queryLogService.logQuery({
+        query_type: 'generation',
         natural_language_query: prompt,
         execution_status: 'validation_error',
         execution_time_ms: Date.now() - startTime,
         error_message: 'Could not find a matching query pattern for the prompt',
         user_session: userSession,
-        ip_address: ipAddress
+        ip_address: ipAddress,
+        source: 'pattern_matching',
+        error_code: 'NO_MATCHING_PATTERN',
+        database_settings_id: databaseId,
+        user_id: req.user?.id
       });
       
-      const rulesFromFile = await loadRulesFromFile();
       return res.status(404).json({
         error: 'Could not find a matching query pattern for the prompt.',
         suggestion:
-          'Try rephrasing your query or use keywords like: ' + rulesFromFile.query_patterns.flatMap((p) => p.keywords).slice(0, 5).join(', '),
-        availablePatterns: rulesFromFile.query_patterns
+          'Try rephrasing your query or use keywords like: ' + rules.query_patterns.flatMap((p) => p.keywords).slice(0, 5).join(', '),
+        availablePatterns: rules.query_patterns
           .map((p) => ({ description: p.description, keywords: p.keywords.slice(0, 3) }))
           .slice(0, 3),
-        aiEnabled: aiService.enabled
+        ...aiStatus
       });
     }
 
     let finalSql = bestMatch.pattern.template;
+    const matchedKeywords = new Set(bestMatch.pattern.keywords);
+    const availableValues = promptWords.filter(
+      (word) => !matchedKeywords.has(word) && word.length > 1 && !['the', 'and', 'or', 'in', 'at', 'to', 'for', 'of', 'with', 'by'].includes(word)
+    );
+    const parameterNames = findParameterNames(bestMatch.pattern.template, dialect);
     const templatePlaceholders = (bestMatch.pattern.template.match(/\?/g) || []).length;
-    if (templatePlaceholders > 0) {
-      const matchedKeywords = new Set(bestMatch.pattern.keywords);
-      const availableValues = promptWords.filter(
-        (word) => !matchedKeywords.has(word) && word.length > 1 && !['the', 'and', 'or', 'in', 'at', 'to', 'for', 'of', 'with', 'by'].includes(word)
-      );
+    let parameters: QueryParameter[] | undefined;
+    let parameterValues: Record<string, ParameterValue> | undefined;
+    if (parameterNames.length > 0) {
+      // Named parameters stay in the SQL and are bound when it runs; the client shows a form for them
+      const definitions = parameterNames.map((name) => {
+        const parsed = queryParameterSchema.safeParse(bestMatch.pattern?.parameters?.find((p) => p.name === name));
+        return parsed.success ? parsed.data : { name, type: 'string' as const, required: true };
+      });
+      parameters = await resolveParameterLookups(driver, definitions, databaseId);
+      parameterValues = guessParameterValues(parameters, prompt, availableValues);
+    } else if (templatePlaceholders > 0) {
       if (availableValues.length === 0) {
         // Log failed value extraction
         await queryLogService.logQuery({
+          query_type: 'generation',
           natural_language_query: prompt,
           generated_sql: bestMatch.pattern.template,
           execution_status: 'validation_error',
           execution_time_ms: Date.now() - startTime,
           error_message: 'Could not extract a value from the prompt to complete the query',
           user_session: userSession,
-          ip_address: ipAddress
+          ip_address: ipAddress,
+          source: 'pattern_matching',
+          error_code: 'MISSING_VALUE',
+          database_settings_id: databaseId,
+          user_id: req.user?.id
         });
         
         return res.status(400).json({
@@ -158,7 +423,7 @@ export const generateQuery = async (req: Request, res: Response) => {
           template: bestMatch.pattern.template,
           keywords: bestMatch.pattern.keywords,
           suggestion: 'Try including specific values like state names, categories, or IDs in your query.',
-          aiEnabled: aiService.enabled
+          ...aiStatus
         });
       }
       let valueIndex = 0;
@@ -167,17 +432,29 @@ export const generateQuery = async (req: Request, res: Response) => {
 
     generatedSql = finalSql;
     confidence = Math.min(bestMatch.score / bestMatch.pattern.keywords.length, 1);
+
+    const violations = checkSqlPolicy(generatedSql, policy, dialect);
+    if (violations.length > 0) {
+      return rejectPolicyViolations(res, {
+        prompt, sql: generatedSql, source: 'pattern_matching', violations, startTime, userSession, ipAddress, databaseId, userId: req.user?.id
+      });
+    }
     
     // Log successful pattern matching
     await queryLogService.logQuery({
+      query_type: 'generation',
       natural_language_query: prompt,
       generated_sql: generatedSql,
       execution_status: 'success',
       confidence_score: confidence,
       execution_time_ms: Date.now() - startTime,
       user_session: userSession,
-      ip_address: ipAddress
+      ip_address: ipAddress,
+      source: 'pattern_matching',
+      database_settings_id: databaseId,
+      user_id: req.user?.id
     });
+    conversationService.addTurn(sessionId, { prompt, sql: finalSql, reasoning: bestMatch.pattern.description });
 
     return res.json({
       sql: finalSql,
@@ -189,7 +466,8 @@ export const generateQuery = async (req: Request, res: Response) => {
         keywords: bestMatch.pattern.keywords
       },
       extractedValues: bestMatch.extractedValues,
-      aiEnabled: aiService.enabled
+      ...(parameters ? { parameters, parameterValues } : {}),
+      ...aiStatus
     });
   } catch (error: any) {
     // Log internal server error
@@ -197,25 +475,47 @@ export const generateQuery = async (req: Request, res: Response) => {
     const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
     
     await queryLogService.logQuery({
+      query_type: 'generation',
       natural_language_query: req.body?.prompt || 'unknown',
       generated_sql: generatedSql || undefined,
       execution_status: 'execution_error',
       execution_time_ms: Date.now() - startTime,
       error_message: error.message,
       user_session: userSession,
-      ip_address: ipAddress
+      ip_address: ipAddress,
+      error_code: error.code !== undefined ? String(error.code) : 'INTERNAL_ERROR',
+      database_settings_id: database?.id,
+      user_id: req.user?.id
     });
     
     return res.status(500).json({ error: 'Internal server error while generating query', message: process.env.NODE_ENV === 'development' ? error.message : undefined });
   }
 };
 
+export const getConversation = async (req: Request, res: Response) => {
+  const sessionId = conversationKey(req.user, req.headers['x-session-id']);
+  if (!sessionId) {
+    return res.status(400).json({ error: 'X-Session-Id header is required' });
+  }
+  return res.json({ turns: conversationService.getTurns(sessionId) });
+};
+
+export const clearConversation = async (req: Request, res: Response) => {
+  const sessionId = conversationKey(req.user, req.headers['x-session-id']);
+  if (!sessionId) {
+    return res.status(400).json({ error: 'X-Session-Id header is required' });
+  }
+  conversationService.clear(sessionId);
+  return res.json({ success: true, turns: [] });
+};
+
 export const getQueryLogs = async (req: Request, res: Response) => {
   try {
     const { limit = 100, offset = 0 } = req.query;
     const logs = await queryLogService.getQueryLogs(
       Math.min(Number(limit), 1000), // Cap at 1000 for performance
-      Number(offset)
+      Number(offset),
+      await connectionService.visibleDatabaseIds(req.user)
     );
     
     return res.json({
@@ -232,3 +532,19 @@ export const getQueryLogs = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Allowed values for parameters defined with a lookup query, e.g. when a saved query is opened
+export const resolveParameters = async (req: Request, res: Response) => {
+  try {
+    const { parameters } = req.body as { parameters: QueryParameter[] };
+    const database = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers['x-session-id']));
+    if (!database) {
+      return res.status(403).json({ error: NO_DATABASE_ACCESS });
+    }
+    const resolved = await resolveParameterLookups(getDestinationDriver(database), parameters, database.id);
+    return res.json({ success: true, data: resolved });
+  } catch (error: any) {
+    console.error('Failed to resolve parameter lookups:', error);
+    return res.status(500).json({ error: 'Failed to resolve parameter values' });
+  }
+};
@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { SavedQuery, savedQueryService } from '../services/savedQueryService';
+import { connectionService } from '../services/connectionService';
+import { getSessionId } from '../services/conversationService';
+import { hasRole } from '../services/userService';
+import type { AuthenticatedUser } from '../middleware/auth';
+import type { SavedQueryInput, SavedQueryUpdate } from '../utils/validators';
+
+const NOT_FOUND = 'Saved query not found';
+const CONNECTION_NOT_AVAILABLE = 'Database connection not found or not available to you';
+
+const queryParam = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+// Undefined (admins) may use every connection; a query tied to none is visible to all
+const mayUseConnection = (databaseIds: number[] | undefined, databaseId: number | null | undefined): boolean =>
+  databaseIds === undefined || databaseId === null || databaseId === undefined || databaseIds.includes(databaseId);
+
+// Only the author may change a query; admins may change any, including ones saved before authors were recorded
+const mayChange = (user: AuthenticatedUser | undefined, query: SavedQuery): boolean =>
+  user !== undefined && (hasRole(user.role, 'admin') || query.created_by === user.id);
+
+// The anonymous admin of AUTH_DISABLED=true has no account to own queries
+const ownerId = (user: AuthenticatedUser | undefined): number | null => (user && user.id > 0 ? user.id : null);
+
+/** The saved query, or null when it does not exist or its connection is not the caller's to use */
+const findVisible = async (req: Request, id: number): Promise<SavedQuery | null> => {
+  const query = await savedQueryService.get(id);
+  if (!query) return null;
+  return mayUseConnection(await connectionService.visibleDatabaseIds(req.user), query.database_settings_id) ? query : null;
+};
+
+export const listSavedQueries = async (req: Request, res: Response) => {
+  try {
+    const queries = await savedQueryService.list({
+      search: queryParam(req.query.search),
+      folder: queryParam(req.query.folder),
+      tag: queryParam(req.query.tag),
+      databaseIds: await connectionService.visibleDatabaseIds(req.user)
+    });
+    return res.json({ success: true, data: queries });
+  } catch (error) {
+    console.error('Failed to list saved queries:', error);
+    return res.status(500).json({ error: 'Failed to fetch saved queries' });
+  }
+};
+
+export const getSavedQuery = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid saved query ID' });
+
+    const query = await findVisible(req, id);
+    if (!query) return res.status(404).json({ error: NOT_FOUND });
+    return res.json({ success: true, data: query });
+  } catch (error) {
+    console.error('Failed to get saved query:', error);
+    return res.status(500).json({ error: 'Failed to fetch saved query' });
+  }
+};
+
+export const createSavedQuery = async (req: Request, res: Response) => {
+  try {
+    const input = req.body as SavedQueryInput;
+    // Queries are saved against the caller's active connection unless the client says otherwise
+    if (input.database_settings_id === undefined) {
+      const current = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers?.['x-session-id']));
+      input.database_settings_id = current?.id ?? null;
+    } else if (!mayUseConnection(await connectionService.visibleDatabaseIds(req.user), input.database_settings_id)) {
+      return res.status(403).json({ error: CONNECTION_NOT_AVAILABLE });
+    }
+    const query = await savedQueryService.create(input, ownerId(req.user));
+    return res.status(201).json({ success: true, data: query });
+  } catch (error) {
+    console.error('Failed to save query:', error);
+    return res.status(500).json({ error: 'Failed to save query' });
+  }
+};
+
+export const updateSavedQuery = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid saved query ID' });
+
+    const existing = await findVisible(req, id);
+    if (!existing) return res.status(404).json({ error: NOT_FOUND });
+    if (!mayChange(req.user, existing)) {
+      return res.status(403).json({ error: 'Only the author of a saved query or an admin can change it' });
+    }
+    const changes = req.body as SavedQueryUpdate;
+    if (!mayUseConnection(await connectionService.visibleDatabaseIds(req.user), changes.database_settings_id)) {
+      return res.status(403).json({ error: CONNECTION_NOT_AVAILABLE });
+    }
+
+    const query = await savedQueryService.update(id, changes);
+    if (!query) return res.status(404).json({ error: NOT_FOUND });
+    return res.json({ success: true, data: query });
+  } catch (error) {
+    console.error('Failed to update saved query:', error);
+    return res.status(500).json({ error: 'Failed to update saved query' });
+  }
+};
+
+export const deleteSavedQuery = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid saved query ID' });
+
+    const existing = await findVisible(req, id);
+    if (!existing) return res.status(404).json({ error: NOT_FOUND });
+    if (!mayChange(req.user, existing)) {
+      return res.status(403).json({ error: 'Only the author of a saved query or an admin can delete it' });
+    }
+
+    const deleted = await savedQueryService.remove(id);
+    if (!deleted) return res.status(404).json({ error: NOT_FOUND });
+    return res.json({ success: true, message: 'Saved query deleted' });
+  } catch (error) {
+    console.error('Failed to delete saved query:', error);
+    return res.status(500).json({ error: 'Failed to delete saved query' });
+  }
+};
+
+export const duplicateSavedQuery = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid saved query ID' });
+
+    // The copy belongs to whoever made it
+    const copy = (await findVisible(req, id)) ? await savedQueryService.duplicate(id, ownerId(req.user)) : null;
+    if (!copy) return res.status(404).json({ error: NOT_FOUND });
+    return res.status(201).json({ success: true, data: copy });
+  } catch (error) {
+    console.error('Failed to duplicate saved query:', error);
+    return res.status(500).json({ error: 'Failed to duplicate saved query' });
+  }
+};
@@ -2,10 +2,94 @@ import { Request, Response } from 'express';
 import aiService, { AIServiceConfig } from '../services/aiService';
 import databaseService, { DatabaseConfig, AISettingsDB } from '../services/databaseSystemService';
 import { getCachedRules, upsertRulesToDatabase, upsertSchemaToDatabase, updateSchemaInDatabase, loadRulesFromDatabase, loadSchemaFromDatabase, clearCachedRules } from '../services/rulesService';
-import { recreateDestinationPool } from '../index';
+import profilingService from '../services/profilingService';
+import { auditService } from '../services/auditService';
+import { closeDestinationDrivers } from '../services/pools';
+import { resultCacheService } from '../services/resultCacheService';
+import { generationCacheService } from '../services/generationCacheService';
 import { requireNonSandboxMode, getSandboxStatus } from '../utils/sandbox';
+import { queryPolicySchema, QueryPolicy } from '../utils/queryPolicy';
+import { maskingRulesSchema } from '../utils/masking';
+import { DEFAULT_PORTS, isDialect, normalizeDialect } from '../utils/dialects';
+import { createDriver } from '../services/drivers';
+import { resultCacheSettingsSchema } from '../utils/validators';
 
 
+const MISSING_DATABASE_FIELDS = 'Missing required fields: host, port, database_name, username are required';
+
+// Connection settings from a request body; SQLite only needs database_name (the file)
+const parseDatabaseBody = (body: any): { config: Omit<DatabaseConfig, 'id'> } | { error: string } => {
+  const { name, dialect = 'mysql', host, port, database_name, username, password, ssl_enabled } = body ?? {};
+  if (!isDialect(dialect)) {
+    return { error: `Unsupported database dialect: ${dialect}` };
+  }
+  if (dialect === 'sqlite' ? !database_name : !host || !port || !database_name || !username) {
+    return { error: MISSING_DATABASE_FIELDS };
+  }
+  return {
+    config: {
+      name: name || 'Custom Configuration',
+      dialect,
+      host: host || '',
+      port: port ? parseInt(port) : DEFAULT_PORTS[dialect],
+      database_name,
+      username: username || '',
+      password: password || '',
+      ssl_enabled: ssl_enabled || false,
+      is_active: true,
+      is_default: true
+    }
+  };
+};
+
+// The fields a database save can change, typed the same way whether read back or submitted
+const auditedDatabase = (db: Omit<DatabaseConfig, 'id'>) => ({
+  name: db.name,
+  dialect: normalizeDialect(db.dialect),
+  host: db.host,
+  port: Number(db.port),
+  database_name: db.database_name,
+  username: db.username,
+  password: db.password,
+  ssl_enabled: Boolean(db.ssl_enabled),
+  is_active: Boolean(db.is_active),
+  is_default: Boolean(db.is_default)
+});
+
+// Rows read back use column names (api_key, max_tokens); submitted settings use AIConfig's
+const auditedAISettings = (settings: Record<string, any> | null) => settings && ({
+  name: settings.name,
+  enabled: Boolean(settings.enabled),
+  apiKey: settings.apiKey ?? settings.api_key ?? '',
+  model: settings.model,
+  temperature: Number(settings.temperature),
+  maxTokens: Number(settings.maxTokens ?? settings.max_tokens)
+});
+
+// Connections are upserted by name, so the name decides whether this creates or updates one
+const saveDatabaseConfig = async (req: Request, config: Omit<DatabaseConfig, 'id'>): Promise<void> => {
+  const existing = (await databaseService.getDatabaseConfigs()).find((db) => db.name === config.name) ?? null;
+  const insertId = await databaseService.upsertDatabaseConfig(config);
+  // Open connections reconnect with the new settings on next use, and cached results may come from the old ones
+  await closeDestinationDrivers();
+  resultCacheService.invalidate();
+  await auditService.record(req.user, req.ip, {
+    action: existing ? 'update' : 'create',
+    entity_type: 'database',
+    entity_id: existing?.id ?? insertId,
+    before: existing && auditedDatabase(existing),
+    after: auditedDatabase(config)
+  });
+};
+
+// Schema and rules edits apply to the default connection
+const defaultDatabaseId = async () => (await databaseService.getDefaultDatabaseConfig())?.id ?? null;
+
+// Generations made against the old schema or rules should not be served again
+const invalidateGenerations = async (databaseId: number | null) => {
+  await generationCacheService.invalidate(databaseId ?? undefined);
+};
+
 export const getSettings = async (_req: Request, res: Response) => {
   try {
     const rules = await getCachedRules();
@@ -33,6 +117,7 @@ export const getSettings = async (_req: Request, res: Response) => {
       rules,
       database: defaultDbConfig || {
         name: 'Default',
+        dialect: 'mysql',
         host: 'localhost',
         port: 3306,
         database_name: 'sakila',
@@ -57,22 +142,11 @@ export const getSettings = async (_req: Request, res: Response) => {
 export const upsertDatabase = async (req: Request, res: Response) => {
   try {
     requireNonSandboxMode();
-    const { name, host, port, database_name, username, password, ssl_enabled } = req.body;
-    if (!host || !port || !database_name || !username) {
-      return res.status(400).json({ error: 'Missing required fields: host, port, database_name, username are required' });
+    const parsed = parseDatabaseBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
-    const dbConfig: Omit<DatabaseConfig, 'id'> = {
-      name: name || 'Custom Configuration',
-      host,
-      port: parseInt(port),
-      database_name,
-      username,
-      password: password || '',
-      ssl_enabled: ssl_enabled || false,
-      is_active: true,
-      is_default: true
-    };
-    await databaseService.upsertDatabaseConfig(dbConfig);
+    await saveDatabaseConfig(req, parsed.config);
     return res.json({ success: true, message: 'Database configuration created successfully' });
   } catch (error) {
     console.error('Failed to upsert database config:', error);
@@ -88,7 +162,13 @@ export const createSchema = async (req: Request, res: Response) => {
     if (!schema || typeof schema !== 'object') {
       return res.status(400).json({ error: 'Schema is required and must be an object' });
     }
+    const before = await loadSchemaFromDatabase();
     await upsertSchemaToDatabase(schema);
+    const databaseId = await defaultDatabaseId();
+    await invalidateGenerations(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'create', entity_type: 'schema', entity_id: databaseId, before, after: schema
+    });
     return res.json({ success: true, message: 'Schema configuration created successfully', tables: Object.keys(schema).length });
   } catch (error) {
     console.error('Failed to create schema config:', error);
@@ -103,7 +183,13 @@ export const updateSchema = async (req: Request, res: Response) => {
     if (!schema || typeof schema !== 'object') {
       return res.status(400).json({ error: 'Schema is required and must be an object' });
     }
+    const before = await loadSchemaFromDatabase();
     await updateSchemaInDatabase(schema);
+    const databaseId = await defaultDatabaseId();
+    await invalidateGenerations(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'schema', entity_id: databaseId, before, after: schema
+    });
     return res.json({ success: true, message: 'Schema configuration updated successfully', tables: Object.keys(schema).length });
   } catch (error) {
     console.error('Failed to update schema config:', error);
@@ -118,7 +204,13 @@ export const createRules = async (req: Request, res: Response) => {
     if (!schema || !query_patterns || !Array.isArray(query_patterns)) {
       return res.status(400).json({ error: 'Both schema and query_patterns (array) are required' });
     }
+    const before = await loadRulesFromDatabase();
     await upsertRulesToDatabase({ schema, query_patterns });
+    const databaseId = await defaultDatabaseId();
+    await invalidateGenerations(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'create', entity_type: 'rules', entity_id: databaseId, before, after: { schema, query_patterns }
+    });
     return res.json({ success: true, message: 'Rules configuration created successfully', patterns: query_patterns.length, tables: Object.keys(schema).length });
   } catch (error) {
     console.error('Failed to create rules config:', error);
@@ -132,7 +224,13 @@ export const updateRules = async (req: Request, res: Response) => {
     const { schema, query_patterns } = req.body;
     if (!schema || !query_patterns) return res.status(400).json({ error: 'Both schema and query_patterns are required' });
     if (!Array.isArray(query_patterns)) return res.status(400).json({ error: 'query_patterns must be an array' });
+    const before = await loadRulesFromDatabase();
     await upsertRulesToDatabase({ schema, query_patterns });
+    const databaseId = await defaultDatabaseId();
+    await invalidateGenerations(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'rules', entity_id: databaseId, before, after: { schema, query_patterns }
+    });
     return res.json({ success: true, message: 'Rules configuration updated successfully', patterns: query_patterns.length, tables: Object.keys(schema).length });
   } catch (error) {
     console.error('Failed to update rules config:', error);
@@ -143,22 +241,11 @@ export const updateRules = async (req: Request, res: Response) => {
 export const updateDatabase = async (req: Request, res: Response) => {
   try {
     requireNonSandboxMode();
-    const { name, host, port, database_name, username, password, ssl_enabled } = req.body;
-    if (!host || !port || !database_name || !username) {
-      return res.status(400).json({ error: 'Missing required fields: host, port, database_name, username are required' });
+    const parsed = parseDatabaseBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
-    const dbConfig: Omit<DatabaseConfig, 'id'> = {
-      name: name || 'Custom Configuration',
-      host,
-      port: parseInt(port),
-      database_name,
-      username,
-      password: password || '',
-      ssl_enabled: ssl_enabled || false,
-      is_active: true,
-      is_default: true
-    };
-    await databaseService.upsertDatabaseConfig(dbConfig);
+    await saveDatabaseConfig(req, parsed.config);
     return res.json({ success: true, message: 'Database configuration updated successfully' });
   } catch (error) {
     console.error('Failed to update database config:', error);
@@ -170,20 +257,11 @@ export const updateDatabase = async (req: Request, res: Response) => {
 export const createDatabase = async (req: Request, res: Response) => {
   try {
     requireNonSandboxMode();
-    const { name, host, port, database_name, username, password, ssl_enabled } = req.body;
-    if (!host || !port || !database_name || !username) return res.status(400).json({ error: 'Missing required fields: host, port, database_name, username are required' });
-    const dbConfig: Omit<DatabaseConfig, 'id'> = {
-      name: name || 'Custom Configuration',
-      host,
-      port: parseInt(port),
-      database_name,
-      username,
-      password: password || '',
-      ssl_enabled: ssl_enabled || false,
-      is_active: true,
-      is_default: true
-    };
-    await databaseService.upsertDatabaseConfig(dbConfig);
+    const parsed = parseDatabaseBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    await saveDatabaseConfig(req, parsed.config);
     return res.json({ success: true, message: 'Database configuration created successfully' });
   } catch (error) {
     console.error('Failed to create database config:', error);
@@ -194,19 +272,23 @@ export const createDatabase = async (req: Request, res: Response) => {
 export const testDatabase = async (req: Request, res: Response) => {
   try {
     const { host, port, database, username, password, ssl } = req.body;
-    const connectionUrl = `mysql://${username}:${password || ''}@${host}:${port}/${database}${ssl ? '?ssl=true' : ''}`;
-    const mysql = await import('mysql2/promise');
-    let testPool: any = null;
+    const dialect = normalizeDialect(req.body.dialect);
+    const driver = createDriver({
+      dialect,
+      host,
+      port: port ? parseInt(port) : DEFAULT_PORTS[dialect],
+      database_name: database,
+      username,
+      password: password || '',
+      ssl_enabled: Boolean(ssl)
+    }, 1);
     try {
-      testPool = mysql.createPool(connectionUrl);
-      const connection = await testPool.getConnection();
-      await connection.ping();
-      connection.release();
+      await driver.ping();
       return res.json({ success: true, message: 'Database connection successful' });
     } catch (dbError: any) {
       return res.json({ success: false, error: `Connection failed: ${dbError.message}` });
     } finally {
-      if (testPool) await testPool.end();
+      await driver.close().catch(() => undefined);
     }
   } catch {
     return res.status(500).json({ success: false, error: 'Failed to test database connection' });
@@ -224,7 +306,12 @@ export const updateAI = async (req: Request, res: Response) => {
       if (typeof maxTokens !== 'number' || maxTokens < 1 || maxTokens > 4000) return res.status(400).json({ error: 'Max tokens must be a number between 1 and 4000' });
     }
     const aiSettings: Omit<AISettingsDB, 'id'> = { name: name || 'Custom Configuration', enabled, apiKey, model, temperature, maxTokens, is_active: true, is_default: true };
+    const before = await databaseService.getDefaultAISettings();
     await databaseService.saveAISettings(aiSettings);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'ai_settings', entity_id: aiSettings.name,
+      before: auditedAISettings(before), after: auditedAISettings(aiSettings)
+    });
     // Note: Legacy updateAI endpoint - use updateAIConfig for unified AI service
     return res.json({ success: true, message: 'AI configuration updated successfully' });
   } catch (error) {
@@ -320,19 +407,24 @@ export const switchDatabase = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Valid database ID is required' });
     }
     
+    // The default is used by users who have not picked a connection of their own
+    const previous = await databaseService.getDefaultDatabaseConfig();
     const success = await databaseService.switchDefaultDatabase(parseInt(databaseId));
     if (success) {
       // Clear cached rules so they reload from the new database
       clearCachedRules();
-      
-      // Recreate destination pool to connect to the new database
-      const poolRecreated = await recreateDestinationPool();
-      if (!poolRecreated) {
-        console.warn('Failed to recreate destination pool after database switch');
-      }
+      // Results cached for either connection are run again
+      if (previous?.id !== undefined) resultCacheService.invalidate(previous.id);
+      resultCacheService.invalidate(parseInt(databaseId));
       
       // Get the new database configuration
       const newDbConfig = await databaseService.getDefaultDatabaseConfig();
+      await auditService.record(req.user, req.ip, {
+        action: 'switch',
+        entity_type: 'default_database',
+        before: previous && { id: previous.id, name: previous.name },
+        after: newDbConfig && { id: newDbConfig.id, name: newDbConfig.name }
+      });
       
       return res.json({ 
         success: true, 
@@ -348,18 +440,220 @@ export const switchDatabase = async (req: Request, res: Response) => {
   }
 };
 
+export const getQueryPolicy = async (req: Request, res: Response) => {
+  try {
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    const policy = await databaseService.getQueryPolicy(databaseId);
+    return res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Failed to get query policy:', error);
+    return res.status(500).json({ error: 'Failed to fetch query policy' });
+  }
+};
+
+export const updateQueryPolicy = async (req: Request, res: Response) => {
+  try {
+    requireNonSandboxMode();
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+
+    const { policy } = req.body as { policy: unknown };
+    let parsedPolicy: QueryPolicy | null = null;
+    if (policy !== null && policy !== undefined) {
+      const parse = queryPolicySchema.safeParse(policy);
+      if (!parse.success) {
+        return res.status(400).json({
+          error: 'Invalid query policy',
+          details: parse.error.errors.map(err => ({ field: err.path.join('.') || 'policy', message: err.message }))
+        });
+      }
+      parsedPolicy = parse.data;
+    }
+
+    const before = await databaseService.getQueryPolicy(databaseId);
+    const updated = await databaseService.updateQueryPolicy(databaseId, parsedPolicy);
+    if (!updated) {
+      return res.status(404).json({ error: 'Database configuration not found' });
+    }
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'query_policy', entity_id: databaseId, before, after: parsedPolicy
+    });
+    return res.json({ success: true, message: 'Query policy updated successfully', data: parsedPolicy });
+  } catch (error) {
+    console.error('Failed to update query policy:', error);
+    return res.status(500).json({ error: 'Failed to update query policy' });
+  }
+};
+
+export const getMaskingRules = async (req: Request, res: Response) => {
+  try {
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    const rules = await databaseService.getMaskingRules(databaseId);
+    return res.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Failed to get masking rules:', error);
+    return res.status(500).json({ error: 'Failed to fetch masking rules' });
+  }
+};
+
+export const updateMaskingRules = async (req: Request, res: Response) => {
+  try {
+    requireNonSandboxMode();
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+
+    const parse = maskingRulesSchema.safeParse(req.body?.rules ?? []);
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'Invalid masking rules',
+        details: parse.error.errors.map(err => ({ field: err.path.join('.') || 'rules', message: err.message }))
+      });
+    }
+
+    const before = await databaseService.getMaskingRules(databaseId);
+    const updated = await databaseService.updateMaskingRules(databaseId, parse.data);
+    if (!updated) {
+      return res.status(404).json({ error: 'Database configuration not found' });
+    }
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'masking_rules', entity_id: databaseId, before, after: parse.data
+    });
+    return res.json({ success: true, message: 'Masking rules updated successfully', data: parse.data });
+  } catch (error) {
+    console.error('Failed to update masking rules:', error);
+    return res.status(500).json({ error: 'Failed to update masking rules' });
+  }
+};
+
+export const getResultCacheSettings = async (req: Request, res: Response) => {
+  try {
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    const ttlSeconds = await databaseService.getResultCacheTtl(databaseId);
+    return res.json({ success: true, data: { ttlSeconds, ...resultCacheService.stats(databaseId) } });
+  } catch (error) {
+    console.error('Failed to get result cache settings:', error);
+    return res.status(500).json({ error: 'Failed to fetch result cache settings' });
+  }
+};
+
+export const updateResultCacheSettings = async (req: Request, res: Response) => {
+  try {
+    requireNonSandboxMode();
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+
+    const parse = resultCacheSettingsSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'Invalid result cache settings',
+        details: parse.error.errors.map(err => ({ field: err.path.join('.') || 'ttlSeconds', message: err.message }))
+      });
+    }
+
+    const before = await databaseService.getResultCacheTtl(databaseId);
+    const updated = await databaseService.updateResultCacheTtl(databaseId, parse.data.ttlSeconds);
+    if (!updated) {
+      return res.status(404).json({ error: 'Database configuration not found' });
+    }
+    // Entries stored under the old TTL would otherwise outlive the new one
+    resultCacheService.invalidate(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'result_cache', entity_id: databaseId,
+      before: { ttlSeconds: before }, after: { ttlSeconds: parse.data.ttlSeconds }
+    });
+    return res.json({ success: true, message: 'Result cache settings updated successfully', data: parse.data });
+  } catch (error) {
+    console.error('Failed to update result cache settings:', error);
+    return res.status(500).json({ error: 'Failed to update result cache settings' });
+  }
+};
+
+// Empties the result cache of one connection (?databaseId=) or of all of them
+export const purgeResultCache = async (req: Request, res: Response) => {
+  try {
+    const databaseId = req.query.databaseId !== undefined ? parseInt(String(req.query.databaseId)) : undefined;
+    if (databaseId !== undefined && isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    const removed = resultCacheService.invalidate(databaseId);
+    await auditService.record(req.user, req.ip, {
+      action: 'purge', entity_type: 'result_cache', entity_id: databaseId ?? null, before: null, after: { removed }
+    });
+    return res.json({ success: true, message: 'Result cache purged', data: { removed } });
+  } catch (error) {
+    console.error('Failed to purge result cache:', error);
+    return res.status(500).json({ error: 'Failed to purge result cache' });
+  }
+};
+
+export const getSchemaProfile = async (req: Request, res: Response) => {
+  try {
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    const profile = await databaseService.getSchemaProfile(databaseId);
+    return res.json({ success: true, data: profile, ...profilingService.status(databaseId) });
+  } catch (error) {
+    console.error('Failed to get schema profile:', error);
+    return res.status(500).json({ error: 'Failed to fetch schema profile' });
+  }
+};
+
+// Profiling reads a sample of every table, so it runs in the background; poll the GET endpoint
+export const startSchemaProfile = async (req: Request, res: Response) => {
+  try {
+    requireNonSandboxMode();
+    const databaseId = parseInt(req.params.databaseId);
+    if (isNaN(databaseId)) {
+      return res.status(400).json({ error: 'Valid database ID is required' });
+    }
+    if (!(await databaseService.getDatabaseConfig(databaseId))) {
+      return res.status(404).json({ error: 'Database configuration not found' });
+    }
+
+    const started = profilingService.start(databaseId);
+    return res.status(202).json({
+      success: true,
+      message: started ? 'Profiling started' : 'Profiling is already running',
+      running: true
+    });
+  } catch (error) {
+    console.error('Failed to start schema profiling:', error);
+    return res.status(500).json({ error: 'Failed to start schema profiling' });
+  }
+};
+
 // AI Provider Management
 export const getAIConfig = async (_req: Request, res: Response) => {
   try {
     const config = aiService.getConfig();
+    const providers = aiService.listProviders();
+    const availableModels: Record<string, string[]> = {};
+    for (const provider of providers) {
+      availableModels[provider.id] = await aiService.getAvailableModels(provider.id);
+    }
     return res.json({ 
       success: true, 
       data: {
         ...config,
-        available_models: {
-          openai: aiService.getAvailableModels('openai'),
-          anthropic: aiService.getAvailableModels('anthropic')
-        }
+        providers,
+        available_models: availableModels
       }
     });
   } catch (error) {
@@ -368,16 +662,30 @@ export const getAIConfig = async (_req: Request, res: Response) => {
   }
 };
 
+export const getAIProviders = async (_req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, data: aiService.listProviders(), current: aiService.getProvider() });
+  } catch (error) {
+    console.error('Failed to list AI providers:', error);
+    return res.status(500).json({ error: 'Failed to list AI providers' });
+  }
+};
+
 export const updateAIProvider = async (req: Request, res: Response) => {
   try {
     requireNonSandboxMode();
-    const { provider } = req.body as { provider: 'openai' | 'anthropic' };
+    const { provider } = req.body as { provider: string };
     
-    if (!provider || (provider !== 'openai' && provider !== 'anthropic')) {
-      return res.status(400).json({ error: 'Valid provider is required (openai or anthropic)' });
+    if (typeof provider !== 'string' || !aiService.hasProvider(provider)) {
+      const available = aiService.listProviders().map((p) => p.id).join(', ');
+      return res.status(400).json({ error: `Valid provider is required (${available})` });
     }
     
+    const before = aiService.getProvider();
     aiService.setProvider(provider);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'ai_provider', before, after: aiService.getProvider()
+    });
     
     return res.json({ 
       success: true, 
@@ -400,7 +708,11 @@ export const updateAIConfig = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Configuration is required' });
     }
     
+    const before = aiService.getConfig();
     aiService.updateConfig(config as AIServiceConfig);
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'ai_config', before, after: aiService.getConfig()
+    });
     
     return res.json({ 
       success: true, 
@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { teamService } from '../services/teamService';
+import { auditService } from '../services/auditService';
+import type { TeamInput, TeamUpdate } from '../utils/validators';
+
+const isDuplicate = (error: unknown) => (error as { code?: string })?.code === 'ER_DUP_ENTRY';
+// A member or database id that does not exist
+const isMissingReference = (error: unknown) => (error as { code?: string })?.code === 'ER_NO_REFERENCED_ROW_2';
+
+export const listTeams = async (req: Request, res: Response) => {
+  try {
+    const teams = await teamService.list();
+    return res.json({ success: true, data: teams });
+  } catch (error) {
+    console.error('Failed to list teams:', error);
+    return res.status(500).json({ error: 'Failed to fetch teams' });
+  }
+};
+
+export const createTeam = async (req: Request, res: Response) => {
+  try {
+    const team = await teamService.create(req.body as TeamInput);
+    await auditService.record(req.user, req.ip, { action: 'create', entity_type: 'team', entity_id: team.id, before: null, after: team });
+    return res.status(201).json({ success: true, data: team });
+  } catch (error) {
+    if (isDuplicate(error)) return res.status(409).json({ error: 'Team name is already taken' });
+    if (isMissingReference(error)) return res.status(400).json({ error: 'Unknown user or database connection' });
+    console.error('Failed to create team:', error);
+    return res.status(500).json({ error: 'Failed to create team' });
+  }
+};
+
+export const updateTeam = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid team ID' });
+
+    const before = await teamService.get(id);
+    const team = await teamService.update(id, req.body as TeamUpdate);
+    if (!team) return res.status(404).json({ error: 'Team not found' });
+    await auditService.record(req.user, req.ip, { action: 'update', entity_type: 'team', entity_id: id, before, after: team });
+    return res.json({ success: true, data: team });
+  } catch (error) {
+    if (isDuplicate(error)) return res.status(409).json({ error: 'Team name is already taken' });
+    if (isMissingReference(error)) return res.status(400).json({ error: 'Unknown user or database connection' });
+    console.error('Failed to update team:', error);
+    return res.status(500).json({ error: 'Failed to update team' });
+  }
+};
+
+export const deleteTeam = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid team ID' });
+
+    const before = await teamService.get(id);
+    const deleted = await teamService.remove(id);
+    if (!deleted) return res.status(404).json({ error: 'Team not found' });
+    await auditService.record(req.user, req.ip, { action: 'delete', entity_type: 'team', entity_id: id, before, after: null });
+    return res.json({ success: true, message: 'Team deleted' });
+  } catch (error) {
+    console.error('Failed to delete team:', error);
+    return res.status(500).json({ error: 'Failed to delete team' });
+  }
+};
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { usageService } from '../services/usageService';
+import { auditService } from '../services/auditService';
+import { requireNonSandboxMode } from '../utils/sandbox';
+import { usageBudgetSchema, usageQuerySchema } from '../utils/validators';
+
+export const getUsage = async (req: Request, res: Response) => {
+  const parse = usageQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    const details = parse.error.errors.map((err) => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${details.map((d) => `${d.field} - ${d.message}`).join(', ')}`,
+      details
+    });
+  }
+
+  try {
+    const { from, to } = usageService.range(parse.data);
+    const data = await usageService.report({ ...parse.data, from, to });
+    return res.json({ success: true, data, from: from.toISOString(), to: to.toISOString() });
+  } catch (error) {
+    console.error('Failed to compute AI usage:', error);
+    return res.status(500).json({ error: 'Failed to compute AI usage' });
+  }
+};
+
+export const getBudgets = async (_req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, data: await usageService.budgets() });
+  } catch (error) {
+    console.error('Failed to get AI budgets:', error);
+    return res.status(500).json({ error: 'Failed to fetch AI budgets' });
+  }
+};
+
+export const updateBudget = async (req: Request, res: Response) => {
+  try {
+    requireNonSandboxMode();
+    const parse = usageBudgetSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'Invalid AI budget',
+        details: parse.error.errors.map(err => ({ field: err.path.join('.') || 'monthlyLimit', message: err.message }))
+      });
+    }
+
+    const { databaseId, monthlyLimit } = parse.data;
+    const current = await usageService.budgets();
+    const before = databaseId === undefined
+      ? current.global.limit
+      : current.databases.find((budget) => budget.databaseId === databaseId)?.limit ?? null;
+    const updated = await usageService.setBudget(databaseId, monthlyLimit);
+    if (!updated) {
+      return res.status(404).json({ error: 'Database configuration not found' });
+    }
+    await auditService.record(req.user, req.ip, {
+      action: 'update', entity_type: 'usage_budget', entity_id: databaseId ?? null,
+      before: { monthlyLimit: before }, after: { monthlyLimit }
+    });
+    return res.json({ success: true, message: 'AI budget updated successfully', data: await usageService.budgets() });
+  } catch (error) {
+    console.error('Failed to update AI budget:', error);
+    return res.status(500).json({ error: 'Failed to update AI budget' });
+  }
+};
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { userService } from '../services/userService';
+import { auditService } from '../services/auditService';
+import type { UserInput, UserUpdate } from '../utils/validators';
+
+const isDuplicate = (error: unknown) => (error as { code?: string })?.code === 'ER_DUP_ENTRY';
+
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const users = await userService.list();
+    return res.json({ success: true, data: users });
+  } catch (error) {
+    console.error('Failed to list users:', error);
+    return res.status(500).json({ error: 'Failed to fetch users' });
+  }
+};
+
+export const createUser = async (req: Request, res: Response) => {
+  try {
+    const user = await userService.create(req.body as UserInput);
+    await auditService.record(req.user, req.ip, { action: 'create', entity_type: 'user', entity_id: user.id, before: null, after: user });
+    return res.status(201).json({ success: true, data: user });
+  } catch (error) {
+    if (isDuplicate(error)) return res.status(409).json({ error: 'Username is already taken' });
+    console.error('Failed to create user:', error);
+    return res.status(500).json({ error: 'Failed to create user' });
+  }
+};
+
+export const updateUser = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: 'Invalid user ID' });
+
+    const changes = req.body as UserUpdate;
+    // Admins cannot lock themselves out
+    if (id === req.user?.id && ((changes.role !== undefined && changes.role !== 'admin') || changes.is_active === false)) {
+      return res.status(400).json({ error: 'You cannot remove your own admin role or disable your own account' });
+    }
+
+    const before = await userService.get(id);
+    const user = await userService.update(id, changes);
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    // Only the fact that a password was set is recorded; the diff redacts it
+    await auditService.record(req.user, req.ip, {
+      action: 'update',
+      entity_type: 'user',
+      entity_id: id,
+      before,
+      after: changes.password ? { ...user, password: changes.password } : user
+    });
+    return res.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Failed to update user:', error);
+    return res.status(500).json({ error: 'Failed to update user' });
+  }
+};
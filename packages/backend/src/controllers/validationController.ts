@@ -1,38 +1,38 @@
 import { Request, Response } from 'express';
-import { getDestinationPool } from '../services/pools';
-import { normalizeLimitClause } from '../utils/validators';
+import { getDestinationDriver } from '../services/pools';
+import { connectionService, NO_DATABASE_ACCESS } from '../services/connectionService';
+import { QueryCancelledError, QueryTimeoutError } from '../services/drivers/types';
+import type { DatabaseDriver } from '../services/drivers';
 import { queryLogService } from '../services/queryLogService';
+import { databaseService } from '../services/databaseSystemService';
+import { checkSqlSafety } from '../utils/sqlSafety';
+import { applyMasking, resolveMaskedColumns, resultLineage } from '../utils/masking';
+import { buildCountQuery, buildFieldsQuery, buildPagedQuery, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PageRequest, PreviewSort, withExecutionTimeLimit } from '../utils/pagination';
+import { DEFAULT_DIALECT } from '../utils/dialects';
+import { bindParameters, findParameterNames, ParameterValue, QueryParameter, resolveParameterValues } from '../utils/queryParameters';
+import { conversationKey, conversationService, getSessionId } from '../services/conversationService';
+import { queryRunService } from '../services/queryRunService';
+import { CachedResult, CacheHit, resultCacheService } from '../services/resultCacheService';
 
-// Security check for dangerous SQL operations
-const isDangerousOperation = (sql: string): { isDangerous: boolean; reason?: string } => {
-  const normalizedSql = sql.trim().toLowerCase();
-  
-  // Block DML operations (INSERT, UPDATE, DELETE, TRUNCATE)
-  if (normalizedSql.match(/^\s*(insert|update|delete|truncate)\s+/i)) {
-    return { isDangerous: true, reason: 'DML operations (INSERT, UPDATE, DELETE, TRUNCATE) are not allowed' };
-  }
-  
-  // Block DDL operations (DROP, CREATE, ALTER)
-  if (normalizedSql.match(/^\s*(drop|create|alter)\s+/i)) {
-    return { isDangerous: true, reason: 'DDL operations (DROP, CREATE, ALTER) are not allowed' };
-  }
-  
-  // Block other dangerous statements
-  if (normalizedSql.match(/;\s*(drop|delete|truncate|insert|update|create|alter)/i)) {
-    return { isDangerous: true, reason: 'Multiple statements with dangerous operations are not allowed' };
-  }
-  
-  // Block common SQL injection patterns
-  if (normalizedSql.match(/('\s*or\s*'1'\s*=\s*'1|'\s*or\s*1\s*=\s*1|--\s*$|\bor\b\s+['"]?\d['"]?\s*=\s*['"]?\d['"]?)/i)) {
-    return { isDangerous: true, reason: 'Potential SQL injection pattern detected' };
-  }
-  
-  // Block SLEEP and other time-consuming functions that could cause DoS
-  if (normalizedSql.match(/\bsleep\s*\(|benchmark\s*\(|get_lock\s*\(/i)) {
-    return { isDangerous: true, reason: 'Time-consuming or blocking functions are not allowed' };
+const QUERY_TIMEOUT_MS = 30000;
+const COUNT_TIMEOUT_MS = 10000;
+
+// Bound values for driver.run; omitted entirely for queries without parameters
+const withParams = (params: ParameterValue[]) => (params.length > 0 ? { params } : {});
+
+// MySQL's own error when MAX_EXECUTION_TIME stops a statement
+const isServerTimeout = (error: any) => error?.code === 'ER_QUERY_TIMEOUT' || error?.errno === 3024;
+
+// Total rows for a paginated preview; null when counting fails or runs out of time
+const countRows = async (driver: DatabaseDriver, sql: string, params: ParameterValue[], signal: AbortSignal): Promise<number | null> => {
+  try {
+    const { rows } = await driver.run(buildCountQuery(sql, COUNT_TIMEOUT_MS, driver.dialect), { timeoutMs: COUNT_TIMEOUT_MS, signal, ...withParams(params) });
+    const total = Number(rows[0]?.total);
+    return Number.isFinite(total) ? total : null;
+  } catch (error: any) {
+    console.warn('Failed to count preview rows:', error?.message);
+    return null;
   }
-  
-  return { isDangerous: false };
 };
 
 export const validateQuery = async (req: Request, res: Response) => {
@@ -41,98 +41,249 @@ export const validateQuery = async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
-    const { sql, execute = false } = req.body as { sql: string; execute?: boolean };
-    
-    // Security check: Block dangerous operations
-    if (execute) {
-      const securityCheck = isDangerousOperation(sql);
-      if (securityCheck.isDangerous) {
-        return res.status(400).json({
-          isValid: false,
-          error: securityCheck.reason || 'This operation is not allowed for security reasons'
-        });
-      }
-    }
-    
-    const destinationPool = getDestinationPool();
+    const { sql, page, pageSize, sort, parameters, parameterDefinitions, runId, bypassCache } = req.body as {
+      sql: string;
+      execute?: boolean;
+      page?: number;
+      pageSize?: number;
+      sort?: PreviewSort;
+      parameters?: Record<string, ParameterValue>;
+      parameterDefinitions?: QueryParameter[];
+      runId?: string;
+      bypassCache?: boolean;
+    };
+    const paginated = page !== undefined || pageSize !== undefined || sort !== undefined;
     
     // Extract user session and IP for logging
     const userSession = req.headers['x-session-id'] as string || 'anonymous';
     const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
 
-    if (!destinationPool) {
-      // Log database configuration error
+    // The query runs on the caller's own connection
+    const database = await connectionService.getActiveDatabase(req.user, getSessionId(req.headers['x-session-id']));
+    const destinationDriver = database ? getDestinationDriver(database) : null;
+    const dialect = destinationDriver?.dialect ?? DEFAULT_DIALECT;
+
+    // Security check: the query is always executed, so always enforce the read-only
+    // policy plus the active connection's query policy
+    const policy = database ? await databaseService.getQueryPolicy(database.id) : null;
+    const safety = checkSqlSafety(sql, policy, dialect);
+    if (!safety.isSafe) {
+      const error = safety.violations[0].message;
+      await queryLogService.logQuery({
+        query_type: 'validation',
+        natural_language_query: `Query rejected by safety policy: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`,
+        generated_sql: sql,
+        execution_status: 'validation_error',
+        execution_time_ms: Date.now() - startTime,
+        error_message: error,
+        user_session: userSession,
+        ip_address: ipAddress,
+        error_code: safety.violations[0].code,
+        database_settings_id: database?.id
+      });
+
+      return res.status(400).json({
+        isValid: false,
+        syntaxValid: safety.violations[0].code !== 'PARSE_ERROR',
+        error,
+        violations: safety.violations
+      });
+    }
+    
+    // :name placeholders are bound by the driver, never spliced into the SQL
+    const resolved = resolveParameterValues(findParameterNames(sql, dialect), parameterDefinitions, parameters);
+    if ('errors' in resolved) {
+      return res.status(400).json({
+        isValid: false,
+        syntaxValid: true,
+        error: resolved.errors[0],
+        parameterErrors: resolved.errors
+      });
+    }
+    const { sql: boundSql, params } = bindParameters(sql.trim(), resolved.values, dialect);
+
+    if (!database || !destinationDriver) {
+      // Log that the caller has no connection to run it on
       await queryLogService.logQuery({
-        natural_language_query: `Database configuration error for query: ${sql}`,
+        query_type: 'validation',
+        natural_language_query: `No database connection for query: ${sql}`,
         generated_sql: sql,
         execution_status: 'execution_error',
         execution_time_ms: Date.now() - startTime,
-        error_message: 'Database not configured. Please set DATABASE_URL environment variable.',
+        error_message: NO_DATABASE_ACCESS,
         user_session: userSession,
-        ip_address: ipAddress
+        ip_address: ipAddress,
+        error_code: 'NO_DATABASE_ACCESS'
       });
       
-      return res.status(503).json({
+      return res.status(403).json({
         isValid: false,
-        error: 'Database not configured. Please set DATABASE_URL environment variable.',
+        error: NO_DATABASE_ACCESS,
         syntaxValid: true
       });
     }
 
-    let connection: any;
+    // Registered so POST /queries/:runId/cancel (or the client going away) can stop it
+    const run = queryRunService.start(req.user, runId);
+    if (!run) {
+      return res.status(409).json({ isValid: false, error: `Query run ${runId} is already executing` });
+    }
+    res.on('close', () => {
+      if (!res.writableFinished) queryRunService.cancel(run.runId, req.user);
+    });
+
     try {
-      connection = await destinationPool.getConnection();
-      const explainQuery = `EXPLAIN ${sql.trim()}`;
-      await connection.query(explainQuery);
+      const maxLimit = Math.min(policy?.maxLimit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+      const defaultLimit = Math.min(DEFAULT_PAGE_SIZE, maxLimit);
+      let safeQuery: string;
+      let pageRequest: PageRequest | null = null;
+      if (paginated) {
+        // The user query runs unchanged inside a wrapper that selects one page
+        pageRequest = { page: page ?? 1, pageSize: Math.min(pageSize ?? defaultLimit, maxLimit), sort };
+        safeQuery = buildPagedQuery(boundSql, pageRequest, dialect);
+      } else {
+        // The first page comes through the same wrapper, so a trailing comment or a
+        // "limit" inside a literal can't drop the cap, and SQL Server needs no LIMIT
+        safeQuery = buildPagedQuery(boundSql, { page: 1, pageSize: defaultLimit }, dialect);
+      }
+      // MySQL stops the statement itself should the backend fail to cancel it in time
+      safeQuery = withExecutionTimeLimit(safeQuery, QUERY_TIMEOUT_MS, dialect);
 
-      let safeQuery = sql.trim();
-      if (!safeQuery.toLowerCase().includes('limit')) {
-        safeQuery = `${safeQuery} LIMIT 50`;
+      // Ordering by a masked column would leak the hidden values' order. A zero-row
+      // probe gives the column metadata the rules match on, so the sort is refused
+      // before the query runs or reaches the cache
+      const maskingRules = await databaseService.getMaskingRules(database.id);
+      const sortColumn = pageRequest?.sort?.column;
+      if (sortColumn && maskingRules.length > 0) {
+        const probe = await destinationDriver.run(buildFieldsQuery(boundSql, dialect), {
+          timeoutMs: QUERY_TIMEOUT_MS,
+          signal: run.signal,
+          ...withParams(params)
+        });
+        // Without metadata, rules can still match the column by name
+        const probeFields = probe.fields.length > 0 ? probe.fields : [{ name: sortColumn }];
+        if (resolveMaskedColumns(maskingRules, probeFields, [], resultLineage(safety.ast)).some((m) => m.column === sortColumn)) {
+          return res.status(400).json({
+            isValid: false,
+            syntaxValid: true,
+            error: `Cannot sort by masked column ${sortColumn}`
+          });
+        }
       }
-      // Normalize malformed LIMIT clauses that can appear from NL prompts (e.g., "LIMIT give")
-      safeQuery = normalizeLimitClause(safeQuery, 50, 500);
 
-      const queryPromise = destinationPool.execute(safeQuery);
-      const timeoutPromise = new Promise((_, reject) => setTimeout(() => reject(new Error('Query timeout (30s)')), 30000));
-      const [rows] = (await Promise.race([queryPromise, timeoutPromise])) as any;
+      // Caching is opt-in per connection. The key is the statement that would run,
+      // so every page and sort order is cached separately
+      const cacheTtl = await databaseService.getResultCacheTtl(database.id);
+      const cacheKey = cacheTtl ? { databaseId: database.id, dialect, sql: safeQuery, params, withCount: pageRequest !== null } : null;
+      const cached: CacheHit | null = cacheKey && !bypassCache ? resultCacheService.get(cacheKey) : null;
+
+      let result: CachedResult;
+      if (cached) {
+        result = cached;
+      } else {
+        await destinationDriver.explain(boundSql, params);
 
-      const data = Array.isArray(rows) ? rows : [rows];
+        // The count runs alongside the page query under its own, shorter timeout
+        const countPromise = pageRequest ? countRows(destinationDriver, boundSql, params, run.signal) : Promise.resolve(null);
+        // The driver cancels the statement on the server when the timeout expires or the run is cancelled
+        const { rows, fields } = await destinationDriver.run(safeQuery, { timeoutMs: QUERY_TIMEOUT_MS, signal: run.signal, ...withParams(params) });
+        result = { rows, fields, totalRows: await countPromise };
+        if (cacheKey && cacheTtl) resultCacheService.set(cacheKey, result, cacheTtl);
+      }
+      const { rows, fields, totalRows } = result;
+      const cache = cacheKey
+        ? { cache: { hit: cached !== null, cachedAt: cached?.cachedAt.toISOString() ?? null, expiresAt: cached?.expiresAt.toISOString() ?? null } }
+        : {};
+
+      // Mask PII columns before the rows leave the backend
+      const { rows: data, maskedColumns } = applyMasking(rows, fields, maskingRules, resultLineage(safety.ast));
       const rowCount = data.length;
       const executionTime = Date.now() - startTime;
       
       // Log successful query execution
       await queryLogService.logQuery({
-        natural_language_query: `Query validation and execution: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`,
+        query_type: 'validation',
+        natural_language_query: `${cached ? 'Query validation served from cache' : 'Query validation and execution'}: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`,
         generated_sql: sql,
         execution_status: 'success',
         execution_time_ms: executionTime,
         user_session: userSession,
-        ip_address: ipAddress
+        ip_address: ipAddress,
+        database_settings_id: database.id
+      });
+      // Follow-up prompts see the shape of what this query returned
+      conversationService.recordResult(conversationKey(req.user, req.headers['x-session-id']), sql, {
+        rowCount: totalRows ?? rowCount,
+        columns: fields.length > 0 ? fields.map((f) => f.name) : Object.keys(data[0] ?? {})
       });
       
+      if (pageRequest) {
+        const offset = (pageRequest.page - 1) * pageRequest.pageSize;
+        return res.json({
+          isValid: true,
+          syntaxValid: true,
+          runId: run.runId,
+          results: data,
+          data: data,
+          rowCount: rowCount,
+          maskedColumns,
+          executionTime: `${executionTime}ms`,
+          page: pageRequest.page,
+          pageSize: pageRequest.pageSize,
+          sort: pageRequest.sort ?? null,
+          totalRows,
+          totalPages: totalRows === null ? null : Math.max(1, Math.ceil(totalRows / pageRequest.pageSize)),
+          // More rows exist beyond this page
+          limited: totalRows === null ? rowCount === pageRequest.pageSize : totalRows > offset + rowCount,
+          ...cache
+        });
+      }
+
       return res.json({ 
         isValid: true, 
         syntaxValid: true, 
+        runId: run.runId,
         results: data, 
         data: data, // Keep for backwards compatibility
         rowCount: rowCount, 
+        maskedColumns,
         executionTime: `${executionTime}ms`, 
-        limited: !sql.toLowerCase().includes('limit') 
+        limited: rowCount === defaultLimit,
+        ...cache
       });
     } catch (error: any) {
       const isSyntaxError = error.code === 'ER_PARSE_ERROR' || error.message.includes('syntax') || error.message.includes('SQL syntax');
       const executionTime = Date.now() - startTime;
+      const cancelled = error instanceof QueryCancelledError;
+      const timedOut = error instanceof QueryTimeoutError || isServerTimeout(error);
       
       // Log query execution error
       await queryLogService.logQuery({
+        query_type: 'validation',
         natural_language_query: `Query validation failed: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`,
         generated_sql: sql,
         execution_status: isSyntaxError ? 'validation_error' : 'execution_error',
         execution_time_ms: executionTime,
         error_message: error.message,
         user_session: userSession,
-        ip_address: ipAddress
+        ip_address: ipAddress,
+        error_code: cancelled ? 'QUERY_CANCELLED' : timedOut ? 'QUERY_TIMEOUT' : error.code !== undefined ? String(error.code) : undefined,
+        database_settings_id: database.id
       });
+
+      if (cancelled || timedOut) {
+        return res.status(200).json({
+          isValid: false,
+          syntaxValid: true,
+          runId: run.runId,
+          cancelled,
+          timedOut,
+          error: timedOut ? new QueryTimeoutError(QUERY_TIMEOUT_MS).message : error.message,
+          suggestion: timedOut
+            ? 'The query was stopped on the server after running too long. Add filters or a LIMIT, or make sure the joined columns are indexed.'
+            : undefined
+        });
+      }
       
       // Return 200 with isValid: false for execution errors (non-existent tables, etc.)
       // Return 400 only for syntax errors
@@ -141,13 +292,18 @@ export const validateQuery = async (req: Request, res: Response) => {
       return res.status(statusCode).json({
         isValid: false,
         syntaxValid: !isSyntaxError,
+        runId: run.runId,
         error: error.message,
         errorCode: error.code,
         sqlState: error.sqlState,
-        suggestion: isSyntaxError ? 'Check your SQL syntax for typos or missing keywords' : 'The query is syntactically correct but failed to execute. Check table/column names.'
+        suggestion: isSyntaxError
+          ? 'Check your SQL syntax for typos or missing keywords'
+          : error.code === 'ER_DUP_FIELDNAME'
+            ? 'Paged previews need unique column names. Give duplicate columns aliases (e.g. f.film_id AS film_id_1) instead of SELECT *.'
+            : 'The query is syntactically correct but failed to execute. Check table/column names.'
       });
     } finally {
-      if (connection) connection.release();
+      queryRunService.finish(run.runId);
     }
   } catch (error: any) {
     const userSession = req.headers['x-session-id'] as string || 'anonymous';
@@ -155,15 +311,29 @@ export const validateQuery = async (req: Request, res: Response) => {
     
     // Log internal server error
     await queryLogService.logQuery({
+      query_type: 'validation',
       natural_language_query: `Server error during validation: ${req.body?.sql || 'unknown'}`,
       generated_sql: req.body?.sql,
       execution_status: 'execution_error',
       execution_time_ms: Date.now() - startTime,
       error_message: error.message,
       user_session: userSession,
-      ip_address: ipAddress
+      ip_address: ipAddress,
+      error_code: error.code !== undefined ? String(error.code) : 'INTERNAL_ERROR'
     });
     
     return res.status(500).json({ isValid: false, error: 'Internal server error during validation', message: process.env.NODE_ENV === 'development' ? error.message : undefined });
   }
 };
+
+export const cancelQuery = async (req: Request, res: Response) => {
+  const runId = String(req.params.runId);
+  const outcome = queryRunService.cancel(runId, req.user);
+  if (outcome === 'not_found') {
+    return res.status(404).json({ error: 'No running query with this id' });
+  }
+  if (outcome === 'forbidden') {
+    return res.status(403).json({ error: 'Only the user who started a query can cancel it' });
+  }
+  return res.json({ success: true, data: { runId, cancelled: true } });
+};
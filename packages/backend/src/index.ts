@@ -3,16 +3,28 @@ import dotenv from 'dotenv';
 import cors from 'cors';
 import mysql from 'mysql2/promise';
 import openaiService from './services/openaiService';
-import databaseService from './services/databaseSystemService';
-import { setDestinationPool, setPool, getDestinationPool } from './services/pools';
+import { setPool } from './services/pools';
 import queryRoutes from './routes/queryRoutes';
 import validationRoutes from './routes/validationRoutes';
 import settingsRoutes from './routes/settingsRoutes';
 import databaseRoutes from './routes/databaseRoutes';
 import healthRoutes from './routes/healthRoutes';
+import exportRoutes from './routes/exportRoutes';
+import savedQueryRoutes from './routes/savedQueryRoutes';
+import historyRoutes from './routes/historyRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
+import authRoutes from './routes/authRoutes';
+import userRoutes from './routes/userRoutes';
+import teamRoutes from './routes/teamRoutes';
+import auditRoutes from './routes/auditRoutes';
+import jobRoutes from './routes/jobRoutes';
+import usageRoutes from './routes/usageRoutes';
 import { errorHandler } from './middleware/errorHandler';
+import { authenticate, isAuthDisabled } from './middleware/auth';
 import logger from './utils/logger';
 import { runStartupMigrations } from './services/migrationService';
+import userService from './services/userService';
+import queryJobService from './services/queryJobService';
 
 dotenv.config();
 
@@ -44,45 +56,9 @@ const createPool = () => {
   }
 };
 
-const createDestinationPool = async () => {
-  const databaseConfig = await databaseService.getDefaultDatabaseConfig();
-  if (!databaseConfig) {
-    logger.warn('⚠️  Default database configuration not found. Query validation will not work.');
-    return null;
-  }
-  
-  const databaseUrl = `mysql://${databaseConfig.username}:${databaseConfig.password}@${databaseConfig.host}:${databaseConfig.port}/${databaseConfig.database_name}`;
-
-  try {
-    const pool = mysql.createPool(databaseUrl);
-    logger.info(`✅ Created destination pool for database: ${databaseConfig.database_name} on ${databaseConfig.host}:${databaseConfig.port}`);
-    return pool;
-  } catch (error: unknown) {
-    logger.error('Failed to create destination database pool:', { error });
-    return null;
-  }
-};
-
-// Export function to recreate destination pool (for database switching)
-export const recreateDestinationPool = async () => {
-  // Close existing pool if it exists
-  const currentPool = getDestinationPool();
-  if (currentPool) {
-    await currentPool.end();
-  }
-  
-  // Create new pool with updated configuration
-  const newPool = await createDestinationPool();
-  setDestinationPool(newPool);
-  
-  return newPool !== null;
-};
-
 const bootStrap = async () => {
   const pool = await createPool();
-  const destinationPool = await createDestinationPool();
   setPool(pool);
-  setDestinationPool(destinationPool);
 
   // Run DB startup migrations (idempotent). If DATABASE_URL is missing, skip.
   try {
@@ -94,6 +70,30 @@ const bootStrap = async () => {
   } catch (err) {
     logger.warn('⚠️  Startup migrations failed (continuing):', { error: err });
   }
+
+  // Background jobs only run in the process that queued them
+  try {
+    const interrupted = await queryJobService.recoverInterrupted();
+    if (interrupted > 0) {
+      logger.warn(`⚠️  Marked ${interrupted} query job(s) interrupted by the restart as failed`);
+    }
+  } catch (err) {
+    logger.warn('⚠️  Could not check for interrupted query jobs:', { error: err });
+  }
+  queryJobService.startRetentionSweep();
+
+  if (isAuthDisabled()) {
+    logger.warn('⚠️  AUTH_DISABLED=true: every request is treated as an admin. Do not use this outside development.');
+    return;
+  }
+  try {
+    const admin = await userService.ensureBootstrapAdmin();
+    if (admin) {
+      logger.info(`✅ Created admin user ${admin.username} from ADMIN_USERNAME`);
+    }
+  } catch (err) {
+    logger.warn('⚠️  Could not check for a bootstrap admin user:', { error: err });
+  }
 };
 
 bootStrap();
@@ -123,7 +123,8 @@ const corsOptions = {
   credentials: true,
   optionsSuccessStatus: 204, // Changed to 204 for proper OPTIONS response
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Session-Id']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Session-Id'],
+  exposedHeaders: ['Content-Disposition']
 };
 
 // Middleware
@@ -147,12 +148,23 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
-// Mount routers
+// Mount routers; sign-in and health checks are public, everything after authenticate needs a token
+app.use('/api', authRoutes);
+app.use('/api', healthRoutes);
+app.use('/api', authenticate);
+app.use('/api', userRoutes);
+app.use('/api', teamRoutes);
 app.use('/api', queryRoutes);
 app.use('/api', validationRoutes);
 app.use('/api', settingsRoutes);
 app.use('/api', databaseRoutes);
-app.use('/api', healthRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', savedQueryRoutes);
+app.use('/api', historyRoutes);
+app.use('/api', analyticsRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', usageRoutes);
 
 // Error handler (must be after routes)
 app.use(errorHandler);
@@ -166,6 +178,8 @@ app.get('/', (req: Request, res: Response) => {
       'POST /api/generate-query',
       'POST /api/validate-query',
       'GET /api/health',
+      'POST /api/auth/login',
+      'GET /api/auth/me',
       'GET /api/patterns',
       'GET /api/settings',
       'POST /api/settings/rules',
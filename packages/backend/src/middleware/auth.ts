@@ -0,0 +1,74 @@
+import { NextFunction, Request, Response } from 'express';
+import { hasRole, userService } from '../services/userService';
+import { verifyToken } from '../utils/authTokens';
+import type { UserRole } from '../utils/validators';
+
+export interface AuthenticatedUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+// Stand-in for every request when AUTH_DISABLED=true (local development and the e2e suite)
+const ANONYMOUS_ADMIN: AuthenticatedUser = { id: 0, username: 'anonymous', role: 'admin' };
+
+export const isAuthDisabled = (): boolean => process.env.AUTH_DISABLED === 'true';
+
+const bearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+};
+
+/**
+ * Require a valid access token and load its user. The account is read on
+ * every request so disabling a user or changing their role applies at once.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  if (isAuthDisabled()) {
+    req.user = ANONYMOUS_ADMIN;
+    return next();
+  }
+
+  const token = bearerToken(req);
+  const claims = token ? verifyToken(token) : null;
+  if (!claims) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const user = await userService.get(Number(claims.sub));
+    if (!user || !user.is_active) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = { id: user.id, username: user.username, role: user.role };
+    return next();
+  } catch (error) {
+    console.error('Failed to load authenticated user:', error);
+    return res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+};
+
+/** Allow the request only for users with at least the given role */
+export const requireRole = (role: UserRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (!hasRole(req.user.role, role)) {
+    return res.status(403).json({ error: `This action requires the ${role} role` });
+  }
+  return next();
+};
+
+export const requireAnalyst = requireRole('analyst');
+export const requireAdmin = requireRole('admin');
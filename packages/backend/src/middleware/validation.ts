@@ -1,5 +1,19 @@
 import { NextFunction, Request, Response } from 'express';
-import { promptSchema, sqlQuerySchema } from '../utils/validators';
+import type { ZodTypeAny } from 'zod';
+import {
+  exportQuerySchema,
+  loginSchema,
+  parameterLookupSchema,
+  promptSchema,
+  queryJobSchema,
+  savedQuerySchema,
+  savedQueryUpdateSchema,
+  sqlQuerySchema,
+  teamSchema,
+  teamUpdateSchema,
+  userCreateSchema,
+  userUpdateSchema
+} from '../utils/validators';
 
 export const validateGenerateQuery = (req: Request, res: Response, next: NextFunction) => {
   console.log('validateGenerateQuery - Request body:', JSON.stringify(req.body));
@@ -50,3 +64,62 @@ export const validateSql = (req: Request, res: Response, next: NextFunction) =>
   req.body = parse.data;
   return next();
 };
+
+export const validateExport = (req: Request, res: Response, next: NextFunction) => {
+  const parse = exportQuerySchema.safeParse(req.body);
+  if (!parse.success) {
+    const errorDetails = parse.error.errors.map(err => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${errorDetails.map(e => `${e.field} - ${e.message}`).join(', ')}`,
+      details: errorDetails
+    });
+  }
+  req.body = parse.data;
+  return next();
+};
+
+const validateBody = (schema: ZodTypeAny, req: Request, res: Response, next: NextFunction) => {
+  const parse = schema.safeParse(req.body);
+  if (!parse.success) {
+    const errorDetails = parse.error.errors.map(err => ({
+      field: (err.path || []).join('.') || 'unknown',
+      message: err.message
+    }));
+    return res.status(400).json({
+      error: `Validation failed: ${errorDetails.map(e => `${e.field} - ${e.message}`).join(', ')}`,
+      details: errorDetails
+    });
+  }
+  req.body = parse.data;
+  return next();
+};
+
+export const validateSavedQuery = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(savedQuerySchema, req, res, next);
+
+export const validateSavedQueryUpdate = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(savedQueryUpdateSchema, req, res, next);
+
+export const validateParameterLookup = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(parameterLookupSchema, req, res, next);
+
+export const validateQueryJob = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(queryJobSchema, req, res, next);
+
+export const validateLogin = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(loginSchema, req, res, next);
+
+export const validateUserCreate = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(userCreateSchema, req, res, next);
+
+export const validateUserUpdate = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(userUpdateSchema, req, res, next);
+
+export const validateTeam = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(teamSchema, req, res, next);
+
+export const validateTeamUpdate = (req: Request, res: Response, next: NextFunction) =>
+  validateBody(teamUpdateSchema, req, res, next);
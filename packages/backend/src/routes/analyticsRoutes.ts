@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getConfidenceTrend,
+  getErrorCodes,
+  getLatency,
+  getOverview,
+  getSourceShare,
+  getSuccessRates,
+  getTopTables
+} from '../controllers/analyticsController';
+
+const router = Router();
+
+router.get('/analytics', getOverview);
+router.get('/analytics/success-rates', getSuccessRates);
+router.get('/analytics/latency', getLatency);
+router.get('/analytics/errors', getErrorCodes);
+router.get('/analytics/tables', getTopTables);
+router.get('/analytics/sources', getSourceShare);
+router.get('/analytics/confidence', getConfidenceTrend);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { listAuditEvents, verifyAuditChain } from '../controllers/auditController';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+router.use('/audit', requireAdmin);
+
+router.get('/audit', listAuditEvents);
+router.get('/audit/verify', verifyAuditChain);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { completeOidcLogin, getAuthConfig, getCurrentUser, login, startOidcLogin } from '../controllers/authController';
+import { authenticate } from '../middleware/auth';
+import { validateLogin } from '../middleware/validation';
+
+const router = Router();
+
+// Reachable without a token; everything else under /api is mounted behind authenticate
+router.get('/auth/config', getAuthConfig);
+router.post('/auth/login', validateLogin, login);
+router.get('/auth/oidc/login', startOidcLogin);
+router.get('/auth/oidc/callback', completeOidcLogin);
+router.get('/auth/me', authenticate, getCurrentUser);
+
+export default router;
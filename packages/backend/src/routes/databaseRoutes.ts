@@ -1,9 +1,10 @@
 import { Router } from 'express';
 import { listDatabases, switchDatabase } from '../controllers/databaseController';
+import { requireAnalyst } from '../middleware/auth';
 
 const router = Router();
 
 router.get('/databases', listDatabases);
-router.post('/databases/:id/switch', switchDatabase);
+router.post('/databases/:id/switch', requireAnalyst, switchDatabase);
 
 export default router;
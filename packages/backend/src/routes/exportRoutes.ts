@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { exportQuery } from '../controllers/exportController';
+import { requireAnalyst } from '../middleware/auth';
+import { validateExport } from '../middleware/validation';
+
+const router = Router();
+
+router.post('/export', requireAnalyst, validateExport, exportQuery);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getHistoryEntry, listHistory } from '../controllers/historyController';
+
+const router = Router();
+
+router.get('/history', listHistory);
+router.get('/history/:id', getHistoryEntry);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  cancelJob,
+  deleteJob,
+  getJob,
+  getJobResults,
+  listJobs,
+  streamJobEvents,
+  submitJob
+} from '../controllers/jobController';
+import { requireAnalyst } from '../middleware/auth';
+import { validateQueryJob } from '../middleware/validation';
+
+const router = Router();
+
+router.get('/jobs', listJobs);
+router.post('/jobs', requireAnalyst, validateQueryJob, submitJob);
+router.get('/jobs/:id', getJob);
+router.get('/jobs/:id/events', streamJobEvents);
+router.get('/jobs/:id/results', getJobResults);
+router.post('/jobs/:id/cancel', requireAnalyst, cancelJob);
+router.delete('/jobs/:id', requireAnalyst, deleteJob);
+
+export default router;
@@ -1,11 +1,22 @@
 import { Router } from 'express';
-import { generateQuery, getPatterns, getQueryLogs } from '../controllers/queryController';
-import { validateGenerateQuery } from '../middleware/validation';
+import {
+  clearConversation,
+  generateQuery,
+  getConversation,
+  getPatterns,
+  getQueryLogs,
+  resolveParameters
+} from '../controllers/queryController';
+import { requireAnalyst } from '../middleware/auth';
+import { validateGenerateQuery, validateParameterLookup } from '../middleware/validation';
 
 const router = Router();
 
-router.post('/generate-query', validateGenerateQuery, generateQuery);
+router.post('/generate-query', requireAnalyst, validateGenerateQuery, generateQuery);
+router.get('/conversation', getConversation);
+router.delete('/conversation', requireAnalyst, clearConversation);
 router.get('/patterns', getPatterns);
 router.get('/logs', getQueryLogs);
+router.post('/parameters/lookup', requireAnalyst, validateParameterLookup, resolveParameters);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  createSavedQuery,
+  deleteSavedQuery,
+  duplicateSavedQuery,
+  getSavedQuery,
+  listSavedQueries,
+  updateSavedQuery
+} from '../controllers/savedQueryController';
+import { requireAnalyst } from '../middleware/auth';
+import { validateSavedQuery, validateSavedQueryUpdate } from '../middleware/validation';
+
+const router = Router();
+
+router.get('/queries', listSavedQueries);
+router.post('/queries', requireAnalyst, validateSavedQuery, createSavedQuery);
+router.get('/queries/:id', getSavedQuery);
+router.put('/queries/:id', requireAnalyst, validateSavedQueryUpdate, updateSavedQuery);
+router.delete('/queries/:id', requireAnalyst, deleteSavedQuery);
+router.post('/queries/:id/duplicate', requireAnalyst, duplicateSavedQuery);
+
+export default router;
@@ -1,10 +1,16 @@
 import { Router } from 'express';
 import { getSettings, testAI, testDatabase, updateAI, updateDatabase, updateRules,
   createRules, createSchema, createDatabase, updateSchema, getAllDatabases, switchDatabase, getRules, getSchema,
-  getAIConfig, updateAIProvider, updateAIConfig, testAIConnection } from '../controllers/settingsController';
+  getAIConfig, getAIProviders, updateAIProvider, updateAIConfig, testAIConnection, getQueryPolicy, updateQueryPolicy,
+  getMaskingRules, updateMaskingRules, getResultCacheSettings, updateResultCacheSettings, purgeResultCache,
+  getSchemaProfile, startSchemaProfile } from '../controllers/settingsController';
+import { requireAdmin } from '../middleware/auth';
 
 const router = Router();
 
+// Settings can repoint the app at any database, so every settings route is admin-only
+router.use('/settings', requireAdmin);
+
 router.get('/settings', getSettings);
 router.get('/settings/rules', getRules);
 router.post('/settings/rules', createRules);
@@ -18,11 +24,21 @@ router.put('/settings/database/save', updateDatabase);
 router.post('/settings/database/test', testDatabase);
 router.get('/settings/databases', getAllDatabases);
 router.post('/settings/databases/:databaseId/switch', switchDatabase);
+router.get('/settings/databases/:databaseId/policy', getQueryPolicy);
+router.put('/settings/databases/:databaseId/policy', updateQueryPolicy);
+router.get('/settings/databases/:databaseId/masking', getMaskingRules);
+router.put('/settings/databases/:databaseId/masking', updateMaskingRules);
+router.get('/settings/databases/:databaseId/cache', getResultCacheSettings);
+router.put('/settings/databases/:databaseId/cache', updateResultCacheSettings);
+router.delete('/settings/cache', purgeResultCache);
+router.get('/settings/databases/:databaseId/profile', getSchemaProfile);
+router.post('/settings/databases/:databaseId/profile', startSchemaProfile);
 router.post('/settings/ai', updateAI);
 router.post('/settings/ai/test', testAI);
 
 // New AI provider endpoints
 router.get('/settings/ai/config', getAIConfig);
+router.get('/settings/ai/providers', getAIProviders);
 router.post('/settings/ai/provider', updateAIProvider);
 router.put('/settings/ai/config', updateAIConfig);
 router.post('/settings/ai/test-connection', testAIConnection);
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { createTeam, deleteTeam, listTeams, updateTeam } from '../controllers/teamController';
+import { requireAdmin } from '../middleware/auth';
+import { validateTeam, validateTeamUpdate } from '../middleware/validation';
+
+const router = Router();
+
+router.use('/teams', requireAdmin);
+
+router.get('/teams', listTeams);
+router.post('/teams', validateTeam, createTeam);
+router.put('/teams/:id', validateTeamUpdate, updateTeam);
+router.delete('/teams/:id', deleteTeam);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getBudgets, getUsage, updateBudget } from '../controllers/usageController';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+// Usage names sessions and users, and budgets switch AI off for everyone
+router.use('/usage', requireAdmin);
+
+router.get('/usage', getUsage);
+router.get('/usage/budgets', getBudgets);
+router.put('/usage/budgets', updateBudget);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { createUser, listUsers, updateUser } from '../controllers/userController';
+import { requireAdmin } from '../middleware/auth';
+import { validateUserCreate, validateUserUpdate } from '../middleware/validation';
+
+const router = Router();
+
+router.use('/users', requireAdmin);
+
+router.get('/users', listUsers);
+router.post('/users', validateUserCreate, createUser);
+router.put('/users/:id', validateUserUpdate, updateUser);
+
+export default router;
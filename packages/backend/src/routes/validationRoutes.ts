@@ -1,9 +1,11 @@
 import { Router } from 'express';
-import { validateQuery } from '../controllers/validationController';
+import { cancelQuery, validateQuery } from '../controllers/validationController';
+import { requireAnalyst } from '../middleware/auth';
 import { validateSql } from '../middleware/validation';
 
 const router = Router();
 
-router.post('/validate-query', validateSql, validateQuery);
+router.post('/validate-query', requireAnalyst, validateSql, validateQuery);
+router.post('/queries/:runId/cancel', requireAnalyst, cancelQuery);
 
 export default router;
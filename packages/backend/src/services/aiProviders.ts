@@ -0,0 +1,203 @@
+import type { QueryPolicy } from '../utils/queryPolicy';
+import type { Dialect } from '../utils/dialects';
+import type { TableProfile } from '../utils/schemaProfile';
+import type { Relationship, SchemaTable, SchemaTables } from './drivers';
+
+/** What running a query produced; never includes row values */
+export interface ResultSummary {
+  rowCount: number;
+  columns: string[];
+}
+
+/** An earlier prompt in the same conversation and the SQL it led to */
+export interface ConversationTurn {
+  prompt: string;
+  sql: string;
+  reasoning?: string;
+  result?: ResultSummary;
+}
+
+/** A generated query the destination database rejected, fed back for repair */
+export interface RepairAttempt {
+  sql: string;
+  error: { code?: string; message: string };
+}
+
+export interface QueryGenerationRequest {
+  prompt: string;
+  schema: SchemaTables;
+  policy?: QueryPolicy | null;
+  dialect?: Dialect;
+  /** Column value profiles of the tables in `schema`, for real filter values */
+  profile?: Record<string, TableProfile>;
+  /** Foreign keys among the tables in `schema`, listed as join paths */
+  relationships?: Relationship[];
+  /** Earlier turns, oldest first; the prompt may refine the last query */
+  history?: ConversationTurn[];
+  /** Earlier attempts at this prompt that failed EXPLAIN, oldest first */
+  repairs?: RepairAttempt[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Tokens a provider call consumed, as reported by the provider */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface QueryGenerationResponse {
+  sql: string;
+  confidence: number;
+  reasoning: string;
+  tables_used: string[];
+  usage?: TokenUsage;
+}
+
+export interface AIProviderConfig {
+  enabled: boolean;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** Endpoint of an OpenAI-compatible server (Ollama, vLLM, llama.cpp, ...) */
+  baseURL?: string;
+}
+
+const quoteValue = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+const formatRange = (value: string | number): string => (typeof value === 'number' ? String(value) : value.replace(/T00:00:00(\.000)?Z$/, ''));
+
+const describeColumn = (table: SchemaTable, column: string, profile?: TableProfile): string => {
+  const details = table.columnDetails?.[column] ?? {};
+  const stats = profile?.columns[column];
+  const parts = [details.type ? `${column} ${details.type}` : column];
+  if (table.primaryKey?.includes(column)) parts.push('primary key');
+  else if (details.nullable === false) parts.push('not null');
+  // Exact literals keep the model from guessing 'PG13' for 'PG-13'
+  if (details.enumValues && details.enumValues.length > 0) parts.push(`one of ${details.enumValues.map(quoteValue).join(', ')}`);
+  else if (stats?.values && stats.values.length > 0) parts.push(`values ${stats.values.map(quoteValue).join(', ')}`);
+  if (stats?.min !== undefined && stats.max !== undefined) parts.push(`range ${formatRange(stats.min)} to ${formatRange(stats.max)}`);
+  if (stats && stats.nullRatio >= 0.01 && !table.primaryKey?.includes(column)) parts.push(`${Math.round(stats.nullRatio * 100)}% null`);
+  if (details.comment) parts.push(details.comment);
+  return `- ${parts.join(', ')}`;
+};
+
+const describeTable = (name: string, table: SchemaTable, profile?: TableProfile): string => {
+  const rows = profile?.rowCount != null ? `Rows: ~${profile.rowCount}\n` : '';
+  // Tables without details (version 1 schemas, hand-written rules) keep the compact form
+  if (!table.columnDetails && !table.primaryKey && Object.keys(profile?.columns ?? {}).length === 0) {
+    return `Table: ${name}\nColumns: ${table.columns.join(', ')}\n${rows}Description: ${table.description}\n`;
+  }
+  const indexes = (table.indexes ?? [])
+    .map((index) => `${index.unique ? 'UNIQUE ' : ''}${index.name} (${index.columns.join(', ')})`)
+    .join('; ');
+  return `Table: ${name}\nColumns:\n${table.columns.map((column) => describeColumn(table, column, profile)).join('\n')}\n` +
+    `${indexes ? `Indexes: ${indexes}\n` : ''}${rows}Description: ${table.description}\n`;
+};
+
+/**
+ * Tables for the system prompt, with column types, keys and ENUM values where
+ * known, plus sample values, ranges and row counts from the column profile
+ */
+export const describeSchema = (schema: SchemaTables, profile?: Record<string, TableProfile>): string =>
+  Object.entries(schema).map(([name, table]) => describeTable(name, table, profile?.[name])).join('\n');
+
+/** Join paths for the system prompt; empty when there are none */
+export const describeRelationships = (relationships: Relationship[] | undefined): string =>
+  relationships && relationships.length > 0
+    ? `\nJOIN PATHS (foreign keys):\n${relationships.map((r) => `- ${r.from}.${r.fromColumn} = ${r.to}.${r.toColumn}`).join('\n')}\n`
+    : '';
+
+const describeResult = (result: ResultSummary): string =>
+  `The query returned ${result.rowCount} row${result.rowCount === 1 ? '' : 's'} with columns: ${result.columns.join(', ') || '(none)'}.`;
+
+const describeRepair = (attempt: RepairAttempt): string =>
+  `The database rejected that query: ${attempt.error.code ? `${attempt.error.code}: ` : ''}${attempt.error.message}\n\n` +
+  'Fix the query for the same request. Use only tables and columns from the schema, and respond with the same JSON object.';
+
+/**
+ * Replay earlier turns as alternating user/assistant messages so the provider
+ * sees the previous SQL and can edit it for a follow-up request. Failed
+ * attempts at the current prompt follow it, each with the database error.
+ */
+export const buildConversationMessages = (
+  history: ConversationTurn[] | undefined,
+  userPrompt: string,
+  formatPrompt: (prompt: string) => string,
+  repairs: RepairAttempt[] = []
+): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  let pendingNote = '';
+
+  for (const turn of history ?? []) {
+    messages.push({ role: 'user', content: pendingNote + formatPrompt(turn.prompt) });
+    messages.push({
+      role: 'assistant',
+      content: JSON.stringify({ sql: turn.sql, reasoning: turn.reasoning ?? '' })
+    });
+    pendingNote = turn.result ? `${describeResult(turn.result)}\n\n` : '';
+  }
+
+  const followUp = messages.length > 0
+    ? 'This is a follow-up. If it refines the previous query, return the complete updated SQL rather than a fragment.\n\n'
+    : '';
+  messages.push({ role: 'user', content: pendingNote + followUp + formatPrompt(userPrompt) });
+
+  for (const attempt of repairs) {
+    messages.push({ role: 'assistant', content: JSON.stringify({ sql: attempt.sql }) });
+    messages.push({ role: 'user', content: describeRepair(attempt) });
+  }
+  return messages;
+};
+
+/**
+ * A backend that turns natural language into SQL. Providers are registered by
+ * id and selected at runtime through the unified AI service.
+ */
+export interface AIProviderAdapter {
+  readonly id: string;
+  readonly label: string;
+  readonly enabled: boolean;
+  generateQuery(request: QueryGenerationRequest): Promise<QueryGenerationResponse | null>;
+  testConnection(): Promise<boolean>;
+  listModels(): Promise<string[]>;
+  getConfig(): AIProviderConfig;
+  updateConfig(config: AIProviderConfig): void;
+}
+
+export interface AIProviderSummary {
+  id: string;
+  label: string;
+  enabled: boolean;
+  model: string;
+  baseURL?: string;
+}
+
+class AIProviderRegistry {
+  private providers = new Map<string, AIProviderAdapter>();
+
+  public register(provider: AIProviderAdapter): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`AI provider already registered: ${provider.id}`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  public get(id: string): AIProviderAdapter | undefined {
+    return this.providers.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  public list(): AIProviderAdapter[] {
+    return [...this.providers.values()];
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
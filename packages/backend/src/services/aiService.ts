@@ -1,48 +1,53 @@
 import openaiService from './openaiService';
 import anthropicService from './anthropicService';
+import openaiCompatibleService from './openaiCompatibleService';
 import dotenv from 'dotenv';
+import {
+  aiProviderRegistry,
+  AIProviderAdapter,
+  AIProviderConfig,
+  AIProviderSummary,
+  QueryGenerationRequest,
+  QueryGenerationResponse
+} from './aiProviders';
+import { generationCacheKey, generationCacheService } from './generationCacheService';
 
 dotenv.config();
 
-export type AIProvider = 'openai' | 'anthropic';
+// Built-in providers; others can be added with aiProviderRegistry.register()
+aiProviderRegistry.register(anthropicService);
+aiProviderRegistry.register(openaiService);
+aiProviderRegistry.register(openaiCompatibleService);
 
-interface QueryGenerationRequest {
-  prompt: string;
-  schema: Record<string, { columns: string[]; description: string }>;
+/** Id of a registered provider, e.g. 'anthropic', 'openai' or 'openai-compatible' */
+export type AIProvider = string;
+
+/** The active provider plus a config object keyed by each provider id */
+interface AIServiceConfig {
+  provider: AIProvider;
+  [providerId: string]: AIProviderConfig | AIProvider;
 }
 
-interface QueryGenerationResponse {
-  sql: string;
-  confidence: number;
-  reasoning: string;
-  tables_used: string[];
+export interface GenerationOptions {
+  // Generations are cached per connection; without one the provider is always called
+  databaseId?: number;
+  // Skip the cache lookup and replace the entry with a fresh answer
+  regenerate?: boolean;
 }
 
-interface AIServiceConfig {
-  provider: AIProvider;
-  openai: {
-    enabled: boolean;
-    apiKey: string;
-    model: string;
-    temperature: number;
-    maxTokens: number;
-  };
-  anthropic: {
-    enabled: boolean;
-    apiKey: string;
-    model: string;
-    temperature: number;
-    maxTokens: number;
-  };
+export interface GenerationResult extends QueryGenerationResponse {
+  // Set when the answer came from the generation cache
+  cachedAt?: Date;
 }
 
 class UnifiedAIService {
   private currentProvider: AIProvider = 'anthropic'; // Default to Anthropic
 
   constructor() {
-    // Set default provider based on which API key is available
+    // Set default provider based on which provider is configured
     const anthropicKey = process.env.ANTHROPIC_API_KEY;
     const openaiKey = process.env.OPENAI_API_KEY;
+    const compatibleBaseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
     
     if (anthropicKey && anthropicKey.length > 0) {
       this.currentProvider = 'anthropic';
@@ -50,10 +55,24 @@ class UnifiedAIService {
     } else if (openaiKey && openaiKey.length > 0) {
       this.currentProvider = 'openai';
       console.log('✅ Using OpenAI as default AI provider');
+    } else if (compatibleBaseURL && compatibleBaseURL.length > 0) {
+      this.currentProvider = 'openai-compatible';
+      console.log(`✅ Using OpenAI-compatible endpoint ${compatibleBaseURL} as default AI provider`);
     }
   }
 
+  private get provider(): AIProviderAdapter | undefined {
+    return aiProviderRegistry.get(this.currentProvider);
+  }
+
+  public hasProvider(provider: string): boolean {
+    return aiProviderRegistry.has(provider);
+  }
+
   public setProvider(provider: AIProvider): void {
+    if (!aiProviderRegistry.has(provider)) {
+      throw new Error(`Unknown AI provider: ${provider}`);
+    }
     this.currentProvider = provider;
     console.log(`🔄 Switched AI provider to: ${provider}`);
   }
@@ -62,69 +81,78 @@ class UnifiedAIService {
     return this.currentProvider;
   }
 
+  /** Model the active provider is configured to use */
+  public getModel(): string | undefined {
+    return this.provider?.getConfig().model;
+  }
+
   public get enabled(): boolean {
-    if (this.currentProvider === 'anthropic') {
-      return anthropicService.enabled;
-    } else {
-      return openaiService.enabled;
-    }
+    return this.provider?.enabled ?? false;
   }
 
-  public async generateQuery(request: QueryGenerationRequest): Promise<QueryGenerationResponse | null> {
-    if (this.currentProvider === 'anthropic') {
-      return anthropicService.generateQuery(request);
-    } else {
-      return openaiService.generateQuery(request);
+  /**
+   * Generate SQL with the active provider, reusing a cached answer to the same
+   * prompt against the same schema and model. Repair requests always reach the
+   * provider; their answer replaces the cached one that failed.
+   */
+  public async generateQuery(request: QueryGenerationRequest, options: GenerationOptions = {}): Promise<GenerationResult | null> {
+    const provider = this.provider;
+    if (!provider) return null;
+    if (options.databaseId === undefined) return provider.generateQuery(request);
+
+    const { repairs, ...base } = request;
+    const { model, temperature } = provider.getConfig();
+    const cacheModel = { provider: provider.id, model, temperature };
+    const cacheKey = generationCacheKey(base, cacheModel);
+
+    if (!options.regenerate && !repairs?.length) {
+      const cached = await generationCacheService.get(cacheKey);
+      if (cached) {
+        return { ...cached.response, cachedAt: cached.createdAt };
+      }
+    }
+
+    const response = await provider.generateQuery(request);
+    if (response) {
+      await generationCacheService.set(cacheKey, { databaseId: options.databaseId, prompt: request.prompt, model: cacheModel, response });
     }
+    return response;
   }
 
   public updateConfig(config: AIServiceConfig): void {
-    this.currentProvider = config.provider;
-    
-    if (config.openai) {
-      openaiService.updateConfig(config.openai);
+    if (typeof config.provider === 'string' && aiProviderRegistry.has(config.provider)) {
+      this.currentProvider = config.provider;
     }
-    
-    if (config.anthropic) {
-      anthropicService.updateConfig(config.anthropic);
+
+    for (const provider of aiProviderRegistry.list()) {
+      const providerConfig = config[provider.id];
+      if (providerConfig && typeof providerConfig === 'object') {
+        provider.updateConfig(providerConfig);
+      }
     }
   }
 
   public getConfig(): AIServiceConfig {
-    return {
-      provider: this.currentProvider,
-      openai: openaiService.getConfig(),
-      anthropic: anthropicService.getConfig()
-    };
+    const config: AIServiceConfig = { provider: this.currentProvider };
+    for (const provider of aiProviderRegistry.list()) {
+      config[provider.id] = provider.getConfig();
+    }
+    return config;
   }
 
   public async testConnection(): Promise<boolean> {
-    if (this.currentProvider === 'anthropic') {
-      return anthropicService.testConnection();
-    } else {
-      return openaiService.testConnection();
-    }
+    return this.provider ? this.provider.testConnection() : false;
   }
 
-  public getAvailableModels(provider: AIProvider): string[] {
-    if (provider === 'anthropic') {
-      return [
-        'claude-sonnet-4-20250514',
-        'claude-3-5-sonnet-20241022',
-        'claude-3-5-haiku-20241022',
-        'claude-3-opus-20240229',
-        'claude-3-sonnet-20240229',
-        'claude-3-haiku-20240307'
-      ];
-    } else {
-      return [
-        'gpt-4-turbo-preview',
-        'gpt-4',
-        'gpt-3.5-turbo',
-        'gpt-4o',
-        'gpt-4o-mini'
-      ];
-    }
+  public listProviders(): AIProviderSummary[] {
+    return aiProviderRegistry.list().map((provider) => {
+      const { model, baseURL } = provider.getConfig();
+      return { id: provider.id, label: provider.label, enabled: provider.enabled, model, ...(baseURL ? { baseURL } : {}) };
+    });
+  }
+
+  public async getAvailableModels(provider: AIProvider): Promise<string[]> {
+    return aiProviderRegistry.get(provider)?.listModels() ?? [];
   }
 }
 
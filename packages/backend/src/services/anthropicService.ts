@@ -1,29 +1,28 @@
 import Anthropic from '@anthropic-ai/sdk';
 import dotenv from 'dotenv';
+import { describeQueryPolicy, QueryPolicy } from '../utils/queryPolicy';
+import type { TableProfile } from '../utils/schemaProfile';
+import { DEFAULT_DIALECT, Dialect, DIALECT_LABELS, DIALECT_PROMPTS } from '../utils/dialects';
+import { buildConversationMessages, describeRelationships, describeSchema } from './aiProviders';
+import type { Relationship, SchemaTables } from './drivers';
+import type { AIProviderAdapter, AIProviderConfig, QueryGenerationRequest, QueryGenerationResponse } from './aiProviders';
 
 dotenv.config();
 
-interface QueryGenerationRequest {
-  prompt: string;
-  schema: Record<string, { columns: string[]; description: string }>;
-}
+const ANTHROPIC_MODELS = [
+  'claude-sonnet-4-20250514',
+  'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-20241022',
+  'claude-3-opus-20240229',
+  'claude-3-sonnet-20240229',
+  'claude-3-haiku-20240307'
+];
 
-interface QueryGenerationResponse {
-  sql: string;
-  confidence: number;
-  reasoning: string;
-  tables_used: string[];
-}
+type AnthropicConfig = AIProviderConfig;
 
-interface AnthropicConfig {
-  enabled: boolean;
-  apiKey: string;
-  model: string;
-  temperature: number;
-  maxTokens: number;
-}
-
-class AnthropicService {
+class AnthropicService implements AIProviderAdapter {
+  public readonly id = 'anthropic';
+  public readonly label = 'Anthropic Claude';
   private anthropic: Anthropic | null = null;
   private isEnabled = false;
   private config: AnthropicConfig = {
@@ -78,6 +77,10 @@ class AnthropicService {
     return { ...this.config };
   }
 
+  public async listModels(): Promise<string[]> {
+    return [...ANTHROPIC_MODELS];
+  }
+
   private sanitizeJsonString(jsonStr: string): string {
     // Remove markdown code blocks if present
     let cleaned = jsonStr.replace(/```json\s*|```\s*/g, '').trim();
@@ -108,17 +111,20 @@ class AnthropicService {
     }
 
     try {
-      const systemPrompt = this.buildSystemPrompt(request.schema);
-      const userPrompt = this.buildUserPrompt(request.prompt);
+      const systemPrompt = this.buildSystemPrompt(request.schema, request.policy, request.dialect, request.relationships, request.profile);
+      const messages = buildConversationMessages(
+        request.history,
+        request.prompt,
+        (prompt) => this.buildUserPrompt(prompt),
+        request.repairs
+      );
 
       const message = await this.anthropic.messages.create({
         model: this.config.model,
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         system: systemPrompt,
-        messages: [
-          { role: 'user', content: userPrompt }
-        ]
+        messages
       });
 
       const response = message.content[0];
@@ -136,6 +142,7 @@ class AnthropicService {
 
       // Ensure confidence is between 0 and 1
       parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
+      parsed.usage = { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens };
 
       return parsed;
     } catch (error) {
@@ -144,16 +151,25 @@ class AnthropicService {
     }
   }
 
-  private buildSystemPrompt(schema: Record<string, { columns: string[]; description: string }>): string {
-    const schemaDescription = Object.entries(schema)
-      .map(([table, info]) => `Table: ${table}\nColumns: ${info.columns.join(', ')}\nDescription: ${info.description}\n`)
-      .join('\n');
-
-    return `You are Claude Sonnet 4, an expert SQL query generator specialized in MySQL. Your task is to convert natural language requests into precise, executable SQL queries.
+  private buildSystemPrompt(
+    schema: SchemaTables,
+    policy?: QueryPolicy | null,
+    dialect: Dialect = DEFAULT_DIALECT,
+    relationships?: Relationship[],
+    profile?: Record<string, TableProfile>
+  ): string {
+    const schemaDescription = describeSchema(schema, profile) + describeRelationships(relationships);
+    const policyDescription = describeQueryPolicy(policy);
+    const dialectPrompt = DIALECT_PROMPTS[dialect];
+    const dialectNotes = dialectPrompt.notes.length > 0
+      ? `\n${DIALECT_LABELS[dialect].toUpperCase()} NOTES:\n${dialectPrompt.notes.map((note) => `- ${note}`).join('\n')}\n`
+      : '';
+
+    return `You are Claude Sonnet 4, an expert SQL query generator specialized in ${DIALECT_LABELS[dialect]}. Your task is to convert natural language requests into precise, executable SQL queries.
 
 DATABASE SCHEMA:
 ${schemaDescription}
-
+${policyDescription ? `\n${policyDescription}\n` : ''}
 IMPORTANT SCHEMA ANALYSIS:
 - Look for tables with compound names (e.g., film_actor, film_category) - these are junction tables linking two entities
 - Foreign keys typically follow the pattern: table_id (e.g., actor_id links to actor table, film_id links to film table)
@@ -163,22 +179,21 @@ IMPORTANT SCHEMA ANALYSIS:
 
 CRITICAL RULES FOR SQL GENERATION:
 1. ONLY use tables and columns that EXACTLY match the schema above
-2. Use proper MySQL syntax (backticks for identifiers if needed)
+2. ${dialectPrompt.syntax}
 3. ANALYZE THE SCHEMA FIRST: Identify junction tables and foreign key relationships before writing SQL
 4. For many-to-many relationships, ALWAYS join through junction tables (e.g., film_actor links film and actor)
 5. Chain JOINs properly: If querying "actors in horror films", join actor → film_actor → film → film_category → category
 6. Always include WHERE clauses when filtering (e.g., WHERE category.name = 'Horror')
 7. Add ORDER BY for "top", "most", "best" queries, plus COUNT/GROUP BY for aggregations
-8. ALWAYS include LIMIT with a NUMERIC value at the end (e.g., LIMIT 10, LIMIT 20) - NEVER omit LIMIT, NEVER use words
+8. ${dialectPrompt.rowLimitRule}
 9. Use meaningful table aliases (e.g., 'f' for film, 'a' for actor, 'fa' for film_actor)
 10. For text searches, use LIKE with wildcards: WHERE column LIKE '%value%'
 11. Handle possessive/plural forms intelligently (e.g., "films" → film table, "actors" → actor table)
 12. ALWAYS select primary identifier columns FIRST (e.g., film_id, title for films; actor_id, first_name, last_name for actors)
 13. For "show all X" queries, select the most relevant columns: IDs, names/titles, and 2-3 key descriptive fields
-
+${dialectNotes}
 IMPORTANT REQUIREMENTS:
-- LIMIT clause is MANDATORY - every query must end with "LIMIT <number>"
-- LIMIT must be a number (10-50 typical), never a word or variable
+${dialectPrompt.rowLimitRequirements.map((requirement) => `- ${requirement}`).join('\n')}
 - Always select identifier columns first (e.g., film_id, title) before detail columns
 - For "show/list all" queries, select: ID, name/title, and 2-3 most important descriptive columns
 
@@ -0,0 +1,75 @@
+import { databaseService, DatabaseConfig } from './databaseSystemService';
+import { hasRole, userService } from './userService';
+import { teamService } from './teamService';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+export type PermittedDatabase = DatabaseConfig & { id: number };
+
+export const NO_DATABASE_ACCESS = 'No database connection is available to you. Ask an admin to add you to a team with access to one.';
+
+/**
+ * Which database connections a caller may use and which one they are working
+ * against. Admins may use every active connection; everyone else only those
+ * granted to one of their teams. Signed-in users keep their choice on their
+ * account; with authentication disabled it is kept per browser session.
+ */
+class ConnectionService {
+  private sessionSelections = new Map<string, number>();
+
+  /** Active connections the user may use, default first */
+  async listDatabases(user: AuthenticatedUser | undefined): Promise<PermittedDatabase[]> {
+    if (!user) return [];
+    const databases = await databaseService.getDatabaseConfigs() as PermittedDatabase[];
+    if (hasRole(user.role, 'admin')) return databases;
+
+    const granted = new Set(await teamService.databaseIdsForUser(user.id));
+    return databases.filter((database) => granted.has(database.id));
+  }
+
+  /**
+   * Connections whose logs, history and analytics the caller may see.
+   * Undefined for admins, who also see entries of removed connections.
+   */
+  async visibleDatabaseIds(user: AuthenticatedUser | undefined): Promise<number[] | undefined> {
+    if (user && hasRole(user.role, 'admin')) return undefined;
+    return (await this.listDatabases(user)).map((database) => database.id);
+  }
+
+  /**
+   * The connection the caller works against: their own selection while it is
+   * still permitted, else the default connection, else the first one they
+   * may use. Null when they may use none.
+   */
+  async getActiveDatabase(user: AuthenticatedUser | undefined, sessionId: string | null): Promise<PermittedDatabase | null> {
+    const databases = await this.listDatabases(user);
+    const selectedId = await this.selectedDatabaseId(user, sessionId);
+    return databases.find((database) => database.id === selectedId) ?? databases[0] ?? null;
+  }
+
+  /** Make a permitted connection the caller's active one; null when it is not theirs to use */
+  async selectDatabase(
+    user: AuthenticatedUser | undefined,
+    sessionId: string | null,
+    databaseId: number
+  ): Promise<PermittedDatabase | null> {
+    const database = (await this.listDatabases(user)).find((candidate) => candidate.id === databaseId);
+    if (!user || !database) return null;
+
+    if (user.id > 0) {
+      await userService.setActiveDatabase(user.id, databaseId);
+    } else if (sessionId) {
+      this.sessionSelections.set(sessionId, databaseId);
+    }
+    return database;
+  }
+
+  private async selectedDatabaseId(user: AuthenticatedUser | undefined, sessionId: string | null): Promise<number | null> {
+    if (!user) return null;
+    // The anonymous user of AUTH_DISABLED=true has no account to store it on
+    if (user.id === 0) return sessionId ? this.sessionSelections.get(sessionId) ?? null : null;
+    return (await userService.get(user.id))?.active_database_id ?? null;
+  }
+}
+
+export const connectionService = new ConnectionService();
+export default connectionService;
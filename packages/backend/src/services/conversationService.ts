@@ -0,0 +1,99 @@
+import type { ConversationTurn, ResultSummary } from './aiProviders';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+// Older turns add tokens without helping the model refine the latest query
+const MAX_TURNS = 10;
+// Threads nobody has touched for this long are dropped
+const IDLE_TTL_MS = 60 * 60 * 1000;
+const MAX_SESSIONS = 1000;
+
+interface Thread {
+  turns: ConversationTurn[];
+  updatedAt: number;
+}
+
+/**
+ * Per-session conversation threads used to refine the previous query
+ * ("now only for 2006"). Threads live in memory and are keyed by the
+ * signed-in user and the X-Session-Id header (see conversationKey);
+ * requests without a session id are always standalone.
+ */
+class ConversationService {
+  private threads = new Map<string, Thread>();
+
+  private prune(now: number): void {
+    for (const [sessionId, thread] of this.threads) {
+      if (now - thread.updatedAt > IDLE_TTL_MS) this.threads.delete(sessionId);
+    }
+    // Map iteration follows insertion order, and touched threads are re-inserted
+    while (this.threads.size > MAX_SESSIONS) {
+      const oldest = this.threads.keys().next().value as string;
+      this.threads.delete(oldest);
+    }
+  }
+
+  private touch(sessionId: string, thread: Thread): void {
+    thread.updatedAt = Date.now();
+    this.threads.delete(sessionId);
+    this.threads.set(sessionId, thread);
+  }
+
+  public getTurns(sessionId: string | null): ConversationTurn[] {
+    if (!sessionId) return [];
+    const thread = this.threads.get(sessionId);
+    if (!thread || Date.now() - thread.updatedAt > IDLE_TTL_MS) return [];
+    return thread.turns.map((turn) => ({ ...turn }));
+  }
+
+  public addTurn(sessionId: string | null, turn: ConversationTurn): void {
+    if (!sessionId) return;
+    const now = Date.now();
+    this.prune(now);
+
+    const thread = this.threads.get(sessionId) ?? { turns: [], updatedAt: now };
+    thread.turns.push(turn);
+    if (thread.turns.length > MAX_TURNS) thread.turns.splice(0, thread.turns.length - MAX_TURNS);
+    this.touch(sessionId, thread);
+  }
+
+  /**
+   * Attach the outcome of running the latest query. The executed SQL replaces
+   * the generated one, so follow-ups build on what the user actually ran.
+   */
+  public recordResult(sessionId: string | null, sql: string, result: ResultSummary): void {
+    if (!sessionId) return;
+    const thread = this.threads.get(sessionId);
+    const last = thread?.turns[thread.turns.length - 1];
+    if (!thread || !last) return;
+
+    last.sql = sql.trim();
+    last.result = result;
+    this.touch(sessionId, thread);
+  }
+
+  /** Forget the latest turn, e.g. when its answer is being regenerated */
+  public removeLastTurn(sessionId: string | null): void {
+    const thread = sessionId ? this.threads.get(sessionId) : undefined;
+    if (thread) thread.turns.pop();
+  }
+
+  public clear(sessionId: string | null): void {
+    if (sessionId) this.threads.delete(sessionId);
+  }
+}
+
+/** The client's X-Session-Id, or null when it did not send one */
+export const getSessionId = (header: unknown): string | null =>
+  typeof header === 'string' && header.trim().length > 0 ? header.trim().slice(0, 128) : null;
+
+/**
+ * The caller's conversation thread key: their X-Session-Id scoped to their
+ * account, so a session id sent by another user names a different thread
+ */
+export const conversationKey = (user: AuthenticatedUser | undefined, header: unknown): string | null => {
+  const sessionId = getSessionId(header);
+  return sessionId ? `${user?.id ?? 0}:${sessionId}` : null;
+};
+
+export const conversationService = new ConversationService();
+export default conversationService;
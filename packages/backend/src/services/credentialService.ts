@@ -0,0 +1,30 @@
+import type mysql from 'mysql2/promise';
+import { rewrapSecret } from '../utils/secrets';
+
+// Columns holding credentials; see utils/secrets for the stored format
+const SECRET_COLUMNS = [
+  { table: 'database_settings', column: 'password' },
+  { table: 'ai_settings', column: 'api_key' }
+] as const;
+
+/**
+ * Bring every stored credential under the current master key: plaintext
+ * values are encrypted and values wrapped with a previous key are re-wrapped.
+ * Used by the startup migration and by `npm run secrets:rotate`. Returns the
+ * number of rows changed.
+ */
+export const reencryptCredentials = async (connection: mysql.Connection): Promise<number> => {
+  let changed = 0;
+  for (const { table, column } of SECRET_COLUMNS) {
+    const [rows] = await connection.query(
+      `SELECT id, ${column} AS secret FROM ${table} WHERE ${column} IS NOT NULL AND ${column} != ''`
+    );
+    for (const row of rows as { id: number; secret: string }[]) {
+      const rewrapped = rewrapSecret(row.secret);
+      if (rewrapped === row.secret) continue;
+      await connection.query(`UPDATE ${table} SET ${column} = ? WHERE id = ?`, [rewrapped, row.id]);
+      changed++;
+    }
+  }
+  return changed;
+};
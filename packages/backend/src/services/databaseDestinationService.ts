@@ -1,5 +1,5 @@
 import mysql from 'mysql2/promise';
-import { AIConfig } from './openaiService';
+import { assertSafeSql } from '../utils/sqlSafety';
 
 
 class DatabaseDestinationService {
@@ -45,33 +45,11 @@ class DatabaseDestinationService {
 
   async runQuery(query: string): Promise<any> {
     // Enforce read-only, single-statement SELECT queries
-    const sanitized = query.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--.*$/gm, '').replace(/#.*/g, '').trim();
-    const lower = sanitized.toLowerCase();
-    if (!lower.startsWith('select')) {
-      throw new Error('Only SELECT queries are allowed');
-    }
-    if (sanitized.indexOf(';') !== -1 && sanitized.indexOf(';') < sanitized.length - 1) {
-      throw new Error('Multiple statements are not allowed');
-    }
-
-    const forbidden = [
-      /\b(drop|delete|truncate|alter|create|grant|revoke|insert|update|call|exec|execute)\b/i,
-      /union\s+all?\s+select/i,
-      /into\s+outfile/i,
-      /load_file\s*\(/i,
-      /sleep\s*\(/i,
-      /benchmark\s*\(/i,
-      /information_schema\./i,
-    ];
-    for (const p of forbidden) {
-      if (p.test(sanitized)) {
-        throw new Error('Query contains disallowed operations');
-      }
-    }
+    assertSafeSql(query);
 
     const connection = await this.getConnection();
     try {
-      const [rows] = await connection.execute(sanitized);
+      const [rows] = await connection.execute(query.trim());
       return rows;
     } finally {
       connection.release();
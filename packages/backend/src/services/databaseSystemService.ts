@@ -1,9 +1,17 @@
-import mysql, { RowDataPacket } from 'mysql2/promise';
+import mysql from 'mysql2/promise';
 import { AIConfig } from './openaiService';
+import { createDriver, DatabaseDriver, Relationship, SchemaTables } from './drivers';
+import { Dialect, normalizeDialect } from '../utils/dialects';
+import { parseQueryPolicy, QueryPolicy } from '../utils/queryPolicy';
+import { parseMaskingRules, MaskingRule } from '../utils/masking';
+import { parseStoredSchema } from '../utils/schemaModel';
+import { parseSchemaProfile, SchemaProfile } from '../utils/schemaProfile';
+import { decryptSecret, encryptSecret } from '../utils/secrets';
 
 interface DatabaseConfig {
   id?: number;
   name: string;
+  dialect?: Dialect;
   host: string;
   port: number;
   database_name: string;
@@ -12,6 +20,10 @@ interface DatabaseConfig {
   ssl_enabled: boolean;
   is_active: boolean;
   is_default: boolean;
+  query_policy?: QueryPolicy | null;
+  masking_rules?: MaskingRule[] | null;
+  // Set when the stored password cannot be decrypted, e.g. after the master key was rotated away
+  needs_credentials?: boolean;
 }
 
 interface AISettingsDB extends AIConfig {
@@ -19,6 +31,8 @@ interface AISettingsDB extends AIConfig {
   name: string;
   is_active: boolean;
   is_default: boolean;
+  // Set when the stored API key cannot be decrypted
+  needs_credentials?: boolean;
 }
 
 interface AppSetting {
@@ -30,6 +44,25 @@ interface AppSetting {
   is_system: boolean;
 }
 
+// Credentials are encrypted at rest and only decrypted in memory. A password
+// that cannot be decrypted only takes its own connection out of service.
+const withDatabasePassword = (row: DatabaseConfig): DatabaseConfig => {
+  try {
+    return { ...row, password: decryptSecret(row.password) };
+  } catch (error) {
+    console.error(`Failed to decrypt the password of database connection ${row.name}:`, (error as Error).message);
+    return { ...row, password: '', needs_credentials: true };
+  }
+};
+const withAIKey = (row: AISettingsDB & { api_key?: string | null }): AISettingsDB => {
+  try {
+    return { ...row, api_key: decryptSecret(row.api_key) } as AISettingsDB;
+  } catch (error) {
+    console.error(`Failed to decrypt the API key of AI configuration ${row.name}:`, (error as Error).message);
+    return { ...row, api_key: '', needs_credentials: true } as AISettingsDB;
+  }
+};
+
 class DatabaseSystemService {
   private pool: mysql.Pool | null = null;
   private settingsDbUrl: string;
@@ -66,7 +99,7 @@ class DatabaseSystemService {
       const [rows] = await connection.execute(
         'SELECT * FROM database_settings WHERE is_active = 1 ORDER BY is_default DESC, name ASC'
       );
-      return rows as DatabaseConfig[];
+      return (rows as DatabaseConfig[]).map(withDatabasePassword);
     } finally {
       connection.release();
     }
@@ -80,12 +113,25 @@ class DatabaseSystemService {
       );
       const dbRows = rows as DatabaseConfig[];
       
-      return dbRows.length > 0 ? dbRows[0] : null;
+      return dbRows.length > 0 ? withDatabasePassword(dbRows[0]) : null;
     } finally {
       connection.release();
     }
   }
 
+  async getDatabaseConfig(databaseId: number): Promise<DatabaseConfig | null> {
+    const connection = await this.getConnection();
+    try {
+      const [rows] = await connection.execute(
+        'SELECT * FROM database_settings WHERE id = ? AND is_active = 1 LIMIT 1',
+        [databaseId]
+      );
+      const dbRows = rows as DatabaseConfig[];
+      return dbRows.length > 0 ? withDatabasePassword(dbRows[0]) : null;
+    } finally {
+      connection.release();
+    }
+  }
 
   async upsertDatabaseConfig(config: Omit<DatabaseConfig, 'id'>): Promise<number> {
     const connection = await this.getConnection();
@@ -102,15 +148,15 @@ class DatabaseSystemService {
 
       const [result] = await connection.execute(
         `INSERT INTO database_settings 
-         (name, host, port, database_name, username, password, ssl_enabled, is_active, is_default)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         (name, dialect, host, port, database_name, username, password, ssl_enabled, is_active, is_default)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
          ON DUPLICATE KEY UPDATE
-         host = VALUES(host), port = VALUES(port), database_name = VALUES(database_name),
+         dialect = VALUES(dialect), host = VALUES(host), port = VALUES(port), database_name = VALUES(database_name),
          username = VALUES(username), password = VALUES(password), ssl_enabled = VALUES(ssl_enabled),
          is_active = VALUES(is_active), is_default = VALUES(is_default)`,
         [
-          config.name, config.host, config.port, config.database_name,
-          config.username, config.password, config.ssl_enabled, 
+          config.name, normalizeDialect(config.dialect), config.host, config.port, config.database_name,
+          config.username, encryptSecret(config.password), config.ssl_enabled, 
           config.is_active, config.is_default
         ]
       );
@@ -133,6 +179,141 @@ class DatabaseSystemService {
     }
   }
 
+  // Query policy for a database configuration (defaults to the active one).
+  // Returns null when no policy is stored or it cannot be loaded.
+  async getQueryPolicy(databaseId?: number): Promise<QueryPolicy | null> {
+    try {
+      const connection = await this.getConnection();
+      try {
+        const [rows] = databaseId !== undefined
+          ? await connection.execute('SELECT query_policy FROM database_settings WHERE id = ? LIMIT 1', [databaseId])
+          : await connection.execute('SELECT query_policy FROM database_settings WHERE is_default = 1 AND is_active = 1 LIMIT 1');
+        const policyRows = rows as Array<{ query_policy: unknown }>;
+        return policyRows.length > 0 ? parseQueryPolicy(policyRows[0].query_policy) : null;
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      console.warn('Failed to load query policy:', error);
+      return null;
+    }
+  }
+
+  async updateQueryPolicy(databaseId: number, policy: QueryPolicy | null): Promise<boolean> {
+    const connection = await this.getConnection();
+    try {
+      const [result] = await connection.execute(
+        'UPDATE database_settings SET query_policy = ? WHERE id = ?',
+        [policy ? JSON.stringify(policy) : null, databaseId]
+      );
+      return (result as mysql.ResultSetHeader).affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  // PII masking rules for a database configuration (defaults to the active one).
+  // Returns an empty list when no rules are stored or they cannot be loaded.
+  async getMaskingRules(databaseId?: number): Promise<MaskingRule[]> {
+    try {
+      const connection = await this.getConnection();
+      try {
+        const [rows] = databaseId !== undefined
+          ? await connection.execute('SELECT masking_rules FROM database_settings WHERE id = ? LIMIT 1', [databaseId])
+          : await connection.execute('SELECT masking_rules FROM database_settings WHERE is_default = 1 AND is_active = 1 LIMIT 1');
+        const ruleRows = rows as Array<{ masking_rules: unknown }>;
+        return ruleRows.length > 0 ? parseMaskingRules(ruleRows[0].masking_rules) : [];
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      console.warn('Failed to load masking rules:', error);
+      return [];
+    }
+  }
+
+  async updateMaskingRules(databaseId: number, rules: MaskingRule[]): Promise<boolean> {
+    const connection = await this.getConnection();
+    try {
+      const [result] = await connection.execute(
+        'UPDATE database_settings SET masking_rules = ? WHERE id = ?',
+        [rules.length > 0 ? JSON.stringify(rules) : null, databaseId]
+      );
+      return (result as mysql.ResultSetHeader).affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  // Seconds preview results of a database configuration are cached, or null when caching is off.
+  // Caching stays off when the setting cannot be loaded.
+  async getResultCacheTtl(databaseId: number): Promise<number | null> {
+    try {
+      const connection = await this.getConnection();
+      try {
+        const [rows] = await connection.execute('SELECT result_cache_ttl_seconds FROM database_settings WHERE id = ? LIMIT 1', [databaseId]);
+        const ttl = Number((rows as Array<{ result_cache_ttl_seconds: unknown }>)[0]?.result_cache_ttl_seconds);
+        return Number.isInteger(ttl) && ttl > 0 ? ttl : null;
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      console.warn('Failed to load result cache TTL:', error);
+      return null;
+    }
+  }
+
+  async updateResultCacheTtl(databaseId: number, ttlSeconds: number | null): Promise<boolean> {
+    const connection = await this.getConnection();
+    try {
+      const [result] = await connection.execute(
+        'UPDATE database_settings SET result_cache_ttl_seconds = ? WHERE id = ?',
+        [ttlSeconds, databaseId]
+      );
+      return (result as mysql.ResultSetHeader).affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  // Column value profile of a database configuration (defaults to the active one).
+  // Returns null when it has not been profiled or the profile cannot be loaded.
+  async getSchemaProfile(databaseId?: number): Promise<SchemaProfile | null> {
+    try {
+      const connection = await this.getConnection();
+      try {
+        const [rows] = databaseId !== undefined
+          ? await connection.execute('SELECT profile_json FROM database_config_files WHERE database_settings_id = ? LIMIT 1', [databaseId])
+          : await connection.execute(
+            `SELECT f.profile_json FROM database_config_files f
+               JOIN database_settings s ON s.id = f.database_settings_id
+              WHERE s.is_default = 1 AND s.is_active = 1 LIMIT 1`
+          );
+        const profileRows = rows as Array<{ profile_json: unknown }>;
+        return profileRows.length > 0 ? parseSchemaProfile(profileRows[0].profile_json) : null;
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      console.warn('Failed to load schema profile:', error);
+      return null;
+    }
+  }
+
+  async saveSchemaProfile(databaseId: number, profile: SchemaProfile): Promise<void> {
+    const connection = await this.getConnection();
+    try {
+      await connection.execute(
+        `INSERT INTO database_config_files (database_settings_id, profile_json)
+         VALUES (?, ?)
+         ON DUPLICATE KEY UPDATE profile_json = VALUES(profile_json)`,
+        [databaseId, JSON.stringify(profile)]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
   // AI Settings Methods
   async getAISettings(): Promise<AISettingsDB[]> {
     const connection = await this.getConnection();
@@ -140,7 +321,7 @@ class DatabaseSystemService {
       const [rows] = await connection.execute(
         'SELECT * FROM ai_settings WHERE is_active = 1 ORDER BY is_default DESC, name ASC'
       );
-      return rows as AISettingsDB[];
+      return (rows as AISettingsDB[]).map(withAIKey);
     } finally {
       connection.release();
     }
@@ -154,7 +335,7 @@ class DatabaseSystemService {
       );
       const aiRows = rows as AISettingsDB[];
       
-      return aiRows.length > 0 ? aiRows[0] : null;
+      return aiRows.length > 0 ? withAIKey(aiRows[0]) : null;
     } finally {
       connection.release();
     }
@@ -186,7 +367,7 @@ class DatabaseSystemService {
          temperature = VALUES(temperature), max_tokens = VALUES(max_tokens),
          is_active = VALUES(is_active), is_default = VALUES(is_default)`,
         [
-          settings.name, settings.enabled, settings.apiKey, settings.model,
+          settings.name, settings.enabled, encryptSecret(settings.apiKey), settings.model,
           settings.temperature, settings.maxTokens, settings.is_active, settings.is_default
         ]
       );
@@ -336,12 +517,24 @@ class DatabaseSystemService {
     }
   }
 
-  // Get schema from the active database
-  async getDatabaseSchema(): Promise<Record<string, { columns: string[]; description: string }>> {
+  // Run a callback against a short-lived, single-connection driver for the target database
+  private async withTargetDriver<T>(config: DatabaseConfig, callback: (driver: DatabaseDriver) => Promise<T>): Promise<T> {
+    const driver = createDriver({ ...config, dialect: normalizeDialect(config.dialect) }, 1);
+    try {
+      return await callback(driver);
+    } finally {
+      await driver.close();
+    }
+  }
+
+  // Get schema of a database configuration (defaults to the active one)
+  async getDatabaseSchema(databaseId?: number): Promise<SchemaTables> {
     try {
-      const defaultConfig = await this.getDefaultDatabaseConfig();
-      if (!defaultConfig) {
-        throw new Error('No default database configuration found');
+      const config = databaseId !== undefined
+        ? await this.getDatabaseConfig(databaseId)
+        : await this.getDefaultDatabaseConfig();
+      if (!config) {
+        throw new Error('Database configuration not found');
       }
 
       // First check if we have a stored schema configuration
@@ -349,13 +542,13 @@ class DatabaseSystemService {
       try {
         const [rows] = await settingsConnection.execute(
           'SELECT schema_json FROM database_config_files WHERE database_settings_id = ?',
-          [defaultConfig.id]
+          [config.id]
         );
         const configRows = rows as any[];
         
-        if (configRows.length > 0 && configRows[0].schema_json) {
-          const storedSchema = configRows[0].schema_json;
-          // If we have a stored schema (including blank {}), use it
+        const storedSchema = configRows.length > 0 ? parseStoredSchema(configRows[0].schema_json) : null;
+        // If we have a stored schema (including blank {}), use it
+        if (storedSchema) {
           return storedSchema;
         }
       } finally {
@@ -363,114 +556,24 @@ class DatabaseSystemService {
       }
 
       // Fallback: introspect database schema only if no stored schema exists
-      // Create a temporary connection to the target database
-      const poolConfig: any = {
-        host: defaultConfig.host,
-        port: defaultConfig.port,
-        user: defaultConfig.username,
-        password: defaultConfig.password,
-        database: defaultConfig.database_name,
-        waitForConnections: true,
-        connectionLimit: 1,
-        queueLimit: 0
-      };
-
-      // Only add SSL config if enabled
-      if (defaultConfig.ssl_enabled) {
-        poolConfig.ssl = {};
-      }
-
-      const targetPool = mysql.createPool(poolConfig);
-
-      const connection = await targetPool.getConnection();
-      
-      try {
-        // Get all tables in the database
-        const [tables] = await connection.query<RowDataPacket[]>(
-          'SELECT TABLE_NAME, TABLE_COMMENT FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = "BASE TABLE"',
-          [defaultConfig.database_name]
-        );
-
-        const schema: Record<string, { columns: string[]; description: string }> = {};
-
-        // Get columns for each table
-        for (const table of tables as any[]) {
-          const tableName = table.TABLE_NAME as string;
-          
-          const [columns] = await connection.query<RowDataPacket[]>(
-            'SELECT COLUMN_NAME, COLUMN_COMMENT FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? ORDER BY ORDINAL_POSITION',
-            [defaultConfig.database_name, tableName]
-          );
-
-          const columnNames = (columns as any[]).map((col) => col.COLUMN_NAME as string);
-          const tableComment = ((table.TABLE_COMMENT as string) || '').trim();
-          
-          schema[tableName] = {
-            columns: columnNames,
-            description: tableComment || `Table ${tableName}`
-          };
-        }
-
-        return schema;
-      } finally {
-        connection.release();
-        await targetPool.end();
-      }
+      return await this.withTargetDriver(config, (driver) => driver.introspect());
     } catch (error) {
       console.error('Failed to get database schema:', error);
       return {};
     }
   }
 
-  // Get foreign key relationships from the active database
-  async getDatabaseRelationships(): Promise<
-    Array<{ from: string; fromColumn: string; to: string; toColumn: string }>
-  > {
+  // Get foreign key relationships of a database configuration (defaults to the active one)
+  async getDatabaseRelationships(databaseId?: number): Promise<Relationship[]> {
     try {
-      const defaultConfig = await this.getDefaultDatabaseConfig();
-      if (!defaultConfig) {
-        throw new Error('No default database configuration found');
-      }
-
-      const poolConfig: any = {
-        host: defaultConfig.host,
-        port: defaultConfig.port,
-        user: defaultConfig.username,
-        password: defaultConfig.password,
-        database: defaultConfig.database_name,
-        waitForConnections: true,
-        connectionLimit: 1,
-        queueLimit: 0
-      };
-
-      if (defaultConfig.ssl_enabled) {
-        poolConfig.ssl = {};
+      const config = databaseId !== undefined
+        ? await this.getDatabaseConfig(databaseId)
+        : await this.getDefaultDatabaseConfig();
+      if (!config) {
+        throw new Error('Database configuration not found');
       }
 
-      const targetPool = mysql.createPool(poolConfig);
-      const connection = await targetPool.getConnection();
-      try {
-        const [rows] = await connection.query<RowDataPacket[]>(
-          `SELECT TABLE_NAME as from_table, COLUMN_NAME as from_column,
-                  REFERENCED_TABLE_NAME as to_table, REFERENCED_COLUMN_NAME as to_column
-             FROM information_schema.KEY_COLUMN_USAGE
-            WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IS NOT NULL
-            ORDER BY TABLE_NAME, COLUMN_NAME`,
-          [defaultConfig.database_name]
-        );
-
-        const results = (rows as any[]).map((r) => ({
-          from: r.from_table as string,
-          fromColumn: r.from_column as string,
-          to: r.to_table as string,
-          toColumn: (r.to_column as string) || 'id'
-        }));
-
-        return results;
-      } finally {
-        connection.release();
-        await targetPool.end();
-      }
+      return await this.withTargetDriver(config, (driver) => driver.relationships());
     } catch (error) {
       console.error('Failed to get database relationships:', error);
       return [];
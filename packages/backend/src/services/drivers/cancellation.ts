@@ -0,0 +1,45 @@
+import { QueryCancelledError, QueryTimeoutError, RunOptions } from './types';
+
+/**
+ * Run a statement, cancelling it on the server when the timeout expires or
+ * the signal aborts. The returned promise rejects straight away in either
+ * case; `cancel` is expected to make the pending statement fail soon after.
+ */
+export const runCancellable = <T>(
+  execute: () => Promise<T>,
+  cancel: () => Promise<void> | void,
+  { timeoutMs, signal }: RunOptions = {}
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(new QueryCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      callback();
+    };
+
+    const stop = (error: Error) => finish(() => {
+      Promise.resolve()
+        .then(cancel)
+        .catch((cancelError) => console.warn('Failed to cancel query:', cancelError?.message));
+      reject(error);
+    });
+
+    const onAbort = () => stop(new QueryCancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => stop(new QueryTimeoutError(timeoutMs)), timeoutMs);
+    }
+
+    execute().then(
+      (value) => finish(() => resolve(value)),
+      (error) => finish(() => reject(error))
+    );
+  });
+};
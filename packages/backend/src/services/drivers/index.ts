@@ -0,0 +1,25 @@
+import { MySqlDriver } from './mysqlDriver';
+import { PostgresDriver } from './postgresDriver';
+import { SqliteDriver } from './sqliteDriver';
+import { MssqlDriver } from './mssqlDriver';
+import type { DatabaseDriver, DriverConfig } from './types';
+
+export * from './types';
+
+/**
+ * Create a driver for a destination database configuration. `poolSize` caps
+ * the connections it opens (ignored for SQLite).
+ */
+export const createDriver = (config: DriverConfig, poolSize?: number): DatabaseDriver => {
+  switch (config.dialect) {
+    case 'postgres':
+      return new PostgresDriver(config, poolSize);
+    case 'sqlite':
+      return new SqliteDriver(config);
+    case 'mssql':
+      return new MssqlDriver(config, poolSize);
+    case 'mysql':
+    default:
+      return new MySqlDriver(config, poolSize);
+  }
+};
@@ -0,0 +1,43 @@
+import type { ColumnDetails, SchemaTables } from './types';
+
+// One column of one index, as the catalog queries return them
+export interface IndexColumnRow {
+  table: string;
+  index: string;
+  column: string;
+  unique: boolean;
+  primary: boolean;
+}
+
+/** Append a column and whichever of its details the database reported */
+export const addColumn = (schema: SchemaTables, table: string, column: string, details: ColumnDetails): void => {
+  const entry = schema[table];
+  if (!entry) return;
+  entry.columns.push(column);
+  const known = Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  );
+  entry.columnDetails = { ...entry.columnDetails, [column]: known };
+};
+
+/**
+ * Fill in primary keys and secondary indexes. Rows must be ordered by table,
+ * index and the column's position within the index.
+ */
+export const applyIndexes = (schema: SchemaTables, rows: IndexColumnRow[]): void => {
+  for (const row of rows) {
+    const table = schema[row.table];
+    if (!table) continue;
+    if (row.primary) {
+      table.primaryKey = [...(table.primaryKey ?? []), row.column];
+      continue;
+    }
+    const indexes = (table.indexes ??= []);
+    const last = indexes[indexes.length - 1];
+    if (last && last.name === row.index) {
+      last.columns.push(row.column);
+    } else {
+      indexes.push({ name: row.index, columns: [row.column], unique: row.unique });
+    }
+  }
+};
@@ -0,0 +1,270 @@
+import sql from 'mssql';
+import { runCancellable } from './cancellation';
+import { addColumn, applyIndexes } from './introspection';
+import type { ParameterValue } from '../../utils/queryParameters';
+import {
+  DatabaseDriver,
+  DriverConfig,
+  DriverField,
+  FieldKind,
+  QueryCancelledError,
+  QueryResult,
+  Relationship,
+  Row,
+  RowStream,
+  RunOptions,
+  SchemaTables,
+  StreamOptions
+} from './types';
+
+// Declared type for a bound value; NULLs and dates are sent as text and converted by the server
+const parameterType = (value: ParameterValue): { type: sql.ISqlType; declaration: string } => {
+  if (typeof value === 'boolean') return { type: sql.Bit(), declaration: 'bit' };
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? { type: sql.BigInt(), declaration: 'bigint' }
+      : { type: sql.Float(), declaration: 'float' };
+  }
+  return { type: sql.NVarChar(sql.MAX), declaration: 'nvarchar(max)' };
+};
+
+// Placeholders are @p1, @p2, ... in bind order
+const bindInputs = (request: sql.Request, params: ParameterValue[] = []): sql.Request => {
+  params.forEach((value, i) => request.input(`p${i + 1}`, parameterType(value).type, value));
+  return request;
+};
+
+const INTEGER_TYPES = new Set(['tinyint', 'smallint', 'int', 'bigint']);
+const FLOAT_TYPES = new Set(['real', 'float']);
+const DATETIME_TYPES = new Set(['date', 'datetime', 'datetime2', 'smalldatetime', 'datetimeoffset']);
+
+const fieldKind = (type: unknown): FieldKind => {
+  const declaration = (type as { declaration?: string } | undefined)?.declaration;
+  if (!declaration) return 'text';
+  if (INTEGER_TYPES.has(declaration)) return 'integer';
+  if (FLOAT_TYPES.has(declaration)) return 'number';
+  if (DATETIME_TYPES.has(declaration)) return 'datetime';
+  if (declaration === 'bit') return 'boolean';
+  return 'text';
+};
+
+const toFields = (columns: sql.IColumnMetadata | undefined): DriverField[] =>
+  Object.values(columns ?? {})
+    .sort((a, b) => a.index - b.index)
+    .map((column) => ({ name: column.name, kind: fieldKind(column.type) }));
+
+// Tables outside the default schema are addressed as schema.table
+const tableKey = (schema: string, table: string): string => (schema === 'dbo' ? table : `${schema}.${table}`);
+
+const LENGTH_TYPES = new Set(['char', 'varchar', 'nchar', 'nvarchar', 'binary', 'varbinary']);
+
+// Declared type in T-SQL spelling, e.g. nvarchar(50), nvarchar(max) or decimal(10,2)
+const mssqlType = (column: Row): string => {
+  const type = column.data_type as string;
+  const length = column.max_length as number | null;
+  if (LENGTH_TYPES.has(type) && length !== null) return `${type}(${length === -1 ? 'max' : length})`;
+  if ((type === 'decimal' || type === 'numeric') && column.numeric_precision !== null) {
+    return `${type}(${column.numeric_precision},${column.numeric_scale ?? 0})`;
+  }
+  return type;
+};
+
+const STREAM_HIGH_WATER_MARK = 100;
+
+export class MssqlDriver implements DatabaseDriver {
+  readonly dialect = 'mssql' as const;
+  private pool: sql.ConnectionPool;
+  private connecting: Promise<sql.ConnectionPool> | null = null;
+
+  constructor(config: DriverConfig, max = 10) {
+    this.pool = new sql.ConnectionPool({
+      server: config.host,
+      port: config.port,
+      user: config.username,
+      password: config.password,
+      database: config.database_name,
+      pool: { max },
+      options: {
+        encrypt: config.ssl_enabled,
+        trustServerCertificate: !config.ssl_enabled
+      }
+    });
+    this.pool.on('error', (error: Error) => console.warn('SQL Server pool error:', error.message));
+  }
+
+  private connect(): Promise<sql.ConnectionPool> {
+    if (!this.connecting) {
+      this.connecting = this.pool.connect().catch((error) => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async select(query: string): Promise<Row[]> {
+    const pool = await this.connect();
+    const result = await pool.request().query<Row>(query);
+    return result.recordset ?? [];
+  }
+
+  async ping(): Promise<void> {
+    await this.select('SELECT 1 AS ok');
+  }
+
+  async introspect(): Promise<SchemaTables> {
+    const tables = await this.select(
+      `SELECT s.name AS table_schema, t.name AS table_name, CAST(ep.value AS NVARCHAR(4000)) AS description
+         FROM sys.tables t
+         JOIN sys.schemas s ON s.schema_id = t.schema_id
+         LEFT JOIN sys.extended_properties ep
+           ON ep.major_id = t.object_id AND ep.minor_id = 0 AND ep.name = 'MS_Description'
+        WHERE t.is_ms_shipped = 0
+        ORDER BY s.name, t.name`
+    );
+    const columns = await this.select(
+      `SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+              DATA_TYPE AS data_type, CHARACTER_MAXIMUM_LENGTH AS max_length, NUMERIC_PRECISION AS numeric_precision,
+              NUMERIC_SCALE AS numeric_scale, IS_NULLABLE AS is_nullable, COLUMN_DEFAULT AS column_default
+         FROM INFORMATION_SCHEMA.COLUMNS
+        ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`
+    );
+    const indexes = await this.select(
+      `SELECT s.name AS table_schema, t.name AS table_name, i.name AS index_name,
+              i.is_unique, i.is_primary_key, c.name AS column_name
+         FROM sys.indexes i
+         JOIN sys.tables t ON t.object_id = i.object_id
+         JOIN sys.schemas s ON s.schema_id = t.schema_id
+         JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+         JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+        WHERE t.is_ms_shipped = 0 AND i.name IS NOT NULL AND ic.is_included_column = 0
+        ORDER BY s.name, t.name, i.name, ic.key_ordinal`
+    );
+
+    const schema: SchemaTables = {};
+    for (const table of tables) {
+      const name = tableKey(table.table_schema as string, table.table_name as string);
+      const description = ((table.description as string | null) || '').trim();
+      schema[name] = { columns: [], description: description || `Table ${name}` };
+    }
+    for (const column of columns) {
+      addColumn(schema, tableKey(column.table_schema as string, column.table_name as string), column.column_name as string, {
+        type: mssqlType(column),
+        nullable: column.is_nullable === 'YES',
+        default: (column.column_default as string | null) ?? undefined
+      });
+    }
+    applyIndexes(
+      schema,
+      indexes.map((row) => ({
+        table: tableKey(row.table_schema as string, row.table_name as string),
+        index: row.index_name as string,
+        column: row.column_name as string,
+        unique: Boolean(row.is_unique),
+        primary: Boolean(row.is_primary_key)
+      }))
+    );
+    return schema;
+  }
+
+  async relationships(): Promise<Relationship[]> {
+    const rows = await this.select(
+      `SELECT fs.name AS from_schema, ft.name AS from_table, fc.name AS from_column,
+              ts.name AS to_schema, tt.name AS to_table, tc.name AS to_column
+         FROM sys.foreign_key_columns fkc
+         JOIN sys.tables ft ON ft.object_id = fkc.parent_object_id
+         JOIN sys.schemas fs ON fs.schema_id = ft.schema_id
+         JOIN sys.columns fc ON fc.object_id = fkc.parent_object_id AND fc.column_id = fkc.parent_column_id
+         JOIN sys.tables tt ON tt.object_id = fkc.referenced_object_id
+         JOIN sys.schemas ts ON ts.schema_id = tt.schema_id
+         JOIN sys.columns tc ON tc.object_id = fkc.referenced_object_id AND tc.column_id = fkc.referenced_column_id
+        ORDER BY ft.name, fc.name`
+    );
+    return rows.map((r) => ({
+      from: tableKey(r.from_schema as string, r.from_table as string),
+      fromColumn: r.from_column as string,
+      to: tableKey(r.to_schema as string, r.to_table as string),
+      toColumn: (r.to_column as string) || 'id'
+    }));
+  }
+
+  async rowCounts(): Promise<Record<string, number>> {
+    const rows = await this.select(
+      `SELECT s.name AS table_schema, t.name AS table_name, SUM(p.rows) AS row_count
+         FROM sys.tables t
+         JOIN sys.schemas s ON s.schema_id = t.schema_id
+         JOIN sys.partitions p ON p.object_id = t.object_id AND p.index_id IN (0, 1)
+        WHERE t.is_ms_shipped = 0
+        GROUP BY s.name, t.name`
+    );
+    return Object.fromEntries(
+      rows.map((row) => [tableKey(row.table_schema as string, row.table_name as string), Number(row.row_count)])
+    );
+  }
+
+  // SQL Server has no EXPLAIN; describing the result set compiles the query without running it
+  async explain(query: string, params: ParameterValue[] = []): Promise<void> {
+    const pool = await this.connect();
+    const declarations = params.map((value, i) => `@p${i + 1} ${parameterType(value).declaration}`).join(', ');
+    await pool.request()
+      .input('tsql', sql.NVarChar(sql.MAX), query)
+      .input('params', sql.NVarChar(sql.MAX), declarations || null)
+      .query('EXEC sp_describe_first_result_set @tsql, @params');
+  }
+
+  async run(query: string, options: RunOptions = {}): Promise<QueryResult> {
+    const pool = await this.connect();
+    const request = bindInputs(pool.request(), options.params);
+    const result = await runCancellable(() => request.query<Row>(query), () => request.cancel(), options);
+    const rows = result.recordset ?? [];
+    return { rows: [...rows], fields: toFields(rows.columns) };
+  }
+
+  async stream(query: string, { signal, params }: StreamOptions = {}): Promise<RowStream> {
+    if (signal?.aborted) throw new QueryCancelledError();
+
+    const pool = await this.connect();
+    const request = bindInputs(pool.request(), params);
+    const source = request.toReadableStream({ highWaterMark: STREAM_HIGH_WATER_MARK });
+    const fieldsReady = new Promise<DriverField[]>((resolve, reject) => {
+      request.once('recordset', (columns: sql.IColumnMetadata) => resolve(toFields(columns)));
+      request.once('error', reject);
+      request.once('done', () => resolve([]));
+    });
+    // Errors surface through fieldsReady or the row iterator
+    source.on('error', () => undefined);
+    // In stream mode results arrive as events rather than through the returned value
+    void request.query(query);
+
+    // Aborting before the result set starts still cancels the request
+    const fields = await runCancellable(() => fieldsReady, () => {
+      request.cancel();
+      source.destroy();
+    }, { signal });
+
+    async function* rows(): AsyncGenerator<Row> {
+      let completed = false;
+      const onAbort = () => {
+        request.cancel();
+        source.destroy();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        for await (const row of source) {
+          yield row as Row;
+        }
+        completed = true;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (!completed) request.cancel();
+      }
+    }
+
+    return { fields, rows: rows() };
+  }
+
+  async close(): Promise<void> {
+    this.connecting = null;
+    await this.pool.close();
+  }
+}
@@ -0,0 +1,256 @@
+import mysql, { RowDataPacket } from 'mysql2/promise';
+import type { Connection as CoreConnection, FieldPacket } from 'mysql2';
+import { runCancellable } from './cancellation';
+import { addColumn, applyIndexes } from './introspection';
+import type { ParameterValue } from '../../utils/queryParameters';
+import {
+  DatabaseDriver,
+  DriverConfig,
+  DriverField,
+  FieldKind,
+  QueryCancelledError,
+  QueryResult,
+  QueryTimeoutError,
+  Relationship,
+  Row,
+  RowStream,
+  RunOptions,
+  SchemaTables,
+  StreamOptions
+} from './types';
+
+// mysql2 column type codes (see mysql2/lib/constants/types)
+const INTEGER_TYPES = new Set([1, 2, 3, 8, 9, 13]); // TINY, SHORT, LONG, LONGLONG, INT24, YEAR
+const FLOAT_TYPES = new Set([4, 5]); // FLOAT, DOUBLE
+const DATETIME_TYPES = new Set([7, 10, 12, 14]); // TIMESTAMP, DATE, DATETIME, NEWDATE
+
+const fieldKind = (columnType?: number): FieldKind | undefined => {
+  if (columnType === undefined) return undefined;
+  if (INTEGER_TYPES.has(columnType)) return 'integer';
+  if (FLOAT_TYPES.has(columnType)) return 'number';
+  if (DATETIME_TYPES.has(columnType)) return 'datetime';
+  return 'text';
+};
+
+const toFields = (fields: FieldPacket[] | undefined): DriverField[] =>
+  (fields ?? []).map((field) => ({
+    name: field.name,
+    orgName: field.orgName,
+    orgTable: field.orgTable,
+    kind: fieldKind(field.columnType ?? field.type)
+  }));
+
+/** Values of an `enum(...)` or `set(...)` COLUMN_TYPE; undefined for other types */
+export const parseEnumValues = (columnType: string): string[] | undefined => {
+  const match = /^(?:enum|set)\(([\s\S]*)\)$/i.exec(columnType);
+  if (!match) return undefined;
+  return [...match[1].matchAll(/'((?:[^']|'')*)'/g)].map((value) => value[1].replace(/''/g, "'"));
+};
+
+const STREAM_HIGH_WATER_MARK = 100;
+
+// mysql2 sends JS numbers as DOUBLE, which MySQL rejects for LIMIT/OFFSET; whole numbers go as text instead
+const toBindValues = (params: ParameterValue[]): (string | number | boolean | null)[] =>
+  params.map((value) => (typeof value === 'number' && Number.isInteger(value) ? String(value) : value));
+
+export class MySqlDriver implements DatabaseDriver {
+  readonly dialect = 'mysql' as const;
+  private pool: mysql.Pool;
+  private databaseName: string;
+
+  constructor(config: DriverConfig, connectionLimit = 10) {
+    this.databaseName = config.database_name;
+    this.pool = mysql.createPool({
+      host: config.host,
+      port: config.port,
+      user: config.username,
+      password: config.password,
+      database: config.database_name,
+      waitForConnections: true,
+      connectionLimit,
+      queueLimit: 0,
+      // Only add SSL config if enabled
+      ...(config.ssl_enabled ? { ssl: {} } : {})
+    });
+  }
+
+  // Stop the statement running on another connection
+  private async killQuery(threadId: number): Promise<void> {
+    await this.pool.query(`KILL QUERY ${Number(threadId)}`);
+  }
+
+  async ping(): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.ping();
+    } finally {
+      connection.release();
+    }
+  }
+
+  async introspect(): Promise<SchemaTables> {
+    const [tables] = await this.pool.query<RowDataPacket[]>(
+      'SELECT TABLE_NAME, TABLE_COMMENT FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = "BASE TABLE"',
+      [this.databaseName]
+    );
+
+    const schema: SchemaTables = {};
+    for (const table of tables) {
+      const tableName = table.TABLE_NAME as string;
+      const [columns] = await this.pool.query<RowDataPacket[]>(
+        `SELECT COLUMN_NAME, COLUMN_COMMENT, COLUMN_TYPE, DATA_TYPE, IS_NULLABLE, COLUMN_DEFAULT
+           FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? ORDER BY ORDINAL_POSITION`,
+        [this.databaseName, tableName]
+      );
+      const tableComment = ((table.TABLE_COMMENT as string) || '').trim();
+      schema[tableName] = { columns: [], description: tableComment || `Table ${tableName}` };
+      for (const column of columns) {
+        const enumValues = parseEnumValues(column.COLUMN_TYPE as string);
+        addColumn(schema, tableName, column.COLUMN_NAME as string, {
+          // The values are listed separately, so "enum" is enough here
+          type: enumValues ? (column.DATA_TYPE as string) : (column.COLUMN_TYPE as string),
+          nullable: column.IS_NULLABLE === 'YES',
+          default: column.COLUMN_DEFAULT === null ? undefined : String(column.COLUMN_DEFAULT),
+          enumValues,
+          comment: (column.COLUMN_COMMENT as string) || undefined
+        });
+      }
+    }
+
+    const [indexes] = await this.pool.query<RowDataPacket[]>(
+      `SELECT TABLE_NAME, INDEX_NAME, COLUMN_NAME, NON_UNIQUE
+         FROM information_schema.STATISTICS
+        WHERE TABLE_SCHEMA = ? AND COLUMN_NAME IS NOT NULL
+        ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+      [this.databaseName]
+    );
+    applyIndexes(
+      schema,
+      indexes.map((row) => ({
+        table: row.TABLE_NAME as string,
+        index: row.INDEX_NAME as string,
+        column: row.COLUMN_NAME as string,
+        unique: Number(row.NON_UNIQUE) === 0,
+        primary: row.INDEX_NAME === 'PRIMARY'
+      }))
+    );
+    return schema;
+  }
+
+  async relationships(): Promise<Relationship[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT TABLE_NAME as from_table, COLUMN_NAME as from_column,
+              REFERENCED_TABLE_NAME as to_table, REFERENCED_COLUMN_NAME as to_column
+         FROM information_schema.KEY_COLUMN_USAGE
+        WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IS NOT NULL
+        ORDER BY TABLE_NAME, COLUMN_NAME`,
+      [this.databaseName]
+    );
+    return rows.map((r) => ({
+      from: r.from_table as string,
+      fromColumn: r.from_column as string,
+      to: r.to_table as string,
+      toColumn: (r.to_column as string) || 'id'
+    }));
+  }
+
+  async rowCounts(): Promise<Record<string, number>> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT TABLE_NAME, TABLE_ROWS FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = "BASE TABLE"',
+      [this.databaseName]
+    );
+    return Object.fromEntries(rows.map((row) => [row.TABLE_NAME as string, Number(row.TABLE_ROWS ?? 0)]));
+  }
+
+  async explain(sql: string, params?: ParameterValue[]): Promise<void> {
+    // EXPLAIN can't always be prepared; mysql2 escapes the values into the text instead. Nothing is executed
+    await this.pool.query(`EXPLAIN ${sql}`, params);
+  }
+
+  async run(sql: string, options: RunOptions = {}): Promise<QueryResult> {
+    const connection = await this.pool.getConnection();
+    const threadId = connection.threadId;
+    let interrupted = false;
+    try {
+      const [rows, fields] = await runCancellable(
+        () => (options.params && options.params.length > 0
+          ? connection.execute(sql, toBindValues(options.params))
+          : connection.query(sql)),
+        () => this.killQuery(threadId),
+        options
+      );
+      return { rows: rows as Row[], fields: toFields(fields) };
+    } catch (error) {
+      interrupted = error instanceof QueryTimeoutError || error instanceof QueryCancelledError;
+      throw error;
+    } finally {
+      // A connection whose statement was cut short may still be busy; don't hand it out again
+      if (interrupted) {
+        connection.destroy();
+      } else {
+        connection.release();
+      }
+    }
+  }
+
+  async stream(sql: string, { signal, params }: StreamOptions = {}): Promise<RowStream> {
+    if (signal?.aborted) throw new QueryCancelledError();
+
+    const connection = await this.pool.getConnection();
+    const threadId = connection.threadId;
+    // Streaming is only available on the callback connection underneath the promise wrapper
+    const core = connection.connection as unknown as CoreConnection;
+    const query = params && params.length > 0 ? core.execute(sql, toBindValues(params)) : core.query(sql);
+
+    const fieldsReady = new Promise<DriverField[]>((resolve, reject) => {
+      query.once('fields', (fields: FieldPacket[]) => resolve(toFields(fields)));
+      query.once('error', reject);
+      query.once('end', () => resolve([]));
+    });
+    const source = query.stream({ highWaterMark: STREAM_HIGH_WATER_MARK });
+    // Errors surface through fieldsReady or the row iterator
+    source.on('error', () => undefined);
+
+    let fields: DriverField[];
+    try {
+      // Aborting before the result set starts still kills the statement
+      fields = await runCancellable(() => fieldsReady, () => this.killQuery(threadId), { signal });
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        source.destroy();
+        connection.destroy();
+      } else {
+        connection.release();
+      }
+      throw error;
+    }
+
+    const killQuery = (id: number) => this.killQuery(id);
+    async function* rows(): AsyncGenerator<Row> {
+      let completed = false;
+      const onAbort = () => source.destroy();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        for await (const row of source) {
+          yield row as Row;
+        }
+        completed = true;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (completed) {
+          connection.release();
+        } else {
+          // Abandoned mid-result: stop the server side and drop the half-read connection
+          killQuery(threadId).catch(() => undefined);
+          connection.destroy();
+        }
+      }
+    }
+
+    return { fields, rows: rows() };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
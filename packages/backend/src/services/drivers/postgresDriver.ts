@@ -0,0 +1,254 @@
+import { Pool, PoolClient, FieldDef, QueryResult as PgQueryResult } from 'pg';
+import Cursor from 'pg-cursor';
+import { runCancellable } from './cancellation';
+import { addColumn, applyIndexes } from './introspection';
+import type { ParameterValue } from '../../utils/queryParameters';
+import {
+  DatabaseDriver,
+  DriverConfig,
+  DriverField,
+  FieldKind,
+  QueryCancelledError,
+  QueryResult,
+  QueryTimeoutError,
+  Relationship,
+  Row,
+  RowStream,
+  RunOptions,
+  SchemaTables,
+  StreamOptions
+} from './types';
+
+// Built-in type OIDs (see pg_type)
+const INTEGER_OIDS = new Set([20, 21, 23]); // int8, int2, int4
+const FLOAT_OIDS = new Set([700, 701]); // float4, float8
+const DATETIME_OIDS = new Set([1082, 1114, 1184]); // date, timestamp, timestamptz
+const BOOLEAN_OID = 16;
+
+const fieldKind = (dataTypeID: number): FieldKind => {
+  if (INTEGER_OIDS.has(dataTypeID)) return 'integer';
+  if (FLOAT_OIDS.has(dataTypeID)) return 'number';
+  if (DATETIME_OIDS.has(dataTypeID)) return 'datetime';
+  if (dataTypeID === BOOLEAN_OID) return 'boolean';
+  return 'text';
+};
+
+const toFields = (fields: FieldDef[] | undefined): DriverField[] =>
+  (fields ?? []).map((field) => ({ name: field.name, kind: fieldKind(field.dataTypeID) }));
+
+// Tables outside the default schema are addressed as schema.table
+const tableKey = (schema: string, table: string): string => (schema === 'public' ? table : `${schema}.${table}`);
+
+const userSchemas = (column: string): string =>
+  `${column} NOT IN ('pg_catalog', 'information_schema') AND ${column} NOT LIKE 'pg_toast%'`;
+
+const STREAM_BATCH_SIZE = 100;
+
+export class PostgresDriver implements DatabaseDriver {
+  readonly dialect = 'postgres' as const;
+  private pool: Pool;
+
+  constructor(config: DriverConfig, max = 10) {
+    this.pool = new Pool({
+      host: config.host,
+      port: config.port,
+      user: config.username,
+      password: config.password,
+      database: config.database_name,
+      max,
+      // Every session is read-only, so a statement that slips past the safety
+      // gate still cannot write
+      options: '-c default_transaction_read_only=on',
+      ...(config.ssl_enabled ? { ssl: true } : {})
+    });
+    // An idle client losing its connection must not crash the process
+    this.pool.on('error', (error) => console.warn('PostgreSQL pool error:', error.message));
+  }
+
+  private static backendPid(client: PoolClient): number {
+    return (client as unknown as { processID: number }).processID;
+  }
+
+  // Cancel the statement running on another backend
+  private async cancelBackend(pid: number): Promise<void> {
+    await this.pool.query('SELECT pg_cancel_backend($1)', [pid]);
+  }
+
+  async ping(): Promise<void> {
+    await this.pool.query('SELECT 1');
+  }
+
+  async introspect(): Promise<SchemaTables> {
+    const tables = await this.pool.query(
+      `SELECT n.nspname AS table_schema, c.relname AS table_name, obj_description(c.oid, 'pg_class') AS description
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p') AND ${userSchemas('n.nspname')}
+        ORDER BY n.nspname, c.relname`
+    );
+    const columns = await this.pool.query(
+      `SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+              format_type(a.atttypid, a.atttypmod) AS data_type, NOT a.attnotnull AS nullable,
+              pg_get_expr(d.adbin, d.adrelid) AS column_default, col_description(c.oid, a.attnum) AS comment,
+              (SELECT array_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = a.atttypid) AS enum_values
+         FROM pg_attribute a
+         JOIN pg_class c ON c.oid = a.attrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+        WHERE c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped AND ${userSchemas('n.nspname')}
+        ORDER BY n.nspname, c.relname, a.attnum`
+    );
+    // Key columns only: expression columns have no attribute and INCLUDE columns come after indnkeyatts
+    const indexes = await this.pool.query(
+      `SELECT n.nspname AS table_schema, t.relname AS table_name, i.relname AS index_name,
+              ix.indisunique AS is_unique, ix.indisprimary AS is_primary, a.attname AS column_name
+         FROM pg_index ix
+         JOIN pg_class t ON t.oid = ix.indrelid
+         JOIN pg_class i ON i.oid = ix.indexrelid
+         JOIN pg_namespace n ON n.oid = t.relnamespace
+         CROSS JOIN LATERAL unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+         JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+        WHERE k.position <= ix.indnkeyatts AND ${userSchemas('n.nspname')}
+        ORDER BY n.nspname, t.relname, i.relname, k.position`
+    );
+
+    const schema: SchemaTables = {};
+    for (const table of tables.rows) {
+      const name = tableKey(table.table_schema, table.table_name);
+      const description = ((table.description as string | null) || '').trim();
+      schema[name] = { columns: [], description: description || `Table ${name}` };
+    }
+    for (const column of columns.rows) {
+      addColumn(schema, tableKey(column.table_schema, column.table_name), column.column_name, {
+        type: column.data_type,
+        nullable: column.nullable,
+        default: column.column_default ?? undefined,
+        enumValues: column.enum_values ?? undefined,
+        comment: column.comment ?? undefined
+      });
+    }
+    applyIndexes(
+      schema,
+      indexes.rows.map((row) => ({
+        table: tableKey(row.table_schema, row.table_name),
+        index: row.index_name,
+        column: row.column_name,
+        unique: row.is_unique,
+        primary: row.is_primary
+      }))
+    );
+    return schema;
+  }
+
+  async relationships(): Promise<Relationship[]> {
+    const { rows } = await this.pool.query(
+      `SELECT kcu.table_schema AS from_schema, kcu.table_name AS from_table, kcu.column_name AS from_column,
+              ccu.table_schema AS to_schema, ccu.table_name AS to_table, ccu.column_name AS to_column
+         FROM information_schema.table_constraints tc
+         JOIN information_schema.key_column_usage kcu
+           ON kcu.constraint_name = tc.constraint_name AND kcu.constraint_schema = tc.constraint_schema
+         JOIN information_schema.constraint_column_usage ccu
+           ON ccu.constraint_name = tc.constraint_name AND ccu.constraint_schema = tc.constraint_schema
+        WHERE tc.constraint_type = 'FOREIGN KEY'
+        ORDER BY kcu.table_name, kcu.column_name`
+    );
+    return rows.map((r) => ({
+      from: tableKey(r.from_schema, r.from_table),
+      fromColumn: r.from_column as string,
+      to: tableKey(r.to_schema, r.to_table),
+      toColumn: (r.to_column as string) || 'id'
+    }));
+  }
+
+  async rowCounts(): Promise<Record<string, number>> {
+    // reltuples is -1 until the table has been vacuumed or analyzed
+    const { rows } = await this.pool.query(
+      `SELECT n.nspname AS table_schema, c.relname AS table_name, c.reltuples AS row_count
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p') AND c.reltuples >= 0 AND ${userSchemas('n.nspname')}`
+    );
+    return Object.fromEntries(rows.map((row) => [tableKey(row.table_schema, row.table_name), Math.round(Number(row.row_count))]));
+  }
+
+  async explain(sql: string, params?: ParameterValue[]): Promise<void> {
+    await this.pool.query(`EXPLAIN ${sql}`, params);
+  }
+
+  async run(sql: string, options: RunOptions = {}): Promise<QueryResult> {
+    const client = await this.pool.connect();
+    const pid = PostgresDriver.backendPid(client);
+    let interrupted = false;
+    try {
+      const result = await runCancellable<PgQueryResult<Row>>(
+        () => client.query(sql, options.params),
+        () => this.cancelBackend(pid),
+        options
+      );
+      return { rows: result.rows, fields: toFields(result.fields) };
+    } catch (error) {
+      interrupted = error instanceof QueryTimeoutError || error instanceof QueryCancelledError;
+      throw error;
+    } finally {
+      // Passing true discards a client whose statement was cut short
+      client.release(interrupted);
+    }
+  }
+
+  async stream(sql: string, { signal, params }: StreamOptions = {}): Promise<RowStream> {
+    if (signal?.aborted) throw new QueryCancelledError();
+
+    const client = await this.pool.connect();
+    const pid = PostgresDriver.backendPid(client);
+    const cursor = client.query(new Cursor<Row>(sql, params));
+    const read = () =>
+      new Promise<{ rows: Row[]; fields: DriverField[] }>((resolve, reject) => {
+        cursor.read(STREAM_BATCH_SIZE, (error, rows, result) => {
+          if (error) reject(error);
+          else resolve({ rows, fields: toFields(result?.fields) });
+        });
+      });
+
+    let first: { rows: Row[]; fields: DriverField[] };
+    try {
+      // Aborting before the first batch arrives still cancels the statement
+      first = await runCancellable(read, () => this.cancelBackend(pid), { signal });
+    } catch (error) {
+      client.release(error instanceof QueryCancelledError);
+      throw error;
+    }
+
+    const cancelBackend = (id: number) => this.cancelBackend(id);
+    async function* rows(): AsyncGenerator<Row> {
+      let completed = false;
+      const onAbort = () => {
+        cancelBackend(pid).catch(() => undefined);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        let batch = first.rows;
+        while (batch.length > 0) {
+          if (signal?.aborted) throw new QueryCancelledError();
+          yield* batch;
+          batch = (await read()).rows;
+        }
+        completed = true;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (completed) {
+          await cursor.close().catch(() => undefined);
+          client.release();
+        } else {
+          cancelBackend(pid).catch(() => undefined);
+          client.release(true);
+        }
+      }
+    }
+
+    return { fields: first.fields, rows: rows() };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,225 @@
+import fs from 'fs/promises';
+import path from 'path';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { quoteIdentifier } from '../../utils/dialects';
+import type { ParameterValue } from '../../utils/queryParameters';
+import { addColumn, applyIndexes, IndexColumnRow } from './introspection';
+import {
+  DatabaseDriver,
+  DriverConfig,
+  DriverField,
+  QueryCancelledError,
+  QueryResult,
+  QueryTimeoutError,
+  Relationship,
+  Row,
+  RowStream,
+  RunOptions,
+  SchemaTables,
+  StreamOptions
+} from './types';
+
+// Rows read between checks of the deadline / abort signal (and event loop yields when streaming)
+const CHECK_INTERVAL = 100;
+
+// SQLite has no boolean type; true/false are stored as 1/0
+const toBindValues = (params: ParameterValue[] = []): SqlValue[] =>
+  params.map((value) => (typeof value === 'boolean' ? Number(value) : value));
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs().catch((error) => {
+      sqlJs = null;
+      throw error;
+    });
+  }
+  return sqlJs;
+};
+
+/**
+ * Resolve the configured file name. When SQLITE_DATA_DIR is set, files must
+ * live inside it and relative names are resolved against it.
+ */
+export const resolveSqlitePath = (databaseName: string): string => {
+  const baseDir = process.env.SQLITE_DATA_DIR;
+  if (!baseDir) return path.resolve(databaseName);
+
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, databaseName);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error('SQLite database file must be inside SQLITE_DATA_DIR');
+  }
+  return resolved;
+};
+
+const toValue = (value: SqlValue): unknown => (value instanceof Uint8Array ? Buffer.from(value) : value);
+
+/**
+ * SQLite files are loaded into an in-memory copy (sql.js), so queries can never
+ * write back to disk. The copy is taken on first use; reconnect to pick up
+ * changes made to the file afterwards.
+ */
+export class SqliteDriver implements DatabaseDriver {
+  readonly dialect = 'sqlite' as const;
+  private database: Promise<Database> | null = null;
+
+  constructor(private config: DriverConfig) {}
+
+  private getDatabase(): Promise<Database> {
+    if (!this.database) {
+      this.database = (async () => {
+        const SQL = await loadSqlJs();
+        const data = await fs.readFile(resolveSqlitePath(this.config.database_name));
+        return new SQL.Database(data);
+      })().catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private async select(sql: string): Promise<Row[]> {
+    const { rows } = await this.run(sql);
+    return rows;
+  }
+
+  async ping(): Promise<void> {
+    await this.select('SELECT 1');
+  }
+
+  async introspect(): Promise<SchemaTables> {
+    const tables = await this.select(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    const schema: SchemaTables = {};
+    for (const table of tables) {
+      const tableName = table.name as string;
+      const quoted = quoteIdentifier(tableName, 'sqlite');
+      const columns = await this.select(`PRAGMA table_info(${quoted})`);
+      schema[tableName] = { columns: [], description: `Table ${tableName}` };
+      for (const column of columns) {
+        addColumn(schema, tableName, column.name as string, {
+          type: (column.type as string) || undefined,
+          nullable: column.notnull === 0,
+          default: (column.dflt_value as string | null) ?? undefined
+        });
+      }
+      // `pk` is the column's position in the primary key, 0 when it is not part of it
+      const primaryKey = columns
+        .filter((column) => Number(column.pk) > 0)
+        .sort((a, b) => Number(a.pk) - Number(b.pk))
+        .map((column) => column.name as string);
+      if (primaryKey.length > 0) schema[tableName].primaryKey = primaryKey;
+
+      const indexRows: IndexColumnRow[] = [];
+      for (const index of await this.select(`PRAGMA index_list(${quoted})`)) {
+        // The primary key's own index ("pk") is already covered above
+        if (index.origin === 'pk') continue;
+        const indexName = index.name as string;
+        for (const column of await this.select(`PRAGMA index_info(${quoteIdentifier(indexName, 'sqlite')})`)) {
+          if (column.name === null) continue;
+          indexRows.push({ table: tableName, index: indexName, column: column.name as string, unique: index.unique === 1, primary: false });
+        }
+      }
+      applyIndexes(schema, indexRows);
+    }
+    return schema;
+  }
+
+  async relationships(): Promise<Relationship[]> {
+    const tables = await this.select(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    const relationships: Relationship[] = [];
+    for (const table of tables) {
+      const keys = await this.select(`PRAGMA foreign_key_list(${quoteIdentifier(table.name as string, 'sqlite')})`);
+      for (const key of keys) {
+        relationships.push({
+          from: table.name as string,
+          fromColumn: key.from as string,
+          to: key.table as string,
+          toColumn: (key.to as string | null) || 'id'
+        });
+      }
+    }
+    return relationships;
+  }
+
+  // SQLite keeps no row estimates, so count exactly
+  async rowCounts(): Promise<Record<string, number>> {
+    const tables = await this.select(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    const counts: Record<string, number> = {};
+    for (const table of tables) {
+      const [row] = await this.select(`SELECT COUNT(*) AS row_count FROM ${quoteIdentifier(table.name as string, 'sqlite')}`);
+      counts[table.name as string] = Number(row.row_count);
+    }
+    return counts;
+  }
+
+  async explain(sql: string): Promise<void> {
+    const database = await this.getDatabase();
+    // Preparing is enough to resolve every table and column; placeholders needn't be bound for that
+    database.prepare(`EXPLAIN QUERY PLAN ${sql}`).free();
+  }
+
+  async run(sql: string, { timeoutMs, signal, params }: RunOptions = {}): Promise<QueryResult> {
+    if (signal?.aborted) throw new QueryCancelledError();
+    const database = await this.getDatabase();
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+
+    const statement = database.prepare(sql, toBindValues(params));
+    try {
+      const fields: DriverField[] = statement.getColumnNames().map((name) => ({ name }));
+      const rows: Row[] = [];
+      while (statement.step()) {
+        if (rows.length % CHECK_INTERVAL === 0) {
+          if (signal?.aborted) throw new QueryCancelledError();
+          if (Date.now() > deadline) throw new QueryTimeoutError(timeoutMs as number);
+        }
+        const values = statement.get();
+        rows.push(Object.fromEntries(fields.map((field, i) => [field.name, toValue(values[i])])));
+      }
+      return { rows, fields };
+    } finally {
+      statement.free();
+    }
+  }
+
+  async stream(sql: string, { signal, params }: StreamOptions = {}): Promise<RowStream> {
+    if (signal?.aborted) throw new QueryCancelledError();
+    const database = await this.getDatabase();
+    const statement = database.prepare(sql, toBindValues(params));
+    const fields: DriverField[] = statement.getColumnNames().map((name) => ({ name }));
+
+    async function* rows(): AsyncGenerator<Row> {
+      try {
+        let count = 0;
+        while (statement.step()) {
+          if (++count % CHECK_INTERVAL === 0) {
+            // Stepping is synchronous; give the event loop (and abort handlers) a turn
+            await new Promise((resolve) => setImmediate(resolve));
+            if (signal?.aborted) throw new QueryCancelledError();
+          }
+          const values = statement.get();
+          yield Object.fromEntries(fields.map((field, i) => [field.name, toValue(values[i])]));
+        }
+      } finally {
+        statement.free();
+      }
+    }
+
+    return { fields, rows: rows() };
+  }
+
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = null;
+    if (database) {
+      (await database.catch(() => null))?.close();
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { Dialect } from '../../utils/dialects';
+import type { ResultField } from '../../utils/masking';
+import type { ParameterValue } from '../../utils/queryParameters';
+import type { SchemaTables } from '../../utils/schemaModel';
+
+export type { ColumnDetails, IndexInfo, SchemaTable, SchemaTables } from '../../utils/schemaModel';
+
+// Connection settings as stored on a database_settings row
+export interface DriverConfig {
+  dialect: Dialect;
+  host: string;
+  port: number;
+  database_name: string;
+  username: string;
+  password: string;
+  ssl_enabled: boolean;
+}
+
+// Coarse column type, used to pick typed columns for exports
+export type FieldKind = 'integer' | 'number' | 'boolean' | 'datetime' | 'text';
+
+export interface DriverField extends ResultField {
+  kind?: FieldKind;
+}
+
+export type Row = Record<string, unknown>;
+
+export interface QueryResult {
+  rows: Row[];
+  fields: DriverField[];
+}
+
+export interface RunOptions {
+  // Cancel the statement on the server once it runs longer than this
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Values for the dialect's bind placeholders, sent separately from the SQL
+  params?: ParameterValue[];
+}
+
+export type StreamOptions = Pick<RunOptions, 'signal' | 'params'>;
+
+export interface RowStream {
+  fields: DriverField[];
+  rows: AsyncIterable<Row>;
+}
+
+export interface Relationship {
+  from: string;
+  fromColumn: string;
+  to: string;
+  toColumn: string;
+}
+
+/**
+ * A destination database. Implementations own their connection pool and
+ * translate timeouts and aborts into the server's own cancellation mechanism.
+ */
+export interface DatabaseDriver {
+  readonly dialect: Dialect;
+  ping(): Promise<void>;
+  introspect(): Promise<SchemaTables>;
+  relationships(): Promise<Relationship[]>;
+  // Rows per table keyed like introspect(); catalog estimates except on SQLite
+  rowCounts(): Promise<Record<string, number>>;
+  // Resolves when the server can plan the query; rejects with its error otherwise
+  explain(sql: string, params?: ParameterValue[]): Promise<void>;
+  run(sql: string, options?: RunOptions): Promise<QueryResult>;
+  // Rows are pulled as they are consumed; aborting the signal stops the query
+  stream(sql: string, options?: StreamOptions): Promise<RowStream>;
+  close(): Promise<void>;
+}
+
+export class QueryTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Query timeout (${Math.round(timeoutMs / 1000)}s)`);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
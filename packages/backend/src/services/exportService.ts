@@ -0,0 +1,261 @@
+/**
+ * Streaming result export
+ *
+ * Rows are read from the destination driver's row stream and written to the
+ * output as they arrive, so memory use stays flat regardless of the size of
+ * the result. Back-pressure from the output pauses the row stream and
+ * therefore the database connection.
+ */
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { ParquetSchema, ParquetWriter, ParquetFieldType } from 'parquetjs-lite';
+import type { ExportFormat } from '../utils/validators';
+import { ColumnLineage, maskRow, MaskedColumn, MaskingRule, resolveMaskedColumns } from '../utils/masking';
+import type { DatabaseDriver, DriverField, FieldKind } from './drivers';
+import type { ParameterValue } from '../utils/queryParameters';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  parquet: { contentType: 'application/vnd.apache.parquet', extension: 'parquet' }
+};
+
+// Excel's sheet limit, minus the header row
+const XLSX_MAX_ROWS = 1048575;
+const PARQUET_ROW_GROUP_SIZE = 5000;
+
+// Parquet column types for typed driver fields; everything else (including DECIMAL) stays text
+const PARQUET_TYPES: Partial<Record<FieldKind, ParquetFieldType>> = {
+  integer: 'INT64',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  datetime: 'TIMESTAMP_MILLIS'
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  output: Writable;
+  maskingRules?: MaskingRule[];
+  // Where the query's result columns come from, for masking expressions
+  lineage?: ColumnLineage;
+  signal?: AbortSignal;
+  // Values for the dialect's bind placeholders in sql
+  params?: ParameterValue[];
+  // Stop after this many rows (the query policy's maxLimit)
+  maxRows?: number;
+}
+
+export interface ExportResult {
+  rowCount: number;
+  cancelled: boolean;
+  // True when maxRows cut the export short
+  truncated: boolean;
+  maskedColumns: MaskedColumn[];
+}
+
+interface ExportWriter {
+  writeRow(row: Record<string, unknown>): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Wait for the output to drain; resolves early if the output is closed
+const drain = (output: Writable) => new Promise<void>((resolve) => {
+  const done = () => {
+    output.off('drain', done);
+    output.off('close', done);
+    resolve();
+  };
+  output.once('drain', done);
+  output.once('close', done);
+});
+
+const writeChunk = async (output: Writable, chunk: string) => {
+  if (!output.write(chunk)) await drain(output);
+};
+
+const endOutput = (output: Writable) => new Promise<void>((resolve) => output.end(resolve));
+
+// Values that JSON, CSV and spreadsheets cannot represent directly
+const toPlainValue = (value: unknown): unknown => {
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+};
+
+const toText = (value: unknown): string => {
+  const plain = toPlainValue(value);
+  if (plain === null || plain === undefined) return '';
+  if (plain instanceof Date) return isNaN(plain.getTime()) ? '' : plain.toISOString();
+  if (typeof plain === 'object') return JSON.stringify(plain);
+  return String(plain);
+};
+
+// Spreadsheet apps run text starting with one of these as a formula, so such
+// strings get a leading quote. Numbers are left alone to keep negatives numeric.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  let text = toText(value);
+  if (typeof toPlainValue(value) === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createCsvWriter = (columns: string[], output: Writable): ExportWriter => {
+  let headerWritten = false;
+  const writeHeader = async () => {
+    if (headerWritten) return;
+    headerWritten = true;
+    await writeChunk(output, `${columns.map(csvCell).join(',')}\r\n`);
+  };
+  return {
+    async writeRow(row) {
+      await writeHeader();
+      await writeChunk(output, `${columns.map((column) => csvCell(row[column])).join(',')}\r\n`);
+    },
+    async end() {
+      await writeHeader();
+      await endOutput(output);
+    }
+  };
+};
+
+const createNdjsonWriter = (output: Writable): ExportWriter => ({
+  async writeRow(row) {
+    await writeChunk(output, `${JSON.stringify(row, (_key, value) => toPlainValue(value))}\n`);
+  },
+  async end() {
+    await endOutput(output);
+  }
+});
+
+const createXlsxWriter = (columns: string[], output: Writable): ExportWriter => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Export');
+  sheet.columns = columns.map((column) => ({ header: column, key: column }));
+  let rows = 0;
+  return {
+    async writeRow(row) {
+      if (++rows > XLSX_MAX_ROWS) {
+        throw new Error(`XLSX exports are limited to ${XLSX_MAX_ROWS} rows; use CSV, NDJSON or Parquet instead`);
+      }
+      const values: Record<string, unknown> = {};
+      for (const column of columns) {
+        const value = toPlainValue(row[column]);
+        values[column] = value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value;
+      }
+      sheet.addRow(values).commit();
+      if (output.writableNeedDrain) await drain(output);
+    },
+    async end() {
+      sheet.commit();
+      await workbook.commit();
+    }
+  };
+};
+
+const parquetType = (field: DriverField | undefined, masked: boolean): ParquetFieldType =>
+  (!masked && field?.kind && PARQUET_TYPES[field.kind]) || 'UTF8';
+
+const createParquetWriter = async (
+  columns: string[],
+  fields: DriverField[],
+  maskedColumns: MaskedColumn[],
+  output: Writable
+): Promise<ExportWriter> => {
+  const types = new Map<string, ParquetFieldType>();
+  for (const column of columns) {
+    const field = fields.find((f) => f.name === column);
+    types.set(column, parquetType(field, maskedColumns.some((m) => m.column === column)));
+  }
+  const schema = new ParquetSchema(Object.fromEntries(
+    columns.map((column) => [column, { type: types.get(column) as ParquetFieldType, optional: true, compression: 'SNAPPY' as const }])
+  ));
+  const writer = await ParquetWriter.openStream(schema, output);
+  writer.setRowGroupSize(PARQUET_ROW_GROUP_SIZE);
+
+  return {
+    async writeRow(row) {
+      const record: Record<string, unknown> = {};
+      for (const column of columns) {
+        const value = row[column];
+        if (value === null || value === undefined) continue;
+        if (value instanceof Date && isNaN(value.getTime())) continue;
+        record[column] = types.get(column) === 'UTF8' ? toText(value) : value;
+      }
+      await writer.appendRow(record);
+    },
+    async end() {
+      await writer.close();
+    }
+  };
+};
+
+export const createExportWriter = async (
+  format: ExportFormat,
+  columns: string[],
+  fields: DriverField[],
+  maskedColumns: MaskedColumn[],
+  output: Writable
+): Promise<ExportWriter> => {
+  switch (format) {
+    case 'csv':
+      return createCsvWriter(columns, output);
+    case 'ndjson':
+      return createNdjsonWriter(output);
+    case 'xlsx':
+      return createXlsxWriter(columns, output);
+    case 'parquet':
+      return createParquetWriter(columns, fields, maskedColumns, output);
+  }
+};
+
+/**
+ * Stream a (pre-validated) query from the destination driver into the output.
+ * Aborting the signal stops reading and has the driver end the query on the
+ * server.
+ */
+export const streamQueryExport = async (driver: DatabaseDriver, sql: string, options: ExportOptions): Promise<ExportResult> => {
+  const { format, output, maskingRules = [], lineage, signal, params, maxRows } = options;
+  if (signal?.aborted) {
+    return { rowCount: 0, cancelled: true, truncated: false, maskedColumns: [] };
+  }
+
+  const { fields, rows } = await driver.stream(sql.trim(), { signal, params });
+
+  let writer: ExportWriter | null = null;
+  let maskedColumns: MaskedColumn[] = [];
+  let rowCount = 0;
+  let truncated = false;
+
+  // Columns are known once the first row (or the end of an empty result) arrives
+  const openWriter = async (sample?: Record<string, unknown>) => {
+    maskedColumns = resolveMaskedColumns(maskingRules, fields, sample ? [sample] : [], lineage);
+    const columns = fields.length > 0 ? fields.map((f) => f.name) : Object.keys(sample || {});
+    return createExportWriter(format, columns, fields, maskedColumns, output);
+  };
+
+  try {
+    // Leaving the loop early (abort or error) tells the driver to stop the query
+    for await (const row of rows) {
+      if (signal?.aborted) break;
+      if (maxRows !== undefined && rowCount >= maxRows) {
+        truncated = true;
+        break;
+      }
+      if (!writer) writer = await openWriter(row);
+      await writer.writeRow(maskRow(row, maskedColumns));
+      rowCount++;
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  }
+
+  if (signal?.aborted) {
+    return { rowCount, cancelled: true, truncated, maskedColumns };
+  }
+
+  if (!writer) writer = await openWriter();
+  await writer.end();
+  return { rowCount, cancelled: false, truncated, maskedColumns };
+};
@@ -1,9 +1,13 @@
 import mysql from 'mysql2/promise';
 import crypto from 'crypto';
+import { reencryptCredentials } from './credentialService';
+import { secretsEncryptionEnabled } from '../utils/secrets';
 
 type Migration = {
   name: string;
   sql: string;
+  // Data changes that SQL alone cannot make; runs after the statements, in the same transaction
+  run?: (connection: mysql.Connection) => Promise<void>;
 };
 
 // Centralized list of idempotent migrations that should be applied on backend start
@@ -63,6 +67,312 @@ VALUES ('ai_model_migration', 'claude-sonnet-4-20250514', 'string', 'Migrated to
 ON DUPLICATE KEY UPDATE setting_value = 'claude-sonnet-4-20250514', updated_at = CURRENT_TIMESTAMP;
     `.trim(),
   },
+  {
+    name: '2026-10-19-database-query-policy',
+    sql: `
+USE query_builder;
+
+-- Per-connection query policy (allowed/denied tables and columns, banned functions, limits)
+ALTER TABLE database_settings ADD COLUMN query_policy JSON NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-database-masking-rules',
+    sql: `
+USE query_builder;
+
+-- Per-connection PII masking rules applied to preview results
+ALTER TABLE database_settings ADD COLUMN masking_rules JSON NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-database-dialect',
+    sql: `
+USE query_builder;
+
+-- Destination database engine (mysql, postgres, sqlite, mssql)
+ALTER TABLE database_settings ADD COLUMN dialect VARCHAR(20) NOT NULL DEFAULT 'mysql';
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-query-log-repair-rounds',
+    sql: `
+USE query_builder;
+
+-- How many times AI-generated SQL was repaired after failing EXPLAIN (NULL when not AI-generated)
+ALTER TABLE query_logs ADD COLUMN repair_rounds INT NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-config-files-profile',
+    sql: `
+USE query_builder;
+
+-- Column value profile (row counts, null ratios, ranges, low-cardinality values) per connection
+ALTER TABLE database_config_files ADD COLUMN profile_json JSON NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-saved-queries',
+    sql: `
+USE query_builder;
+
+-- Saved queries library: prompt and SQL with folder and tags, optionally tied to a connection
+CREATE TABLE IF NOT EXISTS saved_queries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  prompt TEXT,
+  sql_query TEXT NOT NULL,
+  database_settings_id INT NULL,
+  tags JSON NULL,
+  folder VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_saved_queries_folder (folder),
+  FOREIGN KEY (database_settings_id) REFERENCES database_settings(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-saved-query-parameters',
+    sql: `
+USE query_builder;
+
+-- Named parameter definitions (type, default, allowed values) for saved queries
+ALTER TABLE saved_queries ADD COLUMN parameters JSON NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-query-log-history',
+    sql: `
+USE query_builder;
+
+-- Query history: which endpoint wrote the entry and the connection that was active
+ALTER TABLE query_logs
+  ADD COLUMN query_type VARCHAR(20) NULL,
+  ADD COLUMN database_settings_id INT NULL,
+  ADD INDEX idx_query_logs_session (user_session),
+  ADD INDEX idx_query_logs_database (database_settings_id);
+
+-- Full-text search over prompts and SQL (kept separate: FULLTEXT indexes are built on their own)
+ALTER TABLE query_logs ADD FULLTEXT INDEX ft_query_logs_text (natural_language_query, generated_sql);
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-query-log-analytics',
+    sql: `
+USE query_builder;
+
+-- Usage analytics: who generated the SQL and a groupable code for failures
+ALTER TABLE query_logs
+  ADD COLUMN source VARCHAR(50) NULL,
+  ADD COLUMN model VARCHAR(100) NULL,
+  ADD COLUMN error_code VARCHAR(64) NULL,
+  ADD INDEX idx_query_logs_type_created (query_type, created_at);
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-users',
+    sql: `
+USE query_builder;
+
+-- User accounts: local passwords (scrypt hashes) and/or an OIDC identity, with a role
+CREATE TABLE IF NOT EXISTS users (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  username VARCHAR(255) NOT NULL,
+  display_name VARCHAR(255) NULL,
+  email VARCHAR(255) NULL,
+  password_hash VARCHAR(255) NULL,
+  role ENUM('viewer', 'analyst', 'admin') NOT NULL DEFAULT 'viewer',
+  oidc_issuer VARCHAR(255) NULL,
+  oidc_subject VARCHAR(255) NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_login_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_users_username (username),
+  UNIQUE KEY uq_users_oidc (oidc_issuer, oidc_subject)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-teams',
+    sql: `
+USE query_builder;
+
+-- Teams group users and are granted access to database connections
+CREATE TABLE IF NOT EXISTS teams (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_teams_name (name)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id INT NOT NULL,
+  user_id INT NOT NULL,
+  PRIMARY KEY (team_id, user_id),
+  INDEX idx_team_members_user (user_id),
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS team_database_access (
+  team_id INT NOT NULL,
+  database_settings_id INT NOT NULL,
+  PRIMARY KEY (team_id, database_settings_id),
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (database_settings_id) REFERENCES database_settings(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Each user's own active connection; NULL follows the default connection
+ALTER TABLE users
+  ADD COLUMN active_database_id INT NULL,
+  ADD FOREIGN KEY (active_database_id) REFERENCES database_settings(id) ON DELETE SET NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-encrypt-credentials',
+    sql: `
+USE query_builder;
+
+-- Encrypted credentials are longer than the plaintext they replace
+ALTER TABLE database_settings MODIFY COLUMN password TEXT NULL;
+ALTER TABLE ai_settings MODIFY COLUMN api_key TEXT NULL;
+    `.trim(),
+    // Encrypt rows saved before a master key was configured; retried on each start until one is
+    run: async (connection) => {
+      if (!secretsEncryptionEnabled()) {
+        throw new Error('SECRETS_MASTER_KEY is not set; stored credentials remain in plaintext');
+      }
+      await reencryptCredentials(connection);
+    },
+  },
+  {
+    name: '2026-10-19-audit-events',
+    sql: `
+USE query_builder;
+
+-- Configuration changes: who changed which entity, and a before/after diff with secrets redacted
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGINT PRIMARY KEY AUTO_INCREMENT,
+  actor_id INT NULL,
+  actor_username VARCHAR(255) NULL,
+  action VARCHAR(64) NOT NULL,
+  entity_type VARCHAR(64) NOT NULL,
+  entity_id VARCHAR(255) NULL,
+  changes JSON NOT NULL,
+  ip_address VARCHAR(45) NULL,
+  prev_hash CHAR(64) NULL,
+  hash CHAR(64) NULL,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX idx_audit_events_entity (entity_type, entity_id),
+  INDEX idx_audit_events_created (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-audit-events-append-only',
+    sql: `
+USE query_builder;
+
+-- Refuse edits and deletes of audit events (needs TRIGGER privilege, and SUPER when binary logging is on)
+CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+  FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only';
+CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events
+  FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only';
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-query-jobs',
+    sql: `
+USE query_builder;
+
+-- Queries run in the background; small results are kept inline, large ones in a spill file
+CREATE TABLE IF NOT EXISTS query_jobs (
+  id CHAR(36) PRIMARY KEY,
+  user_id INT NULL,
+  database_settings_id INT NULL,
+  sql_query TEXT NOT NULL,
+  status ENUM('queued', 'running', 'succeeded', 'failed', 'cancelled') NOT NULL DEFAULT 'queued',
+  row_count INT NOT NULL DEFAULT 0,
+  columns JSON NULL,
+  masked_columns JSON NULL,
+  result_rows LONGTEXT NULL,
+  result_file VARCHAR(1024) NULL,
+  truncated BOOLEAN NOT NULL DEFAULT FALSE,
+  error_message TEXT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP NULL,
+  finished_at TIMESTAMP NULL,
+  expires_at TIMESTAMP NULL,
+  INDEX idx_query_jobs_user_created (user_id, created_at),
+  INDEX idx_query_jobs_expires (expires_at),
+  FOREIGN KEY (database_settings_id) REFERENCES database_settings(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-database-result-cache',
+    sql: `
+USE query_builder;
+
+-- How long preview results of a connection are cached, in seconds; NULL leaves caching off
+ALTER TABLE database_settings ADD COLUMN result_cache_ttl_seconds INT NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-generation-cache',
+    sql: `
+USE query_builder;
+
+-- AI generations keyed by prompt, schema fingerprint and model, reused instead of calling the provider again
+CREATE TABLE IF NOT EXISTS generation_cache (
+  cache_key CHAR(64) PRIMARY KEY,
+  database_settings_id INT NOT NULL,
+  prompt TEXT NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  response JSON NOT NULL,
+  hit_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_hit_at TIMESTAMP NULL,
+  INDEX idx_generation_cache_database (database_settings_id),
+  FOREIGN KEY (database_settings_id) REFERENCES database_settings(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-ai-usage',
+    sql: `
+USE query_builder;
+
+-- Token usage and estimated cost of AI generations, and who asked for them
+ALTER TABLE query_logs
+  ADD COLUMN input_tokens INT NULL,
+  ADD COLUMN output_tokens INT NULL,
+  ADD COLUMN estimated_cost DECIMAL(12,6) NULL,
+  ADD COLUMN user_id INT NULL,
+  ADD INDEX idx_query_logs_created (created_at);
+
+-- Monthly AI spend limit per connection; the global limit is an app setting
+ALTER TABLE database_settings ADD COLUMN ai_monthly_budget_usd DECIMAL(12,2) NULL;
+    `.trim(),
+  },
+  {
+    name: '2026-10-19-saved-query-owner',
+    sql: `
+USE query_builder;
+
+-- Who saved a query; only they (or an admin) may change or delete it. Older queries have no owner
+ALTER TABLE saved_queries
+  ADD COLUMN created_by INT NULL,
+  ADD INDEX idx_saved_queries_created_by (created_by);
+    `.trim(),
+  },
 ];
 
 function sha256(content: string): string {
@@ -106,6 +416,7 @@ export async function runStartupMigrations(databaseUrl?: string): Promise<void>
         for (const stmt of statements) {
           await connection.query(stmt);
         }
+        await m.run?.(connection);
 
         await connection.query(
           'INSERT INTO app_migrations (name, checksum) VALUES (?, ?) ON DUPLICATE KEY UPDATE checksum = VALUES(checksum), applied_at = CURRENT_TIMESTAMP',
@@ -0,0 +1,218 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'crypto';
+import type { OidcProfile } from './userService';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  // Backend callback registered with the identity provider
+  redirectUri: string;
+  scopes: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+// How long a user has to finish signing in at the identity provider
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+// ID tokens issued slightly in the future are accepted to allow for clock drift
+const CLOCK_SKEW_SECONDS = 60;
+
+// JWS algorithms the ID token signature may use, mapped to node:crypto digests
+const SIGNING_ALGORITHMS: Record<string, string> = {
+  RS256: 'sha256',
+  RS384: 'sha384',
+  RS512: 'sha512',
+  ES256: 'sha256',
+  ES384: 'sha384'
+};
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+const decodeSegment = (segment: string): Record<string, any> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString());
+  } catch {
+    throw new OidcError('ID token is malformed');
+  }
+};
+
+/**
+ * OpenID Connect authorization code flow with PKCE. Configured from OIDC_*
+ * environment variables; when OIDC_ISSUER is unset single sign-on is off.
+ */
+class OidcService {
+  private metadata: ProviderMetadata | null = null;
+  private keys: JsonWebKey[] = [];
+  private pending = new Map<string, PendingLogin>();
+
+  getConfig(): OidcConfig | null {
+    const issuer = process.env.OIDC_ISSUER;
+    const clientId = process.env.OIDC_CLIENT_ID;
+    if (!issuer || !clientId) return null;
+    return {
+      issuer: issuer.replace(/\/$/, ''),
+      clientId,
+      clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+      redirectUri: process.env.OIDC_REDIRECT_URI || `http://localhost:${process.env.PORT || 3001}/api/auth/oidc/callback`,
+      scopes: process.env.OIDC_SCOPES || 'openid profile email'
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig() !== null;
+  }
+
+  private requireConfig(): OidcConfig {
+    const config = this.getConfig();
+    if (!config) throw new OidcError('Single sign-on is not configured');
+    return config;
+  }
+
+  private async discover(config: OidcConfig): Promise<ProviderMetadata> {
+    if (this.metadata && this.metadata.issuer === config.issuer) return this.metadata;
+    const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) throw new OidcError(`Discovery failed with HTTP ${response.status}`);
+    const metadata = await response.json() as ProviderMetadata;
+    if (metadata.issuer !== config.issuer) throw new OidcError('Discovery document is for a different issuer');
+    this.metadata = metadata;
+    this.keys = [];
+    return metadata;
+  }
+
+  private async signingKey(metadata: ProviderMetadata, kid: string | undefined): Promise<JsonWebKey> {
+    const find = () => this.keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'));
+    // Refetch once when the key is unknown, in case the provider rotated keys
+    if (!find()) {
+      const response = await fetch(metadata.jwks_uri);
+      if (!response.ok) throw new OidcError(`Fetching signing keys failed with HTTP ${response.status}`);
+      this.keys = ((await response.json()) as { keys?: JsonWebKey[] }).keys ?? [];
+    }
+    const key = find();
+    if (!key) throw new OidcError('ID token is signed with an unknown key');
+    return key;
+  }
+
+  private removeExpired(now: number) {
+    for (const [state, login] of this.pending) {
+      if (login.expiresAt <= now) this.pending.delete(state);
+    }
+  }
+
+  /** The identity provider URL to send the browser to */
+  async beginLogin(now = Date.now()): Promise<string> {
+    const config = this.requireConfig();
+    const metadata = await this.discover(config);
+    this.removeExpired(now);
+
+    const state = base64url(randomBytes(24));
+    const nonce = base64url(randomBytes(24));
+    const codeVerifier = base64url(randomBytes(32));
+    this.pending.set(state, { nonce, codeVerifier, expiresAt: now + LOGIN_TTL_MS });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      scope: config.scopes,
+      state,
+      nonce,
+      code_challenge: base64url(createHash('sha256').update(codeVerifier).digest()),
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  /** Exchange the callback's code for an ID token and return who signed in */
+  async completeLogin(code: string, state: string, now = Date.now()): Promise<OidcProfile> {
+    const config = this.requireConfig();
+    this.removeExpired(now);
+    const login = this.pending.get(state);
+    if (!login) throw new OidcError('Sign-in request expired or was already used');
+    this.pending.delete(state);
+
+    const metadata = await this.discover(config);
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: login.codeVerifier
+    });
+    if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body
+    });
+    if (!response.ok) throw new OidcError(`Token exchange failed with HTTP ${response.status}`);
+    const tokens = await response.json() as { id_token?: string };
+    if (!tokens.id_token) throw new OidcError('Token response has no ID token');
+
+    const claims = await this.verifyIdToken(tokens.id_token, config, metadata, now);
+    if (claims.nonce !== login.nonce) throw new OidcError('ID token nonce does not match');
+
+    return {
+      issuer: config.issuer,
+      subject: String(claims.sub),
+      username: String(claims.preferred_username || claims.email || claims.sub),
+      display_name: claims.name ?? null,
+      email: claims.email ?? null
+    };
+  }
+
+  private async verifyIdToken(
+    token: string,
+    config: OidcConfig,
+    metadata: ProviderMetadata,
+    now: number
+  ): Promise<Record<string, any>> {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new OidcError('ID token is malformed');
+    const header = decodeSegment(parts[0]);
+    const claims = decodeSegment(parts[1]);
+
+    const digest = SIGNING_ALGORITHMS[header.alg];
+    if (!digest) throw new OidcError(`ID token algorithm ${header.alg} is not supported`);
+    const key = createPublicKey({ key: await this.signingKey(metadata, header.kid), format: 'jwk' });
+    const signed = verify(
+      digest,
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      // JWS carries EC signatures as raw r||s rather than DER
+      key.asymmetricKeyType === 'ec' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!signed) throw new OidcError('ID token signature is invalid');
+
+    const seconds = Math.floor(now / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== config.issuer) throw new OidcError('ID token issuer does not match');
+    if (!audiences.includes(config.clientId)) throw new OidcError('ID token is for a different client');
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= seconds) throw new OidcError('ID token has expired');
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > seconds) throw new OidcError('ID token was issued in the future');
+    if (!claims.sub) throw new OidcError('ID token has no subject');
+    return claims;
+  }
+}
+
+export const oidcService = new OidcService();
+export default oidcService;
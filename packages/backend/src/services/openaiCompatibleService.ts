@@ -0,0 +1,17 @@
+import { OpenAIService } from './openaiService';
+
+/**
+ * Any server that speaks the OpenAI chat completions API: Ollama
+ * (http://localhost:11434/v1), vLLM (http://localhost:8000/v1), llama.cpp
+ * server (http://localhost:8080/v1) or a mock used in tests. Enabled when
+ * OPENAI_COMPATIBLE_BASE_URL is set; the API key is optional.
+ */
+export const openaiCompatibleService = new OpenAIService({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  envPrefix: 'OPENAI_COMPATIBLE',
+  defaultModel: 'llama3.1',
+  apiKeyOptional: true
+});
+
+export default openaiCompatibleService;
@@ -1,60 +1,81 @@
 import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { describeQueryPolicy, QueryPolicy } from '../utils/queryPolicy';
+import type { TableProfile } from '../utils/schemaProfile';
+import { DEFAULT_DIALECT, Dialect, DIALECT_LABELS, DIALECT_PROMPTS } from '../utils/dialects';
+import { buildConversationMessages, describeRelationships, describeSchema } from './aiProviders';
+import type { Relationship, SchemaTables } from './drivers';
+import type { AIProviderAdapter, AIProviderConfig, QueryGenerationRequest, QueryGenerationResponse } from './aiProviders';
 
 dotenv.config();
 
-interface QueryGenerationRequest {
-  prompt: string;
-  schema: Record<string, { columns: string[]; description: string }>;
+const OPENAI_MODELS = ['gpt-4-turbo-preview', 'gpt-4', 'gpt-3.5-turbo', 'gpt-4o', 'gpt-4o-mini'];
+
+// Local servers usually ignore the key, but the client refuses to start without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+interface OpenAIServiceOptions {
+  id: string;
+  label: string;
+  /** Environment variable prefix: <PREFIX>_API_KEY, <PREFIX>_BASE_URL, <PREFIX>_MODEL */
+  envPrefix: string;
+  defaultModel: string;
+  /** Fixed model list; when omitted the models are fetched from the endpoint */
+  models?: string[];
+  /** Whether the endpoint works without an API key (self-hosted servers) */
+  apiKeyOptional?: boolean;
 }
 
-interface QueryGenerationResponse {
-  sql: string;
-  confidence: number;
-  reasoning: string;
-  tables_used: string[];
-}
-
-interface AIConfig {
-  enabled: boolean;
-  apiKey: string;
-  model: string;
-  temperature: number;
-  maxTokens: number;
-}
-
-class OpenAIService {
+const OPENAI_OPTIONS: OpenAIServiceOptions = {
+  id: 'openai',
+  label: 'OpenAI GPT',
+  envPrefix: 'OPENAI',
+  defaultModel: 'gpt-4-turbo-preview',
+  models: OPENAI_MODELS
+};
+
+class OpenAIService implements AIProviderAdapter {
+  public readonly id: string;
+  public readonly label: string;
   private openai: OpenAI | null = null;
   private isEnabled = false;
-  private config: AIConfig = {
-    enabled: false,
-    apiKey: '',
-    model: 'gpt-4-turbo-preview',
-    temperature: 0.2,
-    maxTokens: 2000
-  };
-
-  constructor() {
-    // Try to initialize with environment variable first
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (apiKey && apiKey.length > 0) {
+  private config: AIProviderConfig;
+
+  constructor(private readonly options: OpenAIServiceOptions = OPENAI_OPTIONS) {
+    this.id = options.id;
+    this.label = options.label;
+    this.config = {
+      enabled: false,
+      apiKey: '',
+      model: process.env[`${options.envPrefix}_MODEL`] || options.defaultModel,
+      temperature: 0.2,
+      maxTokens: 2000,
+      baseURL: process.env[`${options.envPrefix}_BASE_URL`] || undefined
+    };
+
+    // Try to initialize with environment variables first
+    const apiKey = process.env[`${options.envPrefix}_API_KEY`];
+
+    if ((apiKey && apiKey.length > 0) || (options.apiKeyOptional && this.config.baseURL)) {
       this.config.enabled = true;
-      this.config.apiKey = apiKey;
+      this.config.apiKey = apiKey || '';
       this.initializeOpenAI();
     } else {
-      console.log('ℹ️  OpenAI API key not found. AI-enhanced query generation disabled.');
+      console.log(`ℹ️  ${options.label} is not configured. AI-enhanced query generation disabled.`);
       this.isEnabled = false;
     }
   }
 
   private initializeOpenAI() {
     try {
-      this.openai = new OpenAI({ apiKey: this.config.apiKey });
+      this.openai = new OpenAI({
+        apiKey: this.config.apiKey || PLACEHOLDER_API_KEY,
+        ...(this.config.baseURL ? { baseURL: this.config.baseURL } : {})
+      });
       this.isEnabled = this.config.enabled;
-      console.log('✅ OpenAI service initialized');
+      console.log(`✅ ${this.options.label} service initialized`);
     } catch (error) {
-      console.warn('⚠️  Failed to initialize OpenAI service:', error);
+      console.warn(`⚠️  Failed to initialize ${this.options.label} service:`, error);
       this.isEnabled = false;
     }
   }
@@ -63,10 +84,10 @@ class OpenAIService {
     return this.isEnabled && this.openai !== null;
   }
 
-  public updateConfig(newConfig: AIConfig): void {
+  public updateConfig(newConfig: AIProviderConfig): void {
     this.config = { ...newConfig };
     
-    if (this.config.enabled && this.config.apiKey) {
+    if (this.config.enabled && (this.config.apiKey || (this.options.apiKeyOptional && this.config.baseURL))) {
       this.initializeOpenAI();
     } else {
       this.isEnabled = false;
@@ -74,10 +95,30 @@ class OpenAIService {
     }
   }
 
-  public getConfig(): AIConfig {
+  public getConfig(): AIProviderConfig {
     return { ...this.config };
   }
 
+  public async listModels(): Promise<string[]> {
+    if (this.options.models) {
+      return [...this.options.models];
+    }
+    if (!this.enabled || !this.openai) {
+      return [this.config.model];
+    }
+
+    try {
+      const models: string[] = [];
+      for await (const model of this.openai.models.list()) {
+        models.push(model.id);
+      }
+      return models.length > 0 ? models.sort() : [this.config.model];
+    } catch (error) {
+      console.warn(`⚠️  Failed to list ${this.options.label} models:`, error);
+      return [this.config.model];
+    }
+  }
+
   private sanitizeJsonString(jsonStr: string): string {
     // Remove markdown code blocks if present
     let cleaned = jsonStr.replace(/```json\s*|```\s*/g, '').trim();
@@ -107,14 +148,19 @@ class OpenAIService {
     }
 
     try {
-      const systemPrompt = this.buildSystemPrompt(request.schema);
-      const userPrompt = this.buildUserPrompt(request.prompt);
+      const systemPrompt = this.buildSystemPrompt(request.schema, request.policy, request.dialect, request.relationships, request.profile);
+      const messages = buildConversationMessages(
+        request.history,
+        request.prompt,
+        (prompt) => this.buildUserPrompt(prompt),
+        request.repairs
+      );
 
       const completion = await this.openai.chat.completions.create({
         model: this.config.model,
         messages: [
           { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
+          ...messages
         ],
         temperature: this.config.temperature,
         max_tokens: this.config.maxTokens,
@@ -123,7 +169,7 @@ class OpenAIService {
 
       const response = completion.choices[0]?.message?.content;
       if (!response) {
-        throw new Error('No response from OpenAI');
+        throw new Error(`No response from ${this.options.label}`);
       }
 
       const sanitizedResponse = this.sanitizeJsonString(response);
@@ -131,29 +177,42 @@ class OpenAIService {
       
       // Validate the response has required fields
       if (!parsed.sql || typeof parsed.confidence !== 'number') {
-        throw new Error('Invalid response format from OpenAI');
+        throw new Error(`Invalid response format from ${this.options.label}`);
       }
 
       // Ensure confidence is between 0 and 1
       parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
+      // Some OpenAI-compatible servers leave usage out
+      if (completion.usage) {
+        parsed.usage = { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens };
+      }
 
       return parsed;
     } catch (error) {
-      console.error('OpenAI query generation error:', error);
+      console.error(`${this.options.label} query generation error:`, error);
       return null;
     }
   }
 
-  private buildSystemPrompt(schema: Record<string, { columns: string[]; description: string }>): string {
-    const schemaDescription = Object.entries(schema)
-      .map(([table, info]) => `Table: ${table}\nColumns: ${info.columns.join(', ')}\nDescription: ${info.description}\n`)
-      .join('\n');
-
-    return `You are an expert SQL query generator specialized in MySQL. Your task is to convert natural language requests into precise, executable SQL queries.
+  private buildSystemPrompt(
+    schema: SchemaTables,
+    policy?: QueryPolicy | null,
+    dialect: Dialect = DEFAULT_DIALECT,
+    relationships?: Relationship[],
+    profile?: Record<string, TableProfile>
+  ): string {
+    const schemaDescription = describeSchema(schema, profile) + describeRelationships(relationships);
+    const policyDescription = describeQueryPolicy(policy);
+    const dialectPrompt = DIALECT_PROMPTS[dialect];
+    const dialectNotes = dialectPrompt.notes.length > 0
+      ? `\n${DIALECT_LABELS[dialect].toUpperCase()} NOTES:\n${dialectPrompt.notes.map((note) => `- ${note}`).join('\n')}\n`
+      : '';
+
+    return `You are an expert SQL query generator specialized in ${DIALECT_LABELS[dialect]}. Your task is to convert natural language requests into precise, executable SQL queries.
 
 DATABASE SCHEMA:
 ${schemaDescription}
-
+${policyDescription ? `\n${policyDescription}\n` : ''}
 IMPORTANT SCHEMA ANALYSIS:
 - Look for tables with compound names (e.g., film_actor, film_category) - these are junction tables linking two entities
 - Foreign keys typically follow the pattern: table_id (e.g., actor_id links to actor table, film_id links to film table)
@@ -163,22 +222,21 @@ IMPORTANT SCHEMA ANALYSIS:
 
 CRITICAL RULES FOR SQL GENERATION:
 1. ONLY use tables and columns that EXACTLY match the schema above
-2. Use proper MySQL syntax (backticks for identifiers if needed)
+2. ${dialectPrompt.syntax}
 3. ANALYZE THE SCHEMA FIRST: Identify junction tables and foreign key relationships before writing SQL
 4. For many-to-many relationships, ALWAYS join through junction tables (e.g., film_actor links film and actor)
 5. Chain JOINs properly: If querying "actors in horror films", join actor → film_actor → film → film_category → category
 6. Always include WHERE clauses when filtering (e.g., WHERE category.name = 'Horror')
 7. Add ORDER BY for "top", "most", "best" queries, plus COUNT/GROUP BY for aggregations
-8. ALWAYS include LIMIT with a NUMERIC value at the end (e.g., LIMIT 10, LIMIT 20) - NEVER omit LIMIT, NEVER use words
+8. ${dialectPrompt.rowLimitRule}
 9. Use meaningful table aliases (e.g., 'f' for film, 'a' for actor, 'fa' for film_actor)
 10. For text searches, use LIKE with wildcards: WHERE column LIKE '%value%'
 11. Handle possessive/plural forms intelligently (e.g., "films" → film table, "actors" → actor table)
 12. ALWAYS select primary identifier columns FIRST (e.g., film_id, title for films; actor_id, first_name, last_name for actors)
 13. For "show all X" queries, select the most relevant columns: IDs, names/titles, and 2-3 key descriptive fields
-
+${dialectNotes}
 IMPORTANT REQUIREMENTS:
-- LIMIT clause is MANDATORY - every query must end with "LIMIT <number>"
-- LIMIT must be a number (10-50 typical), never a word or variable
+${dialectPrompt.rowLimitRequirements.map((requirement) => `- ${requirement}`).join('\n')}
 - Always select identifier columns first (e.g., film_id, title) before detail columns
 - For "show/list all" queries, select: ID, name/title, and 2-3 most important descriptive columns
 
@@ -256,13 +314,13 @@ Respond with the JSON object containing sql, confidence, reasoning, and tables_u
 
     try {
       await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
+        model: this.config.model,
         messages: [{ role: 'user', content: 'Test connection' }],
         max_tokens: 5
       });
       return true;
     } catch (error) {
-      console.error('OpenAI connection test failed:', error);
+      console.error(`${this.options.label} connection test failed:`, error);
       return false;
     }
   }
@@ -271,4 +329,5 @@ Respond with the JSON object containing sql, confidence, reasoning, and tables_u
 // Export a singleton instance
 export const openaiService = new OpenAIService();
 export default openaiService;
-export type { AIConfig };
+export { OpenAIService };
+export type { AIProviderConfig as AIConfig, OpenAIServiceOptions };
@@ -0,0 +1,86 @@
+import type { DatabaseDriver } from './drivers';
+import { databaseService } from './databaseSystemService';
+import { checkSqlSafety } from '../utils/sqlSafety';
+import { resolveMaskedColumns, resultLineage } from '../utils/masking';
+import { findParameterNames, QueryParameter } from '../utils/queryParameters';
+
+// A lookup supplies at most this many choices
+export const MAX_LOOKUP_VALUES = 100;
+const LOOKUP_TIMEOUT_MS = 5000;
+
+const toChoice = (value: unknown): string | number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+/**
+ * Allowed values for one lookup: the first column of its first rows. Lookups
+ * go through the same read-only and query-policy checks as previews, and a
+ * masked column never supplies choices.
+ */
+const runLookup = async (
+  driver: DatabaseDriver,
+  parameter: QueryParameter,
+  databaseId?: number
+): Promise<(string | number)[] | undefined> => {
+  const lookup = parameter.lookup as string;
+  const [policy, maskingRules] = await Promise.all([
+    databaseService.getQueryPolicy(databaseId),
+    databaseService.getMaskingRules(databaseId)
+  ]);
+  const safety = checkSqlSafety(lookup, policy, driver.dialect);
+  if (!safety.isSafe) throw new Error(safety.violations[0].message);
+  if (findParameterNames(lookup, driver.dialect).length > 0) throw new Error('Lookups cannot use parameters');
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS);
+  try {
+    // Streaming lets us stop after the first rows instead of reading the whole result
+    const { fields, rows } = await driver.stream(lookup, { signal: controller.signal });
+    const read: Record<string, unknown>[] = [];
+    for await (const row of rows) {
+      read.push(row);
+      if (read.length >= MAX_LOOKUP_VALUES) break;
+    }
+    const column = fields[0]?.name ?? Object.keys(read[0] ?? {})[0];
+    if (!column) return [];
+    if (resolveMaskedColumns(maskingRules, fields, read, resultLineage(safety.ast)).some((masked) => masked.column === column)) {
+      throw new Error(`Column ${column} is masked`);
+    }
+    const values = read.map((row) => toChoice(row[column])).filter((value): value is string | number => value !== undefined);
+    return [...new Set(values)];
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Fill in allowedValues for parameters that list their choices with a lookup
+ * query run on the given connection. A lookup that fails leaves the
+ * parameter as free input.
+ */
+export const resolveParameterLookups = async (
+  driver: DatabaseDriver | null,
+  parameters: QueryParameter[],
+  databaseId?: number
+): Promise<QueryParameter[]> => {
+  const resolved: QueryParameter[] = [];
+  // One at a time: lookups share the destination pool with previews
+  for (const parameter of parameters) {
+    if (!parameter.lookup || !driver) {
+      resolved.push(parameter);
+      continue;
+    }
+    try {
+      const allowedValues = await runLookup(driver, parameter, databaseId);
+      resolved.push(allowedValues && allowedValues.length > 0 ? { ...parameter, allowedValues } : parameter);
+    } catch (error: any) {
+      console.warn(`Failed to load values for parameter :${parameter.name}:`, error?.message);
+      resolved.push(parameter);
+    }
+  }
+  return resolved;
+};
@@ -1,7 +1,11 @@
 import type mysql from 'mysql2/promise';
+import { createDriver, DatabaseDriver } from './drivers';
+import { normalizeDialect } from '../utils/dialects';
+import type { DatabaseConfig } from './databaseSystemService';
 
 let pool: mysql.Pool | null = null;
-let destinationPool: mysql.Pool | null = null;
+// One driver per database_settings row, opened the first time someone queries it
+const destinationDrivers = new Map<number, DatabaseDriver>();
 
 export const setPool = (p: mysql.Pool | null) => {
   pool = p;
@@ -9,8 +13,25 @@ export const setPool = (p: mysql.Pool | null) => {
 
 export const getPool = () => pool;
 
-export const setDestinationPool = (p: mysql.Pool | null) => {
-  destinationPool = p;
+export const getDestinationDriver = (config: DatabaseConfig & { id: number }): DatabaseDriver => {
+  let driver = destinationDrivers.get(config.id);
+  if (!driver) {
+    driver = createDriver({ ...config, dialect: normalizeDialect(config.dialect) });
+    destinationDrivers.set(config.id, driver);
+  }
+  return driver;
 };
 
-export const getDestinationPool = () => destinationPool;
+/** Close the cached driver for one connection, or all of them, so the next query reconnects with current settings */
+export const closeDestinationDrivers = async (databaseId?: number) => {
+  const ids = databaseId !== undefined ? [databaseId] : [...destinationDrivers.keys()];
+  await Promise.all(ids.map(async (id) => {
+    const driver = destinationDrivers.get(id);
+    destinationDrivers.delete(id);
+    try {
+      await driver?.close();
+    } catch (error) {
+      console.warn(`Failed to close destination driver for database ${id}:`, error);
+    }
+  }));
+};
@@ -0,0 +1,167 @@
+import { createDriver, DatabaseDriver, Row, SchemaTable, SchemaTables } from './drivers';
+import { databaseService } from './databaseSystemService';
+import { Dialect, normalizeDialect, quoteIdentifier } from '../utils/dialects';
+import type { MaskingRule } from '../utils/masking';
+import { ColumnProfile, columnKind, maskedColumnNames, SchemaProfile, TableProfile } from '../utils/schemaProfile';
+
+// Column statistics are computed from at most this many rows per table
+const SAMPLE_ROWS = 10000;
+// Columns with at most this many distinct values have them all listed
+const LOW_CARDINALITY = 20;
+// Longest value kept in a profile; longer ones are free text rather than categories
+const MAX_VALUE_LENGTH = 60;
+const QUERY_TIMEOUT_MS = 30000;
+
+const quoteTable = (name: string, dialect: Dialect): string =>
+  name.split('.').map((part) => quoteIdentifier(part, dialect)).join('.');
+
+// `SELECT <list> FROM <from>` capped at `rows`, in the dialect's syntax
+const limited = (list: string, from: string, rows: number, dialect: Dialect, rest = ''): string =>
+  dialect === 'mssql'
+    ? `SELECT TOP ${rows} ${list} FROM ${from}${rest}`
+    : `SELECT ${list} FROM ${from}${rest} LIMIT ${rows}`;
+
+const toScalar = (value: unknown): string | number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return String(value);
+};
+
+interface ProfileRun {
+  running: boolean;
+  // Message of the last failed run
+  error?: string;
+}
+
+/**
+ * Collects column value profiles for a destination database: catalog row
+ * counts, then null ratios, distinct counts and min/max over a sample of each
+ * table, and the values of low-cardinality columns. Columns matched by the
+ * connection's masking rules only get null ratios.
+ */
+class ProfilingService {
+  private runs = new Map<number, ProfileRun>();
+
+  private async profileTable(
+    driver: DatabaseDriver,
+    name: string,
+    table: SchemaTable,
+    rowCount: number | null,
+    maskingRules: MaskingRule[]
+  ): Promise<TableProfile> {
+    const dialect = driver.dialect;
+    const masked = maskedColumnNames(name, table.columns, maskingRules);
+    const columns = table.columns
+      .map((column) => ({ column, kind: columnKind(table.columnDetails?.[column]?.type), masked: masked.has(column) }))
+      .filter((entry) => entry.kind !== 'other');
+
+    const profile: TableProfile = { rowCount, sampledRows: 0, columns: {} };
+    if (columns.length === 0) return profile;
+
+    const columnList = columns.map(({ column }) => quoteIdentifier(column, dialect)).join(', ');
+    const sample = `(${limited(columnList, quoteTable(name, dialect), SAMPLE_ROWS, dialect)}) sampled`;
+    const aggregates = ['COUNT(*) AS sampled_rows'];
+    columns.forEach(({ column, kind, masked: isMasked }, i) => {
+      const quoted = quoteIdentifier(column, dialect);
+      aggregates.push(`COUNT(${quoted}) AS non_null_${i}`);
+      if (isMasked) return;
+      if (kind !== 'boolean' || dialect !== 'mssql') aggregates.push(`COUNT(DISTINCT ${quoted}) AS distinct_${i}`);
+      if (kind === 'number' || kind === 'datetime') aggregates.push(`MIN(${quoted}) AS min_${i}`, `MAX(${quoted}) AS max_${i}`);
+    });
+    const { rows } = await driver.run(`SELECT ${aggregates.join(', ')} FROM ${sample}`, { timeoutMs: QUERY_TIMEOUT_MS });
+    const stats: Row = rows[0] ?? {};
+    profile.sampledRows = Number(stats.sampled_rows ?? 0);
+    if (profile.sampledRows === 0) return profile;
+
+    for (const [i, { column, kind, masked: isMasked }] of columns.entries()) {
+      const nonNull = Number(stats[`non_null_${i}`] ?? 0);
+      const entry: ColumnProfile = { nullRatio: Math.round((1 - nonNull / profile.sampledRows) * 1000) / 1000 };
+      if (!isMasked) {
+        if (stats[`distinct_${i}`] !== undefined) entry.distinctCount = Number(stats[`distinct_${i}`]);
+        entry.min = toScalar(stats[`min_${i}`]);
+        entry.max = toScalar(stats[`max_${i}`]);
+        // Numbers and dates are described by their range instead
+        const categorical = kind === 'text' || kind === 'boolean';
+        if (categorical && entry.distinctCount !== undefined && entry.distinctCount > 0 && entry.distinctCount <= LOW_CARDINALITY) {
+          const quoted = quoteIdentifier(column, dialect);
+          const { rows: valueRows } = await driver.run(
+            limited(`${quoted} AS value, COUNT(*) AS frequency`, sample, LOW_CARDINALITY, dialect,
+              ` WHERE ${quoted} IS NOT NULL GROUP BY ${quoted} ORDER BY COUNT(*) DESC`),
+            { timeoutMs: QUERY_TIMEOUT_MS }
+          );
+          const values = valueRows.map((row) => String(toScalar(row.value)));
+          if (values.every((value) => value.length <= MAX_VALUE_LENGTH)) entry.values = values;
+        }
+      }
+      profile.columns[column] = Object.fromEntries(
+        Object.entries(entry).filter(([, value]) => value !== undefined)
+      ) as ColumnProfile;
+    }
+    return profile;
+  }
+
+  /** Profile every table of `schema`; a table that fails keeps only its row count */
+  public async profile(driver: DatabaseDriver, schema: SchemaTables, maskingRules: MaskingRule[] = []): Promise<SchemaProfile> {
+    const rowCounts = await driver.rowCounts().catch((error) => {
+      console.warn('Failed to read row counts:', error);
+      return {} as Record<string, number>;
+    });
+
+    const tables: Record<string, TableProfile> = {};
+    for (const [name, table] of Object.entries(schema)) {
+      const rowCount = rowCounts[name] ?? null;
+      try {
+        tables[name] = await this.profileTable(driver, name, table, rowCount, maskingRules);
+      } catch (error) {
+        console.warn(`Failed to profile table ${name}:`, error instanceof Error ? error.message : error);
+        tables[name] = { rowCount, sampledRows: 0, columns: {} };
+      }
+    }
+    return { generatedAt: new Date().toISOString(), tables };
+  }
+
+  private async profileDatabase(databaseId: number): Promise<SchemaProfile> {
+    const config = await databaseService.getDatabaseConfig(databaseId);
+    if (!config) throw new Error('Database configuration not found');
+    const maskingRules = await databaseService.getMaskingRules(databaseId);
+
+    const driver = createDriver({ ...config, dialect: normalizeDialect(config.dialect) }, 1);
+    try {
+      // Introspect rather than use the stored schema, which may lack column types
+      const profile = await this.profile(driver, await driver.introspect(), maskingRules);
+      await databaseService.saveSchemaProfile(databaseId, profile);
+      return profile;
+    } finally {
+      await driver.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Start profiling a database in the background. Returns false when a run
+   * for it is already in progress.
+   */
+  public start(databaseId: number): boolean {
+    if (this.status(databaseId).running) return false;
+    const run: ProfileRun = { running: true };
+    this.runs.set(databaseId, run);
+    void this.profileDatabase(databaseId)
+      .catch((error) => {
+        console.error(`Failed to profile database ${databaseId}:`, error);
+        run.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        run.running = false;
+      });
+    return true;
+  }
+
+  public status(databaseId: number): { running: boolean; error?: string } {
+    const run = this.runs.get(databaseId);
+    return { running: run?.running ?? false, ...(run?.error ? { error: run.error } : {}) };
+  }
+}
+
+export const profilingService = new ProfilingService();
+export default profilingService;
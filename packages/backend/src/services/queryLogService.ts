@@ -1,16 +1,112 @@
 import mysql from 'mysql2/promise';
+import {
+  DEFAULT_HISTORY_PAGE_SIZE,
+  ExecutionStatus,
+  MAX_HISTORY_PAGE_SIZE,
+  QueryLogType
+} from '../utils/validators';
 
 interface QueryLogEntry {
+  // Which endpoint wrote the entry
+  query_type?: QueryLogType;
   natural_language_query: string;
   generated_sql?: string;
-  execution_status: 'success' | 'validation_error' | 'execution_error';
+  execution_status: ExecutionStatus;
   confidence_score?: number;
   execution_time_ms?: number;
   error_message?: string;
   user_session?: string;
   ip_address?: string;
+  /** Times the generated SQL was sent back to the AI after failing EXPLAIN */
+  repair_rounds?: number;
+  // Generations: the AI provider id or 'pattern_matching', and the provider's model
+  source?: string;
+  model?: string;
+  // Database driver error code or SQL violation code, for grouping failures
+  error_code?: string;
+  // Connection the query ran against; the default connection when omitted
+  database_settings_id?: number | null;
+  // AI generations: tokens used across all provider calls and their estimated USD cost
+  input_tokens?: number;
+  output_tokens?: number;
+  estimated_cost?: number | null;
+  user_id?: number | null;
 }
 
+export interface QueryHistoryEntry {
+  id: number;
+  type: QueryLogType | null;
+  prompt: string;
+  sql: string | null;
+  status: ExecutionStatus;
+  confidence: number | null;
+  execution_time_ms: number | null;
+  error: string | null;
+  session: string | null;
+  repair_rounds: number | null;
+  database_settings_id: number | null;
+  // Name of the connection that was active, when it still exists
+  database_name: string | null;
+  created_at: string;
+}
+
+export interface QueryHistoryFilter {
+  session?: string;
+  status?: ExecutionStatus;
+  type?: QueryLogType;
+  databaseId?: number;
+  // Only entries of these connections; every entry when undefined
+  databaseIds?: number[];
+  // Inclusive bounds on created_at
+  from?: Date;
+  to?: Date;
+  // Full-text search over the prompt and SQL
+  search?: string;
+  // Id of the last entry on the previous page
+  cursor?: number;
+  limit?: number;
+}
+
+export interface QueryHistoryPage {
+  entries: QueryHistoryEntry[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: number | null;
+}
+
+// Restrict to a set of connections; an empty set matches nothing
+const databaseCondition = (column: string, databaseIds: number[]): string =>
+  databaseIds.length > 0 ? `${column} IN (${databaseIds.map(() => '?').join(', ')})` : '1 = 0';
+
+const toHistoryEntry = (row: Record<string, any>): QueryHistoryEntry => ({
+  id: row.id,
+  type: row.query_type ?? null,
+  prompt: row.natural_language_query,
+  sql: row.generated_sql ?? null,
+  status: row.execution_status,
+  confidence: row.confidence_score === null || row.confidence_score === undefined ? null : Number(row.confidence_score),
+  execution_time_ms: row.execution_time_ms ?? null,
+  error: row.error_message ?? null,
+  session: row.user_session ?? null,
+  repair_rounds: row.repair_rounds ?? null,
+  database_settings_id: row.database_settings_id ?? null,
+  database_name: row.database_name ?? null,
+  created_at: row.created_at
+});
+
+// Boolean-mode terms that must all match, each as a prefix; FULLTEXT operators in the input are dropped
+export const toFullTextQuery = (search: string): string =>
+  search
+    .split(/\s+/)
+    .map((term) => term.replace(/[^\p{L}\p{N}_]/gu, ''))
+    .filter(Boolean)
+    .map((term) => `+${term}*`)
+    .join(' ');
+
+const SELECT_HISTORY = `
+  SELECT l.*, d.name AS database_name
+    FROM query_logs l
+    LEFT JOIN database_settings d ON d.id = l.database_settings_id`;
+
 class QueryLogService {
   private pool: mysql.Pool | null = null;
 
@@ -41,8 +137,10 @@ class QueryLogService {
     try {
       const connection = await this.pool.getConnection();
       try {
+        // Entries without a connection are tied to whichever one is the default when written
         await connection.execute(
           `INSERT INTO query_logs (
+            query_type,
             natural_language_query, 
             generated_sql, 
             execution_status, 
@@ -50,9 +148,20 @@ class QueryLogService {
             execution_time_ms, 
             error_message, 
             user_session, 
-            ip_address
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            ip_address,
+            repair_rounds,
+            source,
+            model,
+            error_code,
+            database_settings_id,
+            input_tokens,
+            output_tokens,
+            estimated_cost,
+            user_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+            COALESCE(?, (SELECT id FROM database_settings WHERE is_default = 1 AND is_active = 1 LIMIT 1)), ?, ?, ?, ?)`,
           [
+            entry.query_type ?? null,
             entry.natural_language_query,
             entry.generated_sql || null,
             entry.execution_status,
@@ -60,7 +169,16 @@ class QueryLogService {
             entry.execution_time_ms || null,
             entry.error_message || null,
             entry.user_session || null,
-            entry.ip_address || null
+            entry.ip_address || null,
+            entry.repair_rounds ?? null,
+            entry.source ?? null,
+            entry.model ?? null,
+            entry.error_code ?? null,
+            entry.database_settings_id ?? null,
+            entry.input_tokens ?? null,
+            entry.output_tokens ?? null,
+            entry.estimated_cost ?? null,
+            entry.user_id ?? null
           ]
         );
       } finally {
@@ -72,7 +190,7 @@ class QueryLogService {
     }
   }
 
-  async getQueryLogs(limit = 100, offset = 0): Promise<any[]> {
+  async getQueryLogs(limit = 100, offset = 0, databaseIds?: number[]): Promise<any[]> {
     if (!this.pool) {
       return [];
     }
@@ -82,9 +200,10 @@ class QueryLogService {
       try {
         const [rows] = await connection.execute(
           `SELECT * FROM query_logs 
+           ${databaseIds !== undefined ? `WHERE ${databaseCondition('database_settings_id', databaseIds)}` : ''}
            ORDER BY created_at DESC 
            LIMIT ? OFFSET ?`,
-          [limit, offset]
+          [...(databaseIds ?? []), limit, offset]
         );
         return rows as any[];
       } finally {
@@ -96,6 +215,83 @@ class QueryLogService {
     }
   }
 
+  /** Filtered history, newest first, one page at a time */
+  async searchHistory(filter: QueryHistoryFilter = {}): Promise<QueryHistoryPage> {
+    if (!this.pool) {
+      return { entries: [], nextCursor: null };
+    }
+
+    const conditions: string[] = [];
+    const params: (string | number | Date)[] = [];
+    if (filter.session) {
+      conditions.push('l.user_session = ?');
+      params.push(filter.session);
+    }
+    if (filter.status) {
+      conditions.push('l.execution_status = ?');
+      params.push(filter.status);
+    }
+    if (filter.type) {
+      conditions.push('l.query_type = ?');
+      params.push(filter.type);
+    }
+    if (filter.databaseId !== undefined) {
+      conditions.push('l.database_settings_id = ?');
+      params.push(filter.databaseId);
+    }
+    if (filter.databaseIds !== undefined) {
+      conditions.push(databaseCondition('l.database_settings_id', filter.databaseIds));
+      params.push(...filter.databaseIds);
+    }
+    if (filter.from) {
+      conditions.push('l.created_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('l.created_at <= ?');
+      params.push(filter.to);
+    }
+    const search = filter.search ? toFullTextQuery(filter.search) : '';
+    if (search) {
+      conditions.push('MATCH(l.natural_language_query, l.generated_sql) AGAINST (? IN BOOLEAN MODE)');
+      params.push(search);
+    }
+    // Ids only grow, so paging by id keeps pages stable while new entries arrive
+    if (filter.cursor !== undefined) {
+      conditions.push('l.id < ?');
+      params.push(filter.cursor);
+    }
+
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+    // One extra row tells whether another page follows; LIMIT is inlined because it is a checked integer
+    const [rows] = await this.pool.execute(
+      `${SELECT_HISTORY}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY l.id DESC
+       LIMIT ${limit + 1}`,
+      params
+    );
+    const found = rows as Record<string, any>[];
+    const entries = found.slice(0, limit).map(toHistoryEntry);
+    return {
+      entries,
+      nextCursor: found.length > limit ? entries[entries.length - 1].id : null
+    };
+  }
+
+  /** One entry; null when it does not exist or belongs to a connection outside databaseIds */
+  async getHistoryEntry(id: number, databaseIds?: number[]): Promise<QueryHistoryEntry | null> {
+    if (!this.pool) {
+      return null;
+    }
+    const [rows] = await this.pool.execute(
+      `${SELECT_HISTORY} WHERE l.id = ?${databaseIds !== undefined ? ` AND ${databaseCondition('l.database_settings_id', databaseIds)}` : ''}`,
+      [id, ...(databaseIds ?? [])]
+    );
+    const found = rows as Record<string, any>[];
+    return found.length > 0 ? toHistoryEntry(found[0]) : null;
+  }
+
   async close(): Promise<void> {
     if (this.pool) {
       await this.pool.end();
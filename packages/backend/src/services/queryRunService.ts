@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import { hasRole } from './userService';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+interface RunningQuery {
+  ownerId: number | null;
+  controller: AbortController;
+}
+
+export interface QueryRun {
+  runId: string;
+  // Aborting it has the driver stop the statement on the server (KILL QUERY on MySQL)
+  signal: AbortSignal;
+}
+
+export type CancelOutcome = 'cancelled' | 'not_found' | 'forbidden';
+
+/**
+ * Previews that are currently executing, keyed by run id. The client picks
+ * the id up front so it can cancel a run before its response arrives; the
+ * driver owns the connection and kills its statement when the run's signal
+ * aborts. Runs live in memory, so a cancel must reach the same backend.
+ */
+class QueryRunService {
+  private runs = new Map<string, RunningQuery>();
+
+  /** Register a run; returns null when a run with the same id is still executing */
+  public start(user: AuthenticatedUser | undefined, runId: string = randomUUID()): QueryRun | null {
+    if (this.runs.has(runId)) return null;
+    const controller = new AbortController();
+    this.runs.set(runId, { ownerId: user?.id ?? null, controller });
+    return { runId, signal: controller.signal };
+  }
+
+  public finish(runId: string): void {
+    this.runs.delete(runId);
+  }
+
+  /** Stop a run. Only its owner or an admin may cancel it */
+  public cancel(runId: string, user: AuthenticatedUser | undefined): CancelOutcome {
+    const run = this.runs.get(runId);
+    if (!run) return 'not_found';
+    if (run.ownerId !== (user?.id ?? null) && !(user && hasRole(user.role, 'admin'))) return 'forbidden';
+    this.runs.delete(runId);
+    run.controller.abort();
+    return 'cancelled';
+  }
+}
+
+export const queryRunService = new QueryRunService();
+export default queryRunService;
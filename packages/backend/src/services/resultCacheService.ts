@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import type { DriverField, Row } from './drivers/types';
+import type { ParameterValue } from '../utils/queryParameters';
+import { DEFAULT_DIALECT, Dialect } from '../utils/dialects';
+
+export interface ResultCacheKey {
+  databaseId: number;
+  // Decides how strings and comments in sql are read
+  dialect: Dialect;
+  // The statement as it is sent to the database, after paging and limits are applied
+  sql: string;
+  params: ParameterValue[];
+  // Paginated previews also cache the total row count
+  withCount: boolean;
+}
+
+export interface CachedResult {
+  rows: Row[];
+  fields: DriverField[];
+  totalRows: number | null;
+}
+
+export interface CacheHit extends CachedResult {
+  cachedAt: Date;
+  expiresAt: Date;
+}
+
+interface CacheEntry {
+  databaseId: number;
+  result: CachedResult;
+  bytes: number;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_MB = 64;
+
+const maxBytes = () => {
+  const configured = Number.parseInt(process.env.RESULT_CACHE_MAX_MB ?? '', 10);
+  return (Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_MB) * 1024 * 1024;
+};
+
+// Where a quoted string or identifier starting at `start` ends (exclusive)
+const quotedEnd = (sql: string, start: number, close: string, backslashEscapes: boolean): number => {
+  let end = start + 1;
+  while (end < sql.length) {
+    if (backslashEscapes && sql[end] === '\\') {
+      end += 2;
+    } else if (sql[end] === close && sql[end + 1] === close) {
+      // Doubled quotes escape themselves
+      end += 2;
+    } else if (sql[end] === close) {
+      return end + 1;
+    } else {
+      end += 1;
+    }
+  }
+  return sql.length;
+};
+
+/**
+ * Drop comments, collapse whitespace and drop trailing semicolons, so
+ * trivially different spellings of a query share a cache entry. Strings and
+ * identifiers are kept exactly as written, and comments are recognised the
+ * way the dialect's server does, so text a comment hides on one line can't
+ * collide with the same text outside it.
+ */
+export const normalizeSql = (sql: string, dialect: Dialect = DEFAULT_DIALECT): string => {
+  let normalized = '';
+  let pendingSpace = false;
+  let i = 0;
+
+  const append = (text: string) => {
+    if (pendingSpace && normalized) normalized += ' ';
+    pendingSpace = false;
+    normalized += text;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    const dollarTag = dialect === 'postgres' && char === '$' ? /^\$(?:[A-Za-z_]\w*)?\$/.exec(sql.slice(i)) : null;
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      // MySQL strings and PostgreSQL E'...' strings take backslash escapes
+      const backslashEscapes = (dialect === 'mysql' && char !== '`' && char !== '[') ||
+        (dialect === 'postgres' && char === "'" && /[Ee]/.test(sql[i - 1] ?? '') && !/\w/.test(sql[i - 2] ?? ''));
+      const end = quotedEnd(sql, i, char === '[' ? ']' : char, backslashEscapes);
+      append(sql.slice(i, end));
+      i = end;
+    } else if (dollarTag) {
+      const close = sql.indexOf(dollarTag[0], i + dollarTag[0].length);
+      const end = close === -1 ? sql.length : close + dollarTag[0].length;
+      append(sql.slice(i, end));
+      i = end;
+    } else if (char === '/' && next === '*' && !(dialect === 'mysql' && (sql[i + 2] === '!' || sql[i + 2] === '+'))) {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+      pendingSpace = true;
+    } else if ((char === '-' && next === '-' && (dialect !== 'mysql' || next === undefined || /\s/.test(sql[i + 2] ?? ' '))) ||
+      (char === '#' && dialect === 'mysql')) {
+      // A line comment ends at the newline, which then separates the tokens around it
+      const close = sql.indexOf('\n', i);
+      i = close === -1 ? sql.length : close;
+    } else if (/\s/.test(char)) {
+      pendingSpace = true;
+      i += 1;
+    } else {
+      append(char);
+      i += 1;
+    }
+  }
+
+  return normalized.replace(/[\s;]+$/, '');
+};
+
+const hashKey = (key: ResultCacheKey) =>
+  createHash('sha256')
+    .update(JSON.stringify([key.databaseId, normalizeSql(key.sql, key.dialect), key.params, key.withCount]))
+    .digest('hex');
+
+/**
+ * Preview results kept in memory for connections that opt in with a cache TTL.
+ * Rows are stored before masking so changed masking rules apply to cached
+ * results as well. Once the cache outgrows RESULT_CACHE_MAX_MB the least
+ * recently used entries are evicted. Each backend instance has its own cache.
+ */
+class ResultCacheService {
+  // Map order doubles as recency order: the first entry is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  public get(key: ResultCacheKey): CacheHit | null {
+    const hash = hashKey(key);
+    const entry = this.entries.get(hash);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(hash);
+      return null;
+    }
+    this.entries.delete(hash);
+    this.entries.set(hash, entry);
+    return { ...entry.result, cachedAt: new Date(entry.cachedAt), expiresAt: new Date(entry.expiresAt) };
+  }
+
+  /** Store a result for ttlSeconds; results larger than the whole cache are not stored */
+  public set(key: ResultCacheKey, result: CachedResult, ttlSeconds: number): void {
+    let bytes: number;
+    try {
+      bytes = Buffer.byteLength(JSON.stringify(result));
+    } catch {
+      return;
+    }
+    const limit = maxBytes();
+    if (bytes > limit) return;
+
+    const hash = hashKey(key);
+    this.delete(hash);
+    const now = Date.now();
+    this.entries.set(hash, { databaseId: key.databaseId, result, bytes, cachedAt: now, expiresAt: now + ttlSeconds * 1000 });
+    this.totalBytes += bytes;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.totalBytes <= limit) break;
+      this.delete(oldest);
+    }
+  }
+
+  /** Drop the entries of one connection, or all of them; returns how many were removed */
+  public invalidate(databaseId?: number): number {
+    let removed = 0;
+    for (const [hash, entry] of this.entries) {
+      if (databaseId === undefined || entry.databaseId === databaseId) {
+        this.delete(hash);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  public stats(databaseId?: number): { entries: number; bytes: number; maxBytes: number } {
+    let entries = 0;
+    let bytes = 0;
+    for (const entry of this.entries.values()) {
+      if (databaseId === undefined || entry.databaseId === databaseId) {
+        entries += 1;
+        bytes += entry.bytes;
+      }
+    }
+    return { entries, bytes, maxBytes: maxBytes() };
+  }
+
+  private delete(hash: string): void {
+    const entry = this.entries.get(hash);
+    if (!entry) return;
+    this.entries.delete(hash);
+    this.totalBytes -= entry.bytes;
+  }
+}
+
+export const resultCacheService = new ResultCacheService();
+export default resultCacheService;
@@ -1,6 +1,8 @@
 import path from 'path';
 import fs from 'fs/promises';
 import { databaseService } from './databaseSystemService';
+import { normalizeSchema, parseStoredSchema, serializeSchema, SchemaTables } from '../utils/schemaModel';
+import type { QueryParameter } from '../utils/queryParameters';
 
 export interface QueryPattern {
   intent: string;
@@ -8,14 +10,24 @@ export interface QueryPattern {
   description: string;
   keywords: string[];
   examples?: string[];
+  // Definitions for the template's :name placeholders
+  parameters?: QueryParameter[];
 }
 
 export interface Rules {
-  schema: Record<string, { columns: string[]; description: string }>;
+  schema: SchemaTables;
   query_patterns: QueryPattern[];
 }
 
 let cachedRules: Rules | null = null;
+// Rules of connections looked up by id, for users working against one other than the default
+const cachedRulesByDatabase = new Map<number, Rules>();
+
+const readRulesFile = async (): Promise<Rules> => {
+  const rulesPath = path.join(__dirname, '..', 'rules.json');
+  const rulesFile = await fs.readFile(rulesPath, 'utf-8');
+  return JSON.parse(rulesFile);
+};
 
 export const loadRulesFromFile = async (): Promise<Rules> => {
   if (cachedRules !== null) return cachedRules as Rules;
@@ -30,13 +42,12 @@ export const loadRulesFromFile = async (): Promise<Rules> => {
     console.warn('Failed to load rules from database, falling back to file:', error);
   }
   
-  const rulesPath = path.join(__dirname, '..', 'rules.json');
-  const rulesFile = await fs.readFile(rulesPath, 'utf-8');
-  cachedRules = JSON.parse(rulesFile);
+  cachedRules = await readRulesFile();
   return cachedRules as Rules;
 };
 
 export const upsertRulesToFile = async (rules: Rules): Promise<void> => {
+  cachedRulesByDatabase.clear();
   try {
     await upsertRulesToDatabase(rules);
     cachedRules = rules;
@@ -48,22 +59,34 @@ export const upsertRulesToFile = async (rules: Rules): Promise<void> => {
   }
 };
 
-export const getCachedRules = async (): Promise<Rules> => {
-  return cachedRules || loadRulesFromFile();
+/** Rules of a database configuration, or of the default one when no id is given */
+export const getCachedRules = async (databaseId?: number): Promise<Rules> => {
+  if (databaseId === undefined) {
+    return cachedRules || loadRulesFromFile();
+  }
+
+  let rules = cachedRulesByDatabase.get(databaseId);
+  if (!rules) {
+    rules = (await loadRulesFromDatabase(databaseId)) ?? (await readRulesFile());
+    cachedRulesByDatabase.set(databaseId, rules);
+  }
+  return rules;
 };
 
 export const setCachedRules = (rules: Rules | null) => {
   cachedRules = rules;
+  cachedRulesByDatabase.clear();
 };
 
 export const clearCachedRules = () => {
   cachedRules = null;
+  cachedRulesByDatabase.clear();
 };
 
-export const loadRulesFromDatabase = async (): Promise<Rules | null> => {
+export const loadRulesFromDatabase = async (databaseId?: number): Promise<Rules | null> => {
   try {
-    const defaultDbConfig = await databaseService.getDefaultDatabaseConfig();
-    if (!defaultDbConfig) {
+    const databaseSettingsId = databaseId ?? (await databaseService.getDefaultDatabaseConfig())?.id;
+    if (databaseSettingsId === undefined) {
       throw new Error('No default database configuration found');
     }
 
@@ -71,12 +94,13 @@ export const loadRulesFromDatabase = async (): Promise<Rules | null> => {
     try {
       const [rows] = await connection.execute(
         'SELECT rules_json, schema_json FROM database_config_files WHERE database_settings_id = ?',
-        [defaultDbConfig.id]
+        [databaseSettingsId]
       );
       const configRows = rows as any[];
       
       if (configRows.length > 0 && configRows[0].rules_json) {
-        return configRows[0].rules_json as Rules;
+        const rules = configRows[0].rules_json as Rules;
+        return { ...rules, schema: normalizeSchema(rules.schema) };
       }
       return null;
     } finally {
@@ -104,7 +128,7 @@ export const upsertRulesToDatabase = async (rules: Rules): Promise<void> => {
          ON DUPLICATE KEY UPDATE 
            rules_json = VALUES(rules_json),
            schema_json = VALUES(schema_json)`,
-        [defaultDbConfig.id, JSON.stringify(rules), JSON.stringify(rules.schema)]
+        [defaultDbConfig.id, JSON.stringify(rules), serializeSchema(rules.schema)]
       );
     } finally {
       connection.release();
@@ -115,7 +139,7 @@ export const upsertRulesToDatabase = async (rules: Rules): Promise<void> => {
   }
 };
 
-export const upsertSchemaToDatabase = async (schema: Record<string, { columns: string[]; description: string }>): Promise<void> => {
+export const upsertSchemaToDatabase = async (schema: SchemaTables): Promise<void> => {
   try {
     const defaultDbConfig = await databaseService.getDefaultDatabaseConfig();
     if (!defaultDbConfig) {
@@ -127,7 +151,7 @@ export const upsertSchemaToDatabase = async (schema: Record<string, { columns: s
         `INSERT INTO database_config_files (database_settings_id, schema_json) 
          VALUES (?, ?) 
          ON DUPLICATE KEY UPDATE schema_json = VALUES(schema_json)`,
-        [defaultDbConfig.id, JSON.stringify(schema)]
+        [defaultDbConfig.id, serializeSchema(schema)]
       );
     } finally {
       connection.release();
@@ -138,7 +162,7 @@ export const upsertSchemaToDatabase = async (schema: Record<string, { columns: s
   }
 };
 
-export const updateSchemaInDatabase = async (schema: Record<string, { columns: string[]; description: string }>): Promise<void> => {
+export const updateSchemaInDatabase = async (schema: SchemaTables): Promise<void> => {
   try {
     const defaultDbConfig = await databaseService.getDefaultDatabaseConfig();
     if (!defaultDbConfig) {
@@ -149,7 +173,7 @@ export const updateSchemaInDatabase = async (schema: Record<string, { columns: s
     try {
       await connection.execute(
         `UPDATE database_config_files SET schema_json = ? WHERE database_settings_id = ?`,
-        [JSON.stringify(schema), defaultDbConfig.id]
+        [serializeSchema(schema), defaultDbConfig.id]
       );
     } finally {
       connection.release();
@@ -160,7 +184,7 @@ export const updateSchemaInDatabase = async (schema: Record<string, { columns: s
   }
 };
 
-export const loadSchemaFromDatabase = async (): Promise<Record<string, { columns: string[]; description: string }> | null> => {
+export const loadSchemaFromDatabase = async (): Promise<SchemaTables | null> => {
   try {
     const defaultDbConfig = await databaseService.getDefaultDatabaseConfig();
     if (!defaultDbConfig) {
@@ -176,7 +200,7 @@ export const loadSchemaFromDatabase = async (): Promise<Record<string, { columns
       const configRows = rows as any[];
       
       if (configRows.length > 0 && configRows[0].schema_json) {
-        return configRows[0].schema_json as Record<string, { columns: string[]; description: string }>;
+        return parseStoredSchema(configRows[0].schema_json);
       }
       return null;
     } finally {
@@ -0,0 +1,131 @@
+import express, { Express } from 'express';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+/**
+ * A minimal OpenID Connect provider for trying single sign-on locally and for
+ * tests. /authorize signs the user in straight away (pick one with
+ * ?login_hint=<username>) and redirects back with a code; /token exchanges it,
+ * checking the client and the PKCE verifier, for an RS256-signed ID token.
+ *
+ * Run it with `npm run oidc:mock`, then start the backend with
+ * OIDC_ISSUER=http://localhost:9400 and OIDC_CLIENT_ID=query-builder.
+ */
+
+export interface MockOidcUser {
+  sub: string;
+  preferred_username: string;
+  name?: string;
+  email?: string;
+}
+
+export interface MockOidcOptions {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  users?: MockOidcUser[];
+}
+
+interface IssuedCode {
+  user: MockOidcUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+}
+
+const DEFAULT_USERS: MockOidcUser[] = [
+  { sub: 'mock-alice', preferred_username: 'alice', name: 'Alice Example', email: 'alice@example.com' },
+  { sub: 'mock-bob', preferred_username: 'bob', name: 'Bob Example', email: 'bob@example.com' }
+];
+
+const KEY_ID = 'mock-key';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export function createMockOidcProvider({ issuer, clientId, clientSecret, users = DEFAULT_USERS }: MockOidcOptions): Express {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, IssuedCode>();
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const query = req.query as Record<string, string | undefined>;
+    if (query.client_id !== clientId || !query.redirect_uri) {
+      res.status(400).send('Unknown client or missing redirect_uri');
+      return;
+    }
+    const user = users.find((candidate) => candidate.preferred_username === query.login_hint) ?? users[0];
+    const code = randomBytes(16).toString('base64url');
+    codes.set(code, {
+      user,
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      nonce: query.nonce,
+      codeChallenge: query.code_challenge
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (query.state) redirect.searchParams.set('state', query.state);
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const body = req.body as Record<string, string | undefined>;
+    const issued = body.code ? codes.get(body.code) : undefined;
+    if (body.code) codes.delete(body.code);
+
+    const verifier = body.code_verifier ?? '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    if (
+      !issued ||
+      body.grant_type !== 'authorization_code' ||
+      body.client_id !== issued.clientId ||
+      body.redirect_uri !== issued.redirectUri ||
+      (clientSecret !== undefined && body.client_secret !== clientSecret) ||
+      (issued.codeChallenge !== undefined && challenge !== issued.codeChallenge)
+    ) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${encode({
+      ...issued.user,
+      iss: issuer,
+      aud: issued.clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: issued.nonce
+    })}`;
+    const signature = sign('sha256', Buffer.from(input), privateKey).toString('base64url');
+    res.json({ access_token: randomBytes(16).toString('base64url'), token_type: 'Bearer', expires_in: 300, id_token: `${input}.${signature}` });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_OIDC_PORT || 9400);
+  const issuer = `http://localhost:${port}`;
+  createMockOidcProvider({ issuer, clientId: process.env.OIDC_CLIENT_ID || 'query-builder' }).listen(port, () => {
+    console.log(`Mock OIDC provider running at ${issuer}`);
+  });
+}
@@ -0,0 +1,33 @@
+// Minimal typings for the parts of parquetjs-lite used by the export service
+declare module 'parquetjs-lite' {
+  import { Writable } from 'stream';
+
+  export type ParquetFieldType = 'BOOLEAN' | 'INT32' | 'INT64' | 'FLOAT' | 'DOUBLE' | 'UTF8' | 'TIMESTAMP_MILLIS' | 'DATE';
+
+  export interface ParquetFieldDefinition {
+    type: ParquetFieldType;
+    optional?: boolean;
+    compression?: 'UNCOMPRESSED' | 'GZIP' | 'SNAPPY';
+  }
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, ParquetFieldDefinition>);
+  }
+
+  export class ParquetWriter {
+    static openStream(schema: ParquetSchema, outputStream: Writable, opts?: Record<string, unknown>): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    setRowGroupSize(count: number): void;
+    close(): Promise<void>;
+  }
+
+  export class ParquetCursor {
+    next(): Promise<Record<string, unknown> | null>;
+  }
+
+  export class ParquetReader {
+    static openBuffer(buffer: Buffer): Promise<ParquetReader>;
+    getCursor(): ParquetCursor;
+    close(): Promise<void>;
+  }
+}
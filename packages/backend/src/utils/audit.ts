@@ -0,0 +1,95 @@
+/**
+ * Before/after diffs and hash chaining for the configuration audit log
+ *
+ * A diff maps the dotted path of every changed value to `{ before, after }`.
+ * Plain objects are compared key by key; anything else (arrays included) is
+ * compared as a whole. Strings under secret-looking keys are replaced with
+ * REDACTED, so the log shows that a password changed but never what it was.
+ * Row timestamps are bookkeeping, not configuration, and are left out.
+ */
+import { createHash } from 'crypto';
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY = /password|passwd|secret|token|api_?key/i;
+const IGNORED_KEYS = new Set(['created_at', 'updated_at']);
+
+// Flags such as has_password say nothing secret, so only strings are hidden
+const isSecret = (key: string, value: unknown) => SECRET_KEY.test(key) && typeof value === 'string' && value !== '';
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditDiff = Record<string, FieldChange>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+/** JSON with object keys sorted, so equal values always serialize the same way */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/** Replace every value under a secret-looking key, at any depth */
+export const redactSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [key, isSecret(key, nested) ? REDACTED : redactSecrets(nested)])
+  );
+};
+
+export const diffValues = (before: unknown, after: unknown, path = ''): AuditDiff => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const diff: AuditDiff = {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (IGNORED_KEYS.has(key)) continue;
+      const nestedPath = path ? `${path}.${key}` : key;
+      if (isSecret(key, before[key]) || isSecret(key, after[key])) {
+        if (canonicalJson(before[key]) !== canonicalJson(after[key])) {
+          diff[nestedPath] = { before: isSecret(key, before[key]) ? REDACTED : null, after: isSecret(key, after[key]) ? REDACTED : null };
+        }
+        continue;
+      }
+      Object.assign(diff, diffValues(before[key], after[key], nestedPath));
+    }
+    return diff;
+  }
+  if (canonicalJson(before) === canonicalJson(after)) return {};
+  return { [path || 'value']: { before: redactSecrets(before ?? null), after: redactSecrets(after ?? null) } };
+};
+
+export interface ChainedFields {
+  actor_id: number | null;
+  actor_username: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  changes: AuditDiff;
+  created_at: Date;
+}
+
+/** Hash of an event and the hash before it; editing or removing any event breaks every later link */
+export const hashAuditEvent = (previousHash: string | null, event: ChainedFields): string =>
+  createHash('sha256')
+    .update(canonicalJson([
+      previousHash,
+      event.actor_id,
+      event.actor_username,
+      event.action,
+      event.entity_type,
+      event.entity_id,
+      event.changes,
+      event.created_at.toISOString()
+    ]))
+    .digest('hex');
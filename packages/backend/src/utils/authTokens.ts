@@ -0,0 +1,65 @@
+/**
+ * Signed access tokens (JWT, HS256) built on node:crypto
+ *
+ * Tokens are signed with AUTH_SECRET. Without it a random secret is generated
+ * at startup, so tokens stop working whenever the backend restarts.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { UserRole } from './validators';
+
+export interface TokenClaims {
+  sub: string;
+  username: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+const DEFAULT_TTL_SECONDS = 8 * 60 * 60;
+
+let generatedSecret: string | null = null;
+
+const secret = (): string => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (!generatedSecret) {
+    console.warn('⚠️  AUTH_SECRET not set; sign-ins will not survive a restart');
+    generatedSecret = randomBytes(32).toString('base64url');
+  }
+  return generatedSecret;
+};
+
+const ttlSeconds = (): number => {
+  const ttl = parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+};
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (input: string) => createHmac('sha256', secret()).update(input).digest();
+
+export const signToken = (user: { id: number; username: string; role: UserRole }, now = Date.now()): string => {
+  const iat = Math.floor(now / 1000);
+  const claims: TokenClaims = { sub: String(user.id), username: user.username, role: user.role, iat, exp: iat + ttlSeconds() };
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${sign(input).toString('base64url')}`;
+};
+
+/** The token's claims, or null when it is malformed, tampered with or expired */
+export const verifyToken = (token: string, now = Date.now()): TokenClaims | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [header, payload, signature] = parts;
+
+  const expected = sign(`${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenClaims;
+    if (alg !== 'HS256' || typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
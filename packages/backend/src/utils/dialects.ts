@@ -0,0 +1,143 @@
+/**
+ * SQL dialect metadata
+ *
+ * Everything that differs between destination databases but is not driver
+ * code lives here: parser settings for the safety gate, identifier quoting,
+ * paging syntax, system schemas and the extra instructions given to the AI.
+ */
+import { z } from 'zod';
+
+export const dialects = ['mysql', 'postgres', 'sqlite', 'mssql'] as const;
+export const dialectSchema = z.enum(dialects);
+export type Dialect = typeof dialects[number];
+
+export const DEFAULT_DIALECT: Dialect = 'mysql';
+
+export const DIALECT_LABELS: Record<Dialect, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  sqlite: 'SQLite',
+  mssql: 'SQL Server'
+};
+
+// Default ports used when a configuration leaves the port out
+export const DEFAULT_PORTS: Record<Dialect, number> = {
+  mysql: 3306,
+  postgres: 5432,
+  sqlite: 0,
+  mssql: 1433
+};
+
+// node-sql-parser database names
+export const PARSER_DATABASES: Record<Dialect, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgresQL',
+  sqlite: 'SQLite',
+  mssql: 'TransactSQL'
+};
+
+// Schemas (or, for SQLite, tables) that expose server internals
+export const SYSTEM_SCHEMAS: Record<Dialect, string[]> = {
+  mysql: ['information_schema', 'mysql', 'performance_schema', 'sys'],
+  postgres: ['information_schema', 'pg_catalog', 'pg_toast'],
+  sqlite: ['sqlite_master', 'sqlite_schema', 'sqlite_temp_master', 'sqlite_sequence'],
+  mssql: ['information_schema', 'sys', 'master', 'msdb', 'tempdb', 'model']
+};
+
+// Functions that block, sleep, touch the filesystem, take server-wide locks or
+// run a nested statement (query_to_xml and friends execute their SQL argument)
+export const FORBIDDEN_FUNCTIONS: Record<Dialect, string[]> = {
+  mysql: [
+    'sleep', 'benchmark', 'load_file', 'get_lock', 'release_lock', 'release_all_locks',
+    'is_free_lock', 'is_used_lock', 'master_pos_wait', 'source_pos_wait',
+    'wait_for_executed_gtid_set', 'wait_until_sql_thread_after_gtids', 'sys_exec', 'sys_eval'
+  ],
+  postgres: [
+    'pg_sleep', 'pg_sleep_for', 'pg_sleep_until', 'pg_read_file', 'pg_read_binary_file', 'pg_ls_dir',
+    'pg_stat_file', 'dblink', 'dblink_exec', 'pg_terminate_backend',
+    'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile', 'set_config',
+    'pg_advisory_lock', 'pg_advisory_xact_lock', 'pg_try_advisory_lock', 'pg_advisory_unlock',
+    'pg_advisory_unlock_all', 'pg_advisory_lock_shared', 'pg_advisory_xact_lock_shared',
+    'pg_try_advisory_lock_shared', 'pg_try_advisory_xact_lock', 'pg_try_advisory_xact_lock_shared',
+    'pg_advisory_unlock_shared', 'txid_current', 'nextval', 'setval',
+    'query_to_xml', 'query_to_xml_and_xmlschema', 'query_to_xmlschema', 'cursor_to_xml', 'cursor_to_xmlschema',
+    'table_to_xml', 'table_to_xml_and_xmlschema', 'table_to_xmlschema',
+    'schema_to_xml', 'schema_to_xml_and_xmlschema', 'database_to_xml', 'database_to_xml_and_xmlschema',
+    'lo_import', 'lo_export', 'lo_create', 'lo_creat', 'lo_unlink', 'lo_open', 'lo_close', 'lo_put',
+    'lo_get', 'lo_from_bytea', 'lo_truncate', 'lo_truncate64', 'lo_lseek', 'lo_lseek64', 'lo_tell',
+    'lo_tell64', 'lowrite', 'loread'
+  ],
+  sqlite: ['load_extension', 'readfile', 'writefile', 'edit', 'fts3_tokenizer'],
+  mssql: ['openrowset', 'openquery', 'opendatasource', 'openxml', 'xp_cmdshell']
+};
+
+export const quoteIdentifier = (name: string, dialect: Dialect = DEFAULT_DIALECT): string => {
+  switch (dialect) {
+    case 'mysql':
+      return `\`${name.replace(/`/g, '``')}\``;
+    case 'mssql':
+      return `[${name.replace(/]/g, ']]')}]`;
+    default:
+      return `"${name.replace(/"/g, '""')}"`;
+  }
+};
+
+/**
+ * Dialect-specific lines for the AI system prompt: the syntax rule, extra
+ * notes, and how every query must cap its rows
+ */
+export interface DialectPrompt {
+  syntax: string;
+  notes: string[];
+  rowLimitRule: string;
+  rowLimitRequirements: string[];
+}
+
+const LIMIT_PROMPT: Pick<DialectPrompt, 'rowLimitRule' | 'rowLimitRequirements'> = {
+  rowLimitRule: 'ALWAYS include LIMIT with a NUMERIC value at the end (e.g., LIMIT 10, LIMIT 20) - NEVER omit LIMIT, NEVER use words',
+  rowLimitRequirements: [
+    'LIMIT clause is MANDATORY - every query must end with "LIMIT <number>"',
+    'LIMIT must be a number (10-50 typical), never a word or variable'
+  ]
+};
+
+export const DIALECT_PROMPTS: Record<Dialect, DialectPrompt> = {
+  mysql: {
+    syntax: 'Use proper MySQL syntax (backticks for identifiers if needed)',
+    notes: [],
+    ...LIMIT_PROMPT
+  },
+  postgres: {
+    syntax: 'Use proper PostgreSQL syntax (double quotes for identifiers if needed; never backticks)',
+    notes: [
+      'Use || for string concatenation, ILIKE for case-insensitive matching and INTERVAL / date_trunc() for dates',
+      'Cast explicitly with :: when comparing mixed types'
+    ],
+    ...LIMIT_PROMPT
+  },
+  sqlite: {
+    syntax: 'Use proper SQLite syntax (double quotes for identifiers if needed; never backticks)',
+    notes: [
+      'Use || for string concatenation and date()/strftime() for dates; there is no DATE_FORMAT, CONCAT or ILIKE',
+      'Prefer LEFT JOIN; older SQLite versions have no RIGHT or FULL OUTER JOIN'
+    ],
+    ...LIMIT_PROMPT
+  },
+  mssql: {
+    syntax: 'Use proper Transact-SQL syntax for SQL Server (square brackets for identifiers if needed; never backticks)',
+    notes: [
+      'Use + or CONCAT() for string concatenation and DATEADD()/DATEDIFF()/FORMAT() for dates',
+      'ORDER BY is not allowed inside subqueries or derived tables unless TOP or OFFSET is also used'
+    ],
+    rowLimitRule: 'ALWAYS cap rows with TOP and a NUMERIC value right after SELECT (e.g., SELECT TOP (10), SELECT TOP (20)) - NEVER omit TOP, NEVER use LIMIT',
+    rowLimitRequirements: [
+      'TOP is MANDATORY - every query must start with "SELECT TOP (<number>)" (SQL Server has no LIMIT)',
+      'TOP must be a number (10-50 typical), never a word or variable'
+    ]
+  }
+};
+
+export const isDialect = (value: unknown): value is Dialect =>
+  typeof value === 'string' && (dialects as readonly string[]).includes(value);
+
+export const normalizeDialect = (value: unknown): Dialect => (isDialect(value) ? value : DEFAULT_DIALECT);
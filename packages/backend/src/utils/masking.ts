@@ -0,0 +1,310 @@
+/**
+ * Result-set masking for PII
+ *
+ * Masking rules are stored per database_settings row and applied to preview
+ * rows before they leave the backend. A rule targets either an exact
+ * "table.column" (or a bare column name) or a case-insensitive regular
+ * expression matched against column names.
+ */
+import crypto from 'crypto';
+import { z } from 'zod';
+import { columnName } from './sqlAst';
+
+export const maskingStrategies = ['redact', 'hash', 'partial', 'null'] as const;
+export type MaskingStrategy = typeof maskingStrategies[number];
+
+export const maskingRuleSchema = z.object({
+  column: z.string().min(1).optional(),
+  pattern: z.string().min(1).refine((p) => {
+    try {
+      new RegExp(p, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Invalid regular expression' }).optional(),
+  strategy: z.enum(maskingStrategies)
+}).refine((rule) => Boolean(rule.column) !== Boolean(rule.pattern), {
+  message: 'Each rule needs exactly one of column or pattern'
+});
+
+export const maskingRulesSchema = z.array(maskingRuleSchema);
+
+export type MaskingRule = z.infer<typeof maskingRuleSchema>;
+
+// Minimal shape of mysql2's FieldPacket used for matching
+export interface ResultField {
+  name: string;
+  orgName?: string;
+  orgTable?: string;
+}
+
+// A select-list item and the table columns its value is computed from
+interface LineageColumn {
+  name: string | null;
+  sources: ResultField[];
+}
+
+// SELECT * (or t.*) over a real table: an unknown number of its columns
+interface LineageStar {
+  table: string;
+}
+
+/**
+ * Where each result column comes from, read off the query's AST, so that
+ * expressions over a masked column (UPPER(email), CONCAT(email, '')) are
+ * masked like the column itself
+ */
+export type ColumnLineage = (LineageColumn | LineageStar)[];
+
+export interface MaskedColumn {
+  column: string;
+  strategy: MaskingStrategy;
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Parse stored rules (JSON column or string); invalid documents yield no rules
+ */
+export const parseMaskingRules = (raw: unknown): MaskingRule[] => {
+  if (raw === null || raw === undefined || raw === '') return [];
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  const parsed = maskingRulesSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+};
+
+const partialMask = (text: string): string => {
+  const at = text.indexOf('@');
+  if (at > 0) {
+    return `${text[0]}***${text.slice(at)}`;
+  }
+  if (text.length <= 2) return '***';
+  if (text.length <= 6) return `${text[0]}***`;
+  return `${text.slice(0, 2)}***${text.slice(-2)}`;
+};
+
+export const maskValue = (value: unknown, strategy: MaskingStrategy): unknown => {
+  if (value === null || value === undefined) return value;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  switch (strategy) {
+    case 'redact':
+      return REDACTED;
+    case 'hash':
+      return crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
+    case 'partial':
+      return partialMask(text);
+    case 'null':
+      return null;
+  }
+};
+
+const ruleMatches = (rule: MaskingRule, field: ResultField): boolean => {
+  const names = [field.name, field.orgName].filter(Boolean).map((n) => (n as string).toLowerCase());
+  if (rule.column) {
+    const target = rule.column.toLowerCase();
+    if (target.includes('.')) {
+      const table = field.orgTable?.toLowerCase();
+      return Boolean(table) && field.orgName !== undefined && target === `${table}.${field.orgName.toLowerCase()}`;
+    }
+    return names.includes(target);
+  }
+  const regex = new RegExp(rule.pattern as string, 'i');
+  return names.some((name) => regex.test(name));
+};
+
+type LineageSource = { table: string } | { columns: ColumnLineage };
+type LineageScope = Map<string, LineageSource>;
+
+const isStar = (item: LineageColumn | LineageStar): item is LineageStar => 'table' in item;
+
+const sourceField = (table: string | null, column: string): ResultField =>
+  table !== null ? { name: column, orgName: column, orgTable: table } : { name: column, orgName: column };
+
+const lowerName = (value: any): string | null => {
+  const name = typeof value === 'string' ? value : value?.value;
+  return typeof name === 'string' ? name.toLowerCase() : null;
+};
+
+const sourcesFrom = (source: LineageSource, column: string): ResultField[] => {
+  if ('table' in source) return [sourceField(source.table, column)];
+  return source.columns.flatMap((item) => {
+    if (isStar(item)) return [sourceField(item.table, column)];
+    return item.name === column ? item.sources : [];
+  });
+};
+
+// Every table column an expression reads, including through scalar sub-queries
+const expressionSources = (node: any, scopes: LineageScope[], ctes: Map<string, ColumnLineage>): ResultField[] => {
+  if (!node || typeof node !== 'object') return [];
+  if (Array.isArray(node)) return node.flatMap((child) => expressionSources(child, scopes, ctes));
+  if (node.type === 'select') {
+    return lineageOf(node, scopes, ctes).flatMap((item) => (isStar(item) ? [] : item.sources));
+  }
+  if (node.type === 'column_ref') {
+    const column = columnName(node).toLowerCase();
+    if (column === '*') return [];
+    const qualifier = lowerName(node.table);
+    if (qualifier !== null) {
+      const source = scopes.find((scope) => scope.has(qualifier))?.get(qualifier);
+      return source ? sourcesFrom(source, column) : [sourceField(qualifier, column)];
+    }
+    // Without a qualifier the column may belong to any table in scope
+    const sources = scopes.flatMap((scope) => Array.from(scope.values()));
+    return sources.length > 0 ? sources.flatMap((source) => sourcesFrom(source, column)) : [sourceField(null, column)];
+  }
+  return Object.values(node).flatMap((value) => expressionSources(value, scopes, ctes));
+};
+
+const lineageOf = (select: any, outer: LineageScope[], ctes: Map<string, ColumnLineage>): ColumnLineage => {
+  const visible = new Map(ctes);
+  const withList: any[] = Array.isArray(select.with) ? select.with : [];
+  const recursive = withList.some((cte) => cte?.recursive);
+  for (const cte of withList) {
+    const name = lowerName(cte?.name);
+    if (name === null) continue;
+    if (recursive) visible.set(name, []);
+    visible.set(name, lineageOf(cte.stmt?.ast ?? cte.stmt, outer, visible));
+  }
+
+  const scope: LineageScope = new Map();
+  for (const item of Array.isArray(select.from) ? select.from : []) {
+    const alias = lowerName(item?.as);
+    if (typeof item?.table === 'string') {
+      const table = item.table.toLowerCase();
+      const cte = visible.get(table);
+      scope.set(alias ?? table, cte ? { columns: cte } : { table });
+    } else if (alias !== null && item?.expr?.ast) {
+      scope.set(alias, { columns: lineageOf(item.expr.ast, outer, visible) });
+    }
+  }
+  const scopes = [scope, ...outer];
+
+  const lineage: ColumnLineage = [];
+  for (const column of Array.isArray(select.columns) ? select.columns : []) {
+    const expr = column?.expr;
+    if (expr?.type === 'column_ref' && columnName(expr) === '*') {
+      const qualifier = lowerName(expr.table);
+      const sources = qualifier !== null ? [scope.get(qualifier) ?? { table: qualifier }] : Array.from(scope.values());
+      for (const source of sources) {
+        if ('table' in source) lineage.push({ table: source.table });
+        else lineage.push(...source.columns);
+      }
+      continue;
+    }
+    const name = lowerName(column?.as) ?? (expr?.type === 'column_ref' ? columnName(expr).toLowerCase() : null);
+    lineage.push({ name, sources: expressionSources(expr, scopes, visible) });
+  }
+
+  if (select._next) {
+    // UNION partners fill the same result columns
+    const next = lineageOf(select._next, outer, visible);
+    const aligned = next.length === lineage.length && !next.some(isStar) && !lineage.some(isStar);
+    lineage.forEach((item, i) => {
+      if (isStar(item)) return;
+      const partner = aligned
+        ? (next[i] as LineageColumn).sources
+        : next.flatMap((other) => (isStar(other) ? [sourceField(other.table, item.name ?? '')] : other.sources));
+      item.sources = [...item.sources, ...partner];
+    });
+  }
+  return lineage;
+};
+
+/**
+ * Lineage of a parsed SELECT (the `ast` returned by checkSqlSafety)
+ */
+export const resultLineage = (ast: any): ColumnLineage | undefined =>
+  ast?.type === 'select' ? lineageOf(ast, [], new Map()) : undefined;
+
+// Sources of each result field. Columns before the first * and after the last
+// one line up by position; those in between are matched by name, and unnamed
+// expressions there count for all of them
+const fieldSources = (lineage: ColumnLineage, fields: ResultField[]): ResultField[][] => {
+  const sources = fields.map((): ResultField[] => []);
+  const first = lineage.findIndex(isStar);
+  if (first === -1) {
+    lineage.forEach((item, i) => {
+      if (i < fields.length) sources[i] = (item as LineageColumn).sources;
+    });
+    return sources;
+  }
+
+  let last = lineage.length - 1;
+  while (!isStar(lineage[last])) last--;
+  const tail = lineage.length - 1 - last;
+  const middleEnd = Math.max(first, fields.length - tail);
+  for (let i = 0; i < first && i < fields.length; i++) sources[i] = (lineage[i] as LineageColumn).sources;
+  for (let k = 1; k <= tail && fields.length - k >= middleEnd; k++) {
+    sources[fields.length - k] = (lineage[lineage.length - k] as LineageColumn).sources;
+  }
+  const middle = lineage.slice(first, last + 1);
+  for (let i = first; i < middleEnd; i++) {
+    const name = fields[i].name.toLowerCase();
+    sources[i] = middle.flatMap((item) => {
+      if (isStar(item)) return [sourceField(item.table, name)];
+      return item.name === null || item.name === name ? item.sources : [];
+    });
+  }
+  return sources;
+};
+
+/**
+ * Resolve which result columns are masked and how. Falls back to the row keys
+ * when the driver did not return field metadata. With the query's lineage a
+ * column is also masked when its expression reads a masked column.
+ */
+export const resolveMaskedColumns = (
+  rules: MaskingRule[],
+  fields: ResultField[] | undefined,
+  rows: any[],
+  lineage?: ColumnLineage
+): MaskedColumn[] => {
+  if (rules.length === 0) return [];
+  const resultFields: ResultField[] = Array.isArray(fields) && fields.length > 0
+    ? fields
+    : Object.keys(rows[0] || {}).map((name) => ({ name }));
+  const sources = lineage ? fieldSources(lineage, resultFields) : [];
+
+  const masked: MaskedColumn[] = [];
+  for (const [i, field] of resultFields.entries()) {
+    // First matching rule wins so specific table.column rules can precede broad patterns
+    const rule = rules.find((r) => ruleMatches(r, field) || (sources[i] ?? []).some((source) => ruleMatches(r, source)));
+    if (rule) masked.push({ column: field.name, strategy: rule.strategy });
+  }
+  return masked;
+};
+
+/**
+ * Mask a single row; used directly when rows are streamed
+ */
+export const maskRow = (row: any, maskedColumns: MaskedColumn[]): any => {
+  if (maskedColumns.length === 0 || !row || typeof row !== 'object') return row;
+  const copy = { ...row };
+  for (const { column, strategy } of maskedColumns) {
+    if (column in copy) copy[column] = maskValue(copy[column], strategy);
+  }
+  return copy;
+};
+
+/**
+ * Apply masking rules to a result set
+ */
+export const applyMasking = (
+  rows: any[],
+  fields: ResultField[] | undefined,
+  rules: MaskingRule[],
+  lineage?: ColumnLineage
+): { rows: any[]; maskedColumns: MaskedColumn[] } => {
+  const maskedColumns = resolveMaskedColumns(rules, fields, rows, lineage);
+  if (maskedColumns.length === 0) return { rows, maskedColumns };
+
+  return { rows: rows.map((row) => maskRow(row, maskedColumns)), maskedColumns };
+};
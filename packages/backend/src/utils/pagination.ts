@@ -0,0 +1,86 @@
+/**
+ * Server-side pagination for query previews
+ *
+ * The (already validated) user query is wrapped as a derived table so paging
+ * and sorting never have to rewrite it: the outer query adds its own ORDER BY,
+ * LIMIT and OFFSET (OFFSET ... FETCH on SQL Server), and a separate COUNT(*)
+ * wrapper reports the total.
+ */
+import { z } from 'zod';
+import { DEFAULT_DIALECT, Dialect, quoteIdentifier } from './dialects';
+
+export { quoteIdentifier };
+
+export const MAX_PAGE_SIZE = 500;
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const sortSchema = z.object({
+  column: z.string().min(1).max(64),
+  direction: z.enum(['asc', 'desc']).optional().default('asc')
+});
+
+export type PreviewSort = z.infer<typeof sortSchema>;
+
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+  sort?: PreviewSort;
+}
+
+// Trailing semicolons would end the statement inside the wrapper
+const innerQuery = (sql: string): string => sql.trim().replace(/;+\s*$/, '');
+
+/**
+ * Wrap a query so only the requested page is returned. The inner query sits on
+ * its own lines so a trailing "-- comment" cannot swallow the wrapper.
+ */
+export const buildPagedQuery = (
+  sql: string,
+  { page, pageSize, sort }: PageRequest,
+  dialect: Dialect = DEFAULT_DIALECT
+): string => {
+  const offset = (page - 1) * pageSize;
+  const orderColumn = sort ? `${quoteIdentifier(sort.column, dialect)} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}` : null;
+  const wrapped = `SELECT * FROM (\n${innerQuery(sql)}\n) AS preview_rows`;
+
+  if (dialect === 'mssql') {
+    // OFFSET ... FETCH needs an ORDER BY; ordering by a constant keeps the server's order
+    return `${wrapped}\nORDER BY ${orderColumn ?? '(SELECT NULL)'}\nOFFSET ${offset} ROWS FETCH NEXT ${pageSize} ROWS ONLY`;
+  }
+  return `${wrapped}${orderColumn ? `\nORDER BY ${orderColumn}` : ''}\nLIMIT ${pageSize} OFFSET ${offset}`;
+};
+
+/**
+ * The same wrapper returning no rows, for reading the result's column
+ * metadata without running the query to completion
+ */
+export const buildFieldsQuery = (sql: string, dialect: Dialect = DEFAULT_DIALECT): string =>
+  dialect === 'mssql'
+    ? `SELECT TOP (0) * FROM (\n${innerQuery(sql)}\n) AS preview_rows`
+    : `SELECT * FROM (\n${innerQuery(sql)}\n) AS preview_rows\nLIMIT 0`;
+
+const executionTimeHint = (timeoutMs: number): string => `MAX_EXECUTION_TIME(${Math.max(1, Math.floor(timeoutMs))})`;
+
+/**
+ * Have MySQL stop a SELECT itself once it runs longer than the timeout, even
+ * if the backend never gets to cancel it. The hint joins an existing hint
+ * comment, since MySQL only reads the first one. Statements that don't start
+ * with SELECT (WITH ..., parenthesized unions) and other dialects are left
+ * unchanged and rely on the driver cancelling them.
+ */
+export const withExecutionTimeLimit = (sql: string, timeoutMs: number, dialect: Dialect = DEFAULT_DIALECT): string => {
+  if (dialect !== 'mysql') return sql;
+  const hinted = /^(\s*SELECT\s*\/\*\+)([\s\S]*?\*\/)/i.exec(sql);
+  if (hinted) {
+    if (/MAX_EXECUTION_TIME\s*\(/i.test(hinted[2])) return sql;
+    return `${hinted[1]} ${executionTimeHint(timeoutMs)}${sql.slice(hinted[1].length)}`;
+  }
+  return sql.replace(/^(\s*SELECT)\b/i, `$1 /*+ ${executionTimeHint(timeoutMs)} */`);
+};
+
+/**
+ * COUNT(*) over the whole result. On MySQL it is also capped server-side by
+ * MAX_EXECUTION_TIME; other dialects rely on the driver cancelling it.
+ */
+export const buildCountQuery = (sql: string, timeoutMs: number, dialect: Dialect = DEFAULT_DIALECT): string =>
+  withExecutionTimeLimit(`SELECT COUNT(*) AS total FROM (\n${innerQuery(sql)}\n) AS count_rows`, timeoutMs, dialect);
@@ -0,0 +1,36 @@
+/**
+ * Password hashing with scrypt from node:crypto
+ *
+ * Hashes are stored as `scrypt$N$r$p$salt$hash` (salt and hash base64url) so
+ * the cost parameters can be raised later without invalidating old hashes.
+ */
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const DEFAULT_COST = { N: 16384, r: 8, p: 1 };
+
+const derive = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const { N, r, p } = DEFAULT_COST;
+  const key = await derive(password, salt, { N, r, p });
+  return ['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$');
+};
+
+/** False for a wrong password and for hashes this module did not produce */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  try {
+    const key = await derive(password, Buffer.from(salt, 'base64url'), { N: Number(N), r: Number(r), p: Number(p) });
+    return key.length === expected.length && timingSafeEqual(key, expected);
+  } catch {
+    return false;
+  }
+};
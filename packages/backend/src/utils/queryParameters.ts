@@ -0,0 +1,251 @@
+/**
+ * Named, typed query parameters
+ *
+ * Queries reference parameters as `:name`. Values are checked against the
+ * parameter's type and allowed values, then the placeholders are rewritten to
+ * the dialect's bind syntax (`?`, `$1`, `@p1`) so the driver sends the values
+ * separately from the SQL text; they are never spliced into the query.
+ */
+import { z } from 'zod';
+import { DEFAULT_DIALECT, Dialect } from './dialects';
+
+export const parameterTypes = ['string', 'int', 'number', 'date', 'boolean'] as const;
+export type ParameterType = typeof parameterTypes[number];
+
+export type ParameterValue = string | number | boolean | null;
+
+const parameterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const queryParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_]\w{0,63}$/, 'Parameter names may only contain letters, numbers and underscores'),
+  type: z.enum(parameterTypes).optional().default('string'),
+  label: z.string().max(100).optional(),
+  default: parameterValueSchema.optional(),
+  allowedValues: z.array(z.union([z.string(), z.number()])).max(500).optional(),
+  // SELECT whose first column lists the allowed values
+  lookup: z.string().min(1).max(2000).optional(),
+  // Optional parameters without a value are bound as NULL
+  required: z.boolean().optional().default(true)
+});
+
+export type QueryParameter = z.infer<typeof queryParameterSchema>;
+
+export const parameterValuesSchema = z.record(parameterValueSchema);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+interface Placeholder {
+  name: string;
+  start: number;
+  end: number;
+}
+
+// Index just past a quoted section that starts at `start`; doubled quotes (and backslashes on MySQL) escape
+const skipQuoted = (sql: string, start: number, close: string, backslashEscapes: boolean): number => {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === close) {
+      if (sql[i + 1] === close) i += 2;
+      else return i + 1;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+};
+
+/**
+ * `:name` placeholders in the order they appear. String literals, quoted
+ * identifiers, comments and PostgreSQL `::type` casts are skipped.
+ */
+const scanPlaceholders = (sql: string, dialect: Dialect): Placeholder[] => {
+  const placeholders: Placeholder[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    if (char === "'") {
+      i = skipQuoted(sql, i, "'", dialect === 'mysql');
+    } else if (char === '"') {
+      i = skipQuoted(sql, i, '"', dialect === 'mysql');
+    } else if (char === '`' && dialect === 'mysql') {
+      i = skipQuoted(sql, i, '`', false);
+    } else if (char === '[' && dialect === 'mssql') {
+      i = skipQuoted(sql, i, ']', false);
+    } else if ((char === '-' && next === '-') || (char === '#' && dialect === 'mysql')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === '$' && dialect === 'postgres' && /^\$\w*\$/.test(sql.slice(i))) {
+      // Dollar-quoted string: $$...$$ or $tag$...$tag$
+      const tag = /^\$\w*\$/.exec(sql.slice(i))![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      i = end === -1 ? sql.length : end + tag.length;
+    } else if (char === ':' && next === ':') {
+      i += 2;
+    } else if (char === ':' && !/\w/.test(sql[i - 1] ?? '')) {
+      const match = /^[A-Za-z_]\w*/.exec(sql.slice(i + 1));
+      if (match) {
+        placeholders.push({ name: match[0], start: i, end: i + 1 + match[0].length });
+        i += 1 + match[0].length;
+      } else {
+        i++;
+      }
+    } else {
+      i++;
+    }
+  }
+  return placeholders;
+};
+
+/** Distinct parameter names used by a query, in order of first use */
+export const findParameterNames = (sql: string, dialect: Dialect = DEFAULT_DIALECT): string[] =>
+  [...new Set(scanPlaceholders(sql, dialect).map((placeholder) => placeholder.name))];
+
+/** Check one value against the parameter's type; returns the bindable value or an error message */
+export const coerceParameterValue = (
+  parameter: QueryParameter,
+  raw: ParameterValue
+): { value: ParameterValue } | { error: string } => {
+  const label = parameter.label || parameter.name;
+  if (raw === null || raw === '') {
+    return parameter.required ? { error: `${label} is required` } : { value: null };
+  }
+
+  let value: ParameterValue;
+  switch (parameter.type) {
+    case 'int':
+    case 'number': {
+      const number = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN;
+      if (!Number.isFinite(number)) return { error: `${label} must be a number` };
+      if (parameter.type === 'int' && !Number.isInteger(number)) return { error: `${label} must be a whole number` };
+      value = number;
+      break;
+    }
+    case 'date': {
+      const text = String(raw).trim();
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text.replace(' ', 'T')))) {
+        return { error: `${label} must be a date (YYYY-MM-DD)` };
+      }
+      value = text;
+      break;
+    }
+    case 'boolean': {
+      const text = String(raw).toLowerCase();
+      if (!['true', 'false', '1', '0'].includes(text)) return { error: `${label} must be true or false` };
+      value = text === 'true' || text === '1';
+      break;
+    }
+    default:
+      value = String(raw);
+  }
+
+  if (parameter.allowedValues && parameter.allowedValues.length > 0
+    && !parameter.allowedValues.some((allowed) => String(allowed) === String(value))) {
+    return { error: `${label} must be one of: ${parameter.allowedValues.join(', ')}` };
+  }
+  return { value };
+};
+
+/**
+ * Values for every parameter the query uses, falling back to defaults.
+ * Placeholders without a definition are treated as required strings.
+ */
+export const resolveParameterValues = (
+  names: string[],
+  definitions: QueryParameter[] = [],
+  values: Record<string, ParameterValue> = {}
+): { values: Record<string, ParameterValue> } | { errors: string[] } => {
+  const resolved: Record<string, ParameterValue> = {};
+  const errors: string[] = [];
+  for (const name of names) {
+    const fallback: QueryParameter = { name, type: 'string', required: true };
+    const parameter = definitions.find((definition) => definition.name === name) ?? fallback;
+    const raw = values[name] !== undefined ? values[name] : parameter.default ?? null;
+    const result = coerceParameterValue(parameter, raw);
+    if ('error' in result) errors.push(result.error);
+    else resolved[name] = result.value;
+  }
+  return errors.length > 0 ? { errors } : { values: resolved };
+};
+
+/**
+ * Rewrite `:name` placeholders to the dialect's bind syntax and list the
+ * values in bind order. MySQL and SQLite bind positionally, so a name used
+ * twice is bound twice; PostgreSQL and SQL Server number each name once.
+ */
+export const bindParameters = (
+  sql: string,
+  values: Record<string, ParameterValue>,
+  dialect: Dialect = DEFAULT_DIALECT
+): { sql: string; params: ParameterValue[] } => {
+  const placeholders = scanPlaceholders(sql, dialect);
+  const params: ParameterValue[] = [];
+  const numbers = new Map<string, number>();
+  let text = '';
+  let last = 0;
+  for (const { name, start, end } of placeholders) {
+    if (!(name in values)) throw new Error(`No value for parameter :${name}`);
+    let bind: string;
+    if (dialect === 'postgres' || dialect === 'mssql') {
+      let number = numbers.get(name);
+      if (number === undefined) {
+        params.push(values[name]);
+        number = params.length;
+        numbers.set(name, number);
+      }
+      bind = dialect === 'postgres' ? `$${number}` : `@p${number}`;
+    } else {
+      params.push(values[name]);
+      bind = '?';
+    }
+    text += sql.slice(last, start) + bind;
+    last = end;
+  }
+  return { sql: text + sql.slice(last), params };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Best-effort values for a pattern's parameters taken from the prompt: an
+ * allowed value the prompt mentions, the next unused number or ISO date, or
+ * the next candidate word for strings. Anything not found falls back to the
+ * default or is left for the user to fill in.
+ */
+export const guessParameterValues = (
+  parameters: QueryParameter[],
+  prompt: string,
+  candidateWords: string[]
+): Record<string, ParameterValue> => {
+  const values: Record<string, ParameterValue> = {};
+  const dates = prompt.match(/\b\d{4}-\d{2}-\d{2}\b/g) ?? [];
+  // Standalone numbers only: not the parts of a date or of a value like "PG-13"
+  const numbers = prompt.replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ').match(/(?<![\w.-])\d+(?:\.\d+)?(?![\w-])/g) ?? [];
+  const words = candidateWords.filter((word) => !/^\d+$/.test(word));
+
+  for (const parameter of parameters) {
+    let guess: ParameterValue | undefined;
+    if (parameter.allowedValues && parameter.allowedValues.length > 0) {
+      // Longest first so "PG-13" wins over "PG"
+      const mentioned = [...parameter.allowedValues]
+        .sort((a, b) => String(b).length - String(a).length)
+        .find((allowed) => new RegExp(`(^|[^\\w-])${escapeRegExp(String(allowed))}(?![\\w-])`, 'i').test(prompt));
+      guess = mentioned;
+    } else if (parameter.type === 'int' || parameter.type === 'number') {
+      const index = numbers.findIndex((number) => parameter.type === 'number' || Number.isInteger(Number(number)));
+      if (index !== -1) guess = Number(numbers.splice(index, 1)[0]);
+    } else if (parameter.type === 'date') {
+      guess = dates.shift();
+    } else if (parameter.type === 'string') {
+      guess = words.shift();
+    }
+    const value = guess ?? parameter.default;
+    if (value !== undefined) values[parameter.name] = value;
+  }
+  return values;
+};
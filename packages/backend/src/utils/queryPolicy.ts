@@ -0,0 +1,303 @@
+/**
+ * Per-connection query policy
+ *
+ * A policy document is stored on each database_settings row and restricts
+ * which tables, columns and functions generated or hand-written SQL may use,
+ * how many rows it may ask for and how many tables it may join.
+ */
+import { z } from 'zod';
+import type { SqlViolation } from './sqlSafety';
+import { columnName, functionName, positionOf, walk } from './sqlAst';
+
+export const queryPolicySchema = z.object({
+  allowedTables: z.array(z.string().min(1)).optional(),
+  deniedTables: z.array(z.string().min(1)).optional(),
+  // Entries are either "table.column" or a bare "column" that applies to every table
+  allowedColumns: z.array(z.string().min(1)).optional(),
+  deniedColumns: z.array(z.string().min(1)).optional(),
+  bannedFunctions: z.array(z.string().min(1)).optional(),
+  maxLimit: z.number().int().positive().optional(),
+  maxJoinDepth: z.number().int().min(0).optional()
+});
+
+export type QueryPolicy = z.infer<typeof queryPolicySchema>;
+
+const lower = (values?: string[]) => new Set((values || []).map((v) => v.toLowerCase()));
+
+/**
+ * Parse a stored policy (JSON column or string) into a QueryPolicy, or null when
+ * nothing usable is stored
+ */
+export const parseQueryPolicy = (raw: unknown): QueryPolicy | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const parsed = queryPolicySchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+const columnMatches = (entries: Set<string>, table: string | null, column: string) =>
+  entries.has(column) || (table !== null && entries.has(`${table}.${column}`));
+
+const numberValue = (node: any): number | null => (node?.type === 'number' ? Number(node.value) : null);
+
+// Row count requested by LIMIT, TOP (SQL Server) or OFFSET ... FETCH NEXT n ROWS
+const limitCount = (statement: any): number | null => {
+  if (statement?.top && typeof statement.top.value === 'number' && !statement.top.percent) return statement.top.value;
+  if (statement?.limit?.fetch) return numberValue(statement.limit.fetch.value);
+  const limit = statement?.limit;
+  const values = limit?.value;
+  if (!Array.isArray(values) || values.length === 0) return null;
+  // "LIMIT offset, count" puts the count second; "LIMIT count OFFSET n" puts it first
+  const count = limit.seperator === ',' && values.length > 1 ? values[1] : values[0];
+  return numberValue(count);
+};
+
+interface TableReference {
+  name: string;
+  node: any;
+  // True when the name resolves to a CTE in scope rather than a real table
+  cte: boolean;
+}
+
+const cteName = (cte: any): string | null => {
+  const name = cte?.name?.value ?? cte?.name;
+  return typeof name === 'string' ? name.toLowerCase() : null;
+};
+
+/**
+ * Collect FROM references, resolving names against the CTEs in scope. A CTE is
+ * visible to the statement body and to later CTEs, but inside its own
+ * definition the same name still means the real table unless the WITH is
+ * RECURSIVE.
+ */
+const collectTables = (node: any, scope: Set<string>, tables: TableReference[], seen = new Set<any>()) => {
+  if (!node || typeof node !== 'object' || seen.has(node)) return;
+  seen.add(node);
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectTables(child, scope, tables, seen));
+    return;
+  }
+
+  let inner = scope;
+  if (node.type === 'select') {
+    const ctes: any[] = Array.isArray(node.with) ? node.with : [];
+    const recursive = ctes.some((cte) => cte?.recursive);
+    for (const cte of ctes) {
+      const name = cteName(cte);
+      const withOwnName = name !== null ? new Set([...inner, name]) : inner;
+      collectTables(cte?.stmt, recursive ? withOwnName : inner, tables, seen);
+      inner = withOwnName;
+    }
+    for (const item of node.from || []) {
+      if (typeof item?.table === 'string') {
+        const name = item.table.toLowerCase();
+        tables.push({ name, node: item, cte: inner.has(name) });
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'with') collectTables(value, inner, tables, seen);
+  }
+};
+
+// A name a column qualifier can resolve to: a real table, or a CTE or derived
+// table whose own columns are checked where it is defined
+interface Source {
+  name: string;
+  virtual: boolean;
+}
+
+type Scope = Map<string, Source>;
+
+// Names a select (and any UNION partners) exposes to its ORDER BY and HAVING
+const outputNames = (select: any): Set<string> => {
+  const names = new Set<string>();
+  for (let part = select; part; part = part._next) {
+    for (const column of Array.isArray(part.columns) ? part.columns : []) {
+      if (typeof column?.as === 'string') names.add(column.as.toLowerCase());
+      else if (column?.expr?.type === 'column_ref') names.add(columnName(column.expr).toLowerCase());
+    }
+  }
+  return names;
+};
+
+/**
+ * Check a parsed SELECT statement against a policy
+ */
+export const checkQueryPolicy = (statement: any, policy: QueryPolicy): SqlViolation[] => {
+  const violations: SqlViolation[] = [];
+  const allowedTables = lower(policy.allowedTables);
+  const deniedTables = lower(policy.deniedTables);
+  const allowedColumns = lower(policy.allowedColumns);
+  const deniedColumns = lower(policy.deniedColumns);
+  const bannedFunctions = lower(policy.bannedFunctions);
+
+  const tables: TableReference[] = [];
+  collectTables(statement, new Set(), tables);
+  const byNode = new Map(tables.map((table) => [table.node, table]));
+
+  for (const { name, node } of tables.filter((t) => !t.cte)) {
+    if (deniedTables.has(name) || (allowedTables.size > 0 && !allowedTables.has(name))) {
+      violations.push({
+        code: 'TABLE_NOT_ALLOWED',
+        message: `Table ${name} is not allowed by the query policy`,
+        position: positionOf(node)
+      });
+    }
+  }
+
+  // SELECT * only hides a restricted column on tables some rule applies to
+  const tableHasColumnRules = (table: string) =>
+    allowedColumns.size > 0 ||
+    Array.from(deniedColumns).some((entry) => !entry.includes('.') || entry.startsWith(`${table}.`));
+
+  const localScope = (select: any): Scope => {
+    const scope: Scope = new Map();
+    for (const item of Array.isArray(select.from) ? select.from : []) {
+      const alias = typeof item?.as === 'string' ? item.as.toLowerCase() : null;
+      const table = byNode.get(item);
+      if (table) scope.set(alias ?? table.name, { name: table.name, virtual: table.cte });
+      else if (alias !== null && item?.expr?.ast) scope.set(alias, { name: alias, virtual: true });
+    }
+    return scope;
+  };
+
+  const checkColumn = (node: any, scopes: Scope[], outputs?: Set<string>) => {
+    const column = columnName(node).toLowerCase();
+    const qualifier = typeof node.table === 'string' ? node.table.toLowerCase() : null;
+    const source = qualifier !== null ? scopes.find((scope) => scope.has(qualifier))?.get(qualifier) : undefined;
+    if (source?.virtual) return;
+
+    if (column === '*') {
+      const restricted = (qualifier !== null
+        ? [source?.name ?? qualifier]
+        : Array.from(scopes[0]?.values() ?? []).filter((s) => !s.virtual).map((s) => s.name)
+      ).filter(tableHasColumnRules);
+      if (restricted.length > 0) {
+        violations.push({
+          code: 'COLUMN_NOT_ALLOWED',
+          message: `SELECT * is not allowed on ${restricted.join(', ')} because column restrictions apply; list the columns explicitly`,
+          position: positionOf(node)
+        });
+      }
+      return;
+    }
+
+    let candidates: (string | null)[];
+    if (qualifier !== null) {
+      candidates = [source?.name ?? qualifier];
+    } else {
+      const sources = scopes.flatMap((scope) => Array.from(scope.values()));
+      const real = Array.from(new Set(sources.filter((s) => !s.virtual).map((s) => s.name)));
+      // Columns read only from CTEs or derived tables were checked where those are defined
+      if (real.length === 0 && sources.length > 0) return;
+      candidates = real.length > 0 ? real : [null];
+    }
+
+    const denied = candidates.some((table) => columnMatches(deniedColumns, table, column));
+    // ORDER BY and HAVING may name a select-list output (ORDER BY total); a
+    // denied name is still checked since some dialects resolve it to the column
+    if (qualifier === null && !denied && outputs?.has(column)) return;
+    const allowed = allowedColumns.size === 0 || candidates.some((table) => columnMatches(allowedColumns, table, column));
+    if (denied || !allowed) {
+      const label = qualifier !== null ? `${source?.name ?? qualifier}.${column}` : column;
+      violations.push({
+        code: 'COLUMN_NOT_ALLOWED',
+        message: `Column ${label} is not allowed by the query policy`,
+        position: positionOf(node)
+      });
+    }
+  };
+
+  // Resolve column references against the FROM items of each enclosing select,
+  // innermost first
+  const checkColumns = (node: any, scopes: Scope[], outputs?: Set<string>): void => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach((child) => checkColumns(child, scopes, outputs));
+      return;
+    }
+    if (node.type === 'select') {
+      checkSelect(node, scopes, outputNames(node));
+      return;
+    }
+    if (node.type === 'column_ref') {
+      checkColumn(node, scopes, outputs);
+      return;
+    }
+    for (const value of Object.values(node)) checkColumns(value, scopes, outputs);
+  };
+
+  const checkSelect = (select: any, outer: Scope[], outputs: Set<string>): void => {
+    for (const cte of Array.isArray(select.with) ? select.with : []) checkColumns(cte?.stmt, outer);
+    const scopes = [localScope(select), ...outer];
+    for (const [key, value] of Object.entries(select)) {
+      if (key === 'with' || key === '_next') continue;
+      checkColumns(value, scopes, key === 'orderby' || key === 'having' ? outputs : undefined);
+    }
+    if (select._next) checkSelect(select._next, outer, outputs);
+  };
+
+  if (allowedColumns.size > 0 || deniedColumns.size > 0) checkColumns(statement, []);
+
+  walk(statement, (node) => {
+    if (node.type === 'function' && bannedFunctions.size > 0) {
+      const name = functionName(node);
+      if (bannedFunctions.has(name.toLowerCase())) {
+        violations.push({
+          code: 'FUNCTION_NOT_ALLOWED',
+          message: `Function ${name.toUpperCase()}() is not allowed by the query policy`,
+          position: positionOf(node)
+        });
+      }
+    }
+
+    if (node.type === 'select' && policy.maxJoinDepth !== undefined) {
+      const joins = (node.from || []).filter((item: any) => item?.join).length;
+      if (joins > policy.maxJoinDepth) {
+        violations.push({
+          code: 'JOIN_DEPTH_EXCEEDED',
+          message: `Query joins ${joins} tables but the query policy allows at most ${policy.maxJoinDepth}`,
+          position: positionOf(node)
+        });
+      }
+    }
+  });
+
+  if (policy.maxLimit !== undefined) {
+    const count = limitCount(statement);
+    if (count !== null && count > policy.maxLimit) {
+      violations.push({
+        code: 'LIMIT_EXCEEDED',
+        message: `LIMIT ${count} exceeds the maximum of ${policy.maxLimit} allowed by the query policy`,
+        position: positionOf(statement)
+      });
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Render a policy as plain-language rules for the AI prompt builders
+ */
+export const describeQueryPolicy = (policy?: QueryPolicy | null): string => {
+  if (!policy) return '';
+  const rules: string[] = [];
+  if (policy.allowedTables?.length) rules.push(`- ONLY these tables may be queried: ${policy.allowedTables.join(', ')}`);
+  if (policy.deniedTables?.length) rules.push(`- NEVER query these tables: ${policy.deniedTables.join(', ')}`);
+  if (policy.allowedColumns?.length) rules.push(`- ONLY these columns may be referenced: ${policy.allowedColumns.join(', ')} (never use SELECT *)`);
+  if (policy.deniedColumns?.length) rules.push(`- NEVER reference these columns: ${policy.deniedColumns.join(', ')} (never use SELECT * on their tables)`);
+  if (policy.bannedFunctions?.length) rules.push(`- NEVER call these functions: ${policy.bannedFunctions.join(', ')}`);
+  if (policy.maxLimit !== undefined) rules.push(`- LIMIT must not exceed ${policy.maxLimit}`);
+  if (policy.maxJoinDepth !== undefined) rules.push(`- Join at most ${policy.maxJoinDepth} additional tables in a single FROM clause`);
+  return rules.length > 0 ? `QUERY POLICY (queries breaking these rules will be rejected):\n${rules.join('\n')}` : '';
+};
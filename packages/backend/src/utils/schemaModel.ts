@@ -0,0 +1,103 @@
+/**
+ * Schema model shared by introspection, the schema editor and the AI prompts
+ *
+ * Version 1 only knew column names and a table description. Version 2 adds
+ * optional per-column types, nullability, defaults and ENUM values, plus the
+ * primary key and indexes of each table. `columns` keeps its version 1 shape
+ * (names in ordinal order), so older consumers keep working and legacy
+ * `schema_json` blobs are still valid version 2 tables.
+ */
+import { z } from 'zod';
+
+export const SCHEMA_VERSION = 2;
+
+export const columnDetailsSchema = z.object({
+  // Declared type as the database reports it, e.g. "varchar(255)" or "integer"
+  type: z.string().optional(),
+  nullable: z.boolean().optional(),
+  default: z.string().nullable().optional(),
+  // Allowed values of ENUM (and MySQL SET) columns, in declaration order
+  enumValues: z.array(z.string()).optional(),
+  comment: z.string().optional()
+});
+
+export const indexSchema = z.object({
+  name: z.string(),
+  columns: z.array(z.string()).min(1),
+  unique: z.boolean()
+});
+
+export const schemaTableSchema = z.object({
+  columns: z.array(z.string()),
+  description: z.string().catch(''),
+  // Keyed by column name; columns without an entry have no known details
+  columnDetails: z.record(columnDetailsSchema).optional(),
+  primaryKey: z.array(z.string()).optional(),
+  // Secondary indexes; the primary key is not repeated here
+  indexes: z.array(indexSchema).optional()
+});
+
+export type ColumnDetails = z.infer<typeof columnDetailsSchema>;
+export type IndexInfo = z.infer<typeof indexSchema>;
+export type SchemaTable = z.infer<typeof schemaTableSchema>;
+export type SchemaTables = Record<string, SchemaTable>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Drop details that point at columns the table does not have
+const prune = (table: SchemaTable): SchemaTable => {
+  const known = new Set(table.columns);
+  const result: SchemaTable = { columns: table.columns, description: table.description };
+  if (table.columnDetails) {
+    const details = Object.fromEntries(Object.entries(table.columnDetails).filter(([column]) => known.has(column)));
+    if (Object.keys(details).length > 0) result.columnDetails = details;
+  }
+  if (table.primaryKey && table.primaryKey.length > 0 && table.primaryKey.every((column) => known.has(column))) {
+    result.primaryKey = table.primaryKey;
+  }
+  const indexes = table.indexes?.filter((index) => index.columns.every((column) => known.has(column)));
+  if (indexes && indexes.length > 0) result.indexes = indexes;
+  return result;
+};
+
+/**
+ * Validate a schema map from a client or a stored blob. Tables that do not
+ * parse are dropped, as are details for unknown columns.
+ */
+export const normalizeSchema = (value: unknown): SchemaTables => {
+  const schema: SchemaTables = {};
+  if (!isRecord(value)) return schema;
+  for (const [name, table] of Object.entries(value)) {
+    const parsed = schemaTableSchema.safeParse(table);
+    if (parsed.success) schema[name] = prune(parsed.data);
+  }
+  return schema;
+};
+
+/**
+ * Read a stored `schema_json` value (JSON column or string). Accepts the
+ * versioned envelope as well as the plain version 1 table map; returns null
+ * when nothing usable is stored.
+ */
+export const parseStoredSchema = (raw: unknown): SchemaTables | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!isRecord(value)) return null;
+  // A version 1 table named "version" would hold an object, never a number
+  if (typeof value.version === 'number' && isRecord(value.tables)) {
+    return normalizeSchema(value.tables);
+  }
+  return normalizeSchema(value);
+};
+
+/** Versioned `schema_json` blob for a schema map */
+export const serializeSchema = (schema: SchemaTables): string =>
+  JSON.stringify({ version: SCHEMA_VERSION, tables: normalizeSchema(schema) });
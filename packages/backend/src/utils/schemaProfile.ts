@@ -0,0 +1,106 @@
+/**
+ * Column value profiles
+ *
+ * A profile summarises what the data in each table looks like: approximate
+ * row counts, null ratios, min/max of numeric and date columns, and the
+ * distinct values of low-cardinality columns. It is stored next to the
+ * schema in `database_config_files.profile_json` and gives the AI real
+ * literals to filter on.
+ */
+import { z } from 'zod';
+import { MaskingRule, resolveMaskedColumns } from './masking';
+
+const scalar = z.union([z.string(), z.number()]);
+
+export const columnProfileSchema = z.object({
+  // Share of sampled rows where the column is NULL, 0..1
+  nullRatio: z.number().min(0).max(1),
+  distinctCount: z.number().int().min(0).optional(),
+  // Every distinct value, most frequent first; only for low-cardinality columns
+  values: z.array(z.string()).optional(),
+  min: scalar.optional(),
+  max: scalar.optional()
+});
+
+export const tableProfileSchema = z.object({
+  // From the database catalog, so approximate on most engines; null when unknown
+  rowCount: z.number().int().min(0).nullable(),
+  // Rows the column statistics were computed from
+  sampledRows: z.number().int().min(0),
+  columns: z.record(columnProfileSchema)
+});
+
+export const schemaProfileSchema = z.object({
+  generatedAt: z.string(),
+  tables: z.record(tableProfileSchema)
+});
+
+export type ColumnProfile = z.infer<typeof columnProfileSchema>;
+export type TableProfile = z.infer<typeof tableProfileSchema>;
+export type SchemaProfile = z.infer<typeof schemaProfileSchema>;
+
+/**
+ * Parse a stored profile (JSON column or string), or null when nothing
+ * usable is stored
+ */
+export const parseSchemaProfile = (raw: unknown): SchemaProfile | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const parsed = schemaProfileSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+export type ColumnKind = 'number' | 'datetime' | 'boolean' | 'text' | 'other';
+
+/**
+ * Coarse kind of a declared column type. Columns without a known type are
+ * treated as text; large binary and document types are not profiled.
+ */
+export const columnKind = (type: string | undefined): ColumnKind => {
+  const lower = (type ?? '').toLowerCase();
+  if (/blob|binary|bytea|image|json|xml|ntext|geometry|geography|point|polygon|\[\]|array/.test(lower)) return 'other';
+  if (/^(bool|boolean|bit)\b/.test(lower) || lower === 'tinyint(1)') return 'boolean';
+  if (/int|serial|dec|numeric|money|float|double|real/.test(lower)) return 'number';
+  if (/date|time|year/.test(lower)) return 'datetime';
+  return 'text';
+};
+
+/** Columns of `table` that the masking rules cover */
+export const maskedColumnNames = (table: string, columns: string[], maskingRules: MaskingRule[]): Set<string> =>
+  new Set(
+    resolveMaskedColumns(maskingRules, columns.map((column) => ({ name: column, orgName: column, orgTable: table })), [])
+      .map((entry) => entry.column)
+  );
+
+/**
+ * Profiles of the given tables for the AI prompt. Values and ranges of
+ * columns the current masking rules cover are left out, since the rules may
+ * have changed after the profile was collected.
+ */
+export const selectProfiles = (
+  profile: SchemaProfile | null,
+  tables: string[],
+  maskingRules: MaskingRule[]
+): Record<string, TableProfile> | undefined => {
+  if (!profile) return undefined;
+  const selected: Record<string, TableProfile> = {};
+  for (const table of tables) {
+    const tableProfile = profile.tables[table];
+    if (!tableProfile) continue;
+    const masked = maskedColumnNames(table, Object.keys(tableProfile.columns), maskingRules);
+    const columns = Object.fromEntries(
+      Object.entries(tableProfile.columns).map(([column, stats]) =>
+        [column, masked.has(column) ? { nullRatio: stats.nullRatio } : stats]
+      )
+    );
+    selected[table] = { ...tableProfile, columns };
+  }
+  return Object.keys(selected).length > 0 ? selected : undefined;
+};
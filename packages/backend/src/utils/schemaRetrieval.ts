@@ -0,0 +1,188 @@
+import type { Relationship, SchemaTables } from '../services/drivers';
+
+// Tables sent to the AI when the schema is larger than this
+export const DEFAULT_SCHEMA_TOP_K = 8;
+// Longest FK path (in joins) used to connect two selected tables
+const MAX_JOIN_PATH = 3;
+
+const TABLE_NAME_WEIGHT = 3;
+const COLUMN_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 0.5;
+// Share of a neighbour's direct score a table inherits through a foreign key
+const NEIGHBOUR_WEIGHT = 0.25;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'each', 'every', 'for', 'from', 'get',
+  'give', 'has', 'have', 'how', 'in', 'into', 'is', 'it', 'list', 'many', 'me', 'most', 'much', 'my', 'now', 'of',
+  'on', 'only', 'or', 'per', 'please', 'show', 'that', 'the', 'their', 'them', 'there', 'this', 'to', 'top', 'was',
+  'were', 'what', 'which', 'who', 'whose', 'with', 'without', 'id', 'table', 'tables', 'column', 'columns'
+]);
+
+export interface RankedTable {
+  table: string;
+  score: number;
+  /** `match` when the prompt mentions it, `join` when added to connect matches */
+  reason: 'match' | 'join';
+}
+
+export interface SchemaRetrieval {
+  schema: SchemaTables;
+  /** Foreign keys among the selected tables */
+  relationships: Relationship[];
+  tables: RankedTable[];
+  totalTables: number;
+  /** False when the whole schema was sent (small schema or nothing matched) */
+  filtered: boolean;
+}
+
+// Crude singular form so "films", "categories" and "addresses" match table names
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(sses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/** Split text and identifiers (snake_case, camelCase, schema.table) into stemmed tokens */
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+const overlap = (tokens: Set<string>, words: string[]): number => {
+  let hits = 0;
+  for (const word of new Set(words)) {
+    if (tokens.has(word)) hits++;
+  }
+  return hits;
+};
+
+const buildGraph = (relationships: Relationship[]): Map<string, Set<string>> => {
+  const graph = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!graph.has(a)) graph.set(a, new Set());
+    graph.get(a)!.add(b);
+  };
+  for (const { from, to } of relationships) {
+    if (from === to) continue;
+    link(from, to);
+    link(to, from);
+  }
+  return graph;
+};
+
+// Shortest FK path between two tables, excluding both ends; null when too far apart
+const joinPath = (graph: Map<string, Set<string>>, start: string, goal: string): string[] | null => {
+  const previous = new Map<string, string>([[start, start]]);
+  let frontier = [start];
+  for (let depth = 0; depth < MAX_JOIN_PATH && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const neighbour of graph.get(table) ?? []) {
+        if (previous.has(neighbour)) continue;
+        previous.set(neighbour, table);
+        if (neighbour === goal) {
+          const path: string[] = [];
+          for (let step = previous.get(goal)!; step !== start; step = previous.get(step)!) path.unshift(step);
+          return path;
+        }
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+  return null;
+};
+
+/**
+ * Pick the tables most relevant to a prompt so large schemas fit the AI
+ * context. Tables the prompt names come first; the rest are scored lexically
+ * on their name, columns and description (plus a share of their FK
+ * neighbours' scores). The top K are kept, and the tables on the shortest FK
+ * paths between them are added so the model can write the joins. Schemas
+ * with at most K tables are returned whole.
+ */
+export const retrieveSchema = (
+  query: string,
+  schema: SchemaTables,
+  relationships: Relationship[],
+  topK: number = DEFAULT_SCHEMA_TOP_K
+): SchemaRetrieval => {
+  const names = Object.keys(schema);
+  const whole = (): SchemaRetrieval => ({
+    schema,
+    relationships: relationships.filter((r) => r.from in schema && r.to in schema),
+    tables: names.map((table) => ({ table, score: 0, reason: 'match' })),
+    totalTables: names.length,
+    filtered: false
+  });
+
+  if (topK <= 0 || names.length <= topK) return whole();
+
+  const queryTokens = new Set(tokenize(query));
+  const direct = new Map<string, number>();
+  for (const table of names) {
+    const info = schema[table];
+    // Column comments and ENUM values count like the description ("PG-13 films" -> film.rating)
+    const notes = Object.values(info.columnDetails ?? {}).flatMap((details) => [details.comment ?? '', ...(details.enumValues ?? [])]);
+    const score =
+      TABLE_NAME_WEIGHT * overlap(queryTokens, tokenize(table)) +
+      COLUMN_WEIGHT * overlap(queryTokens, info.columns.flatMap(tokenize)) +
+      DESCRIPTION_WEIGHT * overlap(queryTokens, [info.description, ...notes].flatMap(tokenize));
+    direct.set(table, score);
+  }
+
+  const graph = buildGraph(relationships);
+  const scored = names
+    .map((table) => {
+      const nameTokens = tokenize(table);
+      let inherited = 0;
+      for (const neighbour of graph.get(table) ?? []) inherited += direct.get(neighbour) ?? 0;
+      return {
+        table,
+        score: (direct.get(table) ?? 0) + NEIGHBOUR_WEIGHT * inherited,
+        direct: direct.get(table) ?? 0,
+        // Every word of the name is in the prompt ("actors" -> actor, but also film_actor)
+        named: nameTokens.length > 0 && nameTokens.every((token) => queryTokens.has(token)),
+        nameLength: nameTokens.length
+      };
+    })
+    // Neighbour credit only breaks ties between tables the prompt actually mentions
+    .filter((entry) => entry.direct > 0)
+    // Named entity tables first; junction tables between them come back as join paths
+    .sort((a, b) =>
+      Number(b.named) - Number(a.named) ||
+      (a.named && b.named ? a.nameLength - b.nameLength : 0) ||
+      b.score - a.score ||
+      a.table.localeCompare(b.table)
+    )
+    .slice(0, topK);
+
+  if (scored.length === 0) return whole();
+
+  const tables: RankedTable[] = scored.map(({ table, score }) => ({ table, score, reason: 'match' }));
+  const selected = new Set(scored.map((entry) => entry.table));
+  for (let i = 0; i < scored.length; i++) {
+    for (let j = i + 1; j < scored.length; j++) {
+      for (const table of joinPath(graph, scored[i].table, scored[j].table) ?? []) {
+        if (selected.has(table) || !(table in schema)) continue;
+        selected.add(table);
+        tables.push({ table, score: 0, reason: 'join' });
+      }
+    }
+  }
+
+  const subset: SchemaTables = {};
+  for (const { table } of tables) subset[table] = schema[table];
+
+  return {
+    schema: subset,
+    relationships: relationships.filter((r) => selected.has(r.from) && selected.has(r.to)),
+    tables,
+    totalTables: names.length,
+    filtered: true
+  };
+};
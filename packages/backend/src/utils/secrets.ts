@@ -0,0 +1,123 @@
+/**
+ * Envelope encryption for credentials stored in the settings database
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is encrypted ("wrapped") with the master key. Stored values look
+ * like `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`, so rotating
+ * the master key only re-wraps data keys and never touches the ciphertext.
+ *
+ * The master key is 32 bytes, hex or base64 encoded, read from
+ * SECRETS_MASTER_KEY or from the file named by SECRETS_MASTER_KEY_FILE.
+ * SECRETS_PREVIOUS_MASTER_KEYS (comma-separated) lists retired keys that can
+ * still decrypt while a rotation is in progress. Without a master key secrets
+ * are stored as given.
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+
+const PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let warnedPlaintext = false;
+
+const parseKey = (encoded: string, source: string): MasterKey => {
+  const value = encoded.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${source} must be ${KEY_BYTES} bytes, hex or base64 encoded (openssl rand -base64 32)`);
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+};
+
+const currentKey = (): MasterKey | null => {
+  if (process.env.SECRETS_MASTER_KEY) return parseKey(process.env.SECRETS_MASTER_KEY, 'SECRETS_MASTER_KEY');
+  const file = process.env.SECRETS_MASTER_KEY_FILE;
+  if (file) return parseKey(readFileSync(file, 'utf8'), `SECRETS_MASTER_KEY_FILE (${file})`);
+  return null;
+};
+
+const keyring = (): MasterKey[] => {
+  const previous = (process.env.SECRETS_PREVIOUS_MASTER_KEYS || '')
+    .split(',')
+    .filter((value) => value.trim())
+    .map((value) => parseKey(value, 'SECRETS_PREVIOUS_MASTER_KEYS'));
+  const current = currentKey();
+  return current ? [current, ...previous] : previous;
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+};
+
+const parse = (stored: string) => {
+  const [keyId, wrappedKey, ciphertext] = stored.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) throw new Error('Malformed encrypted secret');
+  return { keyId, wrappedKey, ciphertext };
+};
+
+const unwrapDataKey = (keyId: string, wrappedKey: string): Buffer => {
+  const master = keyring().find((candidate) => candidate.id === keyId);
+  if (!master) throw new Error(`Cannot decrypt stored secret: master key ${keyId} is not configured`);
+  return open(master.key, wrappedKey);
+};
+
+export const isEncryptedSecret = (value: string | null | undefined): boolean =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+/** Whether a master key is configured, so new secrets are stored encrypted */
+export const secretsEncryptionEnabled = (): boolean => currentKey() !== null;
+
+/** Encrypt a secret for storage. Empty values are kept as they are, so are all values when no master key is set */
+export const encryptSecret = <T extends string | null | undefined>(plaintext: T): T => {
+  if (!plaintext || isEncryptedSecret(plaintext)) return plaintext;
+  const master = currentKey();
+  if (!master) {
+    if (!warnedPlaintext) {
+      console.warn('⚠️  SECRETS_MASTER_KEY not set; database passwords and API keys are stored in plaintext');
+      warnedPlaintext = true;
+    }
+    return plaintext;
+  }
+  const dataKey = randomBytes(KEY_BYTES);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}` as T;
+};
+
+/** Decrypt a stored secret; values stored before encryption was enabled are returned unchanged */
+export const decryptSecret = <T extends string | null | undefined>(stored: T): T => {
+  if (!stored || !isEncryptedSecret(stored)) return stored;
+  const { keyId, wrappedKey, ciphertext } = parse(stored);
+  return open(unwrapDataKey(keyId, wrappedKey), ciphertext).toString('utf8') as T;
+};
+
+/**
+ * Re-wrap a stored secret's data key with the current master key, or encrypt
+ * it if it is still plaintext. Returns the value unchanged when there is
+ * nothing to do. Throws when no master key is configured.
+ */
+export const rewrapSecret = (stored: string): string => {
+  const master = currentKey();
+  if (!master) throw new Error('SECRETS_MASTER_KEY or SECRETS_MASTER_KEY_FILE must be set');
+  if (!stored) return stored;
+  if (!isEncryptedSecret(stored)) return encryptSecret(stored);
+
+  const { keyId, wrappedKey, ciphertext } = parse(stored);
+  if (keyId === master.id) return stored;
+  return `${PREFIX}${master.id}:${seal(master.key, unwrapDataKey(keyId, wrappedKey))}:${ciphertext}`;
+};
@@ -0,0 +1,41 @@
+/**
+ * Helpers for walking node-sql-parser ASTs
+ */
+
+export interface SqlPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export const positionOf = (node: any): SqlPosition | undefined => {
+  const start = node?.loc?.start;
+  return start ? { offset: start.offset, line: start.line, column: start.column } : undefined;
+};
+
+export const functionName = (node: any): string => {
+  const name = node.name;
+  if (typeof name === 'string') return name;
+  if (Array.isArray(name?.name)) return name.name.map((part: any) => part.value).join('.');
+  return String(name?.name ?? '');
+};
+
+export const columnName = (node: any): string => {
+  const column = node.column;
+  if (typeof column === 'string') return column;
+  return String(column?.expr?.value ?? '');
+};
+
+// Walk every object in the AST, including nested sub-queries and CTEs
+export const walk = (node: any, visit: (node: any) => void, seen = new Set<any>()) => {
+  if (!node || typeof node !== 'object' || seen.has(node)) return;
+  seen.add(node);
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, visit, seen));
+    return;
+  }
+  visit(node);
+  for (const value of Object.values(node)) {
+    walk(value, visit, seen);
+  }
+};
@@ -0,0 +1,239 @@
+/**
+ * SQL safety gate
+ *
+ * Parses SQL in the destination's dialect into an AST and enforces a single
+ * read-only policy shared by every place that runs user or AI supplied SQL: a
+ * single SELECT (or WITH ... SELECT) statement, no SELECT ... INTO, no locking
+ * reads, no side-effecting functions and no access to the server's system
+ * schemas.
+ */
+import { Parser } from 'node-sql-parser';
+import { functionName, positionOf, SqlPosition, walk } from './sqlAst';
+import { checkQueryPolicy, QueryPolicy } from './queryPolicy';
+import { DEFAULT_DIALECT, Dialect, dialects, FORBIDDEN_FUNCTIONS, PARSER_DATABASES, SYSTEM_SCHEMAS } from './dialects';
+
+export type { SqlPosition };
+
+export type SqlViolationCode =
+  | 'EMPTY_QUERY'
+  | 'PARSE_ERROR'
+  | 'COMMENT_NOT_ALLOWED'
+  | 'MULTIPLE_STATEMENTS'
+  | 'STATEMENT_NOT_ALLOWED'
+  | 'INTO_NOT_ALLOWED'
+  | 'LOCKING_READ_NOT_ALLOWED'
+  | 'FUNCTION_NOT_ALLOWED'
+  | 'SYSTEM_SCHEMA_NOT_ALLOWED'
+  | 'TABLE_NOT_ALLOWED'
+  | 'COLUMN_NOT_ALLOWED'
+  | 'LIMIT_EXCEEDED'
+  | 'JOIN_DEPTH_EXCEEDED';
+
+export interface SqlViolation {
+  code: SqlViolationCode;
+  message: string;
+  position?: SqlPosition;
+}
+
+export interface SqlSafetyResult {
+  isSafe: boolean;
+  violations: SqlViolation[];
+  ast?: any;
+}
+
+const forbiddenFunctions = Object.fromEntries(
+  dialects.map((d) => [d, new Set(FORBIDDEN_FUNCTIONS[d])])
+) as Record<Dialect, Set<string>>;
+
+const systemSchemas = Object.fromEntries(
+  dialects.map((d) => [d, new Set(SYSTEM_SCHEMAS[d])])
+) as Record<Dialect, Set<string>>;
+
+// FROM items carry a `db` key; column references do not
+const systemObject = (node: any, dialect: Dialect): string | null => {
+  if (!('db' in node) || !('table' in node)) return null;
+  const schemas = systemSchemas[dialect];
+  if (typeof node.db === 'string' && schemas.has(node.db.toLowerCase())) return `${node.db} schema`;
+  if (typeof node.table !== 'string') return null;
+  const table = node.table.toLowerCase();
+  // SQLite keeps its catalog in tables; PostgreSQL resolves unqualified pg_* names to pg_catalog
+  if (dialect === 'sqlite' && schemas.has(table)) return `${node.table} table`;
+  if (dialect === 'postgres' && node.db === null && table.startsWith('pg_')) return `${node.table} catalog`;
+  return null;
+};
+
+const parser = new Parser();
+
+export class SqlSafetyError extends Error {
+  status = 400;
+  violations: SqlViolation[];
+
+  constructor(violations: SqlViolation[]) {
+    super(violations[0]?.message || 'Query rejected by SQL safety policy');
+    this.name = 'SqlSafetyError';
+    this.violations = violations;
+  }
+}
+
+const checkStatement = (statement: any, dialect: Dialect): SqlViolation[] => {
+  const violations: SqlViolation[] = [];
+
+  if (statement?.type !== 'select') {
+    violations.push({
+      code: 'STATEMENT_NOT_ALLOWED',
+      message: `Only SELECT queries are allowed (found ${String(statement?.type || 'unknown').toUpperCase()})`,
+      position: positionOf(statement)
+    });
+    return violations;
+  }
+
+  walk(statement, (node) => {
+    if (node.type === 'select') {
+      // SQL Server's SELECT ... INTO new_table has a target but no keyword
+      if (node.into?.keyword || node.into?.expr || node.into?.position) {
+        violations.push({
+          code: 'INTO_NOT_ALLOWED',
+          message: `SELECT ... INTO ${node.into.keyword ? String(node.into.keyword).toUpperCase() : 'a table'} is not allowed`,
+          position: positionOf(node)
+        });
+      }
+      if (node.locking_read) {
+        violations.push({
+          code: 'LOCKING_READ_NOT_ALLOWED',
+          message: `Locking reads (${node.locking_read}) are not allowed`,
+          position: positionOf(node)
+        });
+      }
+    }
+
+    if (node.type === 'function') {
+      const name = functionName(node);
+      if (forbiddenFunctions[dialect].has(name.toLowerCase())) {
+        violations.push({
+          code: 'FUNCTION_NOT_ALLOWED',
+          message: `Function ${name.toUpperCase()}() is not allowed`,
+          position: positionOf(node)
+        });
+      }
+    }
+
+    const system = systemObject(node, dialect);
+    if (system) {
+      violations.push({
+        code: 'SYSTEM_SCHEMA_NOT_ALLOWED',
+        message: `Access to the ${system} is not allowed`,
+        position: positionOf(node)
+      });
+    }
+  });
+
+  return violations;
+};
+
+// MySQL runs the body of /*! ... */ and reads /*+ ... */ as optimizer hints,
+// while the parser drops both as ordinary comments
+const EXECUTABLE_COMMENT = /\/\*[!+]/;
+
+const positionAt = (sql: string, offset: number): SqlPosition => {
+  const lines = sql.slice(0, offset).split('\n');
+  return { offset, line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+/**
+ * Parse the query in the connection's dialect and check it against the
+ * read-only policy and, when given, the connection's query policy
+ */
+export const checkSqlSafety = (sql: string, policy?: QueryPolicy | null, dialect: Dialect = DEFAULT_DIALECT): SqlSafetyResult => {
+  const comment = dialect === 'mysql' ? EXECUTABLE_COMMENT.exec(sql) : null;
+  if (comment) {
+    return {
+      isSafe: false,
+      violations: [{
+        code: 'COMMENT_NOT_ALLOWED',
+        message: `MySQL executable and hint comments (${comment[0]}) are not allowed`,
+        position: positionAt(sql, comment.index)
+      }]
+    };
+  }
+
+  let parsed: any;
+  try {
+    parsed = parser.astify(sql, { database: PARSER_DATABASES[dialect], parseOptions: { includeLocations: true } } as any);
+  } catch (error: any) {
+    const start = error?.location?.start;
+    return {
+      isSafe: false,
+      violations: [{
+        code: 'PARSE_ERROR',
+        message: `SQL syntax error: ${error?.message || 'unable to parse query'}`,
+        position: start ? { offset: start.offset, line: start.line, column: start.column } : undefined
+      }]
+    };
+  }
+
+  const statements = (Array.isArray(parsed) ? parsed : [parsed]).filter(Boolean);
+
+  if (statements.length === 0) {
+    return { isSafe: false, violations: [{ code: 'EMPTY_QUERY', message: 'Query is empty' }] };
+  }
+
+  if (statements.length > 1) {
+    return {
+      isSafe: false,
+      violations: [{
+        code: 'MULTIPLE_STATEMENTS',
+        message: 'Multiple statements are not allowed',
+        position: positionOf(statements[1])
+      }]
+    };
+  }
+
+  const violations = checkStatement(statements[0], dialect);
+  if (policy && statements[0]?.type === 'select') {
+    violations.push(...checkQueryPolicy(statements[0], policy));
+  }
+  return { isSafe: violations.length === 0, violations, ast: statements[0] };
+};
+
+/**
+ * Only the query-policy violations for a query; unparseable SQL yields none
+ * because it is rejected later by validation with the database's own error
+ */
+export const checkSqlPolicy = (sql: string, policy?: QueryPolicy | null, dialect: Dialect = DEFAULT_DIALECT): SqlViolation[] => {
+  if (!policy) return [];
+  const { ast } = checkSqlSafety(sql, null, dialect);
+  return ast?.type === 'select' ? checkQueryPolicy(ast, policy) : [];
+};
+
+/**
+ * Tables a query reads, lower-cased, without CTE names and without repeats;
+ * SQL that does not parse yields none
+ */
+export const referencedTables = (sql: string, dialect: Dialect = DEFAULT_DIALECT): string[] => {
+  const { ast } = checkSqlSafety(sql, null, dialect);
+  if (!ast) return [];
+
+  const cteNames = new Set<string>();
+  const tables = new Set<string>();
+  walk(ast, (node) => {
+    if (node.type !== 'select') return;
+    for (const cte of node.with || []) {
+      const name = cte?.name?.value ?? cte?.name;
+      if (typeof name === 'string') cteNames.add(name.toLowerCase());
+    }
+    for (const item of node.from || []) {
+      if (typeof item?.table === 'string') tables.add(item.table.toLowerCase());
+    }
+  });
+  return [...tables].filter((table) => !cteNames.has(table));
+};
+
+/**
+ * Throws a SqlSafetyError when the query violates the read-only policy
+ */
+export const assertSafeSql = (sql: string, dialect: Dialect = DEFAULT_DIALECT): void => {
+  const result = checkSqlSafety(sql, null, dialect);
+  if (!result.isSafe) {
+    throw new SqlSafetyError(result.violations);
+  }
+};
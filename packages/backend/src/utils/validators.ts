@@ -1,15 +1,198 @@
 import { z } from 'zod';
+import { checkSqlSafety, SqlViolation } from './sqlSafety';
+import { MAX_PAGE_SIZE, sortSchema } from './pagination';
+import { parameterValuesSchema, queryParameterSchema } from './queryParameters';
 
 export const promptSchema = z.object({
   prompt: z.string().min(1).max(500),
-  useAI: z.boolean().optional().default(true)
+  useAI: z.boolean().optional().default(true),
+  // Rounds of EXPLAIN-driven repair for AI output; defaults to AI_REPAIR_ATTEMPTS
+  maxRepairs: z.number().int().min(0).max(5).optional(),
+  // Ask the AI provider again even when the generation cache has an answer
+  regenerate: z.boolean().optional()
 });
 
 export const sqlQuerySchema = z.object({
   sql: z.string().min(1),
-  execute: z.boolean().optional().default(false)
+  execute: z.boolean().optional().default(false),
+  // Any of these switches the preview to server-side pagination
+  page: z.number().int().min(1).optional(),
+  pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  sort: sortSchema.optional(),
+  // Values for :name placeholders, and their types/defaults when the query came from a pattern or the library
+  parameters: parameterValuesSchema.optional(),
+  parameterDefinitions: z.array(queryParameterSchema).max(50).optional(),
+  // Chosen by the client so it can cancel the run while it is still executing
+  runId: z.string().regex(/^[\w-]{8,64}$/, 'runId must be 8-64 letters, digits, dashes or underscores').optional(),
+  // Run the query even when the connection has a cached result (the fresh result replaces it)
+  bypassCache: z.boolean().optional()
 });
 
+export const exportFormats = ['csv', 'ndjson', 'xlsx', 'parquet'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportQuerySchema = z.object({
+  sql: z.string().min(1),
+  format: z.enum(exportFormats).optional().default('csv'),
+  filename: z.string().regex(/^[\w.-]+$/, 'Filename may only contain letters, numbers, dots, dashes and underscores').max(100).optional(),
+  parameters: parameterValuesSchema.optional(),
+  parameterDefinitions: z.array(queryParameterSchema).max(50).optional()
+});
+
+const tagSchema = z.string().trim().min(1).max(50);
+
+export const savedQuerySchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  prompt: z.string().max(2000).nullable().optional(),
+  sql: z.string().min(1),
+  // Defaults to the caller's active connection when omitted
+  database_settings_id: z.number().int().positive().nullable().optional(),
+  tags: z.array(tagSchema).max(20).optional().default([])
+    .transform((tags) => [...new Set(tags)]),
+  folder: z.string().trim().max(255).nullable().optional()
+    .transform((folder) => folder || null),
+  // Definitions for the query's :name placeholders, shown as a form when it is opened
+  parameters: z.array(queryParameterSchema).max(50).optional().default([])
+});
+
+export const savedQueryUpdateSchema = savedQuerySchema.partial();
+
+export const parameterLookupSchema = z.object({
+  parameters: z.array(queryParameterSchema).min(1).max(50)
+});
+
+export const queryJobSchema = z.object({
+  sql: z.string().min(1),
+  parameters: parameterValuesSchema.optional(),
+  parameterDefinitions: z.array(queryParameterSchema).max(50).optional()
+});
+
+export const DEFAULT_JOB_RESULTS_PAGE_SIZE = 100;
+export const MAX_JOB_RESULTS_PAGE_SIZE = 1000;
+
+// Query string for GET /api/jobs/:id/results
+export const jobResultsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_JOB_RESULTS_PAGE_SIZE).optional()
+});
+
+// Seconds preview results of a connection are cached; null turns caching off
+export const MAX_RESULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+export const resultCacheSettingsSchema = z.object({
+  ttlSeconds: z.number().int().min(1).max(MAX_RESULT_CACHE_TTL_SECONDS).nullable()
+});
+
+export const queryLogTypes = ['generation', 'validation', 'export', 'job'] as const;
+export type QueryLogType = typeof queryLogTypes[number];
+
+export const executionStatuses = ['success', 'validation_error', 'execution_error'] as const;
+export type ExecutionStatus = typeof executionStatuses[number];
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 200;
+
+const isoDate = z.string().refine((value) => !isNaN(Date.parse(value)), 'Must be an ISO date or date-time')
+  .transform((value) => new Date(value));
+
+// Query-string filters for GET /api/history; every value arrives as a string
+export const historyQuerySchema = z.object({
+  session: z.string().trim().min(1).max(255).optional(),
+  status: z.enum(executionStatuses).optional(),
+  type: z.enum(queryLogTypes).optional(),
+  databaseId: z.coerce.number().int().positive().optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  search: z.string().trim().max(200).optional(),
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).optional()
+});
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+// Query-string filters for GET /api/audit
+export const auditQuerySchema = z.object({
+  entityType: z.string().trim().min(1).max(64).optional(),
+  entityId: z.string().trim().min(1).max(255).optional(),
+  action: z.string().trim().min(1).max(64).optional(),
+  actorId: z.coerce.number().int().min(0).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).optional()
+});
+
+// Query-string filters shared by the /api/analytics endpoints
+export const analyticsQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  databaseId: z.coerce.number().int().positive().optional(),
+  // Rows in the error-code and table rankings
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  // Generations scoring below this count as low confidence
+  threshold: z.coerce.number().min(0).max(1).optional()
+});
+
+// Query-string filters for GET /api/usage; `limit` caps the session and user rankings
+export const usageQuerySchema = analyticsQuerySchema.omit({ threshold: true });
+
+// Monthly AI spend limit in USD for one connection, or for all of them without databaseId; null removes it
+export const usageBudgetSchema = z.object({
+  databaseId: z.number().int().positive().optional(),
+  monthlyLimit: z.number().positive().max(1_000_000).nullable()
+});
+
+// Ordered from least to most access; each role can do everything the roles before it can
+export const userRoles = ['viewer', 'analyst', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
+const usernameSchema = z.string().trim().min(1).max(255).regex(/^[\w.@+-]+$/, 'Username may only contain letters, numbers and . @ + - _');
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(200);
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1).max(255),
+  password: z.string().min(1).max(200)
+});
+
+export const userCreateSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+  role: z.enum(userRoles).optional().default('viewer'),
+  display_name: z.string().trim().max(255).nullable().optional(),
+  email: z.string().trim().email().max(255).nullable().optional()
+});
+
+export const userUpdateSchema = z.object({
+  password: passwordSchema.optional(),
+  role: z.enum(userRoles).optional(),
+  display_name: z.string().trim().max(255).nullable().optional(),
+  email: z.string().trim().email().max(255).nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+const idListSchema = z.array(z.number().int().positive()).max(1000);
+
+export const teamSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(2000).nullable().optional(),
+  member_ids: idListSchema.optional().default([]),
+  database_ids: idListSchema.optional().default([])
+});
+
+export const teamUpdateSchema = teamSchema.partial();
+
+export type UserInput = z.infer<typeof userCreateSchema>;
+export type UserUpdate = z.infer<typeof userUpdateSchema>;
+export type TeamInput = z.infer<typeof teamSchema>;
+export type TeamUpdate = z.infer<typeof teamUpdateSchema>;
+
+export type SavedQueryInput = z.infer<typeof savedQuerySchema>;
+export type SavedQueryUpdate = z.infer<typeof savedQueryUpdateSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type QueryJobInput = z.infer<typeof queryJobSchema>;
+
 export const validatePrompt = (prompt: string): { isValid: boolean; error?: string } => {
   try {
     z.string().min(1).max(500).parse(prompt);
@@ -19,31 +202,12 @@ export const validatePrompt = (prompt: string): { isValid: boolean; error?: stri
   }
 };
 
-export const validateSqlQuery = (query: string): { isValid: boolean; error?: string } => {
-  try {
-    const schema = z.string().min(1).refine((q) => {
-      const trimmed = q.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--.*$/gm, '').replace(/#.*/g, '').trim();
-      if (trimmed.length === 0) return false;
-      const lower = trimmed.toLowerCase();
-      if (!lower.startsWith('select')) return false;
-      const semicolonIndex = trimmed.indexOf(';');
-      if (semicolonIndex !== -1 && semicolonIndex < trimmed.length - 1) return false;
-      const dangerousPatterns = [
-        /\b(drop|delete|truncate|alter|create|grant|revoke|insert|update|call|exec|execute)\b/i,
-        /union\s+all?\s+select/i,
-        /into\s+outfile/i,
-        /load_file\s*\(/i,
-        /sleep\s*\(/i,
-        /benchmark\s*\(/i,
-        /information_schema\./i,
-      ];
-      return !dangerousPatterns.some(p => p.test(trimmed));
-    }, { message: 'Invalid SQL query' });
-    schema.parse(query);
+export const validateSqlQuery = (query: string): { isValid: boolean; error?: string; violations?: SqlViolation[] } => {
+  const result = checkSqlSafety(query);
+  if (result.isSafe) {
     return { isValid: true };
-  } catch (error) {
-    return { isValid: false, error: error instanceof z.ZodError ? error.errors[0].message : 'Invalid SQL query' };
   }
+  return { isValid: false, error: result.violations[0].message, violations: result.violations };
 };
 
 export const sanitizeInput = (input: string): string => {
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/analyticsService', () => ({
+  analyticsService: {
+    range: vi.fn((filter: { from?: Date; to?: Date }) => ({
+      from: filter.from ?? new Date('2026-09-19T00:00:00Z'),
+      to: filter.to ?? new Date('2026-10-19T00:00:00Z')
+    })),
+    overview: vi.fn(),
+    errorCodes: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  connectionService: {
+    visibleDatabaseIds: vi.fn().mockResolvedValue([2])
+  }
+}));
+
+import { getErrorCodes, getOverview } from '../../../src/controllers/analyticsController';
+import { analyticsService } from '../../../src/services/analyticsService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+describe('analyticsController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes parsed filters with the resolved range and echoes the range', async () => {
+    vi.mocked(analyticsService.errorCodes).mockResolvedValue([{ code: 'ER_BAD_FIELD_ERROR', count: 4, example: null }]);
+    const res = createMockRes();
+
+    await getErrorCodes({ query: { from: '2026-10-01', databaseId: '2', limit: '5' } } as any as Request, res);
+
+    expect(analyticsService.errorCodes).toHaveBeenCalledWith({
+      from: new Date('2026-10-01'),
+      to: new Date('2026-10-19T00:00:00Z'),
+      databaseId: 2,
+      limit: 5,
+      databaseIds: [2]
+    });
+    expect(res.json).toHaveBeenCalledWith({
+      success: true,
+      data: [{ code: 'ER_BAD_FIELD_ERROR', count: 4, example: null }],
+      from: '2026-10-01T00:00:00.000Z',
+      to: '2026-10-19T00:00:00.000Z'
+    });
+  });
+
+  it('rejects out-of-range thresholds', async () => {
+    const res = createMockRes();
+
+    await getOverview({ query: { threshold: '2' } } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(analyticsService.overview).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the aggregate fails', async () => {
+    vi.mocked(analyticsService.overview).mockRejectedValue(new Error('boom'));
+    const res = createMockRes();
+
+    await getOverview({ query: {} } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Failed to compute analytics' });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/auditService', () => ({
+  auditService: {
+    list: vi.fn(),
+    verifyChain: vi.fn()
+  },
+  isHashChainEnabled: vi.fn(() => true)
+}));
+
+import { listAuditEvents, verifyAuditChain } from '../../../src/controllers/auditController';
+import { auditService } from '../../../src/services/auditService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+describe('auditController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('parses filters and returns the next cursor', async () => {
+    vi.mocked(auditService.list).mockResolvedValue({ events: [{ id: 5 } as any], nextCursor: 5 });
+    const res = createMockRes();
+
+    await listAuditEvents({ query: { entityType: 'database', actorId: '1', from: '2026-10-01', limit: '20' } } as any as Request, res);
+
+    expect(auditService.list).toHaveBeenCalledWith({ entityType: 'database', actorId: 1, from: new Date('2026-10-01'), limit: 20 });
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: [{ id: 5 }], nextCursor: 5 });
+  });
+
+  it('rejects invalid filters', async () => {
+    const res = createMockRes();
+
+    await listAuditEvents({ query: { limit: '1000' } } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(auditService.list).not.toHaveBeenCalled();
+  });
+
+  it('reports whether the hash chain is intact', async () => {
+    vi.mocked(auditService.verifyChain).mockResolvedValue({ valid: false, checked: 3, unchained: 0, brokenAt: 2 });
+    const res = createMockRes();
+
+    await verifyAuditChain({} as Request, res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      success: true,
+      data: { valid: false, checked: 3, unchained: 0, brokenAt: 2, enabled: true }
+    });
+  });
+});
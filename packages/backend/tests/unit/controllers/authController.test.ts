@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/userService', () => ({
+  userService: {
+    authenticate: vi.fn(),
+    get: vi.fn(),
+    findOrCreateOidcUser: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/oidcService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/services/oidcService')>();
+  return {
+    OidcError: actual.OidcError,
+    oidcService: { isEnabled: vi.fn(), beginLogin: vi.fn(), completeLogin: vi.fn() }
+  };
+});
+
+import { completeOidcLogin, login } from '../../../src/controllers/authController';
+import { userService } from '../../../src/services/userService';
+import { OidcError, oidcService } from '../../../src/services/oidcService';
+import { verifyToken } from '../../../src/utils/authTokens';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    redirect: vi.fn()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn>; redirect: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const user = { id: 5, username: 'ana', role: 'analyst', is_active: true } as any;
+
+describe('authController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.AUTH_SECRET = 'test-secret';
+  });
+
+  it('returns a token for valid credentials and 401 otherwise', async () => {
+    vi.mocked(userService.authenticate).mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+    const res = createMockRes();
+    await login({ body: { username: 'ana', password: 'pw' } } as Request, res);
+    const { token } = res.json.mock.calls[0][0].data;
+    expect(verifyToken(token)).toMatchObject({ sub: '5', role: 'analyst' });
+
+    const rejected = createMockRes();
+    await login({ body: { username: 'ana', password: 'bad' } } as Request, rejected);
+    expect(rejected.status).toHaveBeenCalledWith(401);
+  });
+
+  it('redirects the OIDC callback to the frontend with a token or an error', async () => {
+    vi.mocked(oidcService.completeLogin)
+      .mockResolvedValueOnce({ issuer: 'http://idp', subject: 's', username: 'ana' })
+      .mockRejectedValueOnce(new OidcError('ID token nonce does not match'));
+    vi.mocked(userService.findOrCreateOidcUser).mockResolvedValueOnce(user);
+
+    const res = createMockRes();
+    await completeOidcLogin({ query: { code: 'c', state: 's' } } as any, res);
+    const fragment = new URLSearchParams(res.redirect.mock.calls[0][0].split('#')[1]);
+    expect(res.redirect.mock.calls[0][0]).toMatch(/^http:\/\/localhost:5173\/#token=/);
+    expect(verifyToken(fragment.get('token')!)).toMatchObject({ sub: '5' });
+
+    const failed = createMockRes();
+    await completeOidcLogin({ query: { code: 'c', state: 's' } } as any, failed);
+    expect(failed.redirect).toHaveBeenCalledWith('http://localhost:5173/#error=ID+token+nonce+does+not+match');
+  });
+});
@@ -1,31 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Request, Response } from 'express';
 
-// Mock the database service BEFORE any imports
-vi.mock('../../../src/services/databaseSystemService', () => ({
-  __esModule: true,
-  default: {
-    getDatabaseConfigs: vi.fn(),
-    saveDatabaseConfig: vi.fn(),
-    switchDefaultDatabase: vi.fn(),
-    getDefaultDatabaseConfig: vi.fn()
+vi.mock('../../../src/services/connectionService', () => ({
+  connectionService: {
+    listDatabases: vi.fn(),
+    getActiveDatabase: vi.fn(),
+    selectDatabase: vi.fn()
   }
 }));
 
-// Don't mock the controller functions - we want to test them
-
-// Mock other dependencies that might be imported by routes
-vi.mock('../../../src/services/rulesService', () => ({
-  clearCachedRules: vi.fn()
-}));
-
-vi.mock('../../../src/index', () => ({
-  recreateDestinationPool: vi.fn()
-}));
-
 import { listDatabases, switchDatabase } from '../../../src/controllers/databaseController';
 import { DatabaseConfig } from '../../../src/services/databaseSystemService';
-import databaseService from '../../../src/services/databaseSystemService';
+import { connectionService } from '../../../src/services/connectionService';
+import { resultCacheService } from '../../../src/services/resultCacheService';
 
 const createMockRes = () => {
   const res = {
@@ -63,30 +50,35 @@ const mockDatabases: DatabaseConfig[] = [
 ];
 
 describe('databaseController', () => {
+  const analyst = { id: 5, username: 'ana', role: 'analyst' as const };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   describe('listDatabases', () => {
-    it('should return list of database configurations', async () => {
-      vi.mocked(databaseService.getDatabaseConfigs).mockResolvedValue(mockDatabases);
+    it('should return the caller\'s permitted connections and mark the active one', async () => {
+      vi.mocked(connectionService.listDatabases).mockResolvedValue(mockDatabases as any);
+      vi.mocked(connectionService.getActiveDatabase).mockResolvedValue(mockDatabases[0] as any);
       
-      const req = {} as Request;
+      const req = { user: analyst, headers: { 'x-session-id': 'tab-1' } } as any as Request;
       const res = createMockRes();
       
       await listDatabases(req, res);
       
-      expect(databaseService.getDatabaseConfigs).toHaveBeenCalledTimes(1);
+      expect(connectionService.listDatabases).toHaveBeenCalledWith(analyst);
+      expect(connectionService.getActiveDatabase).toHaveBeenCalledWith(analyst, 'tab-1');
       // Expect passwords to be masked
       expect(res.json).toHaveBeenCalledWith(mockDatabases.map(db => ({
         ...db,
-        password: '********'
+        password: '********',
+        is_selected: db.id === 1
       })));
       expect(res.status).not.toHaveBeenCalled();
     });
 
     it('should return 500 error when database service fails', async () => {
-      vi.mocked(databaseService.getDatabaseConfigs).mockRejectedValue(new Error('Database error'));
+      vi.mocked(connectionService.listDatabases).mockRejectedValue(new Error('Database error'));
       
       const req = {} as Request;
       const res = createMockRes();
@@ -99,25 +91,37 @@ describe('databaseController', () => {
   });
 
   describe('switchDatabase', () => {
-    it('should successfully switch to an existing database', async () => {
-      const switchedDatabase = { ...mockDatabases[0], is_default: true };
-      vi.mocked(databaseService.switchDefaultDatabase).mockResolvedValue(true);
-      vi.mocked(databaseService.getDefaultDatabaseConfig).mockResolvedValue(switchedDatabase);
+    it('should switch the caller\'s own active connection', async () => {
+      vi.mocked(connectionService.selectDatabase).mockResolvedValue(mockDatabases[0] as any);
       
-      const req = { params: { id: '1' } } as any as Request;
+      const req = { params: { id: '1' }, user: analyst, headers: { 'x-session-id': 'tab-1' } } as any as Request;
       const res = createMockRes();
       
       await switchDatabase(req, res);
       
-      expect(databaseService.switchDefaultDatabase).toHaveBeenCalledWith(1);
-      expect(databaseService.getDefaultDatabaseConfig).toHaveBeenCalledTimes(1);
+      expect(connectionService.selectDatabase).toHaveBeenCalledWith(analyst, 'tab-1', 1);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         message: 'Switched to database: Production DB',
-        database: switchedDatabase
+        database: { ...mockDatabases[0], password: '********' }
       });
     });
 
+    it('should drop cached results of the connections switched between', async () => {
+      const cached = { rows: [], fields: [], totalRows: null };
+      for (const databaseId of [1, 2, 3]) {
+        resultCacheService.set({ databaseId, sql: 'SELECT 1', params: [], withCount: false }, cached, 60);
+      }
+      vi.mocked(connectionService.getActiveDatabase).mockResolvedValue(mockDatabases[1] as any);
+      vi.mocked(connectionService.selectDatabase).mockResolvedValue(mockDatabases[0] as any);
+
+      await switchDatabase({ params: { id: '1' }, user: analyst, headers: { 'x-session-id': 'tab-1' } } as any as Request, createMockRes());
+
+      expect(resultCacheService.stats()).toMatchObject({ entries: 1 });
+      expect(resultCacheService.stats(3)).toMatchObject({ entries: 1 });
+      resultCacheService.invalidate();
+    });
+
     it('should return 400 error for invalid database ID', async () => {
       const req = { params: { id: 'invalid' } } as any as Request;
       const res = createMockRes();
@@ -126,26 +130,25 @@ describe('databaseController', () => {
       
       expect(res.status).toHaveBeenCalledWith(400);
       expect(res.json).toHaveBeenCalledWith({ error: 'Invalid database ID' });
-      expect(databaseService.getDatabaseConfigs).not.toHaveBeenCalled();
+      expect(connectionService.selectDatabase).not.toHaveBeenCalled();
     });
 
-    it('should return 404 error when database not found', async () => {
-      vi.mocked(databaseService.switchDefaultDatabase).mockResolvedValue(false);
+    it('should return 404 error when the database is missing or not permitted', async () => {
+      vi.mocked(connectionService.selectDatabase).mockResolvedValue(null);
       
-      const req = { params: { id: '999' } } as any as Request;
+      const req = { params: { id: '999' }, user: analyst, headers: {} } as any as Request;
       const res = createMockRes();
       
       await switchDatabase(req, res);
       
       expect(res.status).toHaveBeenCalledWith(404);
-      expect(res.json).toHaveBeenCalledWith({ error: 'Database configuration not found or switching failed' });
-      expect(databaseService.getDefaultDatabaseConfig).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({ error: 'Database configuration not found or not available to you' });
     });
 
     it('should return 500 error when database service fails', async () => {
-      vi.mocked(databaseService.switchDefaultDatabase).mockRejectedValue(new Error('Database error'));
+      vi.mocked(connectionService.selectDatabase).mockRejectedValue(new Error('Database error'));
       
-      const req = { params: { id: '1' } } as any as Request;
+      const req = { params: { id: '1' }, user: analyst, headers: {} } as any as Request;
       const res = createMockRes();
       
       await switchDatabase(req, res);
@@ -154,17 +157,19 @@ describe('databaseController', () => {
       expect(res.json).toHaveBeenCalledWith({ error: 'Failed to switch database' });
     });
 
-    it('should return 500 error when switching operation fails', async () => {
-      vi.mocked(databaseService.switchDefaultDatabase).mockResolvedValue(true);
-      vi.mocked(databaseService.getDefaultDatabaseConfig).mockRejectedValue(new Error('Get config error'));
-      
+    it('should refuse to switch in sandbox mode', async () => {
+      process.env.SANDBOX_MODE = 'true';
       const req = { params: { id: '1' } } as any as Request;
       const res = createMockRes();
-      
-      await switchDatabase(req, res);
-      
-      expect(res.status).toHaveBeenCalledWith(500);
-      expect(res.json).toHaveBeenCalledWith({ error: 'Failed to switch database' });
+
+      try {
+        await switchDatabase(req, res);
+      } finally {
+        delete process.env.SANDBOX_MODE;
+      }
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(connectionService.selectDatabase).not.toHaveBeenCalled();
     });
   });
 });
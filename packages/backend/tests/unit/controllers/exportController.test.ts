@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { exportQuery } from '../../../src/controllers/exportController';
+
+vi.mock('../../../src/services/pools', () => ({
+  getDestinationDriver: vi.fn()
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  NO_DATABASE_ACCESS: 'No database connection is available to you.',
+  connectionService: {
+    getActiveDatabase: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/queryLogService', () => ({
+  queryLogService: {
+    logQuery: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: {
+    getQueryPolicy: vi.fn().mockResolvedValue(null),
+    getMaskingRules: vi.fn().mockResolvedValue([])
+  }
+}));
+
+vi.mock('../../../src/services/exportService', async (importOriginal) => {
+  const real = await (importOriginal() as any);
+  return { ...real, streamQueryExport: vi.fn() };
+});
+
+import { getDestinationDriver } from '../../../src/services/pools';
+import { connectionService } from '../../../src/services/connectionService';
+import { queryLogService } from '../../../src/services/queryLogService';
+import { databaseService } from '../../../src/services/databaseSystemService';
+import { streamQueryExport } from '../../../src/services/exportService';
+
+const createMockRes = () => {
+  const res: any = {
+    headersSent: false,
+    writableFinished: false,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn(),
+    removeHeader: vi.fn(),
+    destroy: vi.fn(),
+    on: vi.fn()
+  };
+  return res as Response & Record<string, any>;
+};
+
+const createMockRequest = (sql: string, format = 'csv', filename?: string): Request => ({
+  body: { sql, format, filename },
+  headers: { 'x-session-id': 'test-session' },
+  ip: '127.0.0.1',
+  socket: { remoteAddress: '127.0.0.1' }
+} as any as Request);
+
+describe('exportController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(connectionService.getActiveDatabase).mockResolvedValue({ id: 3, name: 'Sakila' } as any);
+    vi.mocked(getDestinationDriver).mockReturnValue({ dialect: 'mysql' } as any);
+  });
+
+  it('rejects SQL that fails the safety gate without touching the database', async () => {
+    const res = createMockRes();
+
+    await exportQuery(createMockRequest('DELETE FROM users'), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      violations: [expect.objectContaining({ code: 'STATEMENT_NOT_ALLOWED' })]
+    }));
+    expect(streamQueryExport).not.toHaveBeenCalled();
+  });
+
+  it('enforces the active query policy', async () => {
+    vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ deniedTables: ['payment'] });
+    const res = createMockRes();
+
+    await exportQuery(createMockRequest('SELECT amount FROM payment'), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(streamQueryExport).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when the caller has no database connection', async () => {
+    vi.mocked(connectionService.getActiveDatabase).mockResolvedValue(null);
+    const res = createMockRes();
+
+    await exportQuery(createMockRequest('SELECT * FROM users'), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(getDestinationDriver).not.toHaveBeenCalled();
+  });
+
+  it('exports from the caller\'s active connection with its policy', async () => {
+    vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ maxLimit: 100 });
+    vi.mocked(streamQueryExport).mockResolvedValue({ rowCount: 100, cancelled: false, truncated: true, maskedColumns: [] });
+
+    await exportQuery(createMockRequest('SELECT * FROM users'), createMockRes());
+
+    expect(getDestinationDriver).toHaveBeenCalledWith(expect.objectContaining({ id: 3 }));
+    expect(databaseService.getQueryPolicy).toHaveBeenCalledWith(3);
+    expect(databaseService.getMaskingRules).toHaveBeenCalledWith(3);
+    expect(streamQueryExport).toHaveBeenCalledWith(expect.anything(), 'SELECT * FROM users', expect.objectContaining({ maxRows: 100 }));
+    expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({
+      database_settings_id: 3,
+      error_message: 'Truncated to 100 rows by the query policy'
+    }));
+  });
+
+  it('streams the export with download headers and masking rules', async () => {
+    const rules = [{ column: 'users.email', strategy: 'hash' as const }];
+    vi.mocked(databaseService.getMaskingRules).mockResolvedValueOnce(rules);
+    vi.mocked(streamQueryExport).mockResolvedValue({ rowCount: 10, cancelled: false, truncated: false, maskedColumns: [] });
+    const res = createMockRes();
+
+    await exportQuery(createMockRequest('SELECT * FROM users', 'parquet', 'users.csv'), res);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/vnd.apache.parquet');
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="users.parquet"');
+    expect(streamQueryExport).toHaveBeenCalledWith({ dialect: 'mysql' }, 'SELECT * FROM users', expect.objectContaining({
+      format: 'parquet',
+      output: res,
+      maskingRules: rules,
+      signal: expect.any(AbortSignal)
+    }));
+    expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({ execution_status: 'success' }));
+  });
+
+  it('aborts the export when the client disconnects', async () => {
+    let signal: AbortSignal | undefined;
+    const res = createMockRes();
+    vi.mocked(streamQueryExport).mockImplementation(async (_driver, _sql, options) => {
+      signal = options.signal;
+      const onClose = res.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
+      onClose();
+      return { rowCount: 3, cancelled: true, truncated: false, maskedColumns: [] };
+    });
+
+    await exportQuery(createMockRequest('SELECT * FROM users'), res);
+
+    expect(signal?.aborted).toBe(true);
+    expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({
+      error_message: 'Cancelled by client after 3 rows'
+    }));
+  });
+
+  it('returns a JSON error when the query fails before any data is sent', async () => {
+    vi.mocked(streamQueryExport).mockRejectedValue(Object.assign(new Error("Unknown column 'x'"), { code: 'ER_BAD_FIELD_ERROR', sqlState: '42S22' }));
+    const res = createMockRes();
+
+    await exportQuery(createMockRequest('SELECT x FROM users'), res);
+
+    expect(res.removeHeader).toHaveBeenCalledWith('Content-Disposition');
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: "Unknown column 'x'", errorCode: 'ER_BAD_FIELD_ERROR' }));
+  });
+
+  it('cuts the download short when the query fails mid-stream', async () => {
+    const error = new Error('Lost connection');
+    vi.mocked(streamQueryExport).mockRejectedValue(error);
+    const res = createMockRes();
+    res.headersSent = true;
+
+    await exportQuery(createMockRequest('SELECT * FROM users'), res);
+
+    expect(res.destroy).toHaveBeenCalledWith(error);
+    expect(res.json).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/queryLogService', () => ({
+  queryLogService: {
+    searchHistory: vi.fn(),
+    getHistoryEntry: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  connectionService: {
+    visibleDatabaseIds: vi.fn().mockResolvedValue([2, 3])
+  }
+}));
+
+import { getHistoryEntry, listHistory } from '../../../src/controllers/historyController';
+import { queryLogService } from '../../../src/services/queryLogService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const entry = { id: 12, type: 'generation', prompt: 'top films', sql: 'SELECT 1', status: 'success' } as any;
+
+describe('historyController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('parses query-string filters and returns the next cursor', async () => {
+    vi.mocked(queryLogService.searchHistory).mockResolvedValue({ entries: [entry], nextCursor: 12 });
+    const res = createMockRes();
+
+    await listHistory({
+      query: { status: 'success', databaseId: '2', from: '2026-10-01', search: ' films ', cursor: '40', limit: '25' }
+    } as any as Request, res);
+
+    expect(queryLogService.searchHistory).toHaveBeenCalledWith({
+      status: 'success',
+      databaseId: 2,
+      from: new Date('2026-10-01'),
+      search: 'films',
+      cursor: 40,
+      limit: 25,
+      databaseIds: [2, 3]
+    });
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: [entry], nextCursor: 12 });
+  });
+
+  it('rejects unknown statuses and bad dates', async () => {
+    const res = createMockRes();
+
+    await listHistory({ query: { status: 'pending', to: 'yesterday' } } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].details.map((d: any) => d.field)).toEqual(['status', 'to']);
+    expect(queryLogService.searchHistory).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a missing entry or one outside the caller\'s connections', async () => {
+    vi.mocked(queryLogService.getHistoryEntry).mockResolvedValue(null);
+    const res = createMockRes();
+
+    await getHistoryEntry({ params: { id: '99' } } as any as Request, res);
+
+    expect(queryLogService.getHistoryEntry).toHaveBeenCalledWith(99, [2, 3]);
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
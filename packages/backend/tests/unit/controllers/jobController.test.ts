@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/pools', () => ({
+  getDestinationDriver: vi.fn()
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  NO_DATABASE_ACCESS: 'No database connection is available to you.',
+  connectionService: {
+    getActiveDatabase: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/queryLogService', () => ({
+  queryLogService: {
+    logQuery: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: {
+    getQueryPolicy: vi.fn().mockResolvedValue(null),
+    getMaskingRules: vi.fn().mockResolvedValue([])
+  }
+}));
+
+vi.mock('../../../src/services/queryJobService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/services/queryJobService')>();
+  return {
+    canAccessJob: actual.canAccessJob,
+    isFinished: actual.isFinished,
+    queryJobService: {
+      submit: vi.fn(),
+      list: vi.fn(),
+      get: vi.fn(),
+      results: vi.fn(),
+      cancel: vi.fn(),
+      remove: vi.fn(),
+      subscribe: vi.fn()
+    }
+  };
+});
+
+import { cancelJob, getJob, getJobResults, streamJobEvents, submitJob } from '../../../src/controllers/jobController';
+import { getDestinationDriver } from '../../../src/services/pools';
+import { connectionService } from '../../../src/services/connectionService';
+import { queryJobService } from '../../../src/services/queryJobService';
+
+const analyst = { id: 7, username: 'ana', role: 'analyst' };
+
+const createMockRes = () => {
+  const res: any = {
+    headersSent: false,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(() => { res.headersSent = true; }),
+    write: vi.fn(),
+    end: vi.fn()
+  };
+  return res as Response & Record<string, ReturnType<typeof vi.fn>>;
+};
+
+const createMockReq = (overrides: Record<string, unknown> = {}) => ({
+  body: {},
+  params: {},
+  query: {},
+  headers: { 'x-session-id': 'test-session' },
+  ip: '127.0.0.1',
+  user: analyst,
+  on: vi.fn(),
+  ...overrides
+} as any as Request);
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'a6f1c0de-0000-4000-8000-000000000001',
+  user_id: analyst.id,
+  status: 'running',
+  row_count: 0,
+  masked_columns: [],
+  truncated: false,
+  ...overrides
+});
+
+describe('jobController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(connectionService.getActiveDatabase).mockResolvedValue({ id: 2, name: 'Sakila' } as any);
+    vi.mocked(getDestinationDriver).mockReturnValue({ dialect: 'mysql' } as any);
+  });
+
+  describe('submitJob', () => {
+    it('queues the bound query on the caller\'s connection and answers 202', async () => {
+      vi.mocked(queryJobService.submit).mockResolvedValue(job({ status: 'queued' }) as any);
+      const res = createMockRes();
+
+      await submitJob(createMockReq({
+        body: { sql: 'SELECT * FROM film WHERE rating = :rating', parameters: { rating: 'PG' } }
+      }), res);
+
+      expect(queryJobService.submit).toHaveBeenCalledWith(expect.objectContaining({
+        user: analyst,
+        database: { id: 2, name: 'Sakila' },
+        sql: 'SELECT * FROM film WHERE rating = :rating',
+        boundSql: 'SELECT * FROM film WHERE rating = ?',
+        params: ['PG']
+      }));
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: expect.objectContaining({ status: 'queued' }) });
+    });
+
+    it('rejects statements the safety policy does not allow', async () => {
+      const res = createMockRes();
+
+      await submitJob(createMockReq({ body: { sql: 'DELETE FROM film' } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(queryJobService.submit).not.toHaveBeenCalled();
+    });
+  });
+
+  it('hides other users\' jobs', async () => {
+    vi.mocked(queryJobService.get).mockResolvedValue(job({ user_id: 8 }) as any);
+    const res = createMockRes();
+
+    await getJob(createMockReq({ params: { id: job().id } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('returns results only once the job has succeeded', async () => {
+    vi.mocked(queryJobService.get).mockResolvedValue(job() as any);
+    const res = createMockRes();
+    await getJobResults(createMockReq({ params: { id: job().id } }), res);
+    expect(res.status).toHaveBeenCalledWith(409);
+
+    vi.mocked(queryJobService.get).mockResolvedValue(job({ status: 'succeeded', truncated: true }) as any);
+    vi.mocked(queryJobService.results).mockResolvedValue({ rows: [{ id: 1 }], columns: ['id'], page: 2, pageSize: 10, totalRows: 11, totalPages: 2 });
+    const okRes = createMockRes();
+    await getJobResults(createMockReq({ params: { id: job().id }, query: { page: '2', pageSize: '10' } }), okRes);
+    expect(queryJobService.results).toHaveBeenCalledWith(job().id, 2, 10);
+    expect(okRes.json).toHaveBeenCalledWith({ success: true, data: expect.objectContaining({ rows: [{ id: 1 }], truncated: true }) });
+  });
+
+  it('refuses to cancel a job that is no longer running', async () => {
+    vi.mocked(queryJobService.get).mockResolvedValue(job({ status: 'succeeded' }) as any);
+    vi.mocked(queryJobService.cancel).mockResolvedValue(false);
+    const res = createMockRes();
+
+    await cancelJob(createMockReq({ params: { id: job().id } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('streams status events until the job finishes', async () => {
+    let listener!: (current: any) => void;
+    const unsubscribe = vi.fn();
+    vi.mocked(queryJobService.get).mockResolvedValue(job() as any);
+    vi.mocked(queryJobService.subscribe).mockImplementation((_id, callback) => {
+      listener = callback;
+      return unsubscribe;
+    });
+    const res = createMockRes();
+
+    await streamJobEvents(createMockReq({ params: { id: job().id } }), res);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(res.write).toHaveBeenCalledWith(`event: status\ndata: ${JSON.stringify(job())}\n\n`);
+
+    listener(job({ status: 'succeeded', row_count: 3 }));
+    expect(res.write).toHaveBeenLastCalledWith(expect.stringContaining('"status":"succeeded"'));
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(res.end).toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Request, Response } from 'express';
-import { getPatterns, generateQuery } from '../../../src/controllers/queryController';
+import { clearConversation, generateQuery, getConversation, getPatterns } from '../../../src/controllers/queryController';
+import aiService from '../../../src/services/aiService';
+import { getDestinationDriver } from '../../../src/services/pools';
+import { queryLogService } from '../../../src/services/queryLogService';
+import { databaseService } from '../../../src/services/databaseSystemService';
+import { connectionService } from '../../../src/services/connectionService';
+import { getCachedRules } from '../../../src/services/rulesService';
+import { usageService } from '../../../src/services/usageService';
 
 vi.mock('../../../src/services/rulesService', () => ({
   getCachedRules: vi.fn().mockResolvedValue({
@@ -17,20 +24,70 @@ vi.mock('../../../src/services/rulesService', () => ({
         template: "SELECT COUNT(*) as product_count FROM products WHERE category = '?'",
         description: 'Count products by category',
         keywords: ['count', 'products']
+      },
+      {
+        intent: 'films_by_rating',
+        template: 'SELECT title FROM film WHERE rating = :rating ORDER BY title LIMIT :limit',
+        description: 'Films with a rating',
+        keywords: ['films', 'rated'],
+        parameters: [
+          { name: 'rating', allowedValues: ['G', 'PG', 'PG-13'] },
+          { name: 'limit', type: 'int', default: 10 }
+        ]
       }
     ]
-  }),
-  loadRulesFromFile: vi.fn().mockResolvedValue({
-    schema: {},
-    query_patterns: [
-      { intent: 'fallback', template: 'SELECT 1', description: 'fallback', keywords: ['x'] }
-    ]
   })
 }));
 
 vi.mock('../../../src/services/openaiService', () => ({
   __esModule: true,
-  default: { enabled: false, generateQuery: vi.fn() }
+  default: { id: 'openai', enabled: false, generateQuery: vi.fn() },
+  OpenAIService: vi.fn().mockImplementation((options: { id: string }) => ({ id: options.id, enabled: false, generateQuery: vi.fn() }))
+}));
+
+const aiState = vi.hoisted(() => ({ enabled: false }));
+
+vi.mock('../../../src/services/aiService', () => ({
+  default: {
+    get enabled() {
+      return aiState.enabled;
+    },
+    generateQuery: vi.fn(),
+    getProvider: vi.fn().mockReturnValue('anthropic'),
+    getModel: vi.fn().mockReturnValue('claude-sonnet-4')
+  }
+}));
+
+vi.mock('../../../src/services/usageService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/usageService')>()),
+  usageService: { budgetExceeded: vi.fn().mockResolvedValue(false) }
+}));
+
+const defaultDriver = vi.hoisted(() => ({ dialect: 'mysql', explain: () => Promise.resolve() }));
+
+vi.mock('../../../src/services/pools', () => ({
+  getDestinationDriver: vi.fn().mockReturnValue(defaultDriver)
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  NO_DATABASE_ACCESS: 'No database connection is available to you.',
+  connectionService: {
+    getActiveDatabase: vi.fn().mockResolvedValue({ id: 4, name: 'Sakila' })
+  }
+}));
+
+vi.mock('../../../src/services/queryLogService', () => ({
+  queryLogService: { logQuery: vi.fn().mockResolvedValue(undefined) }
+}));
+
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: {
+    getDatabaseSchema: vi.fn().mockResolvedValue({ film: { columns: ['film_id', 'title', 'release_year'], description: 'Films' } }),
+    getDatabaseRelationships: vi.fn().mockResolvedValue([]),
+    getQueryPolicy: vi.fn().mockResolvedValue(null),
+    getSchemaProfile: vi.fn().mockResolvedValue(null),
+    getMaskingRules: vi.fn().mockResolvedValue([])
+  }
 }));
 
 const createMockRes = () => {
@@ -51,6 +108,15 @@ describe('queryController', () => {
       const payload = res.json.mock.calls[0][0];
       expect(payload.total).toBeGreaterThan(0);
       expect(payload.patterns[0]).toHaveProperty('intent');
+      expect(getCachedRules).toHaveBeenCalledWith(4);
+      expect(databaseService.getDatabaseSchema).toHaveBeenCalledWith(4);
+    });
+
+    it('returns no patterns or schema when the caller has no database connection', async () => {
+      vi.mocked(connectionService.getActiveDatabase).mockResolvedValueOnce(null);
+      const res = createMockRes();
+      await getPatterns({ headers: {} } as Request, res);
+      expect(res.json).toHaveBeenCalledWith({ patterns: [], schema: {}, relationships: [], total: 0 });
     });
   });
 
@@ -69,6 +135,19 @@ describe('queryController', () => {
       expect(source).toBe('pattern_matching');
     });
 
+    it('refuses to generate when the caller has no database connection', async () => {
+      vi.mocked(connectionService.getActiveDatabase).mockResolvedValueOnce(null);
+      const req = {
+        body: { prompt: 'show users from california', useAI: false },
+        headers: {},
+        ip: '127.0.0.1'
+      } as any as Request;
+      const res = createMockRes();
+      await generateQuery(req, res);
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No database connection is available to you.' });
+    });
+
     it('returns 404 when no pattern matches', async () => {
       const req = { 
         body: { prompt: 'unrelated words', useAI: false },
@@ -80,5 +159,294 @@ describe('queryController', () => {
       expect(res.status).toHaveBeenCalledWith(404);
       expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(String) }));
     });
+
+    it('keeps named parameters in the SQL and suggests values from the prompt', async () => {
+      const req = {
+        body: { prompt: 'films rated PG-13', useAI: false },
+        headers: { 'x-session-id': 'test-session' },
+        ip: '127.0.0.1'
+      } as any as Request;
+      const res = createMockRes();
+      await generateQuery(req, res);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        sql: 'SELECT title FROM film WHERE rating = :rating ORDER BY title LIMIT :limit',
+        parameters: [
+          { name: 'rating', type: 'string', allowedValues: ['G', 'PG', 'PG-13'], required: true },
+          { name: 'limit', type: 'int', default: 10, required: true }
+        ],
+        parameterValues: { rating: 'PG-13', limit: 10 }
+      }));
+    });
+  });
+
+  describe('conversation', () => {
+    const request = (prompt: string, sessionId?: string) => ({
+      body: { prompt, useAI: false },
+      headers: sessionId ? { 'x-session-id': sessionId } : {},
+      ip: '127.0.0.1'
+    }) as any as Request;
+
+    it('records generated queries in the session thread', async () => {
+      await generateQuery(request('show users from california', 'thread-1'), createMockRes());
+
+      const res = createMockRes();
+      await getConversation(request('', 'thread-1'), res);
+      const { turns } = res.json.mock.calls[0][0];
+      expect(turns).toHaveLength(1);
+      expect(turns[0]).toMatchObject({ prompt: 'show users from california', sql: expect.stringMatching(/select/i) });
+    });
+
+    it('keeps threads of different users apart under the same session id', async () => {
+      const asUser = (id: number, prompt: string) => ({ ...request(prompt, 'shared'), user: { id, username: `u${id}`, role: 'analyst' } }) as any as Request;
+      await generateQuery(asUser(7, 'show users from california'), createMockRes());
+
+      const other = createMockRes();
+      await getConversation(asUser(8, ''), other);
+      expect(other.json).toHaveBeenCalledWith({ turns: [] });
+
+      const owner = createMockRes();
+      await getConversation(asUser(7, ''), owner);
+      expect(owner.json.mock.calls[0][0].turns).toHaveLength(1);
+    });
+
+    it('replaces the latest turn when its answer is regenerated', async () => {
+      await generateQuery(request('show users from california', 'thread-3'), createMockRes());
+      await generateQuery({ ...request('show users from california', 'thread-3'), body: { prompt: 'show users from california', useAI: false, regenerate: true } } as Request, createMockRes());
+
+      const res = createMockRes();
+      await getConversation(request('', 'thread-3'), res);
+      expect(res.json.mock.calls[0][0].turns).toHaveLength(1);
+    });
+
+    it('clears the thread', async () => {
+      await generateQuery(request('show users from california', 'thread-2'), createMockRes());
+      await clearConversation(request('', 'thread-2'), createMockRes());
+
+      const res = createMockRes();
+      await getConversation(request('', 'thread-2'), res);
+      expect(res.json).toHaveBeenCalledWith({ turns: [] });
+    });
+
+    it('requires a session id', async () => {
+      const res = createMockRes();
+      await getConversation(request(''), res);
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('EXPLAIN repair loop', () => {
+    const aiResponse = (sql: string) => ({ sql, confidence: 0.9, reasoning: 'films', tables_used: ['film'] });
+    const badField = Object.assign(new Error("Unknown column 'year' in 'field list'"), { code: 'ER_BAD_FIELD_ERROR' });
+    const request = (body: Record<string, unknown>) => ({ body, headers: {}, ip: '127.0.0.1' }) as any as Request;
+    let driver: { dialect: string; explain: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      aiState.enabled = true;
+      vi.mocked(aiService.generateQuery).mockReset();
+      vi.mocked(queryLogService.logQuery).mockClear();
+      driver = { dialect: 'mysql', explain: vi.fn().mockResolvedValue(undefined) };
+      vi.mocked(getDestinationDriver).mockReturnValue(driver as any);
+    });
+
+    afterEach(() => {
+      aiState.enabled = false;
+      vi.mocked(getDestinationDriver).mockReturnValue(defaultDriver as any);
+    });
+
+    it('feeds the EXPLAIN error back to the provider and returns the repaired query', async () => {
+      vi.mocked(aiService.generateQuery)
+        .mockResolvedValueOnce(aiResponse('SELECT title FROM film WHERE year = 2006 LIMIT 20'))
+        .mockResolvedValueOnce(aiResponse('SELECT title FROM film WHERE release_year = 2006 LIMIT 20'));
+      driver.explain.mockRejectedValueOnce(badField);
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'films from 2006', maxRepairs: 2 }), res);
+
+      const payload = res.json.mock.calls[0][0];
+      expect(payload.sql).toBe('SELECT title FROM film WHERE release_year = 2006 LIMIT 20');
+      expect(payload.repairRounds).toBe(1);
+      expect(payload.attempts).toEqual([
+        { sql: 'SELECT title FROM film WHERE year = 2006 LIMIT 20', error: { code: 'ER_BAD_FIELD_ERROR', message: badField.message } },
+        { sql: 'SELECT title FROM film WHERE release_year = 2006 LIMIT 20', error: null }
+      ]);
+      expect(vi.mocked(aiService.generateQuery).mock.calls[1][0].repairs).toEqual([payload.attempts[0]]);
+      expect(vi.mocked(aiService.generateQuery).mock.calls[1][1]).toEqual({ databaseId: 4 });
+      expect(payload.cache).toEqual({ hit: false, cachedAt: null });
+      expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({ execution_status: 'success', repair_rounds: 1 }));
+    });
+
+    it('stops after maxRepairs rounds and logs the remaining error', async () => {
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('SELECT year FROM film LIMIT 20'));
+      driver.explain.mockRejectedValue(badField);
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'film years', maxRepairs: 1 }), res);
+
+      const payload = res.json.mock.calls[0][0];
+      expect(payload.attempts).toHaveLength(2);
+      expect(payload.repairRounds).toBe(1);
+      expect(aiService.generateQuery).toHaveBeenCalledTimes(2);
+      expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({
+        execution_status: 'validation_error',
+        error_message: badField.message,
+        repair_rounds: 1,
+        source: 'anthropic',
+        model: 'claude-sonnet-4',
+        error_code: badField.code
+      }));
+    });
+
+    it('sends only the retrieved tables to the provider and reports them', async () => {
+      process.env.SCHEMA_RETRIEVAL_TOP_K = '1';
+      vi.mocked(databaseService.getDatabaseSchema).mockResolvedValueOnce({
+        film: { columns: ['film_id', 'title'], description: 'Films' },
+        payment: { columns: ['payment_id', 'amount'], description: 'Payments' }
+      });
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('SELECT title FROM film LIMIT 20'));
+      const res = createMockRes();
+
+      try {
+        await generateQuery(request({ prompt: 'film titles' }), res);
+      } finally {
+        delete process.env.SCHEMA_RETRIEVAL_TOP_K;
+      }
+
+      expect(Object.keys(vi.mocked(aiService.generateQuery).mock.calls[0][0].schema)).toEqual(['film']);
+      expect(res.json.mock.calls[0][0].schemaRetrieval).toEqual({
+        totalTables: 2,
+        filtered: true,
+        tables: [{ table: 'film', score: expect.any(Number), reason: 'match' }]
+      });
+    });
+
+    it('passes profiles of the retrieved tables without values of masked columns', async () => {
+      vi.mocked(databaseService.getSchemaProfile).mockResolvedValueOnce({
+        generatedAt: '2026-10-19T00:00:00.000Z',
+        tables: {
+          film: {
+            rowCount: 1000,
+            sampledRows: 1000,
+            columns: {
+              title: { nullRatio: 0, distinctCount: 12, values: ['ACADEMY DINOSAUR'] },
+              release_year: { nullRatio: 0.2, distinctCount: 1, min: 2006, max: 2006 }
+            }
+          },
+          payment: { rowCount: 16044, sampledRows: 10000, columns: {} }
+        }
+      });
+      vi.mocked(databaseService.getMaskingRules).mockResolvedValueOnce([{ column: 'film.title', strategy: 'redact' }]);
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('SELECT title FROM film LIMIT 20'));
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'film titles' }), res);
+
+      expect(vi.mocked(aiService.generateQuery).mock.calls[0][0].profile).toEqual({
+        film: {
+          rowCount: 1000,
+          sampledRows: 1000,
+          columns: {
+            title: { nullRatio: 0 },
+            release_year: { nullRatio: 0.2, distinctCount: 1, min: 2006, max: 2006 }
+          }
+        }
+      });
+    });
+
+    it('skips the loop when maxRepairs is 0', async () => {
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('SELECT year FROM film LIMIT 20'));
+      driver.explain.mockRejectedValue(badField);
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'film years', maxRepairs: 0 }), res);
+
+      expect(aiService.generateQuery).toHaveBeenCalledTimes(1);
+      expect(res.json.mock.calls[0][0].repairRounds).toBe(0);
+    });
+
+    it('never sends statements the safety gate refuses to EXPLAIN', async () => {
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('DELETE FROM film'));
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'remove films' }), res);
+
+      expect(driver.explain).not.toHaveBeenCalled();
+      expect(res.json.mock.calls[0][0].attempts).toEqual([{ sql: 'DELETE FROM film', error: null }]);
+    });
+
+    it('rejects repaired SQL that breaks the query policy', async () => {
+      vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ deniedTables: ['film'] });
+      vi.mocked(aiService.generateQuery).mockResolvedValue(aiResponse('SELECT title FROM film LIMIT 20'));
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'films' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json.mock.calls[0][0].attempts[0].error).toMatchObject({ message: expect.any(String) });
+      expect(driver.explain).not.toHaveBeenCalled();
+    });
+
+    it('logs the tokens of every provider call with their estimated cost', async () => {
+      vi.mocked(aiService.generateQuery)
+        .mockResolvedValueOnce({ ...aiResponse('SELECT title FROM film WHERE year = 2006 LIMIT 20'), usage: { inputTokens: 900_000, outputTokens: 10_000 } })
+        .mockResolvedValueOnce({ ...aiResponse('SELECT title FROM film WHERE release_year = 2006 LIMIT 20'), usage: { inputTokens: 100_000, outputTokens: 10_000 } });
+      driver.explain.mockRejectedValueOnce(badField);
+      const res = createMockRes();
+
+      await generateQuery({ ...request({ prompt: 'films from 2006' }), user: { id: 7, username: 'ana', role: 'analyst' } } as any as Request, res);
+
+      // claude-sonnet-4 is priced at $3 in and $15 out per million tokens
+      expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({
+        input_tokens: 1_000_000,
+        output_tokens: 20_000,
+        estimated_cost: 3.3,
+        user_id: 7
+      }));
+      expect(res.json.mock.calls[0][0].usage).toEqual({ inputTokens: 1_000_000, outputTokens: 20_000, estimatedCost: 3.3 });
+    });
+
+    it('records tokens already spent when a repair fails, then falls back to pattern matching', async () => {
+      vi.mocked(aiService.generateQuery)
+        .mockResolvedValueOnce({ ...aiResponse('SELECT title FROM film WHERE year = 2006 LIMIT 20'), usage: { inputTokens: 1_000_000, outputTokens: 0 } })
+        .mockRejectedValueOnce(new Error('provider unavailable'));
+      driver.explain.mockRejectedValueOnce(badField);
+      const user = { id: 7, username: 'ana', role: 'analyst' };
+      const res = createMockRes();
+
+      await generateQuery({ ...request({ prompt: 'show users from california' }), user } as any as Request, res);
+
+      expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({
+        execution_status: 'execution_error',
+        error_code: 'AI_GENERATION_FAILED',
+        input_tokens: 1_000_000,
+        estimated_cost: 3,
+        user_id: 7
+      }));
+      expect(queryLogService.logQuery).toHaveBeenLastCalledWith(expect.objectContaining({ source: 'pattern_matching', user_id: 7 }));
+      expect(res.json.mock.calls[0][0]).toMatchObject({ source: 'pattern_matching' });
+    });
+
+    it('falls back to pattern matching once the AI budget is spent', async () => {
+      vi.mocked(usageService.budgetExceeded).mockResolvedValueOnce(true);
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'show users from california' }), res);
+
+      expect(usageService.budgetExceeded).toHaveBeenCalledWith(4);
+      expect(aiService.generateQuery).not.toHaveBeenCalled();
+      expect(res.json.mock.calls[0][0]).toMatchObject({ source: 'pattern_matching', aiBudgetExceeded: true });
+    });
+
+    it('reports cached generations and forwards the regenerate flag', async () => {
+      vi.mocked(aiService.generateQuery).mockResolvedValue({
+        ...aiResponse('SELECT title FROM film LIMIT 20'),
+        cachedAt: new Date('2026-10-19T08:00:00.000Z')
+      });
+      const res = createMockRes();
+
+      await generateQuery(request({ prompt: 'film titles', regenerate: true }), res);
+
+      expect(vi.mocked(aiService.generateQuery).mock.calls[0][1]).toEqual({ databaseId: 4, regenerate: true });
+      expect(res.json.mock.calls[0][0].cache).toEqual({ hit: true, cachedAt: '2026-10-19T08:00:00.000Z' });
+    });
   });
 });
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/savedQueryService', () => ({
+  savedQueryService: {
+    list: vi.fn(),
+    get: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    remove: vi.fn(),
+    duplicate: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  connectionService: {
+    getActiveDatabase: vi.fn(),
+    visibleDatabaseIds: vi.fn()
+  }
+}));
+
+import {
+  createSavedQuery,
+  deleteSavedQuery,
+  duplicateSavedQuery,
+  getSavedQuery,
+  listSavedQueries,
+  updateSavedQuery
+} from '../../../src/controllers/savedQueryController';
+import { savedQueryService } from '../../../src/services/savedQueryService';
+import { connectionService } from '../../../src/services/connectionService';
+import { savedQuerySchema } from '../../../src/utils/validators';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const saved = { id: 3, name: 'Late rentals', sql: 'SELECT 1', tags: [], folder: null, database_settings_id: 2, created_by: 5 } as any;
+
+const analyst = { id: 5, username: 'ana', role: 'analyst' as const };
+const otherAnalyst = { id: 6, username: 'olu', role: 'analyst' as const };
+const admin = { id: 1, username: 'root', role: 'admin' as const };
+
+describe('savedQueryController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(connectionService.visibleDatabaseIds).mockResolvedValue([2]);
+  });
+
+  it('passes search, folder and tag filters to the service', async () => {
+    vi.mocked(savedQueryService.list).mockResolvedValue([saved]);
+    const res = createMockRes();
+
+    await listSavedQueries({ query: { search: ' rentals ', folder: 'Ops', tag: '' }, user: analyst } as any as Request, res);
+
+    expect(connectionService.visibleDatabaseIds).toHaveBeenCalledWith(analyst);
+    expect(savedQueryService.list).toHaveBeenCalledWith({ search: 'rentals', folder: 'Ops', tag: undefined, databaseIds: [2] });
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: [saved] });
+  });
+
+  it('saves against the caller\'s active connection when none is given', async () => {
+    vi.mocked(connectionService.getActiveDatabase).mockResolvedValue({ id: 2 } as any);
+    vi.mocked(savedQueryService.create).mockResolvedValue(saved);
+    const body = savedQuerySchema.parse({ name: 'Late rentals', sql: 'SELECT 1', tags: ['ops', 'ops'], folder: '' });
+    const res = createMockRes();
+
+    await createSavedQuery({ body, user: analyst } as any as Request, res);
+
+    expect(savedQueryService.create).toHaveBeenCalledWith(expect.objectContaining({ database_settings_id: 2, tags: ['ops'], folder: null }), 5);
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('keeps an explicit null connection', async () => {
+    vi.mocked(savedQueryService.create).mockResolvedValue(saved);
+    const res = createMockRes();
+
+    await createSavedQuery({ body: savedQuerySchema.parse({ name: 'x', sql: 'SELECT 1', database_settings_id: null }) } as Request, res);
+
+    expect(connectionService.getActiveDatabase).not.toHaveBeenCalled();
+    expect(savedQueryService.create).toHaveBeenCalledWith(expect.objectContaining({ database_settings_id: null }), null);
+  });
+
+  it('returns 404 for missing queries', async () => {
+    vi.mocked(savedQueryService.get).mockResolvedValue(null);
+    vi.mocked(savedQueryService.update).mockResolvedValue(null);
+    vi.mocked(savedQueryService.remove).mockResolvedValue(false);
+    vi.mocked(savedQueryService.duplicate).mockResolvedValue(null);
+
+    for (const handler of [getSavedQuery, updateSavedQuery, deleteSavedQuery, duplicateSavedQuery]) {
+      const res = createMockRes();
+      await handler({ params: { id: '42' }, body: {} } as any as Request, res);
+      expect(res.status).toHaveBeenCalledWith(404);
+    }
+  });
+
+  it('rejects non-numeric ids', async () => {
+    const res = createMockRes();
+
+    await getSavedQuery({ params: { id: 'abc' } } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(savedQueryService.get).not.toHaveBeenCalled();
+  });
+
+  it('duplicates a query', async () => {
+    vi.mocked(savedQueryService.get).mockResolvedValue(saved);
+    vi.mocked(savedQueryService.duplicate).mockResolvedValue({ ...saved, id: 4, name: 'Late rentals (copy)' });
+    const res = createMockRes();
+
+    await duplicateSavedQuery({ params: { id: '3' }, user: otherAnalyst } as any as Request, res);
+
+    expect(savedQueryService.duplicate).toHaveBeenCalledWith(3, 6);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: expect.objectContaining({ id: 4 }) });
+  });
+
+  it('hides queries tied to connections the caller may not use', async () => {
+    vi.mocked(connectionService.visibleDatabaseIds).mockResolvedValue([7]);
+    vi.mocked(savedQueryService.get).mockResolvedValue(saved);
+
+    for (const handler of [getSavedQuery, updateSavedQuery, deleteSavedQuery, duplicateSavedQuery]) {
+      const res = createMockRes();
+      await handler({ params: { id: '3' }, body: {}, user: analyst } as any as Request, res);
+      expect(res.status).toHaveBeenCalledWith(404);
+    }
+    expect(savedQueryService.update).not.toHaveBeenCalled();
+    expect(savedQueryService.remove).not.toHaveBeenCalled();
+    expect(savedQueryService.duplicate).not.toHaveBeenCalled();
+  });
+
+  it('lets only the author or an admin change or delete a query', async () => {
+    vi.mocked(savedQueryService.get).mockResolvedValue(saved);
+    vi.mocked(savedQueryService.update).mockResolvedValue(saved);
+    vi.mocked(savedQueryService.remove).mockResolvedValue(true);
+
+    const denied = createMockRes();
+    await updateSavedQuery({ params: { id: '3' }, body: { name: 'Mine now' }, user: otherAnalyst } as any as Request, denied);
+    expect(denied.status).toHaveBeenCalledWith(403);
+    const deniedDelete = createMockRes();
+    await deleteSavedQuery({ params: { id: '3' }, user: otherAnalyst } as any as Request, deniedDelete);
+    expect(deniedDelete.status).toHaveBeenCalledWith(403);
+    expect(savedQueryService.update).not.toHaveBeenCalled();
+    expect(savedQueryService.remove).not.toHaveBeenCalled();
+
+    await updateSavedQuery({ params: { id: '3' }, body: { name: 'Renamed' }, user: analyst } as any as Request, createMockRes());
+    vi.mocked(connectionService.visibleDatabaseIds).mockResolvedValue(undefined);
+    await deleteSavedQuery({ params: { id: '3' }, user: admin } as any as Request, createMockRes());
+    expect(savedQueryService.update).toHaveBeenCalledWith(3, { name: 'Renamed' });
+    expect(savedQueryService.remove).toHaveBeenCalledWith(3);
+  });
+
+  it('rejects saving or moving a query to a connection the caller may not use', async () => {
+    vi.mocked(savedQueryService.get).mockResolvedValue(saved);
+
+    const created = createMockRes();
+    await createSavedQuery({ body: savedQuerySchema.parse({ name: 'x', sql: 'SELECT 1', database_settings_id: 9 }), user: analyst } as any as Request, created);
+    const moved = createMockRes();
+    await updateSavedQuery({ params: { id: '3' }, body: { database_settings_id: 9 }, user: analyst } as any as Request, moved);
+
+    expect(created.status).toHaveBeenCalledWith(403);
+    expect(moved.status).toHaveBeenCalledWith(403);
+    expect(savedQueryService.create).not.toHaveBeenCalled();
+    expect(savedQueryService.update).not.toHaveBeenCalled();
+  });
+});
@@ -16,11 +16,6 @@ vi.mock('mysql2/promise', () => {
 
 // Don't mock the controller functions - we want to test them
 
-// Mock index.ts functions
-vi.mock('../../../src/index', () => ({
-  recreateDestinationPool: vi.fn()
-}));
-
 // Mock sandbox utils
 vi.mock('../../../src/utils/sandbox', () => ({
   requireNonSandboxMode: vi.fn(),
@@ -34,19 +29,40 @@ vi.mock('../../../src/services/queryLogService', () => ({
   }
 }));
 
+// Mock the audit log
+vi.mock('../../../src/services/auditService', () => ({
+  auditService: {
+    record: vi.fn()
+  }
+}));
+
 // Mock the pools service
 vi.mock('../../../src/services/pools', () => ({
   getPool: vi.fn(),
   setPool: vi.fn(),
-  getDestinationPool: vi.fn(),
-  setDestinationPool: vi.fn()
+  getDestinationDriver: vi.fn(),
+  closeDestinationDrivers: vi.fn()
+}));
+
+// Mock the destination drivers (used for connection tests)
+vi.mock('../../../src/services/drivers', () => ({
+  createDriver: vi.fn()
 }));
 
 // Mock aiService
 vi.mock('../../../src/services/aiService', () => ({
   default: {
     enabled: false,
-    getProvider: vi.fn().mockReturnValue('anthropic')
+    getProvider: vi.fn().mockReturnValue('anthropic'),
+    setProvider: vi.fn(),
+    hasProvider: vi.fn((id: string) => ['anthropic', 'openai', 'openai-compatible'].includes(id)),
+    listProviders: vi.fn().mockReturnValue([
+      { id: 'anthropic', label: 'Anthropic Claude', enabled: false, model: 'claude-sonnet-4-20250514' },
+      { id: 'openai', label: 'OpenAI GPT', enabled: false, model: 'gpt-4-turbo-preview' },
+      { id: 'openai-compatible', label: 'OpenAI-compatible', enabled: true, model: 'llama3.1', baseURL: 'http://localhost:11434/v1' }
+    ]),
+    getConfig: vi.fn().mockReturnValue({ provider: 'anthropic' }),
+    getAvailableModels: vi.fn().mockResolvedValue(['model-a'])
   }
 }));
 import { 
@@ -65,8 +81,20 @@ import {
   getAllAISettings,
   getRules,
   getSchema,
-  switchDatabase
+  switchDatabase,
+  getQueryPolicy,
+  updateQueryPolicy,
+  getMaskingRules,
+  updateMaskingRules,
+  updateResultCacheSettings,
+  purgeResultCache,
+  getSchemaProfile,
+  startSchemaProfile,
+  getAIConfig,
+  getAIProviders,
+  updateAIProvider
 } from '../../../src/controllers/settingsController';
+import aiService from '../../../src/services/aiService';
 
 // Mock the services
 vi.mock('../../../src/services/rulesService', () => ({
@@ -76,6 +104,7 @@ vi.mock('../../../src/services/rulesService', () => ({
   upsertRulesToDatabase: vi.fn(),
   upsertSchemaToDatabase: vi.fn(),
   updateSchemaInDatabase: vi.fn(),
+  loadSchemaFromDatabase: vi.fn(),
   clearCachedRules: vi.fn()
 }));
 
@@ -90,7 +119,15 @@ vi.mock('../../../src/services/databaseSystemService', () => ({
     getDatabaseConfigs: vi.fn(),
     getAISettings: vi.fn(),
     getDatabaseSchema: vi.fn(),
-    switchDefaultDatabase: vi.fn()
+    switchDefaultDatabase: vi.fn(),
+    getQueryPolicy: vi.fn(),
+    updateQueryPolicy: vi.fn(),
+    getMaskingRules: vi.fn(),
+    updateMaskingRules: vi.fn(),
+    getResultCacheTtl: vi.fn(),
+    updateResultCacheTtl: vi.fn(),
+    getDatabaseConfig: vi.fn(),
+    getSchemaProfile: vi.fn()
   },
   databaseService: {
     getDefaultDatabaseConfig: vi.fn(),
@@ -105,6 +142,20 @@ vi.mock('../../../src/services/databaseSystemService', () => ({
   }
 }));
 
+vi.mock('../../../src/services/generationCacheService', () => ({
+  generationCacheService: {
+    invalidate: vi.fn().mockResolvedValue(0)
+  }
+}));
+
+vi.mock('../../../src/services/profilingService', () => ({
+  __esModule: true,
+  default: {
+    start: vi.fn(),
+    status: vi.fn()
+  }
+}));
+
 vi.mock('../../../src/services/openaiService', () => ({
   __esModule: true,
   default: {
@@ -123,6 +174,12 @@ vi.mock('openai', () => ({
 import { getCachedRules, upsertRulesToFile, loadRulesFromDatabase, upsertRulesToDatabase, upsertSchemaToDatabase, updateSchemaInDatabase, clearCachedRules } from '../../../src/services/rulesService';
 import databaseService from '../../../src/services/databaseSystemService';
 import openaiService from '../../../src/services/openaiService';
+import profilingService from '../../../src/services/profilingService';
+import { createDriver } from '../../../src/services/drivers';
+import { closeDestinationDrivers } from '../../../src/services/pools';
+import { auditService } from '../../../src/services/auditService';
+import { resultCacheService } from '../../../src/services/resultCacheService';
+import { generationCacheService } from '../../../src/services/generationCacheService';
 
 const createMockRes = () => {
   const res = {
@@ -175,6 +232,7 @@ const mockAIConfig = {
 describe('settingsController', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(databaseService.getDatabaseConfigs).mockResolvedValue([]);
   });
 
   describe('getSettings', () => {
@@ -214,6 +272,7 @@ describe('settingsController', () => {
         rules: mockRules,
         database: {
           name: 'Default',
+          dialect: 'mysql',
           host: 'localhost',
           port: 3306,
           database_name: 'sakila',
@@ -343,6 +402,7 @@ describe('settingsController', () => {
       
       expect(databaseService.upsertDatabaseConfig).toHaveBeenCalledWith({
         name: 'New DB',
+        dialect: 'mysql',
         host: 'newhost.com',
         port: 3306,
         database_name: 'newdb',
@@ -352,6 +412,7 @@ describe('settingsController', () => {
         is_active: true,
         is_default: true
       });
+      expect(closeDestinationDrivers).toHaveBeenCalled();
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         message: 'Database configuration updated successfully'
@@ -375,6 +436,7 @@ describe('settingsController', () => {
       
       expect(databaseService.upsertDatabaseConfig).toHaveBeenCalledWith({
         name: 'Custom Configuration',
+        dialect: 'mysql',
         host: 'localhost',
         port: 3306,
         database_name: 'testdb',
@@ -422,18 +484,11 @@ describe('settingsController', () => {
 
   describe('testDatabase', () => {
     it('should successfully test database connection', async () => {
-      const mockConnection = {
+      const mockDriver = {
         ping: vi.fn().mockResolvedValue(undefined),
-        release: vi.fn()
+        close: vi.fn().mockResolvedValue(undefined)
       };
-      const mockPool = {
-        getConnection: vi.fn().mockResolvedValue(mockConnection),
-        end: vi.fn().mockResolvedValue(undefined)
-      };
-      
-      vi.doMock('mysql2/promise', () => ({
-        createPool: vi.fn().mockReturnValue(mockPool)
-      }));
+      vi.mocked(createDriver).mockReturnValue(mockDriver as any);
       
       const req = {
         body: {
@@ -449,22 +504,20 @@ describe('settingsController', () => {
       
       await testDatabase(req, res);
       
+      expect(createDriver).toHaveBeenCalledWith(expect.objectContaining({ dialect: 'mysql', host: 'localhost', database_name: 'testdb' }), 1);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         message: 'Database connection successful'
       });
-      expect(mockPool.end).toHaveBeenCalled();
+      expect(mockDriver.close).toHaveBeenCalled();
     });
 
     it('should handle connection failure', async () => {
-      const mockPool = {
-        getConnection: vi.fn().mockRejectedValue(new Error('Connection failed')),
-        end: vi.fn().mockResolvedValue(undefined)
+      const mockDriver = {
+        ping: vi.fn().mockRejectedValue(new Error('Connection failed')),
+        close: vi.fn().mockResolvedValue(undefined)
       };
-      
-      vi.doMock('mysql2/promise', () => ({
-        createPool: vi.fn().mockReturnValue(mockPool)
-      }));
+      vi.mocked(createDriver).mockReturnValue(mockDriver as any);
       
       const req = {
         body: {
@@ -484,11 +537,30 @@ describe('settingsController', () => {
         success: false,
         error: 'Connection failed: Connection failed'
       });
+      expect(mockDriver.close).toHaveBeenCalled();
+    });
+
+    it('should test other dialects with their default port', async () => {
+      const mockDriver = {
+        ping: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      vi.mocked(createDriver).mockReturnValue(mockDriver as any);
+
+      const req = {
+        body: { dialect: 'postgres', host: 'localhost', database: 'testdb', username: 'testuser' }
+      } as Request;
+      const res = createMockRes();
+
+      await testDatabase(req, res);
+
+      expect(createDriver).toHaveBeenCalledWith(expect.objectContaining({ dialect: 'postgres', port: 5432 }), 1);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
     });
 
     it('should return 500 error for unexpected errors', async () => {
-      vi.doMock('mysql2/promise', () => {
-        throw new Error('Module load error');
+      vi.mocked(createDriver).mockImplementation(() => {
+        throw new Error('Driver load error');
       });
       
       const req = {
@@ -627,6 +699,53 @@ describe('settingsController', () => {
     });
   });
 
+  describe('AI providers', () => {
+    it('should list the registered providers', async () => {
+      const res = createMockRes();
+
+      await getAIProviders({} as Request, res);
+
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, current: 'anthropic' }));
+      const { data } = vi.mocked(res.json).mock.calls[0][0];
+      expect(data.map((p: { id: string }) => p.id)).toEqual(['anthropic', 'openai', 'openai-compatible']);
+    });
+
+    it('should include models for every provider in the AI config', async () => {
+      const res = createMockRes();
+
+      await getAIConfig({} as Request, res);
+
+      const { data } = vi.mocked(res.json).mock.calls[0][0];
+      expect(data.available_models).toEqual({
+        anthropic: ['model-a'],
+        openai: ['model-a'],
+        'openai-compatible': ['model-a']
+      });
+      expect(data.providers).toHaveLength(3);
+    });
+
+    it('should switch to any registered provider', async () => {
+      const req = { body: { provider: 'openai-compatible' } } as any as Request;
+      const res = createMockRes();
+
+      await updateAIProvider(req, res);
+
+      expect(aiService.setProvider).toHaveBeenCalledWith('openai-compatible');
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should reject unknown providers', async () => {
+      const req = { body: { provider: 'gemini' } } as any as Request;
+      const res = createMockRes();
+
+      await updateAIProvider(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Valid provider is required (anthropic, openai, openai-compatible)' });
+      expect(aiService.setProvider).not.toHaveBeenCalled();
+    });
+  });
+
   describe('testAI', () => {
     it('should successfully test AI connection', async () => {
       const mockOpenAI = {
@@ -737,6 +856,7 @@ describe('settingsController', () => {
         
         expect(databaseService.upsertDatabaseConfig).toHaveBeenCalledWith({
           name: 'New DB',
+          dialect: 'mysql',
           host: 'localhost',
           port: 3306,
           database_name: 'newdb',
@@ -751,6 +871,34 @@ describe('settingsController', () => {
           message: 'Database configuration created successfully'
         });
       });
+
+      it('should only require a file name for SQLite', async () => {
+        vi.mocked(databaseService.upsertDatabaseConfig).mockResolvedValue(1);
+
+        const req = { body: { name: 'Local', dialect: 'sqlite', database_name: 'chinook.db' } } as Request;
+        const res = createMockRes();
+
+        await createDatabase(req, res);
+
+        expect(databaseService.upsertDatabaseConfig).toHaveBeenCalledWith(expect.objectContaining({
+          dialect: 'sqlite',
+          database_name: 'chinook.db',
+          host: '',
+          port: 0,
+          username: ''
+        }));
+      });
+
+      it('should reject unsupported dialects', async () => {
+        const req = { body: { dialect: 'oracle', host: 'localhost', port: '1521', database_name: 'x', username: 'u' } } as Request;
+        const res = createMockRes();
+
+        await createDatabase(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Unsupported database dialect: oracle' });
+        expect(databaseService.upsertDatabaseConfig).not.toHaveBeenCalled();
+      });
     });
 
     describe('getAllDatabases', () => {
@@ -827,6 +975,16 @@ describe('settingsController', () => {
         });
       });
 
+      it('should drop the generations cached for the default database', async () => {
+        vi.mocked(upsertSchemaToDatabase).mockResolvedValue();
+        vi.mocked(databaseService.getDefaultDatabaseConfig).mockResolvedValue({ id: 3 } as any);
+
+        const req = { body: { schema: mockRules.schema } } as Request;
+        await createSchema(req, createMockRes());
+
+        expect(generationCacheService.invalidate).toHaveBeenCalledWith(3);
+      });
+
       it('should return 400 when schema is missing', async () => {
         const req = { body: {} } as Request;
         const res = createMockRes();
@@ -869,5 +1027,209 @@ describe('settingsController', () => {
         expect(res.json).toHaveBeenCalledWith({ error: 'Valid database ID is required' });
       });
     });
+
+    describe('query policy', () => {
+      it('should return the stored policy for a database', async () => {
+        const policy = { deniedTables: ['payment'], maxLimit: 100 };
+        vi.mocked(databaseService.getQueryPolicy).mockResolvedValue(policy);
+
+        const req = { params: { databaseId: '3' } } as any as Request;
+        const res = createMockRes();
+
+        await getQueryPolicy(req, res);
+
+        expect(databaseService.getQueryPolicy).toHaveBeenCalledWith(3);
+        expect(res.json).toHaveBeenCalledWith({ success: true, data: policy });
+      });
+
+      it('should save a valid policy', async () => {
+        vi.mocked(databaseService.updateQueryPolicy).mockResolvedValue(true);
+        const policy = { deniedColumns: ['customer.email'], maxJoinDepth: 3 };
+
+        const req = { params: { databaseId: '1' }, body: { policy } } as any as Request;
+        const res = createMockRes();
+
+        await updateQueryPolicy(req, res);
+
+        expect(databaseService.updateQueryPolicy).toHaveBeenCalledWith(1, policy);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: policy }));
+      });
+
+      it('should record the policy change in the audit log', async () => {
+        vi.mocked(databaseService.getQueryPolicy).mockResolvedValue({ maxLimit: 100 });
+        vi.mocked(databaseService.updateQueryPolicy).mockResolvedValue(true);
+        const user = { id: 1, username: 'root', role: 'admin' };
+
+        const req = { params: { databaseId: '1' }, body: { policy: { maxLimit: 50 } }, user, ip: '10.0.0.1' } as any as Request;
+        await updateQueryPolicy(req, createMockRes());
+
+        expect(auditService.record).toHaveBeenCalledWith(user, '10.0.0.1', {
+          action: 'update', entity_type: 'query_policy', entity_id: 1, before: { maxLimit: 100 }, after: { maxLimit: 50 }
+        });
+      });
+
+      it('should reject a malformed policy', async () => {
+        const req = { params: { databaseId: '1' }, body: { policy: { maxLimit: -5 } } } as any as Request;
+        const res = createMockRes();
+
+        await updateQueryPolicy(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid query policy' }));
+        expect(databaseService.updateQueryPolicy).not.toHaveBeenCalled();
+      });
+
+      it('should return 404 when the database does not exist', async () => {
+        vi.mocked(databaseService.updateQueryPolicy).mockResolvedValue(false);
+
+        const req = { params: { databaseId: '99' }, body: { policy: null } } as any as Request;
+        const res = createMockRes();
+
+        await updateQueryPolicy(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+      });
+    });
+
+    describe('masking rules', () => {
+      it('should return the stored rules for a database', async () => {
+        const rules = [{ column: 'customer.email', strategy: 'partial' as const }];
+        vi.mocked(databaseService.getMaskingRules).mockResolvedValue(rules);
+
+        const req = { params: { databaseId: '2' } } as any as Request;
+        const res = createMockRes();
+
+        await getMaskingRules(req, res);
+
+        expect(databaseService.getMaskingRules).toHaveBeenCalledWith(2);
+        expect(res.json).toHaveBeenCalledWith({ success: true, data: rules });
+      });
+
+      it('should save valid rules', async () => {
+        vi.mocked(databaseService.updateMaskingRules).mockResolvedValue(true);
+        const rules = [{ pattern: 'phone|ssn', strategy: 'redact' }];
+
+        const req = { params: { databaseId: '1' }, body: { rules } } as any as Request;
+        const res = createMockRes();
+
+        await updateMaskingRules(req, res);
+
+        expect(databaseService.updateMaskingRules).toHaveBeenCalledWith(1, rules);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: rules }));
+      });
+
+      it('should reject rules without exactly one target', async () => {
+        const req = { params: { databaseId: '1' }, body: { rules: [{ column: 'email', pattern: 'mail', strategy: 'hash' }] } } as any as Request;
+        const res = createMockRes();
+
+        await updateMaskingRules(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid masking rules' }));
+        expect(databaseService.updateMaskingRules).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('result cache', () => {
+      const cacheKey = (databaseId: number) => ({ databaseId, sql: 'SELECT 1', params: [], withCount: false });
+
+      beforeEach(() => {
+        resultCacheService.invalidate();
+        resultCacheService.set(cacheKey(1), { rows: [], fields: [], totalRows: null }, 60);
+        resultCacheService.set(cacheKey(2), { rows: [], fields: [], totalRows: null }, 60);
+      });
+
+      it('should save the TTL and drop the results cached under the old one', async () => {
+        vi.mocked(databaseService.getResultCacheTtl).mockResolvedValue(null);
+        vi.mocked(databaseService.updateResultCacheTtl).mockResolvedValue(true);
+        const user = { id: 1, username: 'root', role: 'admin' };
+
+        const req = { params: { databaseId: '1' }, body: { ttlSeconds: 300 }, user, ip: '10.0.0.1' } as any as Request;
+        const res = createMockRes();
+        await updateResultCacheSettings(req, res);
+
+        expect(databaseService.updateResultCacheTtl).toHaveBeenCalledWith(1, 300);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: { ttlSeconds: 300 } }));
+        expect(resultCacheService.get(cacheKey(1))).toBeNull();
+        expect(resultCacheService.get(cacheKey(2))).not.toBeNull();
+        expect(auditService.record).toHaveBeenCalledWith(user, '10.0.0.1', {
+          action: 'update', entity_type: 'result_cache', entity_id: 1, before: { ttlSeconds: null }, after: { ttlSeconds: 300 }
+        });
+      });
+
+      it('should reject a TTL that is not a positive number of seconds', async () => {
+        const req = { params: { databaseId: '1' }, body: { ttlSeconds: 0 } } as any as Request;
+        const res = createMockRes();
+
+        await updateResultCacheSettings(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid result cache settings' }));
+        expect(databaseService.updateResultCacheTtl).not.toHaveBeenCalled();
+      });
+
+      it('should purge one connection or the whole cache', async () => {
+        const res = createMockRes();
+        await purgeResultCache({ query: { databaseId: '2' } } as any as Request, res);
+        expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Result cache purged', data: { removed: 1 } });
+        expect(resultCacheService.get(cacheKey(1))).not.toBeNull();
+
+        const allRes = createMockRes();
+        await purgeResultCache({ query: {} } as any as Request, allRes);
+        expect(allRes.json).toHaveBeenCalledWith(expect.objectContaining({ data: { removed: 1 } }));
+        expect(resultCacheService.stats().entries).toBe(0);
+      });
+
+      it('should drop the cached results of both connections when the default is switched', async () => {
+        vi.mocked(databaseService.getDefaultDatabaseConfig).mockResolvedValue({ id: 1, name: 'Sakila' } as any);
+        vi.mocked(databaseService.switchDefaultDatabase).mockResolvedValue(true);
+
+        await switchDatabase({ params: { databaseId: '2' } } as any as Request, createMockRes());
+
+        expect(resultCacheService.stats().entries).toBe(0);
+      });
+    });
+
+    describe('schema profile', () => {
+      it('should return the stored profile with the run status', async () => {
+        const profile = { generatedAt: '2026-10-19T00:00:00.000Z', tables: {} };
+        vi.mocked(databaseService.getSchemaProfile).mockResolvedValue(profile);
+        vi.mocked(profilingService.status).mockReturnValue({ running: false, error: 'Access denied' });
+
+        const req = { params: { databaseId: '3' } } as any as Request;
+        const res = createMockRes();
+
+        await getSchemaProfile(req, res);
+
+        expect(databaseService.getSchemaProfile).toHaveBeenCalledWith(3);
+        expect(res.json).toHaveBeenCalledWith({ success: true, data: profile, running: false, error: 'Access denied' });
+      });
+
+      it('should start profiling in the background', async () => {
+        vi.mocked(databaseService.getDatabaseConfig).mockResolvedValue({ id: 3 } as any);
+        vi.mocked(profilingService.start).mockReturnValue(true);
+
+        const req = { params: { databaseId: '3' } } as any as Request;
+        const res = createMockRes();
+
+        await startSchemaProfile(req, res);
+
+        expect(profilingService.start).toHaveBeenCalledWith(3);
+        expect(res.status).toHaveBeenCalledWith(202);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, running: true }));
+      });
+
+      it('should return 404 for an unknown database', async () => {
+        vi.mocked(databaseService.getDatabaseConfig).mockResolvedValue(null);
+
+        const req = { params: { databaseId: '9' } } as any as Request;
+        const res = createMockRes();
+
+        await startSchemaProfile(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(profilingService.start).not.toHaveBeenCalled();
+      });
+    });
   });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/teamService', () => ({
+  teamService: {
+    list: vi.fn(),
+    get: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    remove: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/auditService', () => ({
+  auditService: {
+    record: vi.fn()
+  }
+}));
+
+import { createTeam, deleteTeam, updateTeam } from '../../../src/controllers/teamController';
+import { teamService } from '../../../src/services/teamService';
+import { auditService } from '../../../src/services/auditService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+describe('teamController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates teams and reports duplicate names and unknown links', async () => {
+    vi.mocked(teamService.create)
+      .mockResolvedValueOnce({ id: 1, name: 'Analytics' } as any)
+      .mockRejectedValueOnce(Object.assign(new Error('dup'), { code: 'ER_DUP_ENTRY' }))
+      .mockRejectedValueOnce(Object.assign(new Error('fk'), { code: 'ER_NO_REFERENCED_ROW_2' }));
+    const body = { name: 'Analytics', member_ids: [2], database_ids: [1] };
+
+    const created = createMockRes();
+    await createTeam({ body } as Request, created);
+    expect(created.status).toHaveBeenCalledWith(201);
+    expect(auditService.record).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(auditService.record).mock.calls[0][2]).toMatchObject({ action: 'create', entity_type: 'team', entity_id: 1 });
+
+    const duplicate = createMockRes();
+    await createTeam({ body } as Request, duplicate);
+    expect(duplicate.status).toHaveBeenCalledWith(409);
+
+    const unknown = createMockRes();
+    await createTeam({ body } as Request, unknown);
+    expect(unknown.status).toHaveBeenCalledWith(400);
+  });
+
+  it('returns 404 for unknown teams', async () => {
+    vi.mocked(teamService.update).mockResolvedValue(null);
+    vi.mocked(teamService.remove).mockResolvedValue(false);
+
+    const updated = createMockRes();
+    await updateTeam({ params: { id: '8' }, body: { name: 'x' } } as any as Request, updated);
+    expect(updated.status).toHaveBeenCalledWith(404);
+
+    const deleted = createMockRes();
+    await deleteTeam({ params: { id: '8' } } as any as Request, deleted);
+    expect(deleted.status).toHaveBeenCalledWith(404);
+  });
+
+  it('records deletions with the team as it was', async () => {
+    const team = { id: 3, name: 'Finance', member_ids: [2], database_ids: [1] };
+    vi.mocked(teamService.get).mockResolvedValue(team as any);
+    vi.mocked(teamService.remove).mockResolvedValue(true);
+    const user = { id: 1, username: 'root', role: 'admin' };
+
+    const res = createMockRes();
+    await deleteTeam({ params: { id: '3' }, user, ip: '10.0.0.1' } as any as Request, res);
+
+    expect(auditService.record).toHaveBeenCalledWith(user, '10.0.0.1', {
+      action: 'delete', entity_type: 'team', entity_id: 3, before: team, after: null
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/usageService', () => ({
+  usageService: {
+    range: vi.fn((filter: { from?: Date; to?: Date }) => ({
+      from: filter.from ?? new Date('2026-09-19T00:00:00Z'),
+      to: filter.to ?? new Date('2026-10-19T00:00:00Z')
+    })),
+    report: vi.fn(),
+    budgets: vi.fn(),
+    setBudget: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/auditService', () => ({
+  auditService: {
+    record: vi.fn()
+  }
+}));
+
+import { getUsage, updateBudget } from '../../../src/controllers/usageController';
+import { usageService } from '../../../src/services/usageService';
+import { auditService } from '../../../src/services/auditService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const budgets = (globalLimit: number | null) => ({
+  month: '2026-10',
+  global: { limit: globalLimit, spent: 3.2, exceeded: false },
+  databases: [{ databaseId: 2, databaseName: 'Sakila', limit: 1, spent: 1.5, exceeded: true }]
+});
+
+describe('usageController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports usage for the requested range and connection', async () => {
+    vi.mocked(usageService.report).mockResolvedValue({ totals: { generations: 0 } } as any);
+    const res = createMockRes();
+
+    await getUsage({ query: { from: '2026-10-01', databaseId: '2' } } as any as Request, res);
+
+    expect(usageService.report).toHaveBeenCalledWith(expect.objectContaining({ from: new Date('2026-10-01'), databaseId: 2 }));
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, from: '2026-10-01T00:00:00.000Z' }));
+  });
+
+  it('rejects invalid filters', async () => {
+    const res = createMockRes();
+
+    await getUsage({ query: { limit: '500' } } as any as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(usageService.report).not.toHaveBeenCalled();
+  });
+
+  it('sets a connection budget and audits the change', async () => {
+    vi.mocked(usageService.budgets).mockResolvedValue(budgets(null));
+    vi.mocked(usageService.setBudget).mockResolvedValue(true);
+    const user = { id: 1, username: 'root', role: 'admin' };
+    const res = createMockRes();
+
+    await updateBudget({ body: { databaseId: 2, monthlyLimit: 2.5 }, user, ip: '10.0.0.1' } as any as Request, res);
+
+    expect(usageService.setBudget).toHaveBeenCalledWith(2, 2.5);
+    expect(auditService.record).toHaveBeenCalledWith(user, '10.0.0.1', {
+      action: 'update', entity_type: 'usage_budget', entity_id: 2, before: { monthlyLimit: 1 }, after: { monthlyLimit: 2.5 }
+    });
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+
+  it('answers 404 for an unknown connection and 400 for a negative limit', async () => {
+    vi.mocked(usageService.budgets).mockResolvedValue(budgets(null));
+    vi.mocked(usageService.setBudget).mockResolvedValue(false);
+    const res = createMockRes();
+    await updateBudget({ body: { databaseId: 99, monthlyLimit: 5 } } as any as Request, res);
+    expect(res.status).toHaveBeenCalledWith(404);
+
+    const invalid = createMockRes();
+    await updateBudget({ body: { monthlyLimit: -1 } } as any as Request, invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+});
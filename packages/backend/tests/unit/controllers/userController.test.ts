@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/userService', () => ({
+  userService: {
+    list: vi.fn(),
+    get: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/services/auditService', () => ({
+  auditService: {
+    record: vi.fn()
+  }
+}));
+
+import { createUser, updateUser } from '../../../src/controllers/userController';
+import { userService } from '../../../src/services/userService';
+import { auditService } from '../../../src/services/auditService';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const admin = { id: 1, username: 'root', role: 'admin' as const };
+
+describe('userController', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stops admins from demoting or disabling themselves', async () => {
+    for (const body of [{ role: 'viewer' }, { is_active: false }]) {
+      const res = createMockRes();
+      await updateUser({ params: { id: '1' }, body, user: admin } as any as Request, res);
+      expect(res.status).toHaveBeenCalledWith(400);
+    }
+    expect(userService.update).not.toHaveBeenCalled();
+  });
+
+  it('updates other users and returns 404 for unknown ones', async () => {
+    vi.mocked(userService.update).mockResolvedValueOnce({ id: 2, role: 'viewer' } as any).mockResolvedValueOnce(null);
+
+    const res = createMockRes();
+    await updateUser({ params: { id: '2' }, body: { role: 'viewer' }, user: admin } as any as Request, res);
+    expect(userService.update).toHaveBeenCalledWith(2, { role: 'viewer' });
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: { id: 2, role: 'viewer' } });
+
+    const missing = createMockRes();
+    await updateUser({ params: { id: '99' }, body: { role: 'viewer' }, user: admin } as any as Request, missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+
+  it('records password resets without the password', async () => {
+    vi.mocked(userService.get).mockResolvedValue({ id: 2, role: 'viewer', has_password: true } as any);
+    vi.mocked(userService.update).mockResolvedValue({ id: 2, role: 'viewer', has_password: true } as any);
+
+    const res = createMockRes();
+    await updateUser({ params: { id: '2' }, body: { password: 'new-password' }, user: admin } as any as Request, res);
+
+    const change = vi.mocked(auditService.record).mock.calls[0][2];
+    expect(change).toMatchObject({ action: 'update', entity_type: 'user', entity_id: 2 });
+    expect(change.after).toMatchObject({ password: 'new-password' });
+  });
+
+  it('reports taken usernames as a conflict', async () => {
+    vi.mocked(userService.create).mockRejectedValueOnce(Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }));
+
+    const res = createMockRes();
+    await createUser({ body: { username: 'ana', password: 'long-enough', role: 'viewer' } } as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+});
@@ -1,10 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Request, Response } from 'express';
-import { validateQuery } from '../../../src/controllers/validationController';
+import { cancelQuery, validateQuery } from '../../../src/controllers/validationController';
+import { QueryCancelledError } from '../../../src/services/drivers/types';
+import { conversationKey, conversationService } from '../../../src/services/conversationService';
+import { resultCacheService } from '../../../src/services/resultCacheService';
 
 // Mock the pools service
 vi.mock('../../../src/services/pools', () => ({
-  getDestinationPool: vi.fn()
+  getDestinationDriver: vi.fn()
+}));
+
+vi.mock('../../../src/services/connectionService', () => ({
+  NO_DATABASE_ACCESS: 'No database connection is available to you.',
+  connectionService: {
+    getActiveDatabase: vi.fn()
+  }
 }));
 
 // Mock queryLogService
@@ -14,36 +24,46 @@ vi.mock('../../../src/services/queryLogService', () => ({
   }
 }));
 
-import { getDestinationPool } from '../../../src/services/pools';
+// Mock the settings database (query policy, masking rule and result cache lookups)
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: {
+    getQueryPolicy: vi.fn().mockResolvedValue(null),
+    getMaskingRules: vi.fn().mockResolvedValue([]),
+    getResultCacheTtl: vi.fn().mockResolvedValue(null)
+  }
+}));
+
+import { getDestinationDriver } from '../../../src/services/pools';
+import { connectionService } from '../../../src/services/connectionService';
+import { databaseService } from '../../../src/services/databaseSystemService';
 
 const createMockRes = () => {
   const res = {
     status: vi.fn().mockReturnThis(),
-    json: vi.fn().mockReturnThis()
+    json: vi.fn().mockReturnThis(),
+    on: vi.fn()
   } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
   return res;
 };
 
-const createMockRequest = (sql: string, execute: boolean = true): Request => ({
-  body: { sql, execute },
+const createMockRequest = (sql: string, execute: boolean = true, extra: Record<string, unknown> = {}): Request => ({
+  body: { sql, execute, ...extra },
   headers: { 'x-session-id': 'test-session' },
   ip: '127.0.0.1',
   socket: { remoteAddress: '127.0.0.1' }
 } as any as Request);
 
-const createMockPool = (shouldFailExplain = false, shouldFailExecution = false, syntaxError = false) => ({
-  getConnection: vi.fn().mockResolvedValue({
-    query: vi.fn().mockImplementation((query: string) => {
-      if (query.startsWith('EXPLAIN') && shouldFailExplain) {
-        const error = new Error('Table does not exist');
-        (error as any).code = 'ER_NO_SUCH_TABLE';
-        throw error;
-      }
-      return Promise.resolve();
-    }),
-    release: vi.fn()
+const createMockDriver = (shouldFailExplain = false, shouldFailExecution = false, syntaxError = false) => ({
+  dialect: 'mysql',
+  explain: vi.fn().mockImplementation(() => {
+    if (shouldFailExplain) {
+      const error = new Error('Table does not exist');
+      (error as any).code = 'ER_NO_SUCH_TABLE';
+      throw error;
+    }
+    return Promise.resolve();
   }),
-  execute: vi.fn().mockImplementation(() => {
+  run: vi.fn().mockImplementation(() => {
     if (shouldFailExecution) {
       if (syntaxError) {
         const error = new Error('You have an error in your SQL syntax');
@@ -57,16 +77,20 @@ const createMockPool = (shouldFailExplain = false, shouldFailExecution = false,
         throw error;
       }
     }
-    return Promise.resolve([[
-      { id: 1, name: 'John', email: 'john@example.com' },
-      { id: 2, name: 'Jane', email: 'jane@example.com' }
-    ]]);
+    return Promise.resolve({
+      rows: [
+        { id: 1, name: 'John', email: 'john@example.com' },
+        { id: 2, name: 'Jane', email: 'jane@example.com' }
+      ],
+      fields: []
+    });
   })
 });
 
 describe('validationController', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(connectionService.getActiveDatabase).mockResolvedValue({ id: 2, name: 'Sakila' } as any);
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2023-01-01T12:00:00Z'));
   });
@@ -77,8 +101,8 @@ describe('validationController', () => {
 
   describe('validateQuery', () => {
     it('should validate and execute a successful query', async () => {
-      const mockPool = createMockPool();
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
       const req = createMockRequest('SELECT * FROM users', true);
       const res = createMockRes();
@@ -92,68 +116,101 @@ describe('validationController', () => {
       expect(res.json).toHaveBeenCalledWith({
         isValid: true,
         syntaxValid: true,
+        runId: expect.any(String),
         results: expectedData,
         data: expectedData, // Now includes data field for backwards compatibility
         rowCount: 2,
+        maskedColumns: [],
         executionTime: expect.stringMatching(/\d+ms/),
-        limited: true
+        limited: false
       });
       expect(res.status).not.toHaveBeenCalled();
     });
 
-    it('should add LIMIT clause when not present', async () => {
-      const mockPool = createMockPool();
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+    it('should record the result shape on the session conversation', async () => {
+      vi.mocked(getDestinationDriver).mockReturnValue(createMockDriver() as any);
+      const thread = conversationKey(undefined, 'test-session');
+      conversationService.addTurn(thread, { prompt: 'all users', sql: 'SELECT * FROM users LIMIT 5' });
+
+      await validateQuery(createMockRequest('SELECT * FROM users'), createMockRes());
+
+      const [turn] = conversationService.getTurns(thread);
+      expect(turn.sql).toBe('SELECT * FROM users');
+      expect(turn.result).toEqual({ rowCount: 2, columns: ['id', 'name', 'email'] });
+      conversationService.clear(thread);
+    });
+
+    it('should fetch the first page through the paging wrapper', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
       const req = createMockRequest('SELECT * FROM users', true);
       const res = createMockRes();
       
       await validateQuery(req, res);
       
-      // Verify LIMIT was added
-      expect(mockPool.execute).toHaveBeenCalledWith('SELECT * FROM users LIMIT 50');
+      expect(mockDriver.run).toHaveBeenCalledWith('SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users\n) AS preview_rows\nLIMIT 50 OFFSET 0', { timeoutMs: 30000, signal: expect.any(AbortSignal) });
       expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
-        limited: true
+        limited: false
       }));
     });
 
-    it('should not add LIMIT clause when already present', async () => {
-      const mockPool = createMockPool();
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+    it('should report the preview as limited when a full page comes back', async () => {
+      const mockDriver = createMockDriver();
+      mockDriver.run.mockResolvedValue({ rows: Array.from({ length: 50 }, (_, id) => ({ id })), fields: [{ name: 'id' }] });
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
-      const req = createMockRequest('SELECT * FROM users LIMIT 10', true);
       const res = createMockRes();
+      await validateQuery(createMockRequest('SELECT id FROM users', true), res);
       
-      await validateQuery(req, res);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ rowCount: 50, limited: true }));
+    });
+
+    it('should keep the row cap when a comment or literal mentions LIMIT', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
-      // Verify LIMIT was not added again
-      expect(mockPool.execute).toHaveBeenCalledWith('SELECT * FROM users LIMIT 10');
-      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
-        limited: false
-      }));
+      await validateQuery(createMockRequest('SELECT * FROM users -- all LIMIT 10', true), createMockRes());
+      await validateQuery(createMockRequest("SELECT * FROM users WHERE name <> 'limit'", true), createMockRes());
+      
+      expect(mockDriver.run).toHaveBeenNthCalledWith(1, 'SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users -- all LIMIT 10\n) AS preview_rows\nLIMIT 50 OFFSET 0', expect.anything());
+      expect(mockDriver.run).toHaveBeenNthCalledWith(2, "SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users WHERE name <> 'limit'\n) AS preview_rows\nLIMIT 50 OFFSET 0", expect.anything());
     });
 
-    it('should return 503 when database is not configured', async () => {
-      vi.mocked(getDestinationPool).mockReturnValue(null);
+    it('should return 403 when the caller has no database connection', async () => {
+      vi.mocked(connectionService.getActiveDatabase).mockResolvedValue(null);
       
       const req = createMockRequest('SELECT * FROM users', true);
       const res = createMockRes();
       
       await validateQuery(req, res);
       
-      expect(res.status).toHaveBeenCalledWith(503);
+      expect(res.status).toHaveBeenCalledWith(403);
       expect(res.json).toHaveBeenCalledWith({
         isValid: false,
-        error: 'Database not configured. Please set DATABASE_URL environment variable.',
+        error: 'No database connection is available to you.',
         syntaxValid: true
       });
+      expect(getDestinationDriver).not.toHaveBeenCalled();
+    });
+
+    it('should run the query on the caller\'s active connection', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      await validateQuery(createMockRequest('SELECT * FROM users'), createMockRes());
+
+      expect(connectionService.getActiveDatabase).toHaveBeenCalledWith(undefined, 'test-session');
+      expect(getDestinationDriver).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }));
+      expect(databaseService.getQueryPolicy).toHaveBeenCalledWith(2);
+      expect(databaseService.getMaskingRules).toHaveBeenCalledWith(2);
     });
 
     it('should return 400 for syntax errors', async () => {
-      const mockPool = createMockPool(false, true, true);
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+      const mockDriver = createMockDriver(false, true, true);
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
-      const req = createMockRequest('SELEC * FROM users', true);
+      const req = createMockRequest('SELECT * FROM users', true);
       const res = createMockRes();
       
       await validateQuery(req, res);
@@ -162,6 +219,7 @@ describe('validationController', () => {
       expect(res.json).toHaveBeenCalledWith({
         isValid: false,
         syntaxValid: false,
+        runId: expect.any(String),
         error: 'You have an error in your SQL syntax',
         errorCode: 'ER_PARSE_ERROR',
         sqlState: '42000',
@@ -169,9 +227,201 @@ describe('validationController', () => {
       });
     });
 
+    it('should reject unparseable SQL before it reaches the database', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('SELEC * FROM users', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        isValid: false,
+        syntaxValid: false,
+        violations: [expect.objectContaining({ code: 'PARSE_ERROR', position: expect.objectContaining({ line: 1, column: 7 }) })]
+      }));
+      expect(mockDriver.explain).not.toHaveBeenCalled();
+    });
+
+    it('should reject write statements even when execute is false', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('DELETE FROM users', false);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        isValid: false,
+        error: 'Only SELECT queries are allowed (found DELETE)',
+        violations: [expect.objectContaining({ code: 'STATEMENT_NOT_ALLOWED' })]
+      }));
+      expect(mockDriver.run).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the active query policy', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+      vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ deniedColumns: ['users.email'] });
+
+      const req = createMockRequest('SELECT id, email FROM users', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        isValid: false,
+        violations: [expect.objectContaining({ code: 'COLUMN_NOT_ALLOWED', message: 'Column email is not allowed by the query policy' })]
+      }));
+      expect(mockDriver.run).not.toHaveBeenCalled();
+    });
+
+    it('should cap the preview page to the policy maximum', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+      vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ maxLimit: 25 });
+
+      const req = createMockRequest('SELECT * FROM users', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(mockDriver.run).toHaveBeenCalledWith('SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users\n) AS preview_rows\nLIMIT 25 OFFSET 0', { timeoutMs: 30000, signal: expect.any(AbortSignal) });
+    });
+
+    it('should mask columns matched by the masking rules', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+      vi.mocked(databaseService.getMaskingRules).mockResolvedValueOnce([{ pattern: 'mail', strategy: 'redact' }]);
+
+      const req = createMockRequest('SELECT * FROM users', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      const response = res.json.mock.calls[0][0];
+      expect(response.maskedColumns).toEqual([{ column: 'email', strategy: 'redact' }]);
+      expect(response.data.map((row: any) => row.email)).toEqual(['[REDACTED]', '[REDACTED]']);
+      expect(response.data[0].name).toBe('John');
+    });
+
+    describe('pagination', () => {
+      const createPagedDriver = (total: number | Error) => ({
+        dialect: 'mysql',
+        explain: vi.fn().mockResolvedValue(undefined),
+        run: vi.fn().mockImplementation((query: string) => {
+          if (query.includes('COUNT(*)')) {
+            return total instanceof Error ? Promise.reject(total) : Promise.resolve({ rows: [{ total }], fields: [] });
+          }
+          return Promise.resolve({ rows: [{ id: 3, name: 'Ann', email: 'ann@example.com' }], fields: [] });
+        })
+      });
+
+      it('should wrap the query for the requested page and sort', async () => {
+        const mockDriver = createPagedDriver(101);
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+        const req = createMockRequest('SELECT * FROM users', true, { page: 3, pageSize: 50, sort: { column: 'name', direction: 'desc' } });
+        const res = createMockRes();
+
+        await validateQuery(req, res);
+
+        expect(mockDriver.run).toHaveBeenCalledWith('SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users\n) AS preview_rows\nORDER BY `name` DESC\nLIMIT 50 OFFSET 100', { timeoutMs: 30000, signal: expect.any(AbortSignal) });
+        expect(mockDriver.run).toHaveBeenCalledWith(expect.stringContaining('COUNT(*) AS total FROM (\nSELECT * FROM users\n) AS count_rows'), { timeoutMs: 10000, signal: expect.any(AbortSignal) });
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+          isValid: true,
+          page: 3,
+          pageSize: 50,
+          sort: { column: 'name', direction: 'desc' },
+          totalRows: 101,
+          totalPages: 3,
+          limited: false
+        }));
+      });
+
+      it('should keep the user LIMIT inside the wrapper instead of capping it', async () => {
+        const mockDriver = createPagedDriver(1000);
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+        const req = createMockRequest('SELECT * FROM users LIMIT 1000', true, { page: 2 });
+        const res = createMockRes();
+
+        await validateQuery(req, res);
+
+        expect(mockDriver.run).toHaveBeenCalledWith('SELECT /*+ MAX_EXECUTION_TIME(30000) */ * FROM (\nSELECT * FROM users LIMIT 1000\n) AS preview_rows\nLIMIT 50 OFFSET 50', { timeoutMs: 30000, signal: expect.any(AbortSignal) });
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ totalRows: 1000, totalPages: 20, limited: true }));
+      });
+
+      it('should cap the page size to the policy maximum', async () => {
+        const mockDriver = createPagedDriver(10);
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+        vi.mocked(databaseService.getQueryPolicy).mockResolvedValueOnce({ maxLimit: 20 });
+
+        const req = createMockRequest('SELECT * FROM users', true, { page: 1, pageSize: 200 });
+        const res = createMockRes();
+
+        await validateQuery(req, res);
+
+        expect(mockDriver.run).toHaveBeenCalledWith(expect.stringMatching(/LIMIT 20 OFFSET 0$/), { timeoutMs: 30000, signal: expect.any(AbortSignal) });
+      });
+
+      it('should still return the page when counting fails', async () => {
+        const mockDriver = createPagedDriver(new Error('Query execution was interrupted, maximum statement execution time exceeded'));
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+        const req = createMockRequest('SELECT * FROM users', true, { page: 1, pageSize: 1 });
+        const res = createMockRes();
+
+        await validateQuery(req, res);
+
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ isValid: true, totalRows: null, totalPages: null, limited: true }));
+      });
+
+      it('should refuse to sort by a masked column', async () => {
+        const mockDriver = createPagedDriver(1);
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+        vi.mocked(databaseService.getMaskingRules).mockResolvedValueOnce([{ column: 'email', strategy: 'hash' }]);
+
+        const req = createMockRequest('SELECT * FROM users', true, { sort: { column: 'email', direction: 'asc' } });
+        const res = createMockRes();
+
+        await validateQuery(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Cannot sort by masked column email' }));
+        // Only the zero-row probe ran
+        expect(mockDriver.explain).not.toHaveBeenCalled();
+        expect(mockDriver.run).toHaveBeenCalledTimes(1);
+        expect(mockDriver.run).toHaveBeenCalledWith('SELECT * FROM (\nSELECT * FROM users\n) AS preview_rows\nLIMIT 0', { timeoutMs: 30000, signal: expect.any(AbortSignal) });
+      });
+
+      it('should match masking rules on the probed source columns', async () => {
+        const mockDriver = createPagedDriver(1);
+        mockDriver.run.mockResolvedValueOnce({ rows: [], fields: [{ name: 'contact', orgName: 'email', orgTable: 'users' }] });
+        vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+        const rules = [{ column: 'users.email', strategy: 'hash' as const }];
+        vi.mocked(databaseService.getMaskingRules).mockResolvedValueOnce(rules).mockResolvedValueOnce(rules);
+
+        const masked = createMockRes();
+        await validateQuery(createMockRequest('SELECT email AS contact, name FROM users', true, { sort: { column: 'contact', direction: 'asc' } }), masked);
+        expect(masked.status).toHaveBeenCalledWith(400);
+
+        mockDriver.run.mockResolvedValueOnce({ rows: [], fields: [{ name: 'contact', orgName: 'email', orgTable: 'users' }, { name: 'name', orgName: 'name', orgTable: 'users' }] });
+        const allowed = createMockRes();
+        await validateQuery(createMockRequest('SELECT email AS contact, name FROM users', true, { sort: { column: 'name', direction: 'asc' } }), allowed);
+        expect(allowed.status).not.toHaveBeenCalled();
+        expect(allowed.json).toHaveBeenCalledWith(expect.objectContaining({ isValid: true, sort: { column: 'name', direction: 'asc' } }));
+      });
+    });
+
     it('should return 200 for execution errors (non-syntax)', async () => {
-      const mockPool = createMockPool(false, true, false);
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+      const mockDriver = createMockDriver(false, true, false);
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
       const req = createMockRequest('SELECT unknown_column FROM users', true);
       const res = createMockRes();
@@ -183,6 +433,7 @@ describe('validationController', () => {
       expect(res.json).toHaveBeenCalledWith({
         isValid: false,
         syntaxValid: true,
+        runId: expect.any(String),
         error: 'Unknown column',
         errorCode: 'ER_BAD_FIELD_ERROR',
         sqlState: '42S22',
@@ -191,14 +442,12 @@ describe('validationController', () => {
     });
 
     it('should handle query timeout', async () => {
-      const mockPool = {
-        getConnection: vi.fn().mockResolvedValue({
-          query: vi.fn().mockResolvedValue(undefined),
-          release: vi.fn()
-        }),
-        execute: vi.fn().mockRejectedValue(new Error('Query timeout (30s)'))
+      const mockDriver = {
+        dialect: 'mysql',
+        explain: vi.fn().mockResolvedValue(undefined),
+        run: vi.fn().mockRejectedValue(new Error('Query timeout (30s)'))
       };
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
       const req = createMockRequest('SELECT * FROM users', true);
       const res = createMockRes();
@@ -213,8 +462,19 @@ describe('validationController', () => {
       }));
     }, 1000);
 
+    it('should report queries stopped by MAX_EXECUTION_TIME as timed out', async () => {
+      const timeout = Object.assign(new Error('Query execution was interrupted, maximum statement execution time exceeded'), { code: 'ER_QUERY_TIMEOUT', errno: 3024 });
+      const mockDriver = { dialect: 'mysql', explain: vi.fn().mockResolvedValue(undefined), run: vi.fn().mockRejectedValue(timeout) };
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const res = createMockRes();
+      await validateQuery(createMockRequest('SELECT * FROM users'), res);
+
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ isValid: false, timedOut: true, cancelled: false, error: 'Query timeout (30s)' }));
+    });
+
     it('should return 500 for internal server errors', async () => {
-      vi.mocked(getDestinationPool).mockImplementation(() => {
+      vi.mocked(getDestinationDriver).mockImplementation(() => {
         throw new Error('Unexpected error');
       });
       
@@ -235,7 +495,7 @@ describe('validationController', () => {
       const originalEnv = process.env.NODE_ENV;
       process.env.NODE_ENV = 'development';
       
-      vi.mocked(getDestinationPool).mockImplementation(() => {
+      vi.mocked(getDestinationDriver).mockImplementation(() => {
         throw new Error('Unexpected error');
       });
       
@@ -253,28 +513,96 @@ describe('validationController', () => {
       process.env.NODE_ENV = originalEnv;
     });
 
-    it('should release connection even when query fails', async () => {
-      const mockConnection = {
-        query: vi.fn().mockResolvedValue(undefined),
-        release: vi.fn()
-      };
-      const mockPool = {
-        getConnection: vi.fn().mockResolvedValue(mockConnection),
-        execute: vi.fn().mockRejectedValue(new Error('Query failed'))
-      };
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+    it('should explain the query before running it', async () => {
+      const mockDriver = createMockDriver(true);
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
-      const req = createMockRequest('SELECT * FROM users', true);
+      const req = createMockRequest('SELECT * FROM missing_table', true);
       const res = createMockRes();
       
       await validateQuery(req, res);
       
-      expect(mockConnection.release).toHaveBeenCalledTimes(1);
+      expect(mockDriver.explain).toHaveBeenCalledWith('SELECT * FROM missing_table', []);
+      expect(mockDriver.run).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ isValid: false, errorCode: 'ER_NO_SUCH_TABLE' }));
+    });
+
+    it('should check the query with the destination dialect', async () => {
+      const mockDriver = { ...createMockDriver(), dialect: 'postgres' };
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('SELECT pg_sleep(10)', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        violations: [expect.objectContaining({ code: 'FUNCTION_NOT_ALLOWED' })]
+      }));
+      expect(mockDriver.run).not.toHaveBeenCalled();
+    });
+
+    it('should page SQL Server previews with OFFSET ... FETCH instead of LIMIT', async () => {
+      const mockDriver = { ...createMockDriver(), dialect: 'mssql' };
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('SELECT id FROM users', true);
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(mockDriver.run).toHaveBeenCalledWith(
+        'SELECT * FROM (\nSELECT id FROM users\n) AS preview_rows\nORDER BY (SELECT NULL)\nOFFSET 0 ROWS FETCH NEXT 50 ROWS ONLY',
+        { timeoutMs: 30000, signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should bind named parameters instead of splicing them into the SQL', async () => {
+      const mockDriver = { ...createMockDriver(), dialect: 'postgres' };
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('SELECT title FROM film WHERE rating = :rating AND length > :min_length', true, {
+        parameters: { rating: "PG'; DROP TABLE film; --", min_length: '90' },
+        parameterDefinitions: [{ name: 'min_length', type: 'int' }]
+      });
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(mockDriver.explain).toHaveBeenCalledWith(
+        'SELECT title FROM film WHERE rating = $1 AND length > $2',
+        ["PG'; DROP TABLE film; --", 90]
+      );
+      expect(mockDriver.run).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE rating = $1 AND length > $2\n) AS preview_rows'),
+        { timeoutMs: 30000, signal: expect.any(AbortSignal), params: ["PG'; DROP TABLE film; --", 90] }
+      );
+    });
+
+    it('should reject missing or mistyped parameter values', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      const req = createMockRequest('SELECT * FROM film WHERE length > :min_length AND rating = :rating', true, {
+        parameters: { min_length: 'long' },
+        parameterDefinitions: [{ name: 'min_length', type: 'int' }]
+      });
+      const res = createMockRes();
+
+      await validateQuery(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        isValid: false,
+        parameterErrors: ['min_length must be a number', 'rating is required']
+      }));
+      expect(mockDriver.run).not.toHaveBeenCalled();
     });
 
     it('should validate without executing when execute is false', async () => {
-      const mockPool = createMockPool();
-      vi.mocked(getDestinationPool).mockReturnValue(mockPool as any);
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
       
       const req = createMockRequest('SELECT * FROM users', false);
       const res = createMockRes();
@@ -290,13 +618,136 @@ describe('validationController', () => {
       expect(res.json).toHaveBeenCalledWith({
         isValid: true,
         syntaxValid: true,
+        runId: expect.any(String),
         results: expectedData,
         data: expectedData,
         rowCount: 2,
+        maskedColumns: [],
         executionTime: expect.stringMatching(/\d+ms/),
-        limited: true
+        limited: false
       });
       expect(res.status).not.toHaveBeenCalled();
     });
   });
+
+  describe('result cache', () => {
+    beforeEach(() => {
+      resultCacheService.invalidate();
+      vi.mocked(databaseService.getResultCacheTtl).mockResolvedValue(60);
+    });
+
+    afterEach(() => {
+      vi.mocked(databaseService.getResultCacheTtl).mockResolvedValue(null);
+    });
+
+    it('should answer a repeated query from the cache when the connection enables it', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+      vi.mocked(databaseService.getMaskingRules).mockResolvedValue([{ pattern: 'mail', strategy: 'redact' }]);
+
+      const first = createMockRes();
+      await validateQuery(createMockRequest('SELECT * FROM users LIMIT 10'), first);
+      const second = createMockRes();
+      await validateQuery(createMockRequest('SELECT *\n  FROM users /* same */ LIMIT 10;'), second);
+      vi.mocked(databaseService.getMaskingRules).mockResolvedValue([]);
+
+      expect(mockDriver.run).toHaveBeenCalledTimes(1);
+      expect(databaseService.getResultCacheTtl).toHaveBeenCalledWith(2);
+      expect(first.json).toHaveBeenCalledWith(expect.objectContaining({ cache: { hit: false, cachedAt: null, expiresAt: null } }));
+      expect(second.json).toHaveBeenCalledWith(expect.objectContaining({
+        rowCount: 2,
+        maskedColumns: [{ column: 'email', strategy: 'redact' }],
+        cache: { hit: true, cachedAt: '2023-01-01T12:00:00.000Z', expiresAt: '2023-01-01T12:01:00.000Z' }
+      }));
+      // Masking is applied to cached rows as well
+      expect(second.json.mock.calls[0][0].data[0].email).not.toBe('john@example.com');
+    });
+
+    it('should run the query again when the cache is bypassed or has expired', async () => {
+      const mockDriver = createMockDriver();
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      await validateQuery(createMockRequest('SELECT * FROM users LIMIT 10'), createMockRes());
+      const bypassed = createMockRes();
+      await validateQuery(createMockRequest('SELECT * FROM users LIMIT 10', true, { bypassCache: true }), bypassed);
+      expect(mockDriver.run).toHaveBeenCalledTimes(2);
+      expect(bypassed.json).toHaveBeenCalledWith(expect.objectContaining({ cache: expect.objectContaining({ hit: false }) }));
+
+      vi.advanceTimersByTime(61000);
+      await validateQuery(createMockRequest('SELECT * FROM users LIMIT 10'), createMockRes());
+      expect(mockDriver.run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cache each page of a paginated preview separately', async () => {
+      const mockDriver = createMockDriver();
+      mockDriver.run.mockImplementation((sql: string) => Promise.resolve(
+        sql.includes('COUNT(*)') ? { rows: [{ total: 42 }], fields: [] } : { rows: [{ id: 1 }], fields: [] }
+      ));
+      vi.mocked(getDestinationDriver).mockReturnValue(mockDriver as any);
+
+      await validateQuery(createMockRequest('SELECT id FROM users', true, { page: 1, pageSize: 10 }), createMockRes());
+      await validateQuery(createMockRequest('SELECT id FROM users', true, { page: 2, pageSize: 10 }), createMockRes());
+      const cachedPage = createMockRes();
+      await validateQuery(createMockRequest('SELECT id FROM users', true, { page: 1, pageSize: 10 }), cachedPage);
+
+      // Page query and count for each of the two pages
+      expect(mockDriver.run).toHaveBeenCalledTimes(4);
+      expect(cachedPage.json).toHaveBeenCalledWith(expect.objectContaining({ totalRows: 42, cache: expect.objectContaining({ hit: true }) }));
+    });
+  });
+
+  describe('cancelQuery', () => {
+    const RUN_ID = '0b7f6c7e-2f52-4d5c-9a43-5b3c2d7a9e10';
+    const analyst = { id: 7, username: 'ana', role: 'analyst' };
+
+    // A query that only ends when its run is cancelled
+    const createHangingDriver = () => ({
+      dialect: 'mysql',
+      explain: vi.fn().mockResolvedValue(undefined),
+      run: vi.fn().mockImplementation((_sql: string, { signal }: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new QueryCancelledError()));
+      }))
+    });
+
+    const createCancelRequest = (user: unknown) => ({ params: { runId: RUN_ID }, user } as any as Request);
+
+    it('should stop a running preview for the user who started it', async () => {
+      vi.mocked(getDestinationDriver).mockReturnValue(createHangingDriver() as any);
+      const req = { ...createMockRequest('SELECT * FROM users', true, { runId: RUN_ID }), user: analyst } as any as Request;
+      const res = createMockRes();
+
+      const pending = validateQuery(req, res);
+      await vi.waitFor(() => expect(res.on).toHaveBeenCalled());
+
+      const cancelRes = createMockRes();
+      await cancelQuery(createCancelRequest(analyst), cancelRes);
+      await pending;
+
+      expect(cancelRes.json).toHaveBeenCalledWith({ success: true, data: { runId: RUN_ID, cancelled: true } });
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ isValid: false, runId: RUN_ID, cancelled: true, error: 'Query cancelled' }));
+    });
+
+    it('should not let other users cancel a run, or reuse its id', async () => {
+      vi.mocked(getDestinationDriver).mockReturnValue(createHangingDriver() as any);
+      const res = createMockRes();
+      const pending = validateQuery({ ...createMockRequest('SELECT * FROM users', true, { runId: RUN_ID }), user: analyst } as any as Request, res);
+      await vi.waitFor(() => expect(res.on).toHaveBeenCalled());
+
+      const duplicateRes = createMockRes();
+      await validateQuery({ ...createMockRequest('SELECT 1', true, { runId: RUN_ID }), user: analyst } as any as Request, duplicateRes);
+      expect(duplicateRes.status).toHaveBeenCalledWith(409);
+
+      const forbiddenRes = createMockRes();
+      await cancelQuery(createCancelRequest({ id: 8, username: 'bob', role: 'analyst' }), forbiddenRes);
+      expect(forbiddenRes.status).toHaveBeenCalledWith(403);
+
+      // Admins may stop anyone's run
+      await cancelQuery(createCancelRequest({ id: 1, username: 'admin', role: 'admin' }), createMockRes());
+      await pending;
+
+      const missingRes = createMockRes();
+      await cancelQuery(createCancelRequest(analyst), missingRes);
+      expect(missingRes.status).toHaveBeenCalledWith(404);
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../../src/services/userService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/services/userService')>();
+  return { hasRole: actual.hasRole, userService: { get: vi.fn() } };
+});
+
+import { authenticate, requireAdmin, requireAnalyst } from '../../../src/middleware/auth';
+import { userService } from '../../../src/services/userService';
+import { signToken } from '../../../src/utils/authTokens';
+
+const createMockRes = () => {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis()
+  } as any as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  return res;
+};
+
+const requestWith = (authorization?: string) => ({ headers: authorization ? { authorization } : {} }) as Request;
+
+const account = { id: 2, username: 'ana', role: 'analyst', is_active: true } as any;
+
+describe('auth middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.AUTH_SECRET = 'test-secret';
+    delete process.env.AUTH_DISABLED;
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+    delete process.env.AUTH_DISABLED;
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    for (const header of [undefined, 'Basic abc', 'Bearer garbage']) {
+      const res = createMockRes();
+      const next = vi.fn();
+      await authenticate(requestWith(header), res, next);
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+
+  it('loads the user so role changes and deactivation apply immediately', async () => {
+    const token = signToken({ id: 2, username: 'ana', role: 'admin' });
+    vi.mocked(userService.get).mockResolvedValueOnce(account);
+    const req = requestWith(`Bearer ${token}`);
+    const next = vi.fn();
+
+    await authenticate(req, createMockRes(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ id: 2, username: 'ana', role: 'analyst' });
+
+    vi.mocked(userService.get).mockResolvedValueOnce({ ...account, is_active: false });
+    const res = createMockRes();
+    await authenticate(requestWith(`Bearer ${token}`), res, vi.fn());
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('treats every request as an admin when AUTH_DISABLED is set', async () => {
+    process.env.AUTH_DISABLED = 'true';
+    const req = requestWith();
+    const next = vi.fn();
+
+    await authenticate(req, createMockRes(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user?.role).toBe('admin');
+    expect(userService.get).not.toHaveBeenCalled();
+  });
+
+  it('allows roles at or above the required one', () => {
+    const check = (role: string, gate: typeof requireAdmin) => {
+      const res = createMockRes();
+      const next = vi.fn();
+      gate({ user: { id: 1, username: 'u', role } } as Request, res, next);
+      return next.mock.calls.length > 0 ? 'allowed' : res.status.mock.calls[0][0];
+    };
+
+    expect(check('viewer', requireAnalyst)).toBe(403);
+    expect(check('analyst', requireAnalyst)).toBe('allowed');
+    expect(check('admin', requireAnalyst)).toBe('allowed');
+    expect(check('analyst', requireAdmin)).toBe(403);
+    expect(check('admin', requireAdmin)).toBe('allowed');
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockCreate = vi.fn();
+const mockModelsList = vi.fn();
+const mockCache = { get: vi.fn(), set: vi.fn(), invalidate: vi.fn() };
+const mockOpenAI = vi.fn().mockImplementation(() => ({
+  chat: { completions: { create: mockCreate } },
+  models: { list: mockModelsList }
+}));
+
+const importServices = async () => {
+  vi.resetModules();
+  vi.doMock('openai', () => ({ default: mockOpenAI }));
+  vi.doMock('@anthropic-ai/sdk', () => ({ default: vi.fn().mockImplementation(() => ({ messages: { create: vi.fn() } })) }));
+  vi.doMock('../../../src/services/generationCacheService', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../src/services/generationCacheService')>()),
+    generationCacheService: mockCache
+  }));
+  const { aiService } = await import('../../../src/services/aiService');
+  const { aiProviderRegistry } = await import('../../../src/services/aiProviders');
+  return { aiService, aiProviderRegistry };
+};
+
+describe('aiService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_MODEL;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('registers the built-in providers', async () => {
+    const { aiService } = await importServices();
+
+    expect(aiService.listProviders().map((p) => p.id)).toEqual(['anthropic', 'openai', 'openai-compatible']);
+    expect(aiService.hasProvider('openai-compatible')).toBe(true);
+    expect(aiService.hasProvider('nope')).toBe(false);
+    expect(() => aiService.setProvider('nope')).toThrow(/Unknown AI provider/);
+  });
+
+  it('configures the OpenAI-compatible provider from the environment without an API key', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+    process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+    const { aiService } = await importServices();
+
+    expect(aiService.getProvider()).toBe('openai-compatible');
+    expect(aiService.enabled).toBe(true);
+    expect(mockOpenAI).toHaveBeenCalledWith({ apiKey: 'not-needed', baseURL: 'http://localhost:11434/v1' });
+    expect(aiService.listProviders()).toContainEqual({
+      id: 'openai-compatible',
+      label: 'OpenAI-compatible',
+      enabled: true,
+      model: 'qwen2.5-coder',
+      baseURL: 'http://localhost:11434/v1'
+    });
+
+    const payload = { sql: 'SELECT 1', confidence: 0.8, reasoning: 'ok', tables_used: [] };
+    mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify(payload) } }] });
+    await expect(aiService.generateQuery({ prompt: 'one', schema: {} })).resolves.toEqual(payload);
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ model: 'qwen2.5-coder' }));
+  });
+
+  it('lists models from the endpoint and falls back to the configured model', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8000/v1';
+    const { aiService } = await importServices();
+
+    mockModelsList.mockImplementationOnce(async function* () {
+      yield { id: 'mistral' };
+      yield { id: 'llama3.1' };
+    });
+    await expect(aiService.getAvailableModels('openai-compatible')).resolves.toEqual(['llama3.1', 'mistral']);
+
+    mockModelsList.mockImplementationOnce(() => {
+      throw new Error('not found');
+    });
+    await expect(aiService.getAvailableModels('openai-compatible')).resolves.toEqual(['llama3.1']);
+    await expect(aiService.getAvailableModels('openai')).resolves.toContain('gpt-4o');
+    expect(mockModelsList).toHaveBeenCalledTimes(2);
+  });
+
+  it('dispatches to providers added to the registry', async () => {
+    const { aiService, aiProviderRegistry } = await importServices();
+    const custom = {
+      id: 'custom',
+      label: 'Custom',
+      enabled: true,
+      generateQuery: vi.fn().mockResolvedValue({ sql: 'SELECT 2', confidence: 1, reasoning: '', tables_used: [] }),
+      testConnection: vi.fn().mockResolvedValue(true),
+      listModels: vi.fn().mockResolvedValue(['m']),
+      getConfig: vi.fn().mockReturnValue({ enabled: true, apiKey: '', model: 'm', temperature: 0, maxTokens: 1 }),
+      updateConfig: vi.fn()
+    };
+    aiProviderRegistry.register(custom);
+    expect(() => aiProviderRegistry.register(custom)).toThrow(/already registered/);
+
+    aiService.updateConfig({ provider: 'custom', custom: { enabled: true, apiKey: 'k', model: 'm2', temperature: 0, maxTokens: 1 } });
+
+    expect(aiService.getProvider()).toBe('custom');
+    expect(custom.updateConfig).toHaveBeenCalledWith(expect.objectContaining({ model: 'm2' }));
+    await expect(aiService.generateQuery({ prompt: 'two', schema: {} })).resolves.toMatchObject({ sql: 'SELECT 2' });
+    await expect(aiService.testConnection()).resolves.toBe(true);
+    expect(aiService.getConfig()).toHaveProperty('custom');
+  });
+
+  it('serves repeated prompts on a connection from the generation cache', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+    const { aiService } = await importServices();
+    const payload = { sql: 'SELECT 1', confidence: 0.8, reasoning: 'ok', tables_used: [] };
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: JSON.stringify(payload) } }] });
+
+    mockCache.get.mockResolvedValueOnce(null);
+    await expect(aiService.generateQuery({ prompt: 'Count films', schema: {} }, { databaseId: 3 })).resolves.toEqual(payload);
+    const [cacheKey, entry] = mockCache.set.mock.calls[0];
+    expect(entry).toMatchObject({ databaseId: 3, prompt: 'Count films', model: { provider: 'openai-compatible' }, response: payload });
+
+    const cachedAt = new Date('2026-10-19T08:00:00.000Z');
+    mockCache.get.mockResolvedValueOnce({ response: payload, createdAt: cachedAt });
+    await expect(aiService.generateQuery({ prompt: '  count   FILMS ', schema: {} }, { databaseId: 3 })).resolves.toEqual({ ...payload, cachedAt });
+    expect(mockCache.get).toHaveBeenLastCalledWith(cacheKey);
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+
+    // Regenerating and repairing always reach the provider and replace the entry
+    await aiService.generateQuery({ prompt: 'count films', schema: {} }, { databaseId: 3, regenerate: true });
+    await aiService.generateQuery({ prompt: 'count films', schema: {}, repairs: [{ sql: 'SELECT', error: { message: 'syntax error' } }] }, { databaseId: 3 });
+    expect(mockCache.get).toHaveBeenCalledTimes(2);
+    expect(mockCreate).toHaveBeenCalledTimes(3);
+    expect(mockCache.set.mock.calls.map(([key]) => key)).toEqual([cacheKey, cacheKey, cacheKey]);
+  });
+});
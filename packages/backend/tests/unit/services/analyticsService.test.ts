@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return { mockExecute, mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() })) };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { analyticsService } from '../../../src/services/analyticsService';
+
+const from = new Date('2026-10-01T00:00:00Z');
+const to = new Date('2026-10-19T00:00:00Z');
+
+describe('analyticsService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  it('defaults to the last 30 days', () => {
+    const range = analyticsService.range({ to });
+    expect(range.from).toEqual(new Date('2026-09-19T00:00:00Z'));
+  });
+
+  it('bounds every aggregate by the date range and connection', async () => {
+    mockExecute.mockResolvedValueOnce([[{ source: 'anthropic', model: 'claude-sonnet-4', total: 4, succeeded: '3' }]]);
+
+    const rates = await analyticsService.successRates({ from, to, databaseId: 2 });
+
+    const [sql, params] = mockExecute.mock.calls[0];
+    expect(sql).toContain("l.query_type = 'generation'");
+    expect(sql).toContain('l.database_settings_id = ?');
+    expect(params).toEqual([from, to, 2]);
+    expect(rates).toEqual([{ source: 'anthropic', model: 'claude-sonnet-4', total: 4, succeeded: 3, successRate: 0.75 }]);
+  });
+
+  it('reads percentiles from the cumulative distribution', async () => {
+    mockExecute.mockResolvedValueOnce([[{ query_type: 'validation', count: 20, p50: 40, p95: 900 }]]);
+
+    const latency = await analyticsService.latency({ from, to });
+
+    expect(mockExecute.mock.calls[0][0]).toContain('CUME_DIST() OVER (PARTITION BY l.query_type ORDER BY l.execution_time_ms)');
+    expect(latency).toEqual([{ type: 'validation', count: 20, p50: 40, p95: 900 }]);
+  });
+
+  it('counts tables per statement, weighted by how often it was logged', async () => {
+    mockExecute.mockResolvedValueOnce([[
+      { generated_sql: 'SELECT * FROM film f JOIN film_actor fa ON fa.film_id = f.film_id', dialect: 'mysql', count: 3 },
+      { generated_sql: 'SELECT TOP 5 * FROM film', dialect: 'mssql', count: 2 },
+      { generated_sql: 'not sql', dialect: null, count: 7 }
+    ]]);
+
+    expect(await analyticsService.topTables({ from, to })).toEqual([
+      { table: 'film', count: 5 },
+      { table: 'film_actor', count: 3 }
+    ]);
+  });
+
+  it('splits generations between pattern matching and AI providers', async () => {
+    mockExecute.mockResolvedValueOnce([[{ source: 'pattern_matching', count: 3 }, { source: 'openai', count: 1 }]]);
+
+    expect(await analyticsService.sourceShare({ from, to })).toEqual([
+      { source: 'pattern_matching', kind: 'pattern', count: 3, share: 0.75 },
+      { source: 'openai', kind: 'ai', count: 1, share: 0.25 }
+    ]);
+  });
+
+  it('binds the low-confidence threshold ahead of the range', async () => {
+    mockExecute.mockResolvedValueOnce([[
+      { day: new Date('2026-10-18T00:00:00Z'), generations: 4, low_confidence: '1', average_confidence: '0.72500' }
+    ]]);
+
+    const trend = await analyticsService.confidenceTrend({ from, to, threshold: 0.6 });
+
+    expect(mockExecute.mock.calls[0][1]).toEqual([0.6, from, to]);
+    expect(trend).toEqual([{ day: '2026-10-18', generations: 4, lowConfidence: 1, averageConfidence: 0.725 }]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockExecute, mockConnection, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  const mockConnection = {
+    execute: vi.fn(),
+    beginTransaction: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+    release: vi.fn()
+  };
+  return {
+    mockExecute,
+    mockConnection,
+    mockCreatePool: vi.fn(() => ({ execute: mockExecute, getConnection: vi.fn().mockResolvedValue(mockConnection), end: vi.fn() }))
+  };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { auditService } from '../../../src/services/auditService';
+import { hashAuditEvent } from '../../../src/utils/audit';
+
+const admin = { id: 1, username: 'root', role: 'admin' as const };
+
+// The row the INSERT wrote, as SELECT * would return it
+const insertedRow = (id: number, call: unknown[]) => {
+  const [actor_id, actor_username, action, entity_type, entity_id, changes, ip_address, prev_hash, hash, created_at] = call as any[];
+  return { id, actor_id, actor_username, action, entity_type, entity_id, changes: JSON.parse(changes), ip_address, prev_hash, hash, created_at };
+};
+
+describe('auditService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+    Object.values(mockConnection).forEach((fn) => fn.mockReset());
+    delete process.env.AUDIT_HASH_CHAIN;
+  });
+
+  afterEach(() => {
+    delete process.env.AUDIT_HASH_CHAIN;
+  });
+
+  it('records the diff and skips changes that change nothing', async () => {
+    mockConnection.execute.mockResolvedValue([{}]);
+
+    await auditService.record(admin, '10.0.0.1', { action: 'update', entity_type: 'ai_provider', before: 'openai', after: 'openai' });
+    expect(mockConnection.execute).not.toHaveBeenCalled();
+
+    await auditService.record(admin, '10.0.0.1', {
+      action: 'update', entity_type: 'database', entity_id: 3, before: { host: 'a', password: 'x' }, after: { host: 'b', password: 'y' }
+    });
+    const [sql, params] = mockConnection.execute.mock.calls[0];
+    expect(sql).toContain('INSERT INTO audit_events');
+    expect(params.slice(0, 5)).toEqual([1, 'root', 'update', 'database', '3']);
+    expect(JSON.parse(params[5])).toEqual({
+      host: { before: 'a', after: 'b' },
+      password: { before: '[REDACTED]', after: '[REDACTED]' }
+    });
+    expect(params[7]).toBeNull();
+    expect(params[8]).toBeNull();
+    expect(mockConnection.commit).toHaveBeenCalled();
+  });
+
+  it('does not throw when the event cannot be written', async () => {
+    mockConnection.execute.mockRejectedValue(new Error('table missing'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(auditService.record(admin, undefined, { action: 'create', entity_type: 'team', before: null, after: { id: 1 } }))
+      .resolves.toBeUndefined();
+    expect(mockConnection.rollback).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('chains hashes and detects edited events', async () => {
+    process.env.AUDIT_HASH_CHAIN = 'true';
+    mockConnection.execute
+      .mockResolvedValueOnce([[]])
+      .mockResolvedValueOnce([{}]);
+    await auditService.record(admin, undefined, { action: 'update', entity_type: 'ai_provider', before: 'openai', after: 'anthropic' });
+    const first = insertedRow(1, mockConnection.execute.mock.calls[1][1]);
+    expect(mockConnection.execute.mock.calls[0][0]).toContain('FOR UPDATE');
+    expect(first.prev_hash).toBeNull();
+    expect(first.hash).toBe(hashAuditEvent(null, first));
+
+    mockConnection.execute
+      .mockResolvedValueOnce([[{ hash: first.hash }]])
+      .mockResolvedValueOnce([{}]);
+    await auditService.record(admin, undefined, { action: 'update', entity_type: 'ai_provider', before: 'anthropic', after: 'openai' });
+    const second = insertedRow(2, mockConnection.execute.mock.calls[3][1]);
+    expect(second.prev_hash).toBe(first.hash);
+
+    mockExecute.mockResolvedValueOnce([[{ id: 0, hash: null, changes: '{}' }, first, second]]);
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 2, unchained: 1, brokenAt: null });
+
+    const edited = { ...first, changes: { value: { before: 'openai', after: 'openai-compatible' } } };
+    mockExecute.mockResolvedValueOnce([[edited, second]]);
+    expect(await auditService.verifyChain()).toMatchObject({ valid: false, brokenAt: 1 });
+
+    mockExecute.mockResolvedValueOnce([[second]]);
+    expect(await auditService.verifyChain()).toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  it('pages newest first with filters', async () => {
+    mockExecute.mockResolvedValueOnce([[{ id: 9, changes: '{}' }, { id: 8, changes: '{}' }, { id: 7, changes: '{}' }]]);
+
+    const page = await auditService.list({ entityType: 'database', actorId: 1, cursor: 10, limit: 2 });
+
+    const [sql, params] = mockExecute.mock.calls[0];
+    expect(sql).toContain('WHERE entity_type = ? AND actor_id = ? AND id < ?');
+    expect(sql).toContain('LIMIT 3');
+    expect(params).toEqual(['database', 1, 10]);
+    expect(page.events.map((event) => event.id)).toEqual([9, 8]);
+    expect(page.nextCursor).toBe(8);
+  });
+});
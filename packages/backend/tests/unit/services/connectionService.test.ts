@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: { getDatabaseConfigs: vi.fn() }
+}));
+
+vi.mock('../../../src/services/userService', async (importOriginal) => {
+  const real = await (importOriginal() as any);
+  return { hasRole: real.hasRole, userService: { get: vi.fn(), setActiveDatabase: vi.fn() } };
+});
+
+vi.mock('../../../src/services/teamService', () => ({
+  teamService: { databaseIdsForUser: vi.fn() }
+}));
+
+import { connectionService } from '../../../src/services/connectionService';
+import { databaseService } from '../../../src/services/databaseSystemService';
+import { userService } from '../../../src/services/userService';
+import { teamService } from '../../../src/services/teamService';
+
+// Ordered the way getDatabaseConfigs returns them: default first
+const databases = [
+  { id: 1, name: 'Sakila', is_default: true },
+  { id: 2, name: 'Warehouse', is_default: false },
+  { id: 3, name: 'Finance', is_default: false }
+];
+
+const admin = { id: 1, username: 'root', role: 'admin' as const };
+const analyst = { id: 7, username: 'ana', role: 'analyst' as const };
+const anonymous = { id: 0, username: 'anonymous', role: 'admin' as const };
+
+describe('connectionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(databaseService.getDatabaseConfigs).mockResolvedValue(databases as any);
+    vi.mocked(teamService.databaseIdsForUser).mockResolvedValue([2, 3]);
+    vi.mocked(userService.get).mockResolvedValue({ id: 7, active_database_id: null } as any);
+  });
+
+  it('lists every connection for admins and only team grants for others', async () => {
+    expect((await connectionService.listDatabases(admin)).map((db) => db.id)).toEqual([1, 2, 3]);
+    expect(teamService.databaseIdsForUser).not.toHaveBeenCalled();
+
+    expect((await connectionService.listDatabases(analyst)).map((db) => db.id)).toEqual([2, 3]);
+    expect(teamService.databaseIdsForUser).toHaveBeenCalledWith(7);
+
+    expect(await connectionService.listDatabases(undefined)).toEqual([]);
+  });
+
+  it('limits visible log entries to granted connections for everyone but admins', async () => {
+    expect(await connectionService.visibleDatabaseIds(admin)).toBeUndefined();
+    expect(await connectionService.visibleDatabaseIds(analyst)).toEqual([2, 3]);
+    expect(await connectionService.visibleDatabaseIds(undefined)).toEqual([]);
+  });
+
+  it('uses the stored selection while it is still permitted', async () => {
+    vi.mocked(userService.get).mockResolvedValue({ id: 7, active_database_id: 3 } as any);
+    expect((await connectionService.getActiveDatabase(analyst, null))?.id).toBe(3);
+
+    // Access to connection 3 was revoked: fall back to the first permitted one
+    vi.mocked(teamService.databaseIdsForUser).mockResolvedValue([2]);
+    expect((await connectionService.getActiveDatabase(analyst, null))?.id).toBe(2);
+
+    vi.mocked(teamService.databaseIdsForUser).mockResolvedValue([]);
+    expect(await connectionService.getActiveDatabase(analyst, null)).toBeNull();
+  });
+
+  it('defaults to the default connection when nothing was selected', async () => {
+    vi.mocked(userService.get).mockResolvedValue({ id: 1, active_database_id: null } as any);
+    expect((await connectionService.getActiveDatabase(admin, null))?.id).toBe(1);
+  });
+
+  it('stores selections on the account and refuses connections that are not permitted', async () => {
+    expect(await connectionService.selectDatabase(analyst, 'tab-1', 1)).toBeNull();
+    expect(userService.setActiveDatabase).not.toHaveBeenCalled();
+
+    expect((await connectionService.selectDatabase(analyst, 'tab-1', 2))?.name).toBe('Warehouse');
+    expect(userService.setActiveDatabase).toHaveBeenCalledWith(7, 2);
+  });
+
+  it('keeps selections per session when authentication is disabled', async () => {
+    await connectionService.selectDatabase(anonymous, 'tab-1', 2);
+
+    expect(userService.setActiveDatabase).not.toHaveBeenCalled();
+    expect((await connectionService.getActiveDatabase(anonymous, 'tab-1'))?.id).toBe(2);
+    expect((await connectionService.getActiveDatabase(anonymous, 'tab-2'))?.id).toBe(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { conversationKey, conversationService, getSessionId } from '../../../src/services/conversationService';
+import { buildConversationMessages } from '../../../src/services/aiProviders';
+
+describe('conversationService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    conversationService.clear('s1');
+    conversationService.clear('s2');
+  });
+
+  it('keeps turns per session and ignores requests without a session', () => {
+    conversationService.addTurn('s1', { prompt: 'films', sql: 'SELECT * FROM film' });
+    conversationService.addTurn(null, { prompt: 'actors', sql: 'SELECT * FROM actor' });
+
+    expect(conversationService.getTurns('s1')).toEqual([{ prompt: 'films', sql: 'SELECT * FROM film' }]);
+    expect(conversationService.getTurns('s2')).toEqual([]);
+    expect(conversationService.getTurns(null)).toEqual([]);
+  });
+
+  it('keeps only the most recent turns', () => {
+    for (let i = 1; i <= 12; i++) {
+      conversationService.addTurn('s1', { prompt: `p${i}`, sql: `SELECT ${i}` });
+    }
+
+    const turns = conversationService.getTurns('s1');
+    expect(turns).toHaveLength(10);
+    expect(turns[0].prompt).toBe('p3');
+    expect(turns[9].prompt).toBe('p12');
+  });
+
+  it('records the executed SQL and result on the latest turn', () => {
+    conversationService.addTurn('s1', { prompt: 'films', sql: 'SELECT * FROM film LIMIT 20' });
+    conversationService.recordResult('s1', ' SELECT title FROM film LIMIT 20 ', { rowCount: 20, columns: ['title'] });
+
+    expect(conversationService.getTurns('s1')).toEqual([
+      { prompt: 'films', sql: 'SELECT title FROM film LIMIT 20', result: { rowCount: 20, columns: ['title'] } }
+    ]);
+  });
+
+  it('drops idle threads and clears on request', () => {
+    vi.useFakeTimers();
+    conversationService.addTurn('s1', { prompt: 'films', sql: 'SELECT 1' });
+    conversationService.addTurn('s2', { prompt: 'films', sql: 'SELECT 1' });
+
+    conversationService.clear('s2');
+    expect(conversationService.getTurns('s2')).toEqual([]);
+
+    vi.advanceTimersByTime(61 * 60 * 1000);
+    expect(conversationService.getTurns('s1')).toEqual([]);
+  });
+
+  it('reads the session id header', () => {
+    expect(getSessionId(' abc ')).toBe('abc');
+    expect(getSessionId('')).toBeNull();
+    expect(getSessionId(undefined)).toBeNull();
+    expect(getSessionId(['a', 'b'])).toBeNull();
+  });
+
+  it('scopes thread keys to the signed-in user', () => {
+    const ana = { id: 7, username: 'ana', role: 'analyst' as const };
+    const bob = { id: 8, username: 'bob', role: 'analyst' as const };
+    expect(conversationKey(ana, 'abc')).toBe('7:abc');
+    expect(conversationKey(bob, 'abc')).not.toBe(conversationKey(ana, 'abc'));
+    expect(conversationKey(ana, '')).toBeNull();
+  });
+});
+
+describe('buildConversationMessages', () => {
+  const format = (prompt: string) => `Request: ${prompt}`;
+
+  it('sends a single user message without history', () => {
+    expect(buildConversationMessages(undefined, 'films', format)).toEqual([{ role: 'user', content: 'Request: films' }]);
+  });
+
+  it('replays earlier turns and marks the follow-up', () => {
+    const messages = buildConversationMessages(
+      [{ prompt: 'films', sql: 'SELECT title FROM film', reasoning: 'all films', result: { rowCount: 1000, columns: ['title'] } }],
+      'now only for 2006',
+      format
+    );
+
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(JSON.parse(messages[1].content)).toEqual({ sql: 'SELECT title FROM film', reasoning: 'all films' });
+    expect(messages[2].content).toContain('The query returned 1000 rows with columns: title.');
+    expect(messages[2].content).toContain('This is a follow-up');
+    expect(messages[2].content).toMatch(/Request: now only for 2006$/);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { reencryptCredentials } from '../../../src/services/credentialService';
+import { decryptSecret, encryptSecret } from '../../../src/utils/secrets';
+
+describe('credentialService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 7).toString('base64');
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('encrypts plaintext credentials and leaves current ones alone', async () => {
+    const current = encryptSecret('already-encrypted');
+    const query = vi.fn()
+      .mockResolvedValueOnce([[{ id: 1, secret: 'querypass' }, { id: 2, secret: current }]])
+      .mockResolvedValueOnce([{}])
+      .mockResolvedValueOnce([[{ id: 5, secret: 'sk-test' }]])
+      .mockResolvedValueOnce([{}]);
+
+    const changed = await reencryptCredentials({ query } as any);
+
+    expect(changed).toBe(2);
+    expect(query).toHaveBeenCalledTimes(4);
+    expect(query.mock.calls[0][0]).toContain('FROM database_settings');
+    const [passwordUpdate, passwordParams] = query.mock.calls[1];
+    expect(passwordUpdate).toBe('UPDATE database_settings SET password = ? WHERE id = ?');
+    expect(passwordParams[1]).toBe(1);
+    expect(decryptSecret(passwordParams[0])).toBe('querypass');
+    expect(query.mock.calls[2][0]).toContain('FROM ai_settings');
+    const [keyUpdate, keyParams] = query.mock.calls[3];
+    expect(keyUpdate).toBe('UPDATE ai_settings SET api_key = ? WHERE id = ?');
+    expect(decryptSecret(keyParams[0])).toBe('sk-test');
+  });
+});
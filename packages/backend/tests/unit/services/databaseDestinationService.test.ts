@@ -96,14 +96,15 @@ describe('databaseDestinationService', () => {
     await expect((service as any).runQuery('SELECT 1; SELECT 2')).rejects.toThrow('Multiple statements are not allowed');
   });
 
-  it('blocks forbidden patterns like DROP/UNION/SLEEP', async () => {
+  it('blocks forbidden functions, system schemas and INTO OUTFILE', async () => {
     const conn = makeConn();
     mockGetConnection.mockResolvedValue(conn);
     const service = await freshService();
 
-    await expect((service as any).runQuery('SELECT SLEEP(1)')).rejects.toThrow('Query contains disallowed operations');
-    await expect((service as any).runQuery('SELECT * FROM users UNION ALL SELECT password FROM users')).rejects.toThrow();
+    await expect((service as any).runQuery('SELECT SLEEP(1)')).rejects.toThrow('Function SLEEP() is not allowed');
+    await expect((service as any).runQuery("SELECT * FROM users INTO OUTFILE '/tmp/users'")).rejects.toThrow();
     await expect((service as any).runQuery('SELECT * FROM information_schema.tables')).rejects.toThrow();
+    expect(conn.execute).not.toHaveBeenCalled();
   });
 
   it('returns error when pool closed', async () => {
@@ -92,6 +92,99 @@ describe('databaseSystemService', () => {
     expect(c.release).toHaveBeenCalled();
   });
 
+  it('encrypts passwords and API keys on save and decrypts them on read', async () => {
+    const previousKey = process.env.SECRETS_MASTER_KEY;
+    process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 3).toString('base64');
+    try {
+      const c = mockConn();
+      c.execute
+        .mockResolvedValueOnce([{ insertId: 0, affectedRows: 2 }])
+        .mockResolvedValueOnce([{ insertId: 0 }]);
+      mockGetConnection.mockResolvedValue(c);
+      const svc = await importService();
+      await svc.upsertDatabaseConfig({
+        name: 'db', host: 'h', port: 3306, database_name: 'd', username: 'u', password: 'querypass', ssl_enabled: false, is_active: true, is_default: false
+      });
+      await svc.saveAISettings({
+        name: 'ai', enabled: true, apiKey: 'sk-test', model: 'm', temperature: 0.3, maxTokens: 1000, is_active: true, is_default: false
+      });
+      const storedPassword = c.execute.mock.calls[0][1][6];
+      const storedKey = c.execute.mock.calls[1][1][2];
+      expect(storedPassword).toMatch(/^enc:v1:/);
+      expect(storedKey).toMatch(/^enc:v1:/);
+
+      c.execute
+        .mockResolvedValueOnce([[{ id: 1, name: 'db', password: storedPassword }]])
+        .mockResolvedValueOnce([[{ id: 1, name: 'ai', api_key: storedKey }]]);
+      expect((await svc.getDatabaseConfigs())[0].password).toBe('querypass');
+      expect((await svc.getDefaultAISettings()).api_key).toBe('sk-test');
+    } finally {
+      if (previousKey === undefined) delete process.env.SECRETS_MASTER_KEY;
+      else process.env.SECRETS_MASTER_KEY = previousKey;
+    }
+  });
+
+  it('lists the other connections when one password was encrypted under an unknown key', async () => {
+    const previousKey = process.env.SECRETS_MASTER_KEY;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 4).toString('base64');
+      const { encryptSecret } = await import('../../../src/utils/secrets');
+      const orphaned = encryptSecret('old-secret');
+      process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 5).toString('base64');
+
+      const c = mockConn();
+      c.execute.mockResolvedValueOnce([[
+        { id: 1, name: 'rotated', password: orphaned },
+        { id: 2, name: 'plain', password: 'querypass' }
+      ]]);
+      mockGetConnection.mockResolvedValue(c);
+      const svc = await importService();
+
+      const configs = await svc.getDatabaseConfigs();
+      expect(configs[0]).toMatchObject({ name: 'rotated', password: '', needs_credentials: true });
+      expect(configs[1]).toMatchObject({ name: 'plain', password: 'querypass' });
+      expect(configs[1].needs_credentials).toBeUndefined();
+      expect(error).toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+      if (previousKey === undefined) delete process.env.SECRETS_MASTER_KEY;
+      else process.env.SECRETS_MASTER_KEY = previousKey;
+    }
+  });
+
+  it('lists AI settings when an API key was encrypted under an unknown key', async () => {
+    const previousKey = process.env.SECRETS_MASTER_KEY;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 4).toString('base64');
+      const { encryptSecret } = await import('../../../src/utils/secrets');
+      const orphaned = encryptSecret('sk-old');
+      process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, 5).toString('base64');
+
+      const c = mockConn();
+      c.execute
+        .mockResolvedValueOnce([[
+          { id: 1, name: 'rotated', api_key: orphaned },
+          { id: 2, name: 'plain', api_key: 'sk-test' }
+        ]])
+        .mockResolvedValueOnce([[{ id: 1, name: 'rotated', api_key: orphaned, is_default: 1 }]]);
+      mockGetConnection.mockResolvedValue(c);
+      const svc = await importService();
+
+      const settings = await svc.getAISettings();
+      expect(settings[0]).toMatchObject({ name: 'rotated', api_key: '', needs_credentials: true });
+      expect(settings[1]).toMatchObject({ name: 'plain', api_key: 'sk-test' });
+      expect(settings[1].needs_credentials).toBeUndefined();
+      expect(await svc.getDefaultAISettings()).toMatchObject({ name: 'rotated', api_key: '', needs_credentials: true });
+      expect(error).toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+      if (previousKey === undefined) delete process.env.SECRETS_MASTER_KEY;
+      else process.env.SECRETS_MASTER_KEY = previousKey;
+    }
+  });
+
   it('gets AI settings and default AI setting', async () => {
     const c = mockConn();
     c.execute
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { createDriver, QueryCancelledError, QueryTimeoutError } from '../../../src/services/drivers';
+import { runCancellable } from '../../../src/services/drivers/cancellation';
+import { resolveSqlitePath, SqliteDriver } from '../../../src/services/drivers/sqliteDriver';
+import { MySqlDriver, parseEnumValues } from '../../../src/services/drivers/mysqlDriver';
+import { PostgresDriver } from '../../../src/services/drivers/postgresDriver';
+import { MssqlDriver } from '../../../src/services/drivers/mssqlDriver';
+import { Readable } from 'stream';
+
+const sqliteConfig = (databaseName: string) => ({
+  dialect: 'sqlite' as const,
+  host: '',
+  port: 0,
+  database_name: databaseName,
+  username: '',
+  password: '',
+  ssl_enabled: false
+});
+
+describe('drivers', () => {
+  describe('runCancellable', () => {
+    it('resolves with the statement result', async () => {
+      const cancel = vi.fn();
+      await expect(runCancellable(() => Promise.resolve(42), cancel, { timeoutMs: 1000 })).resolves.toBe(42);
+      expect(cancel).not.toHaveBeenCalled();
+    });
+
+    it('cancels the statement on the server when the timeout expires', async () => {
+      const cancel = vi.fn();
+      const pending = new Promise<never>(() => undefined);
+
+      await expect(runCancellable(() => pending, cancel, { timeoutMs: 10 })).rejects.toThrow(QueryTimeoutError);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(cancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels the statement when the signal aborts', async () => {
+      const cancel = vi.fn();
+      const controller = new AbortController();
+      const result = runCancellable(() => new Promise<never>(() => undefined), cancel, { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(result).rejects.toThrow(QueryCancelledError);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(cancel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('parseEnumValues', () => {
+    it('reads MySQL ENUM and SET values, including quotes and commas', () => {
+      expect(parseEnumValues("enum('G','PG','PG-13','NC-17')")).toEqual(['G', 'PG', 'PG-13', 'NC-17']);
+      expect(parseEnumValues("set('it''s','a,b')")).toEqual(["it's", 'a,b']);
+      expect(parseEnumValues('varchar(20)')).toBeUndefined();
+    });
+  });
+
+  describe('createDriver', () => {
+    it('creates a driver for each dialect without connecting', async () => {
+      for (const dialect of ['mysql', 'postgres', 'sqlite', 'mssql'] as const) {
+        const driver = createDriver({ ...sqliteConfig('x.db'), dialect, host: 'localhost', port: 1 });
+        expect(driver.dialect).toBe(dialect);
+        await driver.close();
+      }
+    });
+
+    it('opens PostgreSQL sessions read-only', async () => {
+      const driver = createDriver({ ...sqliteConfig('x.db'), dialect: 'postgres', host: 'localhost', port: 1 });
+      const pool = (driver as unknown as { pool: { options: { options?: string } } }).pool;
+      expect(pool.options.options).toBe('-c default_transaction_read_only=on');
+      await driver.close();
+    });
+  });
+
+  describe('aborting a stream before the first row', () => {
+    const serverConfig = (dialect: 'mysql' | 'postgres' | 'mssql') => ({ ...sqliteConfig('x'), dialect, host: 'localhost', port: 1 });
+    // A result that never starts arriving
+    const silentStream = () => new Readable({ objectMode: true, read: () => undefined });
+
+    it('cancels the PostgreSQL statement and discards the client', async () => {
+      const driver = new PostgresDriver(serverConfig('postgres'));
+      const client = { processID: 42, query: vi.fn(() => ({ read: vi.fn(), close: vi.fn() })), release: vi.fn() };
+      const pool = { connect: vi.fn().mockResolvedValue(client), query: vi.fn().mockResolvedValue({ rows: [] }) };
+      (driver as unknown as { pool: unknown }).pool = pool;
+      const controller = new AbortController();
+
+      const streaming = driver.stream('SELECT pg_sleep(60)', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(streaming).rejects.toThrow(QueryCancelledError);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(pool.query).toHaveBeenCalledWith('SELECT pg_cancel_backend($1)', [42]);
+      expect(client.release).toHaveBeenCalledWith(true);
+    });
+
+    it('kills the MySQL statement and drops the connection', async () => {
+      const driver = new MySqlDriver(serverConfig('mysql'));
+      const query = Object.assign(new EventEmitter(), { stream: silentStream });
+      const connection = { threadId: 7, connection: { query: () => query }, release: vi.fn(), destroy: vi.fn() };
+      const pool = { getConnection: vi.fn().mockResolvedValue(connection), query: vi.fn().mockResolvedValue([]) };
+      (driver as unknown as { pool: unknown }).pool = pool;
+      const controller = new AbortController();
+
+      const streaming = driver.stream('SELECT SLEEP(60)', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(streaming).rejects.toThrow(QueryCancelledError);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(pool.query).toHaveBeenCalledWith('KILL QUERY 7');
+      expect(connection.destroy).toHaveBeenCalled();
+      expect(connection.release).not.toHaveBeenCalled();
+    });
+
+    it('cancels the SQL Server request', async () => {
+      const driver = new MssqlDriver(serverConfig('mssql'));
+      const request = Object.assign(new EventEmitter(), {
+        toReadableStream: silentStream,
+        query: vi.fn(() => new Promise(() => undefined)),
+        cancel: vi.fn()
+      });
+      (driver as unknown as { connect: () => Promise<unknown> }).connect = async () => ({ request: () => request });
+      const controller = new AbortController();
+
+      const streaming = driver.stream("WAITFOR DELAY '00:01'", { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(streaming).rejects.toThrow(QueryCancelledError);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(request.cancel).toHaveBeenCalled();
+    });
+  });
+
+  describe('SqliteDriver', () => {
+    let directory: string;
+    let file: string;
+
+    beforeAll(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-driver-'));
+      file = path.join(directory, 'shop.db');
+      const SQL = await initSqlJs();
+      const db = new SQL.Database();
+      db.run(`
+        CREATE TABLE customer (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+        CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER REFERENCES customer(id), total REAL);
+        CREATE INDEX idx_orders_customer ON orders (customer_id, total);
+        CREATE UNIQUE INDEX uq_customer_name ON customer (name);
+        INSERT INTO customer VALUES (1, 'Ann'), (2, 'Bob');
+        INSERT INTO orders VALUES (10, 1, 9.5), (11, 1, 20), (12, 2, 3.25);
+      `);
+      fs.writeFileSync(file, db.export());
+      db.close();
+    });
+
+    afterAll(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+      delete process.env.SQLITE_DATA_DIR;
+    });
+
+    it('runs queries and reports the columns', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+      const result = await driver.run('SELECT c.name, SUM(o.total) AS spent FROM customer c JOIN orders o ON o.customer_id = c.id GROUP BY c.name ORDER BY c.name');
+
+      expect(result.fields.map((f) => f.name)).toEqual(['name', 'spent']);
+      expect(result.rows).toEqual([{ name: 'Ann', spent: 29.5 }, { name: 'Bob', spent: 3.25 }]);
+      await driver.close();
+    });
+
+    it('binds parameter values instead of interpolating them', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+      const result = await driver.run('SELECT id FROM orders WHERE total > ? AND customer_id IN (SELECT id FROM customer WHERE name = ?)', {
+        params: [5, "Ann' OR '1'='1"]
+      });
+      expect(result.rows).toEqual([]);
+
+      const { rows } = await driver.stream('SELECT id FROM orders WHERE total > ? ORDER BY id', { params: [5] });
+      const ids: unknown[] = [];
+      for await (const row of rows) ids.push(row.id);
+      expect(ids).toEqual([10, 11]);
+      await driver.close();
+    });
+
+    it('introspects tables, columns and foreign keys', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+
+      expect(await driver.introspect()).toEqual({
+        customer: {
+          columns: ['id', 'name'],
+          description: 'Table customer',
+          columnDetails: { id: { type: 'INTEGER', nullable: true }, name: { type: 'TEXT', nullable: false } },
+          primaryKey: ['id'],
+          indexes: [{ name: 'uq_customer_name', columns: ['name'], unique: true }]
+        },
+        orders: {
+          columns: ['id', 'customer_id', 'total'],
+          description: 'Table orders',
+          columnDetails: {
+            id: { type: 'INTEGER', nullable: true },
+            customer_id: { type: 'INTEGER', nullable: true },
+            total: { type: 'REAL', nullable: true }
+          },
+          primaryKey: ['id'],
+          indexes: [{ name: 'idx_orders_customer', columns: ['customer_id', 'total'], unique: false }]
+        }
+      });
+      expect(await driver.relationships()).toEqual([{ from: 'orders', fromColumn: 'customer_id', to: 'customer', toColumn: 'id' }]);
+      await driver.close();
+    });
+
+    it('explains valid queries and rejects unknown tables', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+
+      await expect(driver.explain('SELECT * FROM orders')).resolves.toBeUndefined();
+      await expect(driver.explain('SELECT * FROM missing')).rejects.toThrow(/no such table/);
+      await driver.close();
+    });
+
+    it('streams rows and stops when the signal aborts', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+      const controller = new AbortController();
+      const { fields, rows } = await driver.stream('WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT i FROM n', {
+        signal: controller.signal
+      });
+
+      expect(fields).toEqual([{ name: 'i' }]);
+      let count = 0;
+      await expect((async () => {
+        for await (const row of rows) {
+          if (++count === 150) controller.abort();
+          expect(row.i).toBe(count);
+        }
+      })()).rejects.toThrow(QueryCancelledError);
+      expect(count).toBeLessThan(300);
+      await driver.close();
+    });
+
+    it('times out long-running queries', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+
+      await expect(
+        driver.run('WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT i FROM n', { timeoutMs: 20 })
+      ).rejects.toThrow(QueryTimeoutError);
+      await driver.close();
+    });
+
+    it('never writes changes back to the file', async () => {
+      const driver = new SqliteDriver(sqliteConfig(file));
+      const before = fs.readFileSync(file);
+
+      await driver.run('DELETE FROM orders');
+      await driver.close();
+
+      expect(fs.readFileSync(file).equals(before)).toBe(true);
+    });
+
+    it('keeps files inside SQLITE_DATA_DIR when it is set', () => {
+      process.env.SQLITE_DATA_DIR = directory;
+
+      expect(resolveSqlitePath('shop.db')).toBe(file);
+      expect(() => resolveSqlitePath('../etc/passwd')).toThrow(/SQLITE_DATA_DIR/);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { ParquetReader } from 'parquetjs-lite';
+import { streamQueryExport } from '../../../src/services/exportService';
+import { resultLineage } from '../../../src/utils/masking';
+import { checkSqlSafety } from '../../../src/utils/sqlSafety';
+
+const fields = [
+  { name: 'id', orgName: 'customer_id', orgTable: 'customer', kind: 'integer' as const },
+  { name: 'email', orgName: 'email', orgTable: 'customer', kind: 'text' as const },
+  { name: 'created', orgName: 'create_date', orgTable: 'customer', kind: 'datetime' as const }
+];
+
+const rows = [
+  { id: 1, email: 'mary.smith@example.com', created: new Date('2006-02-14T22:04:36Z') },
+  { id: 2, email: 'has "quotes", commas', created: null }
+];
+
+const makeDriver = (resultRows: any[], rowSource?: () => AsyncGenerator<any>, resultFields: any[] = fields) => {
+  const state = { closed: false };
+  async function* fromRows() {
+    yield* resultRows;
+  }
+  // Records whether the export stopped pulling rows before the end
+  async function* tracked(source: AsyncGenerator<any>) {
+    let completed = false;
+    try {
+      yield* source;
+      completed = true;
+    } finally {
+      state.closed = !completed;
+    }
+  }
+  const driver = {
+    dialect: 'mysql',
+    stream: vi.fn().mockImplementation(async () => ({
+      fields: resultFields,
+      rows: tracked(rowSource ? rowSource() : fromRows())
+    }))
+  } as any;
+  return { driver, state };
+};
+
+const collect = (output: PassThrough) => {
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+  return () => Buffer.concat(chunks);
+};
+
+describe('exportService', () => {
+  it('streams CSV with a header and quoted values', async () => {
+    const { driver, state } = makeDriver(rows);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    const result = await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'csv', output });
+
+    expect(result).toEqual({ rowCount: 2, cancelled: false, truncated: false, maskedColumns: [] });
+    expect(read().toString()).toBe(
+      'id,email,created\r\n' +
+      '1,mary.smith@example.com,2006-02-14T22:04:36.000Z\r\n' +
+      '2,"has ""quotes"", commas",\r\n'
+    );
+    expect(driver.stream).toHaveBeenCalledWith('SELECT * FROM customer', { signal: undefined });
+    expect(state.closed).toBe(false);
+  });
+
+  it('quotes CSV text that a spreadsheet would run as a formula', async () => {
+    const { driver } = makeDriver([
+      { id: -1, email: '=HYPERLINK("http://evil.example","x")', created: '+1' },
+      { id: 2, email: '@SUM(A1)', created: '-2' }
+    ]);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'csv', output });
+
+    expect(read().toString()).toBe(
+      'id,email,created\r\n' +
+      '-1,"\'=HYPERLINK(""http://evil.example"",""x"")",\'+1\r\n' +
+      "2,'@SUM(A1),'-2\r\n"
+    );
+  });
+
+  it('writes the CSV header for empty results', async () => {
+    const { driver } = makeDriver([]);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    await streamQueryExport(driver, 'SELECT * FROM customer WHERE 1 = 0', { format: 'csv', output });
+
+    expect(read().toString()).toBe('id,email,created\r\n');
+  });
+
+  it('stops after maxRows rows and reports the export as truncated', async () => {
+    const { driver, state } = makeDriver(rows);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    const result = await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'ndjson', output, maxRows: 1 });
+
+    expect(result).toMatchObject({ rowCount: 1, cancelled: false, truncated: true });
+    expect(read().toString().trim().split('\n')).toHaveLength(1);
+    expect(state.closed).toBe(true);
+  });
+
+  it('applies masking rules to NDJSON rows', async () => {
+    const { driver } = makeDriver(rows);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    const result = await streamQueryExport(driver, 'SELECT * FROM customer', {
+      format: 'ndjson',
+      output,
+      maskingRules: [{ column: 'customer.email', strategy: 'redact' }]
+    });
+
+    const lines = read().toString().trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({ id: 1, email: '[REDACTED]', created: '2006-02-14T22:04:36.000Z' });
+    expect(result.maskedColumns).toEqual([{ column: 'email', strategy: 'redact' }]);
+  });
+
+  it('masks expressions over a masked column using the query lineage', async () => {
+    const sql = 'SELECT customer_id AS id, UPPER(email) AS shout FROM customer';
+    const { driver } = makeDriver([{ id: 1, shout: 'MARY.SMITH@EXAMPLE.COM' }], undefined, [{ name: 'id' }, { name: 'shout' }]);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    const result = await streamQueryExport(driver, sql, {
+      format: 'ndjson',
+      output,
+      maskingRules: [{ column: 'customer.email', strategy: 'redact' }],
+      lineage: resultLineage(checkSqlSafety(sql).ast)
+    });
+
+    expect(JSON.parse(read().toString())).toEqual({ id: 1, shout: '[REDACTED]' });
+    expect(result.maskedColumns).toEqual([{ column: 'shout', strategy: 'redact' }]);
+  });
+
+  it('writes XLSX workbooks', async () => {
+    const { driver } = makeDriver(rows);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'xlsx', output });
+
+    expect(read().subarray(0, 2).toString()).toBe('PK');
+  });
+
+  it('writes typed Parquet files', async () => {
+    const { driver } = makeDriver(rows);
+    const output = new PassThrough();
+    const read = collect(output);
+
+    await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'parquet', output });
+
+    const file = read();
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    expect(file.subarray(-4).toString()).toBe('PAR1');
+  });
+
+  it('writes Parquet values that can be read back', async () => {
+    // parquetjs-lite cannot read back its own TIMESTAMP statistics, so leave that column out
+    const { driver } = makeDriver(rows.map(({ id, email }) => ({ id, email })), undefined, fields.slice(0, 2));
+    const output = new PassThrough();
+    const read = collect(output);
+
+    await streamQueryExport(driver, 'SELECT customer_id AS id, email FROM customer', { format: 'parquet', output });
+
+    const reader = await ParquetReader.openBuffer(read());
+    const cursor = reader.getCursor();
+    const first = await cursor.next();
+    const second = await cursor.next();
+    expect(Number(first?.id)).toBe(1);
+    expect(first?.email).toBe('mary.smith@example.com');
+    expect(second?.email).toBe('has "quotes", commas');
+    expect(await cursor.next()).toBeNull();
+    await reader.close();
+  });
+
+  it('stops reading rows when aborted', async () => {
+    const controller = new AbortController();
+    async function* slowRows() {
+      yield rows[0];
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      yield rows[1];
+    }
+    const { driver, state } = makeDriver([], slowRows);
+    const output = new PassThrough();
+    collect(output);
+    // The client goes away as soon as the first bytes arrive
+    output.once('data', () => controller.abort());
+
+    const result = await streamQueryExport(driver, 'SELECT * FROM customer', { format: 'csv', output, signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.rowCount).toBe(1);
+    // Leaving the row iterator early is what tells the driver to stop the query
+    expect(state.closed).toBe(true);
+    expect(driver.stream).toHaveBeenCalledWith('SELECT * FROM customer', { signal: controller.signal });
+  });
+
+  it('rejects when the query fails', async () => {
+    async function* failingRows(): AsyncGenerator<any> {
+      throw Object.assign(new Error("Unknown column 'x'"), { code: 'ER_BAD_FIELD_ERROR' });
+    }
+    const { driver } = makeDriver([], failingRows);
+
+    await expect(streamQueryExport(driver, 'SELECT x FROM customer', { format: 'csv', output: new PassThrough() }))
+      .rejects.toThrow("Unknown column 'x'");
+  });
+});
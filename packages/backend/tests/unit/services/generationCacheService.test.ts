@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return {
+    mockExecute,
+    mockCreatePool: vi.fn(() => ({ execute: mockExecute }))
+  };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { generationCacheKey, generationCacheService, normalizePrompt } from '../../../src/services/generationCacheService';
+
+const model = { provider: 'anthropic', model: 'claude-sonnet-4', temperature: 0.1 };
+const request = { prompt: 'Top films', schema: { film: { columns: ['film_id', 'title'], description: 'Films' } } };
+const response = { sql: 'SELECT title FROM film LIMIT 20', confidence: 0.9, reasoning: 'films', tables_used: ['film'] };
+
+describe('generationCacheService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('keys generations by normalized prompt, schema and model', () => {
+    const key = generationCacheKey(request, model);
+
+    expect(normalizePrompt('  Top\n  FILMS ')).toBe('top films');
+    expect(generationCacheKey({ ...request, prompt: ' top   films' }, model)).toBe(key);
+    expect(generationCacheKey({ ...request, schema: { film: { columns: ['film_id'], description: 'Films' } } }, model)).not.toBe(key);
+    expect(generationCacheKey({ ...request, policy: { maxLimit: 10 } }, model)).not.toBe(key);
+    expect(generationCacheKey(request, { ...model, model: 'claude-opus-4' })).not.toBe(key);
+    expect(generationCacheKey(request, { ...model, temperature: 0.5 })).not.toBe(key);
+  });
+
+  it('returns fresh entries and counts the hit', async () => {
+    process.env.GENERATION_CACHE_TTL_HOURS = '12';
+    mockExecute
+      .mockResolvedValueOnce([[{ response: JSON.stringify(response), created_at: '2026-10-19T08:00:00.000Z' }]])
+      .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+    await expect(generationCacheService.get('abc')).resolves.toEqual({
+      response,
+      createdAt: new Date('2026-10-19T08:00:00.000Z')
+    });
+    expect(mockExecute.mock.calls[0][0]).toContain('INTERVAL 12 HOUR');
+    expect(mockExecute.mock.calls[1][0]).toContain('hit_count = hit_count + 1');
+  });
+
+  it('treats database errors as a miss', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockExecute.mockRejectedValue(new Error("Table 'generation_cache' doesn't exist"));
+
+    await expect(generationCacheService.get('abc')).resolves.toBeNull();
+    await expect(generationCacheService.set('abc', { databaseId: 1, prompt: 'Top films', model, response })).resolves.toBeUndefined();
+    await expect(generationCacheService.invalidate(1)).resolves.toBe(0);
+  });
+
+  it('invalidates the entries of one connection', async () => {
+    mockExecute.mockResolvedValueOnce([{ affectedRows: 3 }]);
+
+    await expect(generationCacheService.invalidate(2)).resolves.toBe(3);
+    expect(mockExecute).toHaveBeenCalledWith('DELETE FROM generation_cache WHERE database_settings_id = ?', [2]);
+  });
+});
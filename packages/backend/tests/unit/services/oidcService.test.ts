@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import { createServer, type Server } from 'http';
+import { createMockOidcProvider } from '../../../src/tools/mockOidcProvider';
+import { oidcService } from '../../../src/services/oidcService';
+
+const CALLBACK = 'http://localhost:3001/api/auth/oidc/callback';
+
+// Follow the provider's /authorize redirect and pull the code and state out of the callback URL
+const authorize = async (url: string) => {
+  const response = await fetch(url, { redirect: 'manual' });
+  const callback = new URL(response.headers.get('location')!);
+  return { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state')! };
+};
+
+describe('oidcService against the mock provider', () => {
+  let server: Server;
+  let issuer: string;
+
+  beforeAll(async () => {
+    // The issuer includes the port, so listen before building the provider
+    server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    server.on('request', createMockOidcProvider({ issuer, clientId: 'query-builder', clientSecret: 'shh' }));
+
+    process.env.OIDC_ISSUER = issuer;
+    process.env.OIDC_CLIENT_ID = 'query-builder';
+    process.env.OIDC_CLIENT_SECRET = 'shh';
+    process.env.OIDC_REDIRECT_URI = CALLBACK;
+  });
+
+  afterAll(async () => {
+    delete process.env.OIDC_ISSUER;
+    delete process.env.OIDC_CLIENT_ID;
+    delete process.env.OIDC_CLIENT_SECRET;
+    delete process.env.OIDC_REDIRECT_URI;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('runs the code flow with PKCE and returns the verified identity', async () => {
+    const url = new URL(await oidcService.beginLogin());
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe(CALLBACK);
+
+    url.searchParams.set('login_hint', 'bob');
+    const { code, state } = await authorize(url.toString());
+    const profile = await oidcService.completeLogin(code, state);
+
+    expect(profile).toEqual({ issuer, subject: 'mock-bob', username: 'bob', display_name: 'Bob Example', email: 'bob@example.com' });
+  });
+
+  it('rejects unknown or replayed state', async () => {
+    const { code, state } = await authorize(await oidcService.beginLogin());
+    await oidcService.completeLogin(code, state);
+
+    await expect(oidcService.completeLogin(code, state)).rejects.toThrow('expired or was already used');
+    await expect(oidcService.completeLogin(code, 'made-up')).rejects.toThrow('expired or was already used');
+  });
+
+  it('rejects a sign-in that is finished after the state expired', async () => {
+    const started = Date.now();
+    const { code, state } = await authorize(await oidcService.beginLogin(started));
+
+    await expect(oidcService.completeLogin(code, state, started + 11 * 60 * 1000)).rejects.toThrow('expired');
+  });
+});
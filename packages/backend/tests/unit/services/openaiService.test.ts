@@ -44,6 +44,75 @@ describe('openaiService', () => {
     expect(mockCreate).toHaveBeenCalled();
   });
 
+  it('reports the token usage of the call', async () => {
+    const svc = await importService();
+    mockCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ sql: 'SELECT 1', confidence: 1 }) } }],
+      usage: { prompt_tokens: 1200, completion_tokens: 80, total_tokens: 1280 }
+    });
+    const res = await svc.generateQuery({ prompt: 'get 1', schema: {} });
+    expect(res?.usage).toEqual({ inputTokens: 1200, outputTokens: 80 });
+  });
+
+  it('describes column types, keys and ENUM values in the system prompt', async () => {
+    const svc = await importService();
+    mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify({ sql: 'SELECT 1', confidence: 1 }) } }] });
+    await svc.generateQuery({
+      prompt: 'pg-13 films',
+      schema: {
+        film: {
+          columns: ['film_id', 'title', 'rating'],
+          description: 'Films',
+          columnDetails: {
+            film_id: { type: 'int', nullable: false },
+            title: { type: 'varchar(128)', nullable: false },
+            rating: { type: 'enum', nullable: true, enumValues: ['G', 'PG', 'PG-13'] }
+          },
+          primaryKey: ['film_id'],
+          indexes: [{ name: 'idx_title', columns: ['title'], unique: false }]
+        },
+        language: { columns: ['language_id', 'name'], description: 'Languages' }
+      }
+    });
+
+    const system = mockCreate.mock.calls[0][0].messages[0].content as string;
+    expect(system).toContain('- film_id int, primary key');
+    expect(system).toContain('- title varchar(128), not null');
+    expect(system).toContain("- rating enum, one of 'G', 'PG', 'PG-13'");
+    expect(system).toContain('Indexes: idx_title (title)');
+    expect(system).toContain('Table: language\nColumns: language_id, name\n');
+  });
+
+  it('includes sample values, ranges and row counts from the profile', async () => {
+    const svc = await importService();
+    mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify({ sql: 'SELECT 1', confidence: 1 }) } }] });
+    await svc.generateQuery({
+      prompt: 'active customers since 2024',
+      schema: {
+        customer: {
+          columns: ['status', 'created_at'],
+          description: 'Customers',
+          columnDetails: { status: { type: 'varchar(16)' }, created_at: { type: 'date' } }
+        }
+      },
+      profile: {
+        customer: {
+          rowCount: 599,
+          sampledRows: 599,
+          columns: {
+            status: { nullRatio: 0.1, distinctCount: 2, values: ['active', 'inactive'] },
+            created_at: { nullRatio: 0, distinctCount: 300, min: '2006-02-14T00:00:00.000Z', max: '2024-05-01T00:00:00.000Z' }
+          }
+        }
+      }
+    });
+
+    const system = mockCreate.mock.calls[0][0].messages[0].content as string;
+    expect(system).toContain("- status varchar(16), values 'active', 'inactive', 10% null");
+    expect(system).toContain('- created_at date, range 2006-02-14 to 2024-05-01');
+    expect(system).toContain('Rows: ~599');
+  });
+
   it('generateQuery clamps invalid confidence and handles invalid format', async () => {
     const svc = await importService();
     mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify({ sql: 'x', confidence: 5 }) } }] });
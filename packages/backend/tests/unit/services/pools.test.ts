@@ -1,5 +1,25 @@
-import { describe, it, expect } from 'vitest';
-import { setPool, getPool, setDestinationPool, getDestinationPool } from '../../../src/services/pools';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/services/drivers', () => ({
+  createDriver: vi.fn((config: { dialect: string }) => ({ dialect: config.dialect, close: vi.fn().mockResolvedValue(undefined) }))
+}));
+
+import { setPool, getPool, getDestinationDriver, closeDestinationDrivers } from '../../../src/services/pools';
+import { createDriver } from '../../../src/services/drivers';
+
+const config = (id: number) => ({
+  id,
+  name: `db-${id}`,
+  dialect: 'postgres' as const,
+  host: 'localhost',
+  port: 5432,
+  database_name: 'app',
+  username: 'app',
+  password: 'secret',
+  ssl_enabled: false,
+  is_active: true,
+  is_default: false
+});
 
 describe('pools service', () => {
   it('sets and gets main pool', () => {
@@ -10,11 +30,22 @@ describe('pools service', () => {
     expect(getPool()).toBeNull();
   });
 
-  it('sets and gets destination pool', () => {
-    const p = { id: 2 } as any;
-    setDestinationPool(p);
-    expect(getDestinationPool()).toBe(p);
-    setDestinationPool(null);
-    expect(getDestinationPool()).toBeNull();
+  it('keeps one destination driver per database connection', () => {
+    const first = getDestinationDriver(config(1));
+    expect(getDestinationDriver(config(1))).toBe(first);
+    expect(getDestinationDriver(config(2))).not.toBe(first);
+    expect(first.dialect).toBe('postgres');
+    expect(createDriver).toHaveBeenCalledTimes(2);
+  });
+
+  it('closes cached drivers so the next use reconnects', async () => {
+    const driver = getDestinationDriver(config(3));
+    await closeDestinationDrivers(3);
+    expect(driver.close).toHaveBeenCalled();
+    expect(getDestinationDriver(config(3))).not.toBe(driver);
+
+    const other = getDestinationDriver(config(4));
+    await closeDestinationDrivers();
+    expect(other.close).toHaveBeenCalled();
   });
 });
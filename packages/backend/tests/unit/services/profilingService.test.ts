@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+
+vi.mock('../../../src/services/databaseSystemService', () => ({
+  databaseService: {
+    getDatabaseConfig: vi.fn(),
+    getMaskingRules: vi.fn(),
+    saveSchemaProfile: vi.fn()
+  }
+}));
+
+import { profilingService } from '../../../src/services/profilingService';
+import { SqliteDriver } from '../../../src/services/drivers/sqliteDriver';
+
+describe('profilingService', () => {
+  let directory: string;
+  let file: string;
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'profiling-'));
+    file = path.join(directory, 'shop.db');
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(`
+      CREATE TABLE customer (id INTEGER PRIMARY KEY, email TEXT, status TEXT, signup_date DATE);
+      CREATE TABLE empty_table (id INTEGER PRIMARY KEY);
+      INSERT INTO customer VALUES
+        (1, 'ann@example.com', 'active', '2024-01-05'),
+        (2, 'bob@example.com', 'active', '2024-03-10'),
+        (3, NULL, 'closed', '2023-11-20'),
+        (4, 'dee@example.com', NULL, '2024-02-01');
+    `);
+    fs.writeFileSync(file, db.export());
+    db.close();
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const open = () => new SqliteDriver({
+    dialect: 'sqlite',
+    host: '',
+    port: 0,
+    database_name: file,
+    username: '',
+    password: '',
+    ssl_enabled: false
+  });
+
+  it('collects row counts, null ratios, ranges and low-cardinality values', async () => {
+    const driver = open();
+    const profile = await profilingService.profile(driver, await driver.introspect());
+    await driver.close();
+
+    expect(profile.tables.empty_table).toEqual({ rowCount: 0, sampledRows: 0, columns: {} });
+    const customer = profile.tables.customer;
+    expect(customer.rowCount).toBe(4);
+    expect(customer.sampledRows).toBe(4);
+    expect(customer.columns.id).toEqual({ nullRatio: 0, distinctCount: 4, min: 1, max: 4 });
+    expect(customer.columns.status).toEqual({ nullRatio: 0.25, distinctCount: 2, values: ['active', 'closed'] });
+    expect(customer.columns.signup_date).toMatchObject({ min: '2023-11-20', max: '2024-03-10' });
+  });
+
+  it('only records null ratios of masked columns', async () => {
+    const driver = open();
+    const profile = await profilingService.profile(driver, await driver.introspect(), [
+      { column: 'customer.email', strategy: 'redact' }
+    ]);
+    await driver.close();
+
+    expect(profile.tables.customer.columns.email).toEqual({ nullRatio: 0.25 });
+  });
+});
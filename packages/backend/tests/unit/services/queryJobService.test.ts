@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return {
+    mockExecute,
+    mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() }))
+  };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+vi.mock('../../../src/services/pools', () => ({
+  getDestinationDriver: vi.fn()
+}));
+
+vi.mock('../../../src/services/queryLogService', () => ({
+  queryLogService: {
+    logQuery: vi.fn()
+  }
+}));
+
+import { canAccessJob, JobSubmission, queryJobService } from '../../../src/services/queryJobService';
+import { getDestinationDriver } from '../../../src/services/pools';
+import { queryLogService } from '../../../src/services/queryLogService';
+
+const analyst = { id: 7, username: 'ana', role: 'analyst' as const };
+
+// Just enough of the query_jobs table for the statements the service runs
+const jobs = new Map<string, Record<string, any>>();
+const fakeTable = async (sql: string, params: any[] = []) => {
+  if (sql.startsWith('INSERT INTO query_jobs')) {
+    const [id, user_id, database_settings_id, sql_query] = params;
+    jobs.set(id, { id, user_id, database_settings_id, sql_query, status: 'queued', row_count: 0, truncated: 0 });
+  } else if (sql.includes("SET status = 'running'")) {
+    jobs.get(params[0])!.status = 'running';
+  } else if (sql.includes("SET status = 'succeeded'")) {
+    const [row_count, columns, masked_columns, result_rows, result_file, truncated, expires_at, id] = params;
+    Object.assign(jobs.get(id)!, { status: 'succeeded', row_count, columns, masked_columns, result_rows, result_file, truncated, expires_at });
+  } else if (sql.includes('SET status = ?')) {
+    const [status, row_count, error_message, expires_at, id] = params;
+    Object.assign(jobs.get(id)!, { status, row_count, error_message, expires_at });
+  } else if (sql.includes("SET status = 'cancelled'")) {
+    const [expires_at, id] = params;
+    Object.assign(jobs.get(id)!, { status: 'cancelled', error_message: 'Query cancelled', expires_at });
+  } else if (sql.startsWith('DELETE')) {
+    jobs.delete(params[0]);
+  } else if (sql.startsWith('SELECT')) {
+    const row = jobs.get(params[0]);
+    return [row ? [row] : []];
+  }
+  return [{}];
+};
+
+async function* rowsOf(rows: Record<string, unknown>[], waitFor?: Promise<void>) {
+  if (waitFor) await waitFor;
+  yield* rows;
+}
+
+const createDriver = (rows: Record<string, unknown>[], waitFor?: Promise<void>) => ({
+  dialect: 'mysql',
+  stream: vi.fn().mockImplementation(async () => ({
+    fields: [{ name: 'id' }, { name: 'email' }],
+    rows: rowsOf(rows, waitFor)
+  }))
+});
+
+const submission = (sql: string, databaseId = 2): JobSubmission => ({
+  user: analyst,
+  database: { id: databaseId, name: 'Sakila' } as any,
+  sql,
+  boundSql: sql,
+  params: [],
+  maskingRules: [{ column: 'email', strategy: 'redact' }]
+});
+
+const waitForStatus = (id: string, status: string) =>
+  vi.waitFor(async () => expect((await queryJobService.get(id))?.status).toBe(status));
+
+describe('queryJobService', () => {
+  const env = { ...process.env };
+  let spillDir: string;
+
+  beforeEach(() => {
+    jobs.clear();
+    mockExecute.mockReset();
+    mockExecute.mockImplementation(fakeTable);
+    vi.mocked(queryLogService.logQuery).mockReset();
+    spillDir = mkdtempSync(join(tmpdir(), 'query-jobs-'));
+    process.env.QUERY_JOB_SPILL_DIR = spillDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    rmSync(spillDir, { recursive: true, force: true });
+  });
+
+  it('runs a job in the background and keeps small masked results inline', async () => {
+    const driver = createDriver([{ id: 1, email: 'ann@example.com' }, { id: 2, email: 'bob@example.com' }]);
+    vi.mocked(getDestinationDriver).mockReturnValue(driver as any);
+
+    const job = await queryJobService.submit(submission('SELECT id, email FROM customer'));
+    expect(job.user_id).toBe(analyst.id);
+    await waitForStatus(job.id, 'succeeded');
+
+    expect(driver.stream).toHaveBeenCalledWith(
+      'SELECT /*+ MAX_EXECUTION_TIME(600000) */ id, email FROM customer',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    const stored = await queryJobService.get(job.id);
+    expect(stored).toMatchObject({ row_count: 2, columns: ['id', 'email'], masked_columns: [{ column: 'email', strategy: 'redact' }] });
+    expect(jobs.get(job.id)!.result_file).toBeNull();
+
+    const results = await queryJobService.results(job.id, 1, 10);
+    expect(results?.rows).toEqual([{ id: 1, email: '[REDACTED]' }, { id: 2, email: '[REDACTED]' }]);
+    expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({ query_type: 'job', execution_status: 'success' }));
+  });
+
+  it('spills large results to a file, pages through it and deletes it with the job', async () => {
+    process.env.QUERY_JOB_INLINE_ROWS = '2';
+    const rows = [1, 2, 3, 4, 5].map((id) => ({ id, email: null }));
+    vi.mocked(getDestinationDriver).mockReturnValue(createDriver(rows) as any);
+
+    const job = await queryJobService.submit(submission('SELECT id, email FROM customer'));
+    await waitForStatus(job.id, 'succeeded');
+
+    const file = jobs.get(job.id)!.result_file;
+    expect(file).toBe(join(spillDir, `${job.id}.ndjson`));
+    expect(jobs.get(job.id)!.result_rows).toBeNull();
+    const page = await queryJobService.results(job.id, 2, 2);
+    expect(page).toMatchObject({ rows: [{ id: 3, email: null }, { id: 4, email: null }], totalRows: 5, totalPages: 3 });
+
+    expect(await queryJobService.remove(job.id)).toBe(true);
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it('stops at the query policy row limit and marks the job truncated', async () => {
+    const rows = [1, 2, 3, 4, 5].map((id) => ({ id, email: null }));
+    vi.mocked(getDestinationDriver).mockReturnValue(createDriver(rows) as any);
+
+    const job = await queryJobService.submit({ ...submission('SELECT id, email FROM customer'), maxRows: 3 });
+    await waitForStatus(job.id, 'succeeded');
+
+    expect(jobs.get(job.id)).toMatchObject({ row_count: 3, truncated: true });
+  });
+
+  it('limits jobs running per database and cancels waiting ones without running them', async () => {
+    process.env.QUERY_JOB_CONCURRENCY = '1';
+    let release!: () => void;
+    const driver = createDriver([{ id: 1, email: null }], new Promise<void>((resolve) => { release = resolve; }));
+    vi.mocked(getDestinationDriver).mockReturnValue(driver as any);
+
+    const first = await queryJobService.submit(submission('SELECT 1'));
+    const second = await queryJobService.submit(submission('SELECT 2'));
+    await waitForStatus(first.id, 'running');
+    expect((await queryJobService.get(second.id))?.status).toBe('queued');
+
+    expect(await queryJobService.cancel(second.id)).toBe(true);
+    expect((await queryJobService.get(second.id))?.status).toBe('cancelled');
+
+    release();
+    await waitForStatus(first.id, 'succeeded');
+    expect(driver.stream).toHaveBeenCalledTimes(1);
+    expect(await queryJobService.cancel(first.id)).toBe(false);
+  });
+
+  it('records a failure when the query errors', async () => {
+    vi.mocked(getDestinationDriver).mockReturnValue({
+      dialect: 'postgres',
+      stream: vi.fn().mockRejectedValue(Object.assign(new Error('relation "nope" does not exist'), { code: '42P01' }))
+    } as any);
+
+    const job = await queryJobService.submit(submission('SELECT * FROM nope'));
+    await waitForStatus(job.id, 'failed');
+
+    expect((await queryJobService.get(job.id))?.error).toBe('relation "nope" does not exist');
+    expect(await queryJobService.results(job.id, 1, 10)).toBeNull();
+    expect(queryLogService.logQuery).toHaveBeenCalledWith(expect.objectContaining({ execution_status: 'execution_error', error_code: '42P01' }));
+  });
+
+  it('lets only the owner or an admin access a job', () => {
+    const job = { user_id: 7 } as any;
+    expect(canAccessJob(job, analyst)).toBe(true);
+    expect(canAccessJob(job, { id: 8, username: 'bob', role: 'analyst' })).toBe(false);
+    expect(canAccessJob(job, { id: 1, username: 'root', role: 'admin' })).toBe(true);
+    expect(canAccessJob(job, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return { mockExecute, mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() })) };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { queryLogService, toFullTextQuery } from '../../../src/services/queryLogService';
+
+const row = (id: number) => ({
+  id,
+  query_type: 'generation',
+  natural_language_query: 'top 10 films',
+  generated_sql: 'SELECT * FROM film LIMIT 10',
+  execution_status: 'success',
+  confidence_score: '0.90',
+  execution_time_ms: 12,
+  error_message: null,
+  user_session: 'abc',
+  repair_rounds: 0,
+  database_settings_id: 1,
+  database_name: 'Sakila',
+  created_at: '2026-10-19T10:00:00.000Z'
+});
+
+describe('queryLogService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  it('turns search text into required prefix terms without FULLTEXT operators', () => {
+    expect(toFullTextQuery('  top films* -"rated" ')).toBe('+top* +films* +rated*');
+    expect(toFullTextQuery('+-()')).toBe('');
+  });
+
+  it('filters with bound parameters and pages by id', async () => {
+    mockExecute.mockResolvedValueOnce([[]]);
+    const from = new Date('2026-10-01T00:00:00Z');
+
+    await queryLogService.searchHistory({
+      session: 'abc',
+      status: 'execution_error',
+      type: 'validation',
+      databaseId: 2,
+      from,
+      search: 'films',
+      cursor: 40,
+      limit: 20
+    });
+
+    const [sql, params] = mockExecute.mock.calls[0];
+    expect(sql).toContain('l.user_session = ?');
+    expect(sql).toContain('MATCH(l.natural_language_query, l.generated_sql) AGAINST (? IN BOOLEAN MODE)');
+    expect(sql).toContain('l.id < ?');
+    expect(sql).toContain('ORDER BY l.id DESC');
+    expect(sql).toContain('LIMIT 21');
+    expect(params).toEqual(['abc', 'execution_error', 'validation', 2, from, '+films*', 40]);
+  });
+
+  it('restricts history to the given connections', async () => {
+    mockExecute.mockResolvedValue([[]]);
+
+    await queryLogService.searchHistory({ databaseIds: [2, 3] });
+    expect(mockExecute.mock.calls[0][0]).toContain('l.database_settings_id IN (?, ?)');
+    expect(mockExecute.mock.calls[0][1]).toEqual([2, 3]);
+
+    await expect(queryLogService.getHistoryEntry(12, [])).resolves.toBeNull();
+    expect(mockExecute.mock.calls[1][0]).toContain('WHERE l.id = ? AND 1 = 0');
+  });
+
+  it('returns a cursor only when another page follows', async () => {
+    mockExecute.mockResolvedValueOnce([[row(9), row(8), row(7)]]);
+
+    const page = await queryLogService.searchHistory({ limit: 2 });
+
+    expect(page.entries.map((entry) => entry.id)).toEqual([9, 8]);
+    expect(page.entries[0]).toMatchObject({ type: 'generation', prompt: 'top 10 films', confidence: 0.9, database_name: 'Sakila' });
+    expect(page.nextCursor).toBe(8);
+
+    mockExecute.mockResolvedValueOnce([[row(7)]]);
+    expect((await queryLogService.searchHistory({ cursor: 8, limit: 2 })).nextCursor).toBeNull();
+  });
+});
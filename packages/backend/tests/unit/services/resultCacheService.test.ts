@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { normalizeSql, resultCacheService } from '../../../src/services/resultCacheService';
+
+const key = (sql: string, databaseId = 1, params: (string | number)[] = []) => ({ databaseId, dialect: 'mysql' as const, sql, params, withCount: false });
+
+const result = (rows: Record<string, unknown>[]) => ({ rows, fields: [], totalRows: null });
+
+describe('resultCacheService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    resultCacheService.invalidate();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('normalizeSql', () => {
+    it('collapses whitespace outside quoted text and keeps everything else as written', () => {
+      expect(normalizeSql('SELECT  *\n\tFROM Film\nWHERE title = \'ACE  Goldfinger\';')).toBe(
+        "SELECT * FROM Film WHERE title = 'ACE  Goldfinger'"
+      );
+      expect(normalizeSql('SELECT "Title", `Year` FROM [My Table]')).toBe('SELECT "Title", `Year` FROM [My Table]');
+      expect(normalizeSql("SELECT 'It''s A' , 'b\\'C'")).toBe("SELECT 'It''s A' , 'b\\'C'");
+    });
+
+    it('drops comments the way the dialect reads them', () => {
+      expect(normalizeSql('SELECT * FROM film -- x\nWHERE film_id=1')).toBe('SELECT * FROM film WHERE film_id=1');
+      expect(normalizeSql('SELECT * FROM film -- x WHERE film_id=1')).toBe('SELECT * FROM film');
+      expect(normalizeSql('SELECT /* all */ * FROM film # note')).toBe('SELECT * FROM film');
+      // MySQL needs a space after --, so this is 1 minus minus 1
+      expect(normalizeSql('SELECT 1--1')).toBe('SELECT 1--1');
+      expect(normalizeSql('SELECT 1--1', 'postgres')).toBe('SELECT 1');
+      expect(normalizeSql("SELECT '-- not a comment', $$ /* kept */ $$", 'postgres')).toBe("SELECT '-- not a comment', $$ /* kept */ $$");
+    });
+  });
+
+  it('shares an entry between spellings of the same query on the same connection', () => {
+    resultCacheService.set(key('SELECT * FROM film WHERE id = ?', 1, [5]), result([{ id: 5 }]), 60);
+
+    expect(resultCacheService.get(key('SELECT *\n  FROM film -- by id\n WHERE id = ?;', 1, [5]))?.rows).toEqual([{ id: 5 }]);
+    expect(resultCacheService.get(key('SELECT * FROM film WHERE id = ?', 1, [6]))).toBeNull();
+    expect(resultCacheService.get(key('SELECT * FROM film WHERE id = ?', 2, [5]))).toBeNull();
+    expect(resultCacheService.get({ ...key('SELECT * FROM film WHERE id = ?', 1, [5]), withCount: true })).toBeNull();
+  });
+
+  it('keeps queries apart that differ only inside a comment, a literal or an identifier', () => {
+    resultCacheService.set(key('SELECT * FROM film -- x\nWHERE film_id=1'), result([{ film_id: 1 }]), 60);
+    resultCacheService.set(key("SELECT * FROM film WHERE rating = 'A'"), result([{ film_id: 2 }]), 60);
+
+    expect(resultCacheService.get(key('SELECT * FROM film -- x WHERE film_id=1'))).toBeNull();
+    expect(resultCacheService.get(key("SELECT * FROM film WHERE rating = 'a'"))).toBeNull();
+    expect(resultCacheService.get(key("SELECT * FROM Film WHERE rating = 'A'"))).toBeNull();
+  });
+
+  it('evicts the least recently used entries beyond the size cap', () => {
+    process.env.RESULT_CACHE_MAX_MB = '1';
+    const rows = [{ text: 'x'.repeat(400 * 1024) }];
+    resultCacheService.set(key('SELECT 1'), result(rows), 60);
+    resultCacheService.set(key('SELECT 2'), result(rows), 60);
+    // Reading the first entry makes the second the least recently used
+    expect(resultCacheService.get(key('SELECT 1'))).not.toBeNull();
+    resultCacheService.set(key('SELECT 3'), result(rows), 60);
+
+    expect(resultCacheService.get(key('SELECT 2'))).toBeNull();
+    expect(resultCacheService.get(key('SELECT 1'))).not.toBeNull();
+    expect(resultCacheService.get(key('SELECT 3'))).not.toBeNull();
+    expect(resultCacheService.stats().bytes).toBeLessThanOrEqual(1024 * 1024);
+  });
+
+  it('invalidates the entries of one connection', () => {
+    resultCacheService.set(key('SELECT 1', 1), result([]), 60);
+    resultCacheService.set(key('SELECT 2', 1), result([]), 60);
+    resultCacheService.set(key('SELECT 1', 2), result([]), 60);
+
+    expect(resultCacheService.invalidate(1)).toBe(2);
+    expect(resultCacheService.stats()).toMatchObject({ entries: 1 });
+    expect(resultCacheService.get(key('SELECT 1', 2))).not.toBeNull();
+  });
+});
@@ -121,4 +121,22 @@ describe('rulesService', () => {
     const cached = await svc.getCachedRules();
     expect(cached).toEqual(sampleRules);
   });
-});
\ No newline at end of file
+
+  it('loads and caches rules for a given database connection', async () => {
+    const svc = await importSvc();
+    const mockDbService: any = await import('../../../src/services/databaseSystemService');
+    const execute = vi.fn().mockResolvedValue([[{ rules_json: sampleRules }]]);
+    mockDbService.databaseService.getConnection = vi.fn().mockResolvedValue({ execute, release: vi.fn() });
+
+    const rules = await svc.getCachedRules(7);
+    await svc.getCachedRules(7);
+
+    expect(rules.query_patterns[0].intent).toBe('list');
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][1]).toEqual([7]);
+
+    svc.clearCachedRules();
+    await svc.getCachedRules(7);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
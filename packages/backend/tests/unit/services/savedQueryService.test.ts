@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return { mockExecute, mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() })) };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { savedQueryService } from '../../../src/services/savedQueryService';
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  name: 'Top films',
+  description: null,
+  prompt: 'top 10 films',
+  sql_query: 'SELECT * FROM film LIMIT 10',
+  database_settings_id: 1,
+  database_name: 'Sakila',
+  tags: '["films","weekly"]',
+  folder: 'Reports',
+  parameters: '[{"name":"limit","type":"int","default":10,"required":true}]',
+  created_at: '2026-10-19T10:00:00.000Z',
+  updated_at: '2026-10-19T10:00:00.000Z',
+  ...overrides
+});
+
+describe('savedQueryService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  it('maps rows to saved queries with parsed tags', async () => {
+    mockExecute.mockResolvedValueOnce([[row(), row({ id: 8, tags: null, folder: null })]]);
+
+    const queries = await savedQueryService.list();
+
+    expect(queries[0]).toMatchObject({ id: 7, sql: 'SELECT * FROM film LIMIT 10', tags: ['films', 'weekly'], database_name: 'Sakila' });
+    expect(queries[1]).toMatchObject({ id: 8, tags: [], folder: null });
+  });
+
+  it('parses parameter definitions and drops ones that no longer validate', async () => {
+    mockExecute.mockResolvedValueOnce([[row({ parameters: '[{"name":"limit","type":"int"},{"name":"bad name"}]' })]]);
+
+    const [query] = await savedQueryService.list();
+
+    expect(query.parameters).toEqual([{ name: 'limit', type: 'int', required: true }]);
+  });
+
+  it('filters by search text, folder and tag with bound parameters', async () => {
+    mockExecute.mockResolvedValueOnce([[]]);
+
+    await savedQueryService.list({ search: '50%_off', folder: 'Reports', tag: 'weekly' });
+
+    const [sql, params] = mockExecute.mock.calls[0];
+    expect(sql).toContain('q.name LIKE ?');
+    expect(sql).toContain('q.folder = ?');
+    expect(sql).toContain('JSON_CONTAINS(q.tags, JSON_QUOTE(?))');
+    expect(params).toEqual(['%50\\%\\_off%', '%50\\%\\_off%', '%50\\%\\_off%', '%50\\%\\_off%', 'Reports', 'weekly']);
+  });
+
+  it('limits the list to the given connections and queries tied to none', async () => {
+    mockExecute.mockResolvedValueOnce([[]]).mockResolvedValueOnce([[]]);
+
+    await savedQueryService.list({ databaseIds: [2, 5] });
+    await savedQueryService.list({ databaseIds: [] });
+
+    expect(mockExecute.mock.calls[0][0]).toContain('(q.database_settings_id IS NULL OR q.database_settings_id IN (?, ?))');
+    expect(mockExecute.mock.calls[0][1]).toEqual([2, 5]);
+    expect(mockExecute.mock.calls[1][0]).toContain('WHERE q.database_settings_id IS NULL');
+  });
+
+  it('only updates the given fields', async () => {
+    mockExecute
+      .mockResolvedValueOnce([{ affectedRows: 1 }])
+      .mockResolvedValueOnce([[row({ name: 'Renamed', tags: '["a"]' })]]);
+
+    const updated = await savedQueryService.update(7, { name: 'Renamed', tags: ['a'] });
+
+    expect(mockExecute.mock.calls[0]).toEqual(['UPDATE saved_queries SET name = ?, tags = ? WHERE id = ?', ['Renamed', '["a"]', 7]]);
+    expect(updated).toMatchObject({ name: 'Renamed', tags: ['a'] });
+  });
+
+  it('returns null when updating a missing query', async () => {
+    mockExecute.mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+    expect(await savedQueryService.update(99, { folder: null })).toBeNull();
+  });
+
+  it('duplicates a query under a new name', async () => {
+    mockExecute
+      .mockResolvedValueOnce([[row()]])
+      .mockResolvedValueOnce([{ insertId: 8 }])
+      .mockResolvedValueOnce([[row({ id: 8, name: 'Top films (copy)' })]]);
+
+    const copy = await savedQueryService.duplicate(7, 4);
+
+    expect(mockExecute.mock.calls[1][1]).toEqual([
+      'Top films (copy)', null, 'top 10 films', 'SELECT * FROM film LIMIT 10', 1, '["films","weekly"]', 'Reports',
+      '[{"name":"limit","type":"int","default":10,"required":true}]', 4
+    ]);
+    expect(copy?.id).toBe(8);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockExecute, mockConnection, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  const mockConnection = {
+    execute: vi.fn(),
+    beginTransaction: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+    release: vi.fn()
+  };
+  return {
+    mockExecute,
+    mockConnection,
+    mockCreatePool: vi.fn(() => ({ execute: mockExecute, getConnection: vi.fn().mockResolvedValue(mockConnection), end: vi.fn() }))
+  };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { teamService } from '../../../src/services/teamService';
+
+const teamRow = { id: 4, name: 'Analytics', description: null, created_at: '2026-10-19T10:00:00.000Z', updated_at: '2026-10-19T10:00:00.000Z' };
+
+// The three queries list() runs: teams, members, database grants
+const mockList = () => mockExecute
+  .mockResolvedValueOnce([[teamRow]])
+  .mockResolvedValueOnce([[{ team_id: 4, user_id: 2 }, { team_id: 9, user_id: 3 }]])
+  .mockResolvedValueOnce([[{ team_id: 4, database_settings_id: 1 }]]);
+
+describe('teamService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+    Object.values(mockConnection).forEach((fn) => fn.mockReset());
+  });
+
+  it('lists teams with their members and granted connections', async () => {
+    mockList();
+
+    const teams = await teamService.list();
+
+    expect(teams).toEqual([{ ...teamRow, member_ids: [2], database_ids: [1] }]);
+  });
+
+  it('creates a team and its links in one transaction', async () => {
+    mockConnection.execute.mockResolvedValueOnce([{ insertId: 4 }]).mockResolvedValue([{}]);
+    mockList();
+
+    const team = await teamService.create({ name: 'Analytics', member_ids: [2, 2], database_ids: [1] });
+
+    const statements = mockConnection.execute.mock.calls.map(([sql, params]) => [sql, params]);
+    expect(statements).toEqual([
+      ['INSERT INTO teams (name, description) VALUES (?, ?)', ['Analytics', null]],
+      ['DELETE FROM team_members WHERE team_id = ?', [4]],
+      ['INSERT INTO team_members (team_id, user_id) VALUES (?, ?)', [4, 2]],
+      ['DELETE FROM team_database_access WHERE team_id = ?', [4]],
+      ['INSERT INTO team_database_access (team_id, database_settings_id) VALUES (?, ?)', [4, 1]]
+    ]);
+    expect(mockConnection.commit).toHaveBeenCalled();
+    expect(team.id).toBe(4);
+  });
+
+  it('rolls back when a link refers to a missing user or connection', async () => {
+    mockConnection.execute
+      .mockResolvedValueOnce([{ insertId: 4 }])
+      .mockResolvedValueOnce([{}])
+      .mockRejectedValueOnce(Object.assign(new Error('fk'), { code: 'ER_NO_REFERENCED_ROW_2' }));
+
+    await expect(teamService.create({ name: 'Analytics', member_ids: [99], database_ids: [] })).rejects.toThrow('fk');
+    expect(mockConnection.rollback).toHaveBeenCalled();
+    expect(mockConnection.release).toHaveBeenCalled();
+  });
+
+  it('only replaces the lists an update includes', async () => {
+    mockConnection.execute.mockResolvedValueOnce([[{ id: 4 }]]).mockResolvedValue([{}]);
+    mockList();
+
+    await teamService.update(4, { database_ids: [1, 3] });
+
+    const sql = mockConnection.execute.mock.calls.map(([statement]) => statement);
+    expect(sql.some((statement) => statement.includes('team_members'))).toBe(false);
+    expect(sql.some((statement) => statement.startsWith('UPDATE teams'))).toBe(false);
+    expect(sql.filter((statement) => statement.startsWith('INSERT INTO team_database_access'))).toHaveLength(2);
+  });
+
+  it('returns null when updating a missing team', async () => {
+    mockConnection.execute.mockResolvedValueOnce([[]]);
+
+    expect(await teamService.update(5, { name: 'x' })).toBeNull();
+    expect(mockConnection.rollback).toHaveBeenCalled();
+  });
+
+  it('looks up the connections granted to a user through their teams', async () => {
+    mockExecute.mockResolvedValueOnce([[{ database_settings_id: 1 }, { database_settings_id: 3 }]]);
+
+    expect(await teamService.databaseIdsForUser(2)).toEqual([1, 3]);
+    expect(mockExecute.mock.calls[0][1]).toEqual([2]);
+  });
+});
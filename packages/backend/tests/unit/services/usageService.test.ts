@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return { mockExecute, mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() })) };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { estimateCost, usageService } from '../../../src/services/usageService';
+
+const from = new Date('2026-10-01T00:00:00Z');
+const to = new Date('2026-10-19T00:00:00Z');
+
+// Answers the three budget queries by what they select
+const budgetTables = (globalLimit: string | null, databases: Record<string, unknown>[], spend: Record<string, unknown>[]) =>
+  async (sql: string) => {
+    if (sql.includes('FROM app_settings')) return [globalLimit === null ? [] : [{ setting_value: globalLimit }]];
+    if (sql.includes('FROM database_settings')) return [databases];
+    return [spend];
+  };
+
+describe('usageService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('estimateCost', () => {
+    it('prices models by their longest matching prefix', () => {
+      expect(estimateCost('claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBe(4.5);
+      expect(estimateCost('gpt-4o-mini', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.15);
+      expect(estimateCost('llama3.1', { inputTokens: 1000, outputTokens: 1000 })).toBeNull();
+      expect(estimateCost(undefined, { inputTokens: 1000, outputTokens: 1000 })).toBeNull();
+    });
+
+    it('layers AI_MODEL_PRICES over the defaults', () => {
+      process.env.AI_MODEL_PRICES = JSON.stringify({ 'llama3.1': { input: 0, output: 0 }, 'gpt-4o': { input: 5, output: 20 }, broken: { input: 'x' } });
+
+      expect(estimateCost('llama3.1', { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+      expect(estimateCost('gpt-4o', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(5);
+      expect(estimateCost('broken', { inputTokens: 1000, outputTokens: 0 })).toBeNull();
+    });
+  });
+
+  it('breaks usage down by day, session, connection, user and model', async () => {
+    mockExecute.mockImplementation(async (sql: string) => {
+      const totals = { generations: 2, input_tokens: '3000', output_tokens: '200', estimated_cost: '0.012000' };
+      if (sql.includes('GROUP BY DATE')) return [[{ day: new Date('2026-10-18T00:00:00Z'), ...totals }]];
+      if (sql.includes('GROUP BY l.user_session')) return [[{ user_session: 'abc', ...totals }]];
+      if (sql.includes('GROUP BY l.database_settings_id')) return [[{ database_settings_id: 2, database_name: 'Sakila', ...totals }]];
+      if (sql.includes('GROUP BY l.user_id')) return [[{ user_id: 7, username: 'ana', ...totals }]];
+      if (sql.includes('GROUP BY l.source')) return [[{ source: 'anthropic', model: 'claude-sonnet-4', ...totals }]];
+      return [[totals]];
+    });
+
+    const report = await usageService.report({ from, to, databaseId: 2, limit: 5 });
+
+    const expected = { generations: 2, inputTokens: 3000, outputTokens: 200, estimatedCost: 0.012 };
+    expect(report.totals).toEqual(expected);
+    expect(report.byDay).toEqual([{ day: '2026-10-18', ...expected }]);
+    expect(report.bySession).toEqual([{ session: 'abc', ...expected }]);
+    expect(report.byDatabase).toEqual([{ databaseId: 2, databaseName: 'Sakila', ...expected }]);
+    expect(report.byUser).toEqual([{ userId: 7, username: 'ana', ...expected }]);
+    expect(report.byModel).toEqual([{ source: 'anthropic', model: 'claude-sonnet-4', ...expected }]);
+    for (const [sql, params] of mockExecute.mock.calls) {
+      expect(sql).toContain('l.input_tokens IS NOT NULL');
+      expect(params).toEqual([from, to, 2]);
+    }
+  });
+
+  it('compares this month\'s spend with the global and per-connection budgets', async () => {
+    mockExecute.mockImplementation(budgetTables('10', [
+      { id: 2, name: 'Sakila', ai_monthly_budget_usd: '1.00' },
+      { id: 3, name: 'Warehouse', ai_monthly_budget_usd: '5.00' }
+    ], [
+      { database_settings_id: 2, spent: '1.25' },
+      { database_settings_id: 3, spent: '0.5' }
+    ]));
+
+    const budgets = await usageService.budgets();
+
+    expect(budgets.global).toEqual({ limit: 10, spent: 1.75, exceeded: false });
+    expect(budgets.databases).toEqual([
+      { databaseId: 2, databaseName: 'Sakila', limit: 1, spent: 1.25, exceeded: true },
+      { databaseId: 3, databaseName: 'Warehouse', limit: 5, spent: 0.5, exceeded: false }
+    ]);
+    await expect(usageService.budgetExceeded(2)).resolves.toBe(true);
+    await expect(usageService.budgetExceeded(3)).resolves.toBe(false);
+  });
+
+  it('never blocks generation when the budget cannot be checked', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockExecute.mockRejectedValue(new Error("Unknown column 'ai_monthly_budget_usd'"));
+
+    await expect(usageService.budgetExceeded(2)).resolves.toBe(false);
+  });
+
+  it('stores the global budget as an app setting and removes it when cleared', async () => {
+    mockExecute.mockResolvedValue([{ affectedRows: 1 }]);
+
+    await expect(usageService.setBudget(undefined, 25)).resolves.toBe(true);
+    expect(mockExecute.mock.calls[0][1]).toEqual(['ai_monthly_budget_usd', '25']);
+
+    await usageService.setBudget(undefined, null);
+    expect(mockExecute.mock.calls[1][0]).toContain('DELETE FROM app_settings');
+
+    mockExecute.mockResolvedValueOnce([{ affectedRows: 0 }]);
+    await expect(usageService.setBudget(99, 5)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockExecute, mockCreatePool } = vi.hoisted(() => {
+  const mockExecute = vi.fn();
+  return { mockExecute, mockCreatePool: vi.fn(() => ({ execute: mockExecute, end: vi.fn() })) };
+});
+
+vi.mock('mysql2/promise', () => ({
+  default: { createPool: mockCreatePool },
+  createPool: mockCreatePool
+}));
+
+import { hasRole, userService } from '../../../src/services/userService';
+import { hashPassword } from '../../../src/utils/passwords';
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  username: 'ana',
+  display_name: 'Ana',
+  email: 'ana@example.com',
+  password_hash: null,
+  role: 'analyst',
+  oidc_issuer: null,
+  oidc_subject: null,
+  is_active: 1,
+  last_login_at: null,
+  created_at: '2026-10-19T10:00:00.000Z',
+  updated_at: '2026-10-19T10:00:00.000Z',
+  ...overrides
+});
+
+describe('userService', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_USERNAME;
+    delete process.env.ADMIN_PASSWORD;
+    delete process.env.OIDC_DEFAULT_ROLE;
+  });
+
+  it('orders roles viewer < analyst < admin', () => {
+    expect(hasRole('admin', 'analyst')).toBe(true);
+    expect(hasRole('analyst', 'analyst')).toBe(true);
+    expect(hasRole('viewer', 'analyst')).toBe(false);
+  });
+
+  it('authenticates with the stored hash and never exposes it', async () => {
+    const password_hash = await hashPassword('s3cret-pass');
+    mockExecute.mockResolvedValueOnce([[row({ password_hash })]]).mockResolvedValueOnce([{}]);
+
+    const user = await userService.authenticate('ana', 's3cret-pass');
+
+    expect(user).toMatchObject({ id: 1, username: 'ana', role: 'analyst', has_password: true });
+    expect(user).not.toHaveProperty('password_hash');
+    expect(mockExecute.mock.calls[1][0]).toContain('last_login_at = NOW()');
+  });
+
+  it('rejects wrong passwords, unknown users and disabled accounts', async () => {
+    const password_hash = await hashPassword('s3cret-pass');
+    mockExecute.mockResolvedValueOnce([[row({ password_hash })]]);
+    expect(await userService.authenticate('ana', 'wrong-pass')).toBeNull();
+
+    mockExecute.mockResolvedValueOnce([[]]);
+    expect(await userService.authenticate('nobody', 's3cret-pass')).toBeNull();
+
+    mockExecute.mockResolvedValueOnce([[row({ password_hash, is_active: 0 })]]);
+    expect(await userService.authenticate('ana', 's3cret-pass')).toBeNull();
+  });
+
+  it('creates OIDC users on first sign-in with the default role and a free username', async () => {
+    process.env.OIDC_DEFAULT_ROLE = 'analyst';
+    mockExecute
+      .mockResolvedValueOnce([[]]) // no linked identity
+      .mockResolvedValueOnce([[row({ id: 1 })]]) // "ana" is a local account
+      .mockResolvedValueOnce([[]]) // "ana-2" is free
+      .mockResolvedValueOnce([{ insertId: 9 }])
+      .mockResolvedValueOnce([[row({ id: 9, username: 'ana-2', oidc_issuer: 'http://idp' })]]);
+
+    const user = await userService.findOrCreateOidcUser({ issuer: 'http://idp', subject: 'sub-1', username: 'ana' });
+
+    const [sql, params] = mockExecute.mock.calls[3];
+    expect(sql).toContain('INSERT INTO users');
+    expect(params).toEqual(['ana-2', null, null, 'analyst', 'http://idp', 'sub-1']);
+    expect(user).toMatchObject({ id: 9, username: 'ana-2', has_password: false });
+  });
+
+  it('creates the bootstrap admin only when there are no users', async () => {
+    process.env.ADMIN_USERNAME = 'root';
+    process.env.ADMIN_PASSWORD = 'change-me-now';
+    mockExecute.mockResolvedValueOnce([[{ count: 2 }]]);
+    expect(await userService.ensureBootstrapAdmin()).toBeNull();
+
+    mockExecute
+      .mockResolvedValueOnce([[{ count: 0 }]])
+      .mockResolvedValueOnce([{ insertId: 1 }])
+      .mockResolvedValueOnce([[row({ username: 'root', role: 'admin', password_hash: 'scrypt$x' })]]);
+    const admin = await userService.ensureBootstrapAdmin();
+
+    const [, params] = mockExecute.mock.calls[2];
+    expect(params[0]).toBe('root');
+    expect(params[3]).toMatch(/^scrypt\$/);
+    expect(params[4]).toBe('admin');
+    expect(admin).toMatchObject({ username: 'root', role: 'admin' });
+  });
+});
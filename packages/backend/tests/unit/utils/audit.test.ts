@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, diffValues, hashAuditEvent, redactSecrets, REDACTED } from '../../../src/utils/audit';
+
+describe('audit', () => {
+  it('diffs nested objects by path and compares arrays whole', () => {
+    const diff = diffValues(
+      { host: 'a', port: 3306, policy: { deniedTables: ['x'], maxLimit: 10 }, updated_at: '2026-01-01' },
+      { host: 'b', port: 3306, policy: { deniedTables: ['x', 'y'], maxLimit: 10 }, updated_at: '2026-02-01' }
+    );
+
+    expect(diff).toEqual({
+      host: { before: 'a', after: 'b' },
+      'policy.deniedTables': { before: ['x'], after: ['x', 'y'] }
+    });
+    expect(diffValues({ a: 1 }, { a: 1 })).toEqual({});
+  });
+
+  it('shows that a secret changed without showing it', () => {
+    expect(diffValues({ password: 'old', has_password: true }, { password: 'new', has_password: true })).toEqual({
+      password: { before: REDACTED, after: REDACTED }
+    });
+    expect(diffValues({ apiKey: '' }, { apiKey: 'sk-1' })).toEqual({ apiKey: { before: null, after: REDACTED } });
+    expect(diffValues({ apiKey: 'sk-1' }, { apiKey: 'sk-1' })).toEqual({});
+    expect(diffValues(null, { name: 'db', password: 'secret' })).toEqual({
+      value: { before: null, after: { name: 'db', password: REDACTED } }
+    });
+    expect(redactSecrets([{ openai: { apiKey: 'sk-1', model: 'gpt' } }])).toEqual([{ openai: { apiKey: REDACTED, model: 'gpt' } }]);
+  });
+
+  it('serializes equal values the same way whatever the key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 1 }], c: undefined } })).toBe('{"a":{"d":[1,{"e":1,"f":2}]},"b":1}');
+  });
+
+  it('chains hashes so any change to an event or its predecessor changes the hash', () => {
+    const event = {
+      actor_id: 1,
+      actor_username: 'root',
+      action: 'update',
+      entity_type: 'query_policy',
+      entity_id: '1',
+      changes: { maxLimit: { before: 100, after: 50 } },
+      created_at: new Date('2026-10-19T10:00:00.123Z')
+    };
+    const hash = hashAuditEvent(null, event);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashAuditEvent(null, { ...event })).toBe(hash);
+    expect(hashAuditEvent(hash, event)).not.toBe(hash);
+    expect(hashAuditEvent(null, { ...event, changes: { maxLimit: { before: 100, after: 500 } } })).not.toBe(hash);
+  });
+});
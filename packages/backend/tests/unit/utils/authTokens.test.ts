@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { signToken, verifyToken } from '../../../src/utils/authTokens';
+
+const user = { id: 4, username: 'ana', role: 'analyst' as const };
+
+describe('authTokens', () => {
+  beforeEach(() => {
+    process.env.AUTH_SECRET = 'test-secret';
+    delete process.env.AUTH_TOKEN_TTL_SECONDS;
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('round-trips the user in the claims', () => {
+    const now = Date.UTC(2026, 9, 19);
+    const claims = verifyToken(signToken(user, now), now + 1000);
+
+    expect(claims).toMatchObject({ sub: '4', username: 'ana', role: 'analyst' });
+    expect(claims!.exp - claims!.iat).toBe(8 * 60 * 60);
+  });
+
+  it('rejects expired tokens', () => {
+    process.env.AUTH_TOKEN_TTL_SECONDS = '60';
+    const now = Date.UTC(2026, 9, 19);
+    const token = signToken(user, now);
+
+    expect(verifyToken(token, now + 59_000)).not.toBeNull();
+    expect(verifyToken(token, now + 60_000)).toBeNull();
+  });
+
+  it('rejects tampered claims and tokens signed with another secret', () => {
+    const token = signToken(user);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: '4', username: 'ana', role: 'admin', iat: 0, exp: 9999999999 })).toString('base64url');
+
+    expect(verifyToken(`${header}.${forged}.${signature}`)).toBeNull();
+
+    process.env.AUTH_SECRET = 'another-secret';
+    expect(verifyToken(token)).toBeNull();
+    expect(verifyToken('not-a-token')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { applyMasking, maskValue, parseMaskingRules, maskingRulesSchema, REDACTED, resolveMaskedColumns, resultLineage } from '../../../src/utils/masking';
+import { checkSqlSafety } from '../../../src/utils/sqlSafety';
+
+const rows = [
+  { id: 1, first_name: 'Mary', email: 'mary.smith@example.com', phone: '555-0101' },
+  { id: 2, first_name: 'Patricia', email: null, phone: '555-0102' }
+];
+
+const fields = [
+  { name: 'id', orgName: 'customer_id', orgTable: 'customer' },
+  { name: 'first_name', orgName: 'first_name', orgTable: 'customer' },
+  { name: 'email', orgName: 'email', orgTable: 'customer' },
+  { name: 'phone', orgName: 'phone', orgTable: 'address' }
+];
+
+describe('masking', () => {
+  describe('maskValue', () => {
+    it('applies each strategy', () => {
+      expect(maskValue('secret', 'redact')).toBe(REDACTED);
+      expect(maskValue('secret', 'null')).toBeNull();
+      expect(maskValue('secret', 'hash')).toMatch(/^[0-9a-f]{16}$/);
+      expect(maskValue('secret', 'hash')).toBe(maskValue('secret', 'hash'));
+    });
+
+    it('keeps the domain when partially masking email addresses', () => {
+      expect(maskValue('mary.smith@example.com', 'partial')).toBe('m***@example.com');
+      expect(maskValue('555-0101', 'partial')).toBe('55***01');
+      expect(maskValue('ab', 'partial')).toBe('***');
+    });
+
+    it('leaves nulls untouched', () => {
+      expect(maskValue(null, 'redact')).toBeNull();
+    });
+  });
+
+  describe('applyMasking', () => {
+    it('matches table.column rules against the originating table', () => {
+      const result = applyMasking(rows, fields, [{ column: 'customer.email', strategy: 'partial' }]);
+      expect(result.maskedColumns).toEqual([{ column: 'email', strategy: 'partial' }]);
+      expect(result.rows[0].email).toBe('m***@example.com');
+      expect(result.rows[1].email).toBeNull();
+      expect(result.rows[0].phone).toBe('555-0101');
+    });
+
+    it('matches aliased columns by their original name', () => {
+      const aliased = [{ name: 'contact', orgName: 'email', orgTable: 'customer' }];
+      const result = applyMasking([{ contact: 'a@b.com' }], aliased, [{ column: 'email', strategy: 'redact' }]);
+      expect(result.rows[0].contact).toBe(REDACTED);
+    });
+
+    it('uses the first matching rule', () => {
+      const result = applyMasking(rows, fields, [
+        { column: 'address.phone', strategy: 'partial' },
+        { pattern: 'phone|mail', strategy: 'redact' }
+      ]);
+      expect(result.maskedColumns).toEqual([
+        { column: 'email', strategy: 'redact' },
+        { column: 'phone', strategy: 'partial' }
+      ]);
+    });
+
+    it('falls back to row keys without field metadata and does not mutate input', () => {
+      const result = applyMasking(rows, undefined, [{ pattern: '^email$', strategy: 'null' }]);
+      expect(result.rows[0].email).toBeNull();
+      expect(rows[0].email).toBe('mary.smith@example.com');
+    });
+
+    it('returns rows unchanged without rules', () => {
+      const result = applyMasking(rows, fields, []);
+      expect(result.rows).toBe(rows);
+      expect(result.maskedColumns).toEqual([]);
+    });
+  });
+
+  describe('lineage', () => {
+    const rules = [{ column: 'customer.email', strategy: 'redact' as const }];
+    // Field names as a driver without origin metadata (PostgreSQL) reports them
+    const masked = (sql: string, names: string[]) =>
+      resolveMaskedColumns(rules, names.map((name) => ({ name })), [], resultLineage(checkSqlSafety(sql).ast)).map((m) => m.column);
+
+    it('masks expressions and aliases over a masked column', () => {
+      expect(masked('SELECT UPPER(email) AS x, first_name FROM customer', ['x', 'first_name'])).toEqual(['x']);
+      expect(masked("SELECT CONCAT(email, '') FROM customer", ["CONCAT(email, '')"])).toEqual(["CONCAT(email, '')"]);
+      expect(masked('SELECT c.email AS contact FROM customer c', ['contact'])).toEqual(['contact']);
+      expect(masked('SELECT (SELECT email FROM customer LIMIT 1) AS e, title FROM film', ['e', 'title'])).toEqual(['e']);
+    });
+
+    it('follows columns through CTEs, derived tables and unions', () => {
+      expect(masked('WITH c AS (SELECT LOWER(email) AS e FROM customer) SELECT e FROM c', ['e'])).toEqual(['e']);
+      expect(masked('SELECT d.* FROM (SELECT email AS e, first_name FROM customer) d', ['e', 'first_name'])).toEqual(['e']);
+      expect(masked('SELECT title FROM film UNION SELECT email FROM customer', ['title'])).toEqual(['title']);
+    });
+
+    it('lines up columns around SELECT * by position and name', () => {
+      expect(masked('SELECT *, UPPER(email) FROM customer', ['customer_id', 'email', 'upper'])).toEqual(['email', 'upper']);
+      expect(masked('SELECT first_name, * FROM customer', ['first_name', 'customer_id', 'first_name'])).toEqual([]);
+    });
+  });
+
+  describe('rules', () => {
+    it('requires exactly one of column or pattern and a valid regex', () => {
+      expect(maskingRulesSchema.safeParse([{ column: 'email', strategy: 'hash' }]).success).toBe(true);
+      expect(maskingRulesSchema.safeParse([{ strategy: 'hash' }]).success).toBe(false);
+      expect(maskingRulesSchema.safeParse([{ pattern: '(', strategy: 'hash' }]).success).toBe(false);
+      expect(maskingRulesSchema.safeParse([{ column: 'email', strategy: 'shuffle' }]).success).toBe(false);
+    });
+
+    it('parses stored rules and ignores invalid documents', () => {
+      expect(parseMaskingRules('[{"column":"email","strategy":"redact"}]')).toEqual([{ column: 'email', strategy: 'redact' }]);
+      expect(parseMaskingRules(null)).toEqual([]);
+      expect(parseMaskingRules('nope')).toEqual([]);
+    });
+  });
+});
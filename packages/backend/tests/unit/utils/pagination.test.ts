@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildCountQuery, buildFieldsQuery, buildPagedQuery, quoteIdentifier, withExecutionTimeLimit } from '../../../src/utils/pagination';
+
+describe('pagination', () => {
+  it('wraps the query with LIMIT and OFFSET for the requested page', () => {
+    expect(buildPagedQuery('SELECT title FROM film', { page: 3, pageSize: 25 })).toBe(
+      'SELECT * FROM (\nSELECT title FROM film\n) AS preview_rows\nLIMIT 25 OFFSET 50'
+    );
+  });
+
+  it('adds an ORDER BY on the quoted sort column', () => {
+    const sql = buildPagedQuery('SELECT title FROM film', { page: 1, pageSize: 10, sort: { column: 'title', direction: 'desc' } });
+    expect(sql).toContain('\nORDER BY `title` DESC\nLIMIT 10 OFFSET 0');
+  });
+
+  it('keeps trailing comments and semicolons from breaking the wrapper', () => {
+    const sql = buildPagedQuery('SELECT title FROM film -- all films', { page: 1, pageSize: 10 });
+    expect(sql).toContain('SELECT title FROM film -- all films\n) AS preview_rows');
+    expect(buildPagedQuery('SELECT 1;  ', { page: 1, pageSize: 10 })).toContain('(\nSELECT 1\n)');
+  });
+
+  it('escapes backticks in identifiers', () => {
+    expect(quoteIdentifier('we`ird')).toBe('`we``ird`');
+  });
+
+  it('quotes and pages with the syntax of the dialect', () => {
+    const sort = { column: 'title', direction: 'asc' as const };
+    expect(buildPagedQuery('SELECT title FROM film', { page: 2, pageSize: 10, sort }, 'postgres')).toBe(
+      'SELECT * FROM (\nSELECT title FROM film\n) AS preview_rows\nORDER BY "title" ASC\nLIMIT 10 OFFSET 10'
+    );
+    expect(buildPagedQuery('SELECT title FROM film', { page: 2, pageSize: 10, sort }, 'mssql')).toBe(
+      'SELECT * FROM (\nSELECT title FROM film\n) AS preview_rows\nORDER BY [title] ASC\nOFFSET 10 ROWS FETCH NEXT 10 ROWS ONLY'
+    );
+    expect(buildPagedQuery('SELECT title FROM film', { page: 1, pageSize: 10 }, 'mssql')).toContain('ORDER BY (SELECT NULL)\nOFFSET 0 ROWS');
+    expect(buildCountQuery('SELECT title FROM film', 10000, 'sqlite')).toBe(
+      'SELECT COUNT(*) AS total FROM (\nSELECT title FROM film\n) AS count_rows'
+    );
+  });
+
+  it('builds a zero-row wrapper for reading column metadata', () => {
+    expect(buildFieldsQuery('SELECT * FROM users;')).toBe('SELECT * FROM (\nSELECT * FROM users\n) AS preview_rows\nLIMIT 0');
+    expect(buildFieldsQuery('SELECT * FROM users', 'mssql')).toBe('SELECT TOP (0) * FROM (\nSELECT * FROM users\n) AS preview_rows');
+  });
+
+  it('builds a COUNT(*) wrapper with a server-side time limit', () => {
+    expect(buildCountQuery('SELECT title FROM film', 10000)).toBe(
+      'SELECT /*+ MAX_EXECUTION_TIME(10000) */ COUNT(*) AS total FROM (\nSELECT title FROM film\n) AS count_rows'
+    );
+  });
+
+  it('adds MAX_EXECUTION_TIME to MySQL SELECT statements only', () => {
+    expect(withExecutionTimeLimit('SELECT title FROM film LIMIT 50', 30000)).toBe(
+      'SELECT /*+ MAX_EXECUTION_TIME(30000) */ title FROM film LIMIT 50'
+    );
+    expect(withExecutionTimeLimit('select /*+ BKA(film) */ title FROM film', 30000)).toBe(
+      'select /*+ MAX_EXECUTION_TIME(30000) BKA(film) */ title FROM film'
+    );
+    expect(withExecutionTimeLimit('SELECT /*+ MAX_EXECUTION_TIME(5) */ 1', 30000)).toBe('SELECT /*+ MAX_EXECUTION_TIME(5) */ 1');
+    expect(withExecutionTimeLimit('WITH f AS (SELECT 1) SELECT * FROM f', 30000)).toBe('WITH f AS (SELECT 1) SELECT * FROM f');
+    expect(withExecutionTimeLimit('SELECT title FROM film', 30000, 'postgres')).toBe('SELECT title FROM film');
+  });
+});
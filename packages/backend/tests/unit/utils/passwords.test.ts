@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from '../../../src/utils/passwords';
+
+describe('passwords', () => {
+  it('hashes with a random salt and verifies the original password', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+  });
+
+  it('rejects hashes it did not produce', async () => {
+    expect(await verifyPassword('secret', 'plain-text')).toBe(false);
+    expect(await verifyPassword('secret', 'bcrypt$10$abc$def')).toBe(false);
+  });
+});
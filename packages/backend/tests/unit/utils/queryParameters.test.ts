@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bindParameters,
+  coerceParameterValue,
+  findParameterNames,
+  guessParameterValues,
+  queryParameterSchema,
+  resolveParameterValues
+} from '../../../src/utils/queryParameters';
+
+const param = (definition: Record<string, unknown>) => queryParameterSchema.parse(definition);
+
+describe('queryParameters', () => {
+  describe('findParameterNames', () => {
+    it('lists each name once in order of first use', () => {
+      expect(findParameterNames('SELECT * FROM film WHERE title LIKE :q OR description LIKE :q LIMIT :limit')).toEqual(['q', 'limit']);
+    });
+
+    it('skips string literals, comments, casts and time literals', () => {
+      const sql = `SELECT ':not_me', "also :not", created::date -- :comment
+        FROM t /* :block */ WHERE at > '10:30' AND id = :id`;
+      expect(findParameterNames(sql, 'postgres')).toEqual(['id']);
+      expect(findParameterNames("SELECT [:col] FROM t WHERE x = :x", 'mssql')).toEqual(['x']);
+      expect(findParameterNames("SELECT $$ :quoted $$ WHERE x = :x", 'postgres')).toEqual(['x']);
+    });
+  });
+
+  describe('coerceParameterValue', () => {
+    it('converts values to the parameter type', () => {
+      expect(coerceParameterValue(param({ name: 'n', type: 'int' }), '42')).toEqual({ value: 42 });
+      expect(coerceParameterValue(param({ name: 'n', type: 'int' }), '4.5')).toEqual({ error: 'n must be a whole number' });
+      expect(coerceParameterValue(param({ name: 'd', type: 'date' }), '2026-02-30x')).toEqual({ error: 'd must be a date (YYYY-MM-DD)' });
+      expect(coerceParameterValue(param({ name: 'b', type: 'boolean' }), 'true')).toEqual({ value: true });
+    });
+
+    it('enforces allowed values and required parameters', () => {
+      const rating = param({ name: 'rating', label: 'Rating', allowedValues: ['G', 'PG'] });
+      expect(coerceParameterValue(rating, 'PG')).toEqual({ value: 'PG' });
+      expect(coerceParameterValue(rating, 'X')).toEqual({ error: 'Rating must be one of: G, PG' });
+      expect(coerceParameterValue(rating, '')).toEqual({ error: 'Rating is required' });
+      expect(coerceParameterValue(param({ name: 'o', required: false }), null)).toEqual({ value: null });
+    });
+  });
+
+  it('falls back to defaults when resolving values', () => {
+    const definitions = [param({ name: 'limit', type: 'int', default: 10 })];
+    expect(resolveParameterValues(['limit', 'city'], definitions, { city: 'Lima' })).toEqual({ values: { limit: 10, city: 'Lima' } });
+    expect(resolveParameterValues(['city'], definitions, {})).toEqual({ errors: ['city is required'] });
+  });
+
+  describe('bindParameters', () => {
+    const sql = 'SELECT * FROM film WHERE title LIKE :q OR description LIKE :q LIMIT :limit';
+    const values = { q: "%' OR 1=1 --", limit: 5 };
+
+    it('binds positionally for MySQL and SQLite, repeating reused names', () => {
+      expect(bindParameters(sql, values, 'mysql')).toEqual({
+        sql: 'SELECT * FROM film WHERE title LIKE ? OR description LIKE ? LIMIT ?',
+        params: ["%' OR 1=1 --", "%' OR 1=1 --", 5]
+      });
+    });
+
+    it('numbers each name once for PostgreSQL and SQL Server', () => {
+      expect(bindParameters(sql, values, 'postgres')).toEqual({
+        sql: 'SELECT * FROM film WHERE title LIKE $1 OR description LIKE $1 LIMIT $2',
+        params: ["%' OR 1=1 --", 5]
+      });
+      expect(bindParameters('SELECT TOP (:limit) * FROM film', values, 'mssql').sql).toBe('SELECT TOP (@p1) * FROM film');
+    });
+
+    it('refuses to leave a placeholder unbound', () => {
+      expect(() => bindParameters('SELECT :missing', {}, 'mysql')).toThrow('No value for parameter :missing');
+    });
+  });
+
+  it('guesses values from the prompt', () => {
+    const parameters = [
+      param({ name: 'rating', allowedValues: ['G', 'PG', 'PG-13'] }),
+      param({ name: 'min_length', type: 'int' }),
+      param({ name: 'from_date', type: 'date' }),
+      param({ name: 'limit', type: 'int', default: 10 }),
+      param({ name: 'city' })
+    ];
+    expect(guessParameterValues(parameters, 'PG-13 films over 90 minutes since 2005-05-25 in Lima', ['lima'])).toEqual({
+      rating: 'PG-13',
+      min_length: 90,
+      from_date: '2005-05-25',
+      limit: 10,
+      city: 'lima'
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { parseQueryPolicy, describeQueryPolicy } from '../../../src/utils/queryPolicy';
+import { checkSqlSafety, checkSqlPolicy } from '../../../src/utils/sqlSafety';
+
+const codes = (sql: string, policy: Parameters<typeof checkSqlPolicy>[1]) => checkSqlPolicy(sql, policy).map((v) => v.code);
+
+describe('queryPolicy', () => {
+  describe('parseQueryPolicy', () => {
+    it('parses stored JSON objects and strings', () => {
+      expect(parseQueryPolicy({ maxLimit: 100 })).toEqual({ maxLimit: 100 });
+      expect(parseQueryPolicy('{"deniedTables":["payment"]}')).toEqual({ deniedTables: ['payment'] });
+    });
+
+    it('returns null for empty or invalid policies', () => {
+      expect(parseQueryPolicy(null)).toBeNull();
+      expect(parseQueryPolicy('not json')).toBeNull();
+      expect(parseQueryPolicy({ maxLimit: 'lots' })).toBeNull();
+    });
+  });
+
+  describe('tables', () => {
+    it('enforces allow- and deny-lists', () => {
+      expect(codes('SELECT title FROM film', { allowedTables: ['film'] })).toEqual([]);
+      expect(codes('SELECT amount FROM payment', { allowedTables: ['film'] })).toEqual(['TABLE_NOT_ALLOWED']);
+      expect(codes('SELECT f.title FROM film f JOIN payment p ON p.id = f.film_id', { deniedTables: ['PAYMENT'] })).toEqual(['TABLE_NOT_ALLOWED']);
+    });
+
+    it('does not treat CTE names as tables', () => {
+      expect(codes('WITH recent AS (SELECT title FROM film) SELECT title FROM recent', { allowedTables: ['film'] })).toEqual([]);
+    });
+
+    it('checks the real table a CTE of the same name reads from', () => {
+      const policy = { deniedTables: ['payment'] };
+      expect(codes('WITH payment AS (SELECT * FROM payment) SELECT * FROM payment', policy)).toEqual(['TABLE_NOT_ALLOWED']);
+      expect(codes('WITH payment AS (SELECT title FROM film), later AS (SELECT * FROM payment) SELECT * FROM later', policy)).toEqual([]);
+      expect(codes('WITH RECURSIVE payment AS (SELECT 1 AS n UNION ALL SELECT n + 1 FROM payment WHERE n < 5) SELECT n FROM payment', policy)).toEqual([]);
+    });
+
+    it('checks tables inside sub-queries', () => {
+      expect(codes('SELECT title FROM film WHERE film_id IN (SELECT film_id FROM payment)', { deniedTables: ['payment'] })).toEqual(['TABLE_NOT_ALLOWED']);
+    });
+  });
+
+  describe('columns', () => {
+    it('resolves aliases when checking qualified columns', () => {
+      const policy = { deniedColumns: ['customer.email'] };
+      expect(codes('SELECT c.first_name FROM customer c', policy)).toEqual([]);
+      expect(codes('SELECT c.email FROM customer c', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('SELECT email FROM customer', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+    });
+
+    it('applies bare column names to every table', () => {
+      expect(codes('SELECT s.email FROM staff s', { deniedColumns: ['email'] })).toEqual(['COLUMN_NOT_ALLOWED']);
+    });
+
+    it('rejects SELECT * when column restrictions apply', () => {
+      expect(codes('SELECT * FROM customer', { deniedColumns: ['customer.email'] })).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('SELECT COUNT(*) FROM customer', { deniedColumns: ['customer.email'] })).toEqual([]);
+    });
+
+    it('allows SELECT * on tables no column rule applies to', () => {
+      expect(codes('SELECT * FROM film', { deniedColumns: ['customer.email'] })).toEqual([]);
+      expect(codes('SELECT f.* FROM film f JOIN customer c ON c.id = f.film_id', { deniedColumns: ['customer.email'] })).toEqual([]);
+      expect(codes('SELECT * FROM film f JOIN customer c ON c.id = f.film_id', { deniedColumns: ['customer.email'] })).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('SELECT * FROM film', { deniedColumns: ['email'] })).toEqual(['COLUMN_NOT_ALLOWED']);
+    });
+
+    it('enforces column allow-lists but ignores select-list aliases', () => {
+      const policy = { allowedColumns: ['film.title', 'rating'] };
+      expect(codes('SELECT title, rating AS r FROM film ORDER BY r', policy)).toEqual([]);
+      expect(codes('SELECT title, length FROM film', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+    });
+
+    it('only reads select-list aliases in ORDER BY and HAVING', () => {
+      const policy = { deniedColumns: ['email'] };
+      expect(codes('SELECT email AS email FROM customer', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes("SELECT first_name AS email, email FROM customer WHERE email LIKE 'a%'", policy)).toEqual(['COLUMN_NOT_ALLOWED', 'COLUMN_NOT_ALLOWED']);
+      expect(codes("SELECT first_name AS e FROM customer WHERE e LIKE 'a%'", { allowedColumns: ['first_name'] })).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('SELECT first_name AS n, COUNT(*) AS c FROM customer GROUP BY first_name HAVING c > 1 ORDER BY n', { allowedColumns: ['first_name'] })).toEqual([]);
+    });
+
+    it('resolves qualifiers against the FROM items in scope before CTE names', () => {
+      const policy = { deniedColumns: ['customer.email'] };
+      expect(codes('WITH x AS (SELECT 1 AS a) SELECT x.email FROM customer AS x', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('WITH x AS (SELECT first_name AS email FROM customer) SELECT x.email FROM x', policy)).toEqual([]);
+      expect(codes('SELECT d.email FROM (SELECT email FROM customer) d', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+      expect(codes('SELECT first_name FROM customer c WHERE EXISTS (SELECT 1 FROM film f WHERE c.email = f.title)', policy)).toEqual(['COLUMN_NOT_ALLOWED']);
+    });
+  });
+
+  describe('functions, limits and joins', () => {
+    it('rejects banned functions', () => {
+      expect(codes('SELECT MD5(title) FROM film', { bannedFunctions: ['md5'] })).toEqual(['FUNCTION_NOT_ALLOWED']);
+    });
+
+    it('rejects a LIMIT above the maximum in both LIMIT forms', () => {
+      expect(codes('SELECT title FROM film LIMIT 50', { maxLimit: 100 })).toEqual([]);
+      expect(codes('SELECT title FROM film LIMIT 500', { maxLimit: 100 })).toEqual(['LIMIT_EXCEEDED']);
+      expect(codes('SELECT title FROM film LIMIT 10, 500', { maxLimit: 100 })).toEqual(['LIMIT_EXCEEDED']);
+      expect(codes('SELECT title FROM film LIMIT 50 OFFSET 1000', { maxLimit: 100 })).toEqual([]);
+    });
+
+    it('rejects joins deeper than the maximum', () => {
+      const sql = 'SELECT a.first_name FROM actor a JOIN film_actor fa ON a.actor_id = fa.actor_id JOIN film f ON f.film_id = fa.film_id';
+      expect(codes(sql, { maxJoinDepth: 2 })).toEqual([]);
+      expect(codes(sql, { maxJoinDepth: 1 })).toEqual(['JOIN_DEPTH_EXCEEDED']);
+    });
+  });
+
+  describe('integration with the safety gate', () => {
+    it('reports read-only and policy violations together', () => {
+      const result = checkSqlSafety('SELECT SLEEP(1) FROM payment', { deniedTables: ['payment'] });
+      expect(result.violations.map((v) => v.code)).toEqual(['FUNCTION_NOT_ALLOWED', 'TABLE_NOT_ALLOWED']);
+    });
+
+    it('returns no policy violations without a policy or for unparseable SQL', () => {
+      expect(checkSqlPolicy('SELECT * FROM payment', null)).toEqual([]);
+      expect(checkSqlPolicy('SELEC * FROM payment', { deniedTables: ['payment'] })).toEqual([]);
+    });
+  });
+
+  describe('describeQueryPolicy', () => {
+    it('renders prompt rules for each configured restriction', () => {
+      const text = describeQueryPolicy({ deniedTables: ['payment'], maxLimit: 100 });
+      expect(text).toContain('QUERY POLICY');
+      expect(text).toContain('NEVER query these tables: payment');
+      expect(text).toContain('LIMIT must not exceed 100');
+    });
+
+    it('returns an empty string without restrictions', () => {
+      expect(describeQueryPolicy(null)).toBe('');
+      expect(describeQueryPolicy({})).toBe('');
+    });
+  });
+});
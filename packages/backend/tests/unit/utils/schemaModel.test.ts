@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSchema, parseStoredSchema, SCHEMA_VERSION, serializeSchema } from '../../../src/utils/schemaModel';
+
+const film = {
+  columns: ['film_id', 'title', 'rating'],
+  description: 'Films',
+  columnDetails: {
+    film_id: { type: 'int', nullable: false },
+    rating: { type: 'enum', nullable: true, enumValues: ['G', 'PG', 'PG-13'] }
+  },
+  primaryKey: ['film_id'],
+  indexes: [{ name: 'idx_title', columns: ['title'], unique: false }]
+};
+
+describe('schemaModel', () => {
+  it('reads version 1 blobs as they are', () => {
+    const legacy = { actor: { columns: ['actor_id', 'first_name'], description: 'Actors' } };
+
+    expect(parseStoredSchema(legacy)).toEqual(legacy);
+    expect(parseStoredSchema(JSON.stringify(legacy))).toEqual(legacy);
+    expect(parseStoredSchema({})).toEqual({});
+  });
+
+  it('round-trips the versioned envelope', () => {
+    const stored = serializeSchema({ film });
+
+    expect(JSON.parse(stored)).toEqual({ version: SCHEMA_VERSION, tables: { film } });
+    expect(parseStoredSchema(stored)).toEqual({ film });
+    expect(parseStoredSchema(JSON.parse(stored))).toEqual({ film });
+  });
+
+  it('returns null when nothing usable is stored', () => {
+    expect(parseStoredSchema(null)).toBeNull();
+    expect(parseStoredSchema('')).toBeNull();
+    expect(parseStoredSchema('not json')).toBeNull();
+    expect(parseStoredSchema([1, 2])).toBeNull();
+  });
+
+  it('drops invalid tables and details for unknown columns', () => {
+    const schema = normalizeSchema({
+      film: {
+        ...film,
+        columnDetails: { ...film.columnDetails, gone: { type: 'int' } },
+        indexes: [...film.indexes, { name: 'idx_gone', columns: ['gone'], unique: true }],
+        extra: 'ignored'
+      },
+      broken: { columns: 'film_id' },
+      nameless: { columns: ['id'] },
+      keyless: { columns: ['id'], description: 'No key', primaryKey: ['missing'] }
+    });
+
+    expect(schema).toEqual({
+      film,
+      nameless: { columns: ['id'], description: '' },
+      keyless: { columns: ['id'], description: 'No key' }
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { retrieveSchema, tokenize } from '../../../src/utils/schemaRetrieval';
+
+const table = (columns: string[], description = '') => ({ columns, description });
+
+const schema = {
+  actor: table(['actor_id', 'first_name', 'last_name']),
+  film: table(['film_id', 'title', 'release_year', 'rating'], 'Movies available for rent'),
+  film_actor: table(['actor_id', 'film_id']),
+  category: table(['category_id', 'name']),
+  film_category: table(['film_id', 'category_id']),
+  customer: table(['customer_id', 'first_name', 'last_name', 'email']),
+  rental: table(['rental_id', 'customer_id', 'inventory_id', 'rental_date']),
+  inventory: table(['inventory_id', 'film_id', 'store_id']),
+  store: table(['store_id', 'manager_staff_id']),
+  payment: table(['payment_id', 'customer_id', 'amount'])
+};
+
+const relationships = [
+  { from: 'film_actor', fromColumn: 'actor_id', to: 'actor', toColumn: 'actor_id' },
+  { from: 'film_actor', fromColumn: 'film_id', to: 'film', toColumn: 'film_id' },
+  { from: 'film_category', fromColumn: 'film_id', to: 'film', toColumn: 'film_id' },
+  { from: 'film_category', fromColumn: 'category_id', to: 'category', toColumn: 'category_id' },
+  { from: 'rental', fromColumn: 'customer_id', to: 'customer', toColumn: 'customer_id' },
+  { from: 'rental', fromColumn: 'inventory_id', to: 'inventory', toColumn: 'inventory_id' },
+  { from: 'inventory', fromColumn: 'film_id', to: 'film', toColumn: 'film_id' },
+  { from: 'payment', fromColumn: 'customer_id', to: 'customer', toColumn: 'customer_id' }
+];
+
+describe('schemaRetrieval', () => {
+  it('tokenizes identifiers and prose into singular words', () => {
+    expect(tokenize('Show films by category_name and releaseYear')).toEqual(['film', 'category', 'name', 'release', 'year']);
+    expect(tokenize('categories addresses')).toEqual(['category', 'address']);
+  });
+
+  it('returns small schemas whole', () => {
+    const result = retrieveSchema('films', schema, relationships, 20);
+
+    expect(result.filtered).toBe(false);
+    expect(Object.keys(result.schema)).toHaveLength(10);
+    expect(result.relationships).toHaveLength(8);
+  });
+
+  it('keeps the top tables and adds the junction tables that connect them', () => {
+    const result = retrieveSchema('actors in horror category films', schema, relationships, 3);
+
+    expect(result.filtered).toBe(true);
+    expect(result.totalTables).toBe(10);
+    const matched = result.tables.filter((t) => t.reason === 'match').map((t) => t.table);
+    expect(matched.sort()).toEqual(['actor', 'category', 'film']);
+    expect(result.tables.filter((t) => t.reason === 'join').map((t) => t.table).sort()).toEqual(['film_actor', 'film_category']);
+    expect(Object.keys(result.schema)).not.toContain('payment');
+    expect(result.relationships).toHaveLength(4);
+  });
+
+  it('matches columns and descriptions as well as table names', () => {
+    const result = retrieveSchema('total amount paid by each email', schema, relationships, 2);
+
+    expect(result.tables.map((t) => t.table)).toEqual(['customer', 'payment']);
+  });
+
+  it('sends the whole schema when nothing matches', () => {
+    const result = retrieveSchema('hello there', schema, relationships, 3);
+
+    expect(result.filtered).toBe(false);
+    expect(Object.keys(result.schema)).toHaveLength(10);
+  });
+
+  it('does not follow paths longer than three joins', () => {
+    const names = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot'];
+    const chain = Object.fromEntries(names.map((name) => [name, table(['code'])]));
+    const links = names.slice(1).map((to, i) => ({ from: names[i], fromColumn: 'code', to, toColumn: 'code' }));
+
+    expect(Object.keys(retrieveSchema('alpha delta', chain, links, 2).schema).sort()).toEqual(['alpha', 'bravo', 'charlie', 'delta']);
+    expect(Object.keys(retrieveSchema('alpha foxtrot', chain, links, 2).schema).sort()).toEqual(['alpha', 'foxtrot']);
+  });
+});
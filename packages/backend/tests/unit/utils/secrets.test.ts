@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  rewrapSecret,
+  secretsEncryptionEnabled
+} from '../../../src/utils/secrets';
+
+const OLD_KEY = Buffer.alloc(32, 1).toString('base64');
+const NEW_KEY = Buffer.alloc(32, 2).toString('hex');
+
+describe('secrets', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.SECRETS_MASTER_KEY;
+    delete process.env.SECRETS_MASTER_KEY_FILE;
+    delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    vi.restoreAllMocks();
+  });
+
+  it('encrypts with a fresh data key each time and decrypts back', () => {
+    process.env.SECRETS_MASTER_KEY = OLD_KEY;
+    const first = encryptSecret('querypass');
+    const second = encryptSecret('querypass');
+
+    expect(isEncryptedSecret(first)).toBe(true);
+    expect(first).not.toContain('querypass');
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe('querypass');
+    expect(decryptSecret(second)).toBe('querypass');
+  });
+
+  it('keeps values as given without a master key and passes plaintext through on read', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(secretsEncryptionEnabled()).toBe(false);
+    expect(encryptSecret('querypass')).toBe('querypass');
+    expect(warn).toHaveBeenCalled();
+    expect(decryptSecret('querypass')).toBe('querypass');
+    expect(encryptSecret('')).toBe('');
+    expect(decryptSecret(null)).toBeNull();
+  });
+
+  it('reads the master key from a file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'secrets-'));
+    try {
+      writeFileSync(join(dir, 'master.key'), `${OLD_KEY}\n`);
+      process.env.SECRETS_MASTER_KEY_FILE = join(dir, 'master.key');
+      expect(decryptSecret(encryptSecret('sk-test'))).toBe('sk-test');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects master keys of the wrong length', () => {
+    process.env.SECRETS_MASTER_KEY = 'too-short';
+    expect(() => encryptSecret('querypass')).toThrow('SECRETS_MASTER_KEY must be 32 bytes');
+  });
+
+  it('re-wraps data keys under a new master key without changing the ciphertext', () => {
+    process.env.SECRETS_MASTER_KEY = OLD_KEY;
+    const stored = encryptSecret('querypass');
+
+    process.env.SECRETS_MASTER_KEY = NEW_KEY;
+    expect(() => decryptSecret(stored)).toThrow('is not configured');
+
+    process.env.SECRETS_PREVIOUS_MASTER_KEYS = OLD_KEY;
+    const rotated = rewrapSecret(stored);
+    expect(rotated).not.toBe(stored);
+    expect(rotated.split(':').pop()).toBe(stored.split(':').pop());
+    expect(rewrapSecret(rotated)).toBe(rotated);
+
+    delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+    expect(decryptSecret(rotated)).toBe('querypass');
+  });
+
+  it('encrypts plaintext values when re-wrapping and needs a master key to do so', () => {
+    expect(() => rewrapSecret('querypass')).toThrow('SECRETS_MASTER_KEY');
+    process.env.SECRETS_MASTER_KEY = NEW_KEY;
+    const encrypted = rewrapSecret('querypass');
+    expect(isEncryptedSecret(encrypted)).toBe(true);
+    expect(decryptSecret(encrypted)).toBe('querypass');
+  });
+});
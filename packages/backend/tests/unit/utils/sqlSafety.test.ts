@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { checkSqlSafety, assertSafeSql, referencedTables, SqlSafetyError } from '../../../src/utils/sqlSafety';
+
+describe('sqlSafety', () => {
+  describe('checkSqlSafety', () => {
+    it('accepts plain SELECT and WITH queries', () => {
+      expect(checkSqlSafety('SELECT film_id, title FROM film WHERE rating = "PG" LIMIT 10').isSafe).toBe(true);
+      expect(checkSqlSafety('WITH recent AS (SELECT * FROM rental) SELECT COUNT(*) FROM recent').isSafe).toBe(true);
+      expect(checkSqlSafety('SELECT * FROM film;').isSafe).toBe(true);
+    });
+
+    it('does not flag keywords inside string literals or comments', () => {
+      const result = checkSqlSafety("SELECT * FROM notes /* delete me */ WHERE body LIKE '%update%' -- drop");
+      expect(result.isSafe).toBe(true);
+      expect(result.violations).toEqual([]);
+    });
+
+    it('rejects empty and comment-only input', () => {
+      expect(checkSqlSafety('   ').violations[0].code).toBe('EMPTY_QUERY');
+      expect(checkSqlSafety('/* nothing */').violations[0].code).toBe('EMPTY_QUERY');
+    });
+
+    it('reports parse errors with a position', () => {
+      const result = checkSqlSafety('SELEC * FROM film');
+      expect(result.isSafe).toBe(false);
+      expect(result.violations[0]).toMatchObject({ code: 'PARSE_ERROR', position: { line: 1, column: 7, offset: 6 } });
+    });
+
+    it('rejects non-SELECT statements', () => {
+      for (const sql of ['DELETE FROM film', 'UPDATE film SET title = "x"', 'DROP TABLE film', 'INSERT INTO film (title) VALUES ("x")']) {
+        expect(checkSqlSafety(sql).violations[0].code).toBe('STATEMENT_NOT_ALLOWED');
+      }
+    });
+
+    it('rejects multiple statements, including ones hidden after a comment', () => {
+      const result = checkSqlSafety('SELECT 1 -- comment\n; DROP TABLE film');
+      expect(result.violations[0].code).toBe('MULTIPLE_STATEMENTS');
+    });
+
+    it('rejects SELECT ... INTO and locking reads', () => {
+      expect(checkSqlSafety("SELECT * FROM film INTO OUTFILE '/tmp/film'").violations[0].code).toBe('INTO_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT title INTO @t FROM film LIMIT 1').violations[0].code).toBe('INTO_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT * FROM film FOR UPDATE').violations[0].code).toBe('LOCKING_READ_NOT_ALLOWED');
+    });
+
+    it('rejects MySQL executable and hint comments the parser would skip', () => {
+      const sleep = checkSqlSafety('SELECT 1 /*! , SLEEP(100) */');
+      expect(sleep.isSafe).toBe(false);
+      expect(sleep.violations[0]).toMatchObject({ code: 'COMMENT_NOT_ALLOWED', position: { line: 1, column: 10, offset: 9 } });
+      expect(checkSqlSafety("SELECT * FROM film /*!50000 INTO OUTFILE '/tmp/x' */").violations[0].code).toBe('COMMENT_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT /*+ BKA(film) */ * FROM film').violations[0].code).toBe('COMMENT_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT 1 /*! , 2 */', null, 'postgres').violations).toEqual([]);
+    });
+
+    it('rejects side-effecting functions anywhere in the tree', () => {
+      const result = checkSqlSafety('SELECT title FROM film WHERE film_id IN (SELECT SLEEP(5))');
+      expect(result.isSafe).toBe(false);
+      expect(result.violations[0]).toMatchObject({ code: 'FUNCTION_NOT_ALLOWED', message: 'Function SLEEP() is not allowed' });
+      expect(result.violations[0].position?.line).toBe(1);
+    });
+
+    it('rejects access to system schemas', () => {
+      const result = checkSqlSafety('SELECT * FROM information_schema.TABLES');
+      expect(result.violations[0].code).toBe('SYSTEM_SCHEMA_NOT_ALLOWED');
+    });
+  });
+
+  describe('dialects', () => {
+    it('parses each dialect with its own grammar', () => {
+      expect(checkSqlSafety('SELECT "title" FROM film WHERE title ILIKE \'%a%\' LIMIT 5', null, 'postgres').isSafe).toBe(true);
+      expect(checkSqlSafety('SELECT TOP (10) [title] FROM film', null, 'mssql').isSafe).toBe(true);
+      expect(checkSqlSafety('SELECT title FROM film LIMIT 5', null, 'sqlite').isSafe).toBe(true);
+    });
+
+    it('rejects the blocking and filesystem functions of each dialect', () => {
+      expect(checkSqlSafety('SELECT pg_sleep(10)', null, 'postgres').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      expect(checkSqlSafety("SELECT pg_read_file('/etc/passwd')", null, 'postgres').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      expect(checkSqlSafety("SELECT query_to_xml('DELETE FROM film', true, true, '')", null, 'postgres').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT lo_unlink(16403)', null, 'postgres').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT pg_advisory_unlock_all()', null, 'postgres').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      expect(checkSqlSafety("SELECT load_extension('x')", null, 'sqlite').violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+    });
+
+    it('rejects SELECT ... INTO a new table', () => {
+      const result = checkSqlSafety('SELECT * INTO newt FROM film', null, 'mssql');
+      expect(result.violations[0]).toMatchObject({ code: 'INTO_NOT_ALLOWED', message: 'SELECT ... INTO a table is not allowed' });
+      expect(checkSqlSafety('SELECT * INTO newt FROM film', null, 'postgres').violations[0].code).toBe('INTO_NOT_ALLOWED');
+    });
+
+    it('rejects system catalogs of each dialect', () => {
+      expect(checkSqlSafety('SELECT * FROM pg_catalog.pg_user', null, 'postgres').violations[0].code).toBe('SYSTEM_SCHEMA_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT * FROM pg_shadow', null, 'postgres').violations[0].code).toBe('SYSTEM_SCHEMA_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT sql FROM sqlite_master', null, 'sqlite').violations[0].code).toBe('SYSTEM_SCHEMA_NOT_ALLOWED');
+      expect(checkSqlSafety('SELECT name FROM sys.sql_logins', null, 'mssql').violations[0].code).toBe('SYSTEM_SCHEMA_NOT_ALLOWED');
+    });
+
+    it('enforces the policy row limit on TOP and FETCH', () => {
+      const policy = { maxLimit: 100 };
+      expect(checkSqlSafety('SELECT TOP (50) title FROM film', policy, 'mssql').isSafe).toBe(true);
+      expect(checkSqlSafety('SELECT TOP (500) title FROM film', policy, 'mssql').violations[0].code).toBe('LIMIT_EXCEEDED');
+      expect(checkSqlSafety('SELECT title FROM film LIMIT 500 OFFSET 10', policy, 'postgres').violations[0].code).toBe('LIMIT_EXCEEDED');
+    });
+  });
+
+  describe('assertSafeSql', () => {
+    it('throws a SqlSafetyError carrying the violations', () => {
+      try {
+        assertSafeSql('SELECT BENCHMARK(100, MD5("x"))');
+        expect.fail('expected assertSafeSql to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SqlSafetyError);
+        expect((error as SqlSafetyError).status).toBe(400);
+        expect((error as SqlSafetyError).violations[0].code).toBe('FUNCTION_NOT_ALLOWED');
+      }
+    });
+
+    it('does not throw for safe SQL', () => {
+      expect(() => assertSafeSql('SELECT 1')).not.toThrow();
+    });
+  });
+
+  describe('referencedTables', () => {
+    it('lists joined and sub-query tables once, without CTE names', () => {
+      const sql = `WITH recent AS (SELECT * FROM rental WHERE rental_date > '2005-08-01')
+        SELECT f.title FROM Film f JOIN inventory i ON i.film_id = f.film_id
+        WHERE i.inventory_id IN (SELECT inventory_id FROM recent) AND f.film_id IN (SELECT film_id FROM film)`;
+      expect(referencedTables(sql).sort()).toEqual(['film', 'inventory', 'rental']);
+    });
+
+    it('returns nothing for SQL that does not parse', () => {
+      expect(referencedTables('SELEC nope')).toEqual([]);
+    });
+  });
+});
@@ -4,7 +4,11 @@ import {
   sqlQuerySchema, 
   validatePrompt, 
   validateSqlQuery, 
-  sanitizeInput 
+  sanitizeInput,
+  teamSchema,
+  teamUpdateSchema,
+  userCreateSchema,
+  userUpdateSchema
 } from '../../../src/utils/validators';
 
 describe('validators', () => {
@@ -80,6 +84,16 @@ describe('validators', () => {
         expect(result).toEqual({ isValid: true });
       });
 
+      it('allows keywords inside string literals', () => {
+        const result = validateSqlQuery("SELECT * FROM notes WHERE body = 'please update the drop date'");
+        expect(result).toEqual({ isValid: true });
+      });
+
+      it('allows UNION of read-only SELECTs', () => {
+        const result = validateSqlQuery('SELECT name FROM actor UNION SELECT name FROM category');
+        expect(result).toEqual({ isValid: true });
+      });
+
       it('allows SELECT with semicolon at the end', () => {
         const result = validateSqlQuery('SELECT * FROM users;');
         expect(result).toEqual({ isValid: true });
@@ -124,10 +138,8 @@ describe('validators', () => {
         expect(result.isValid).toBe(false);
       });
 
-      it('rejects dangerous SQL injection patterns', () => {
+      it('rejects dangerous SQL patterns', () => {
         const dangerousQueries = [
-          'SELECT * FROM users UNION SELECT * FROM passwords',
-          'SELECT * FROM users UNION ALL SELECT * FROM admin_users',
           'SELECT * FROM users INTO OUTFILE "/tmp/users.txt"',
           'SELECT LOAD_FILE("/etc/passwd")',
           'SELECT SLEEP(10)',
@@ -137,10 +149,17 @@ describe('validators', () => {
 
         dangerousQueries.forEach(query => {
           const result = validateSqlQuery(query);
-          // expect(result.isValid).toBe(false);
+          expect(result.isValid).toBe(false);
+          expect(result.violations?.length).toBeGreaterThan(0);
         });
       });
 
+      it('rejects dangerous statements hidden behind comments', () => {
+        const result = validateSqlQuery('SELECT * FROM users -- harmless\n; DROP TABLE users');
+        expect(result.isValid).toBe(false);
+        expect(result.violations?.[0].code).toBe('MULTIPLE_STATEMENTS');
+      });
+
       it('handles SQL comments correctly', () => {
         const queries = [
           'SELECT * FROM users /* comment */ WHERE id = 1',
@@ -154,10 +173,6 @@ describe('validators', () => {
         });
       });
 
-      // it('rejects dangerous patterns even with comments', () => {
-      //   const result = validateSqlQuery('SELECT * FROM users /* comment */ UNION SELECT * FROM admin');
-      //   expect(result.isValid).toBe(false);
-      // });
     });
   });
 
@@ -187,4 +202,30 @@ describe('validators', () => {
       expect(result).toBe('');
     });
   });
+
+  describe('userCreateSchema', () => {
+    it('defaults the role to viewer', () => {
+      expect(userCreateSchema.parse({ username: 'ana.lyst', password: 'long-enough' }).role).toBe('viewer');
+    });
+
+    it('rejects short passwords, unknown roles and unsafe usernames', () => {
+      expect(userCreateSchema.safeParse({ username: 'ana', password: 'short' }).success).toBe(false);
+      expect(userCreateSchema.safeParse({ username: 'ana', password: 'long-enough', role: 'owner' }).success).toBe(false);
+      expect(userCreateSchema.safeParse({ username: 'ana lyst', password: 'long-enough' }).success).toBe(false);
+      expect(userUpdateSchema.safeParse({ role: 'superuser' }).success).toBe(false);
+    });
+  });
+
+  describe('teamSchema', () => {
+    it('defaults members and connections to empty lists, but not on update', () => {
+      expect(teamSchema.parse({ name: ' Analytics ' })).toEqual({ name: 'Analytics', member_ids: [], database_ids: [] });
+      expect(teamUpdateSchema.parse({ description: null })).toEqual({ description: null });
+    });
+
+    it('rejects blank names and non-integer ids', () => {
+      expect(teamSchema.safeParse({ name: ' ' }).success).toBe(false);
+      expect(teamSchema.safeParse({ name: 'Ops', member_ids: [1.5] }).success).toBe(false);
+      expect(teamUpdateSchema.safeParse({ database_ids: [0] }).success).toBe(false);
+    });
+  });
 });
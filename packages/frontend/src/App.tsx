@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { axios, API_BASE_URL } from '@/lib/axios';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL, createClientId } from '@/lib/axios';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
@@ -10,6 +11,22 @@ import SqlEditor from '@/components/SqlEditor';
 import ERDViewer from '@/components/ERDViewer';
 import DiagramVisualizer from '@/components/DiagramVisualizer';
 import DatabaseSwitcher from '@/components/DatabaseSwitcher';
+import ExportMenu from '@/components/ExportMenu';
+import ConversationThread, { type ConversationTurn } from '@/components/ConversationThread';
+import SavedQueryLibrary, { type SavedQuery } from '@/components/SavedQueryLibrary';
+import SaveQueryForm from '@/components/SaveQueryForm';
+import QueryParametersForm from '@/components/QueryParametersForm';
+import QueryHistory, { type HistoryEntry } from '@/components/QueryHistory';
+import QueryJobs, { type QueryJob } from '@/components/QueryJobs';
+import AnalyticsDashboard from '@/components/AnalyticsDashboard';
+import { hasRole, useAuth } from '@/lib/auth';
+import {
+  defaultParameterValues,
+  findParameterNames,
+  parametersFor,
+  type ParameterValue,
+  type QueryParameter
+} from '@/lib/queryParameters';
 import { format } from 'sql-formatter';
 
 interface QueryPattern {
@@ -36,31 +53,76 @@ interface GeneratedQuery {
     keywords: string[];
   };
   extractedValues: string[];
+  // Named parameters of a matched pattern and the values guessed from the prompt
+  parameters?: QueryParameter[];
+  parameterValues?: Record<string, ParameterValue>;
+  // AI output that failed EXPLAIN and was sent back for repair
+  attempts?: { sql: string; error: { code?: string; message: string } | null }[];
+  repairRounds?: number;
+  // Tables the AI was shown when the schema was too large to send whole
+  schemaRetrieval?: {
+    totalTables: number;
+    filtered: boolean;
+    tables: { table: string; score: number; reason: 'match' | 'join' }[];
+  };
+  // Whether the AI answer was reused from the generation cache
+  cache?: { hit: boolean; cachedAt: string | null };
+  // Set when a monthly AI budget is spent and pattern matching answered instead
+  aiBudgetExceeded?: boolean;
 }
 
-interface AuditEntry {
-  id: string;
-  timestamp: string;
-  naturalLanguageQuery: string;
-  sqlQuery: string;
-  isValid: boolean;
-  error?: string;
-  rowCount?: number;
-  executionTime?: string;
+interface PreviewSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+const PREVIEW_PAGE_SIZE = 50;
+// The server stops previews after 30s; wait a little longer so its timeout message arrives
+const PREVIEW_REQUEST_TIMEOUT_MS = 35000;
+
+interface MaskedColumn {
+  column: string;
+  strategy: 'redact' | 'hash' | 'partial' | 'null';
 }
 
+// Generated SQL arrives on one line; lay it out for the editor
+const formatGeneratedSql = (sql: string) => {
+  try {
+    return format(sql, {
+      language: 'sql',
+      keywordCase: 'upper',
+      indentStyle: 'standard',
+      logicalOperatorNewline: 'before',
+      expressionWidth: 50,
+      linesBetweenQueries: 2,
+      // Keep :name parameters intact
+      paramTypes: { positional: true, named: [':'] }
+    });
+  } catch (formatError) {
+    console.warn('Failed to format generated SQL, using original:', formatError);
+    // Use original SQL if formatting fails
+    return sql;
+  }
+};
+
 // New: backend schema types
 type SchemaTable = { columns: string[]; description: string };
 type BackendSchema = Record<string, SchemaTable>;
 
 function App() {
-  const [currentPage, setCurrentPage] = useState<'query-builder' | 'settings' | 'schema' | 'diagram'>('query-builder');
+  const { user, config, signOut } = useAuth();
+  const isAdmin = hasRole(user, 'admin');
+  // Viewers can browse history, analytics and saved queries but not generate or run SQL
+  const canRunQueries = hasRole(user, 'analyst');
+  const [currentPage, setCurrentPage] = useState<'query-builder' | 'history' | 'jobs' | 'analytics' | 'settings' | 'schema' | 'diagram'>('query-builder');
   const [naturalLanguageQuery, setNaturalLanguageQuery] = useState('');
   const [sqlQuery, setSqlQuery] = useState('');
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<any[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Run id of the preview currently executing, so it can be cancelled
+  const [runningPreviewId, setRunningPreviewId] = useState<string | null>(null);
   const [availablePatterns, setAvailablePatterns] = useState<QueryPattern[]>([]);
   const [healthStatus, setHealthStatus] = useState<HealthStatus | null>(null);
   const [queryMetadata, setQueryMetadata] = useState<GeneratedQuery | null>(null);
@@ -69,13 +131,25 @@ function App() {
     rowCount?: number;
     executionTime?: string;
     limited?: boolean;
+    maskedColumns?: MaskedColumn[];
+    page?: number;
+    pageSize?: number;
+    totalRows?: number | null;
+    totalPages?: number | null;
+    sort?: PreviewSort | null;
+    // Present when the connection caches results
+    cache?: { hit: boolean; cachedAt: string | null; expiresAt: string | null };
   } | null>(null);
   // New: store schema from backend
   const [schema, setSchema] = useState<BackendSchema | null>(null);
-  // Audit trail for last 5 executions
-  const [auditTrail, setAuditTrail] = useState<AuditEntry[]>([]);
-  // Sandbox mode status
-  const [isSandboxMode, setIsSandboxMode] = useState(false);
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [savedQueriesKey, setSavedQueriesKey] = useState(0);
+  const [jobsKey, setJobsKey] = useState(0);
+  const [parameterDefinitions, setParameterDefinitions] = useState<QueryParameter[]>([]);
+  const [parameterValues, setParameterValues] = useState<Record<string, ParameterValue>>({});
+  const parameterNames = findParameterNames(sqlQuery);
+  const activeParameters = parametersFor(parameterNames, parameterDefinitions);
 
   // Function to load patterns and schema
   const loadPatternsAndSchema = async () => {
@@ -91,11 +165,6 @@ function App() {
       // Check health status
       const healthResponse = await axios.get(`${API_BASE_URL}/api/health`);
       setHealthStatus(healthResponse.data);
-      
-      // Check sandbox mode status
-      const settingsResponse = await axios.get(`${API_BASE_URL}/api/settings`);
-      console.log('Sandbox mode:', settingsResponse.data.sandboxMode);
-      setIsSandboxMode(settingsResponse.data.sandboxMode || false);
     } catch (err) {
       console.warn('Failed to load initial data:', err);
       // Set a default health status if we can't reach the backend
@@ -107,9 +176,117 @@ function App() {
     }
   };
 
+  // The backend keeps the thread per session so follow-ups can refine the last query
+  const loadConversation = async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/conversation`);
+      setConversation(response.data.turns || []);
+    } catch (err) {
+      console.warn('Failed to load conversation:', err);
+    }
+  };
+
+  const handleClearConversation = async () => {
+    try {
+      await axios.delete(`${API_BASE_URL}/api/conversation`);
+      setConversation([]);
+    } catch (err) {
+      console.warn('Failed to clear conversation:', err);
+    }
+  };
+
+  const handleSelectTurn = (turn: ConversationTurn) => {
+    setNaturalLanguageQuery(turn.prompt);
+    setSqlQuery(formatGeneratedSql(turn.sql));
+    setIsValid(null);
+    setPreviewData(null);
+    setExecutionInfo(null);
+  };
+
+  const handleOpenSavedQuery = (query: SavedQuery) => {
+    setCurrentPage('query-builder');
+    setNaturalLanguageQuery(query.prompt || '');
+    setSqlQuery(query.sql);
+    setError(null);
+    setIsValid(null);
+    setPreviewData(null);
+    setQueryMetadata(null);
+    setExecutionInfo(null);
+    setShowSaveForm(false);
+    setParameterDefinitions(query.parameters || []);
+    setParameterValues(defaultParameterValues(query.parameters || []));
+
+    // Choices that come from a lookup query are loaded fresh
+    if ((query.parameters || []).some((parameter) => parameter.lookup)) {
+      axios.post(`${API_BASE_URL}/api/parameters/lookup`, { parameters: query.parameters })
+        .then((response) => setParameterDefinitions(response.data.data || query.parameters))
+        .catch((err) => console.warn('Failed to load parameter values:', err));
+    }
+  };
+
+  // Validation and export entries log a description rather than a prompt, so only generations restore it
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    setCurrentPage('query-builder');
+    setNaturalLanguageQuery(entry.type === 'generation' ? entry.prompt : '');
+    setSqlQuery(entry.sql || '');
+    setError(null);
+    setIsValid(null);
+    setPreviewData(null);
+    setQueryMetadata(null);
+    setExecutionInfo(null);
+    setShowSaveForm(false);
+    setParameterDefinitions([]);
+    setParameterValues({});
+  };
+
+  const handleOpenJob = (job: QueryJob) => {
+    setCurrentPage('query-builder');
+    setNaturalLanguageQuery('');
+    setSqlQuery(job.sql);
+    setError(null);
+    setIsValid(null);
+    setPreviewData(null);
+    setQueryMetadata(null);
+    setExecutionInfo(null);
+    setShowSaveForm(false);
+    setParameterDefinitions([]);
+    setParameterValues({});
+  };
+
+  // Queries with parameters open in the editor so values can be filled in first
+  const handleRerunHistoryEntry = (entry: HistoryEntry) => {
+    handleOpenHistoryEntry(entry);
+    if (entry.sql && findParameterNames(entry.sql).length === 0) {
+      fetchPreview(1, null, true, entry.sql);
+    }
+  };
+
+  const handleQuerySaved = () => {
+    setShowSaveForm(false);
+    setSavedQueriesKey((key) => key + 1);
+  };
+
   // Load available patterns and health status on component mount
   useEffect(() => {
     loadPatternsAndSchema();
+    loadConversation();
+  }, []);
+
+  // Shared links open a saved query: ?savedQuery=<id>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const id = params.get('savedQuery');
+    if (!id) return;
+    params.delete('savedQuery');
+    const rest = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${rest ? `?${rest}` : ''}`);
+
+    axios.get(`${API_BASE_URL}/api/queries/${encodeURIComponent(id)}`)
+      .then((response) => handleOpenSavedQuery(response.data.data))
+      .catch((err) => {
+        console.warn('Failed to open shared query:', err);
+        setError('The shared query could not be found.');
+      });
   }, []);
 
   // Listen for database switch events to refresh schema
@@ -127,21 +304,8 @@ function App() {
     };
   }, []);
 
-  // Function to add entry to audit trail (keep only last 5)
-  const addToAuditTrail = (entry: Omit<AuditEntry, 'id' | 'timestamp'>) => {
-    const newEntry: AuditEntry = {
-      ...entry,
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString()
-    };
-    
-    setAuditTrail(prev => {
-      const updated = [newEntry, ...prev];
-      return updated.slice(0, 5); // Keep only last 5 entries
-    });
-  };
-
-  const handleGenerateQuery = async () => {
+  // `regenerate` asks the AI provider again instead of reusing a cached answer
+  const handleGenerateQuery = async (regenerate = false) => {
     setIsLoading(true);
     setError(null);
     setIsValid(null);
@@ -151,27 +315,15 @@ function App() {
     
     try {
       const response = await axios.post(`${API_BASE_URL}/api/generate-query`, 
-        { prompt: naturalLanguageQuery, useAI: true }
+        { prompt: naturalLanguageQuery, useAI: true, ...(regenerate ? { regenerate } : {}) }
       );
       
       // Auto-format the generated SQL
-      let formattedSql = response.data.sql;
-      try {
-        formattedSql = format(response.data.sql, {
-          language: 'sql',
-          keywordCase: 'upper',
-          indentStyle: 'standard',
-          logicalOperatorNewline: 'before',
-          expressionWidth: 50,
-          linesBetweenQueries: 2
-        });
-      } catch (formatError) {
-        console.warn('Failed to format generated SQL, using original:', formatError);
-        // Use original SQL if formatting fails
-      }
-      
-      setSqlQuery(formattedSql);
+      setSqlQuery(formatGeneratedSql(response.data.sql));
       setQueryMetadata(response.data);
+      setParameterDefinitions(response.data.parameters || []);
+      setParameterValues(response.data.parameterValues || {});
+      await loadConversation();
     } catch (err: any) {
       const errorMessage = err.response?.data?.error || 'Failed to generate query. Please check the backend.';
       const suggestion = err.response?.data?.suggestion;
@@ -187,16 +339,31 @@ function App() {
     setIsLoading(false);
   };
 
-  const handleValidateAndPreview = async () => {
+  // Fetch one page of the preview; only a fresh validation resets the view. `sql` overrides the editor for re-runs
+  const fetchPreview = async (page: number, sort: PreviewSort | null, isNewValidation: boolean, sql = sqlQuery, bypassCache = false) => {
     setIsLoading(true);
     setError(null);
-    setIsValid(null);
-    setPreviewData(null);
-    setExecutionInfo(null);
+    if (isNewValidation) {
+      setIsValid(null);
+      setPreviewData(null);
+      setExecutionInfo(null);
+    }
+    
+    const runId = createClientId();
+    setRunningPreviewId(runId);
     
     try {
       const response = await axios.post(`${API_BASE_URL}/api/validate-query`, 
-        { sql: sqlQuery }
+        {
+          sql,
+          page,
+          pageSize: PREVIEW_PAGE_SIZE,
+          runId,
+          ...(sort ? { sort } : {}),
+          ...(bypassCache ? { bypassCache } : {}),
+          ...(parameterNames.length > 0 ? { parameters: parameterValues, parameterDefinitions: activeParameters } : {})
+        },
+        { timeout: PREVIEW_REQUEST_TIMEOUT_MS }
       );
       setIsValid(response.data.isValid);
       
@@ -205,25 +372,24 @@ function App() {
         setExecutionInfo({
           rowCount: response.data.rowCount,
           executionTime: response.data.executionTime,
-          limited: response.data.limited
+          limited: response.data.limited,
+          maskedColumns: response.data.maskedColumns || [],
+          page: response.data.page,
+          pageSize: response.data.pageSize,
+          totalRows: response.data.totalRows,
+          totalPages: response.data.totalPages,
+          sort: response.data.sort,
+          cache: response.data.cache
         });
         
-        // Add successful execution to audit trail
-        addToAuditTrail({
-          naturalLanguageQuery,
-          sqlQuery,
-          isValid: true,
-          rowCount: response.data.rowCount,
-          executionTime: response.data.executionTime
-        });
+        if (isNewValidation) {
+          // The thread now records what the query returned
+          loadConversation();
+        }
       } else {
-        // Add failed validation to audit trail
-        addToAuditTrail({
-          naturalLanguageQuery,
-          sqlQuery,
-          isValid: false,
-          error: 'Validation failed'
-        });
+        // Execution errors, timeouts and cancelled runs come back as 200 with isValid: false
+        const { error: runError, suggestion } = response.data;
+        setError(`${runError || 'The query failed to execute.'}${suggestion ? `\n\nSuggestion: ${suggestion}` : ''}`);
       }
     } catch (err: any) {
       setIsValid(false);
@@ -231,22 +397,57 @@ function App() {
       const errorMessage = errorData?.error || 'An unexpected error occurred.';
       setError(errorMessage);
       
-      // Add error to audit trail
-      addToAuditTrail({
-        naturalLanguageQuery,
-        sqlQuery,
-        isValid: false,
-        error: errorMessage
-      });
-      
       // Show additional error information if available
       if (errorData?.suggestion) {
         setError(prev => `${prev}\n\nSuggestion: ${errorData.suggestion}`);
       }
       
       console.error('Validation error:', err);
+    } finally {
+      setRunningPreviewId(null);
+      setIsLoading(false);
     }
-    setIsLoading(false);
+  };
+
+  // Stops the query on the database; the pending preview then reports it as cancelled
+  const handleCancelPreview = async () => {
+    if (!runningPreviewId) return;
+    try {
+      await axios.post(`${API_BASE_URL}/api/queries/${runningPreviewId}/cancel`);
+    } catch (err) {
+      // The run may have finished in the meantime
+      console.error('Cancel query error:', err);
+    }
+  };
+
+  // Long queries run as a job on the server; the Jobs page follows their progress
+  const handleRunInBackground = async () => {
+    setError(null);
+    try {
+      await axios.post(`${API_BASE_URL}/api/jobs`, {
+        sql: sqlQuery,
+        ...(parameterNames.length > 0 ? { parameters: parameterValues, parameterDefinitions: activeParameters } : {})
+      });
+      setJobsKey((key) => key + 1);
+      setCurrentPage('jobs');
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.error) || 'Failed to start the background job.');
+      console.error('Submit job error:', err);
+    }
+  };
+
+  const handleValidateAndPreview = () => fetchPreview(1, null, true);
+
+  // Runs the current page again on the database instead of answering from the result cache
+  const handleRefreshPreview = () => fetchPreview(executionInfo?.page ?? 1, executionInfo?.sort ?? null, false, sqlQuery, true);
+
+  const handlePageChange = (page: number) => fetchPreview(page, executionInfo?.sort ?? null, false);
+
+  // Clicking a header sorts ascending, clicking it again flips the direction
+  const handleSort = (column: string) => {
+    const current = executionInfo?.sort;
+    const direction = current?.column === column && current.direction === 'asc' ? 'desc' : 'asc';
+    fetchPreview(1, { column, direction }, false);
   };
 
   const handleUseExample = (example: string) => {
@@ -321,8 +522,17 @@ function App() {
             </div>
             
             <div className="flex flex-wrap items-center gap-3 md:gap-4 w-full md:w-auto justify-end">
-              <DatabaseSwitcher onDatabaseChange={loadPatternsAndSchema} disabled={isSandboxMode} />
+              <DatabaseSwitcher onDatabaseChange={loadPatternsAndSchema} disabled={config.sandboxMode || !canRunQueries} />
               <ThemeToggle />
+              <div className="text-right">
+                <div className="text-sm font-medium">{user.display_name || user.username}</div>
+                <div className="text-xs text-muted-foreground capitalize">
+                  {user.role}
+                  {!config.authDisabled && (
+                    <button onClick={signOut} className="ml-2 underline hover:text-purple-600">Sign out</button>
+                  )}
+                </div>
+              </div>
               {healthStatus && (
                 <div className="text-right w-full md:w-auto">
                   <div className={`text-sm font-medium ${getHealthStatusColor()}`}>
@@ -355,9 +565,33 @@ function App() {
               Query Builder
             </button>
             <button
-              onClick={() => setCurrentPage('settings')}
+              onClick={() => setCurrentPage('history')}
+              className={`px-4 py-2 rounded-md transition-colors flex items-center space-x-2 ${
+                currentPage === 'history' 
+                  ? 'bg-purple-600 text-white shadow-sm' 
+                  : 'text-muted-foreground hover:text-purple-600'
+              }`}
+            >
+              <svg 
+                className="w-4 h-4" 
+                fill="none" 
+                stroke="currentColor" 
+                viewBox="0 0 24 24" 
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path 
+                  strokeLinecap="round" 
+                  strokeLinejoin="round" 
+                  strokeWidth={2} 
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" 
+                />
+              </svg>
+              <span>History</span>
+            </button>
+            <button
+              onClick={() => setCurrentPage('jobs')}
               className={`px-4 py-2 rounded-md transition-colors flex items-center space-x-2 ${
-                currentPage === 'settings' 
+                currentPage === 'jobs' 
                   ? 'bg-purple-600 text-white shadow-sm' 
                   : 'text-muted-foreground hover:text-purple-600'
               }`}
@@ -373,17 +607,67 @@ function App() {
                   strokeLinecap="round" 
                   strokeLinejoin="round" 
                   strokeWidth={2} 
-                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" 
+                  d="M4 6h16M4 12h16M4 18h7" 
                 />
+              </svg>
+              <span>Jobs</span>
+            </button>
+            <button
+              onClick={() => setCurrentPage('analytics')}
+              className={`px-4 py-2 rounded-md transition-colors flex items-center space-x-2 ${
+                currentPage === 'analytics' 
+                  ? 'bg-purple-600 text-white shadow-sm' 
+                  : 'text-muted-foreground hover:text-purple-600'
+              }`}
+            >
+              <svg 
+                className="w-4 h-4" 
+                fill="none" 
+                stroke="currentColor" 
+                viewBox="0 0 24 24" 
+                xmlns="http://www.w3.org/2000/svg"
+              >
                 <path 
                   strokeLinecap="round" 
                   strokeLinejoin="round" 
                   strokeWidth={2} 
-                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" 
+                  d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" 
                 />
               </svg>
-              <span>Settings</span>
+              <span>Analytics</span>
             </button>
+            {isAdmin && (
+              <button
+                onClick={() => setCurrentPage('settings')}
+                className={`px-4 py-2 rounded-md transition-colors flex items-center space-x-2 ${
+                  currentPage === 'settings' 
+                    ? 'bg-purple-600 text-white shadow-sm' 
+                    : 'text-muted-foreground hover:text-purple-600'
+                }`}
+              >
+                <svg 
+                  className="w-4 h-4" 
+                  fill="none" 
+                  stroke="currentColor" 
+                  viewBox="0 0 24 24" 
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path 
+                    strokeLinecap="round" 
+                    strokeLinejoin="round" 
+                    strokeWidth={2} 
+                    d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" 
+                  />
+                  <path 
+                    strokeLinecap="round" 
+                    strokeLinejoin="round" 
+                    strokeWidth={2} 
+                    d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" 
+                  />
+                </svg>
+                <span>Settings</span>
+              </button>
+            )}
             <button
               onClick={() => setCurrentPage('schema')}
               className={`px-4 py-2 rounded-md transition-colors flex items-center space-x-2 ${
@@ -436,10 +720,16 @@ function App() {
         </div>
 
         {/* Conditional Page Rendering */}
-        {currentPage === 'settings' ? (
+        {currentPage === 'history' ? (
+          <QueryHistory onOpen={handleOpenHistoryEntry} onRerun={handleRerunHistoryEntry} disabled={isLoading} readOnly={!canRunQueries} />
+        ) : currentPage === 'jobs' ? (
+          <QueryJobs onOpen={handleOpenJob} refreshKey={jobsKey} readOnly={!canRunQueries} />
+        ) : currentPage === 'analytics' ? (
+          <AnalyticsDashboard showUsage={isAdmin} />
+        ) : currentPage === 'settings' && isAdmin ? (
           <Settings />
         ) : currentPage === 'schema' ? (
-          <ERDViewer schema={schema} />
+          <ERDViewer schema={schema} canProfile={isAdmin} />
         ) : currentPage === 'diagram' ? (
           <DiagramVisualizer schema={schema} />
         ) : (
@@ -480,8 +770,8 @@ function App() {
                   
                   <div className="flex gap-2">
                     <Button 
-                      onClick={handleGenerateQuery} 
-                      disabled={isLoading || !naturalLanguageQuery.trim()}
+                      onClick={() => handleGenerateQuery()} 
+                      disabled={isLoading || !canRunQueries || !naturalLanguageQuery.trim()}
                       className="flex-1"
                     >
                       {isLoading ? 'Generating...' : 'Generate SQL Query'}
@@ -489,6 +779,14 @@ function App() {
                   </div>
                 </div>
 
+                {/* Conversation so far */}
+                <ConversationThread
+                  turns={conversation}
+                  onSelect={handleSelectTurn}
+                  onClear={handleClearConversation}
+                  disabled={isLoading || !canRunQueries}
+                />
+
                 {/* Query Generation Results */}
                 {error && !isLoading && (
                   <Alert variant="destructive">
@@ -502,6 +800,14 @@ function App() {
                   <div className="flex justify-between items-center">
                     <label htmlFor="sql-query" className="font-medium">2. Generated SQL Query</label>
                     <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowSaveForm(!showSaveForm)}
+                        disabled={!canRunQueries || !sqlQuery.trim()}
+                      >
+                        Save
+                      </Button>
                       {queryMetadata && (
                         <div className="text-sm">
                           <span className={`font-medium ${getConfidenceColor(queryMetadata.confidence)}`}>
@@ -527,14 +833,71 @@ function App() {
                     />
                   </div>
 
+                  {parameterNames.length > 0 && (
+                    <QueryParametersForm
+                      names={parameterNames}
+                      definitions={parameterDefinitions}
+                      values={parameterValues}
+                      onChange={setParameterValues}
+                      disabled={isLoading}
+                    />
+                  )}
+
+                  {showSaveForm && sqlQuery.trim() && (
+                    <SaveQueryForm
+                      prompt={naturalLanguageQuery}
+                      sql={sqlQuery}
+                      parameters={activeParameters}
+                      onSaved={handleQuerySaved}
+                      onCancel={() => setShowSaveForm(false)}
+                    />
+                  )}
+
                   {/* Query Metadata */}
                   {queryMetadata && !error && (
                     <div className="text-xs text-muted-foreground bg-muted p-2 rounded">
+                      {queryMetadata.aiBudgetExceeded && (
+                        <div className="text-yellow-600">⚠️ The monthly AI budget is spent, so this query came from pattern matching</div>
+                      )}
                       <div><strong>Matched Pattern:</strong> {queryMetadata.matchedPattern.description}</div>
                       <div><strong>Keywords:</strong> {queryMetadata.matchedPattern.keywords.join(', ')}</div>
                       {queryMetadata.extractedValues.length > 0 && (
                         <div><strong>Extracted Values:</strong> {queryMetadata.extractedValues.join(', ')}</div>
                       )}
+                      {queryMetadata.schemaRetrieval?.filtered && (
+                        <div>
+                          <strong>Tables Considered:</strong>{' '}
+                          {queryMetadata.schemaRetrieval.tables
+                            .map((t) => (t.reason === 'join' ? `${t.table} (join)` : t.table))
+                            .join(', ')}{' '}
+                          of {queryMetadata.schemaRetrieval.totalTables}
+                        </div>
+                      )}
+                      {queryMetadata.cache?.hit && queryMetadata.cache.cachedAt && (
+                        <div className="flex items-center gap-2">
+                          <span><strong>Cached generation</strong> from {new Date(queryMetadata.cache.cachedAt).toLocaleString()}</span>
+                          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleGenerateQuery(true)} disabled={isLoading}>
+                            Regenerate
+                          </Button>
+                        </div>
+                      )}
+                      {queryMetadata.attempts && queryMetadata.attempts.length > 1 && (
+                        <details className="mt-1">
+                          <summary className="cursor-pointer">
+                            <strong>Repaired:</strong> {queryMetadata.repairRounds} round{queryMetadata.repairRounds === 1 ? '' : 's'} after database errors
+                          </summary>
+                          <ol className="list-decimal ml-4 mt-1 space-y-1">
+                            {queryMetadata.attempts.map((attempt, index) => (
+                              <li key={index}>
+                                <code className="break-words">{attempt.sql}</code>
+                                <div className={attempt.error ? 'text-red-600' : 'text-green-600'}>
+                                  {attempt.error ? `${attempt.error.code ? `${attempt.error.code}: ` : ''}${attempt.error.message}` : 'No database error'}
+                                </div>
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
                     </div>
                   )}
 
@@ -553,8 +916,16 @@ function App() {
                         The query is valid and ready to execute.
                         {executionInfo && (
                           <div className="mt-2 text-xs">
-                            <div>Rows returned: {executionInfo.rowCount}</div>
-                            {executionInfo.limited && <div className="text-yellow-600">⚠️ Results limited for safety</div>}
+                            <div>Rows returned: {executionInfo.totalRows ?? executionInfo.rowCount}</div>
+                            {executionInfo.limited && !executionInfo.page && <div className="text-yellow-600">⚠️ Results limited for safety</div>}
+                            {executionInfo.cache?.hit && executionInfo.cache.cachedAt && (
+                              <div className="flex items-center gap-2">
+                                <span>Cached result from {new Date(executionInfo.cache.cachedAt).toLocaleTimeString()}</span>
+                                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleRefreshPreview} disabled={isLoading}>
+                                  Refresh
+                                </Button>
+                              </div>
+                            )}
                           </div>
                         )}
                       </AlertDescription>
@@ -565,16 +936,57 @@ function App() {
                 {/* Data Preview */}
                 {previewData && previewData.length > 0 && (
                   <div className="space-y-2">
-                    <h3 className="font-medium">3. Data Preview</h3>
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-medium">3. Data Preview</h3>
+                      <ExportMenu
+                        sql={sqlQuery}
+                        parameters={parameterNames.length > 0 ? parameterValues : undefined}
+                        parameterDefinitions={parameterNames.length > 0 ? activeParameters : undefined}
+                        disabled={isLoading || !canRunQueries}
+                      />
+                    </div>
                     <div className="rounded-md border-2 border-border max-h-80 overflow-auto">
                       <table className="w-full text-sm">
                         <thead className="sticky top-0 bg-muted">
                           <tr>
-                            {Object.keys(previewData[0]).map(key => (
-                              <th key={key} className="p-2 text-left font-semibold border-b-2 border-border">
-                                {key}
-                              </th>
-                            ))}
+                            {Object.keys(previewData[0]).map(key => {
+                              const masked = executionInfo?.maskedColumns?.find(m => m.column === key);
+                              const sortDirection = executionInfo?.sort?.column === key ? executionInfo.sort.direction : null;
+                              return (
+                                <th
+                                  key={key}
+                                  className={`p-2 text-left font-semibold border-b-2 border-border ${masked ? '' : 'cursor-pointer select-none hover:bg-muted/70'}`}
+                                  onClick={masked || isLoading ? undefined : () => handleSort(key)}
+                                  title={masked ? 'Masked columns cannot be sorted' : 'Sort by this column'}
+                                  aria-sort={sortDirection === 'asc' ? 'ascending' : sortDirection === 'desc' ? 'descending' : undefined}
+                                >
+                                  <span className="inline-flex items-center gap-1">
+                                    {key}
+                                    {sortDirection && (
+                                      <span className="text-xs text-muted-foreground">{sortDirection === 'asc' ? '▲' : '▼'}</span>
+                                    )}
+                                    {masked && (
+                                      <span title={`Masked (${masked.strategy})`} aria-label={`Masked column (${masked.strategy})`}>
+                                        <svg
+                                          className="w-3.5 h-3.5 text-amber-600"
+                                          fill="none"
+                                          stroke="currentColor"
+                                          viewBox="0 0 24 24"
+                                          xmlns="http://www.w3.org/2000/svg"
+                                        >
+                                          <path
+                                            strokeLinecap="round"
+                                            strokeLinejoin="round"
+                                            strokeWidth={2}
+                                            d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                                          />
+                                        </svg>
+                                      </span>
+                                    )}
+                                  </span>
+                                </th>
+                              );
+                            })}
                           </tr>
                         </thead>
                         <tbody>
@@ -594,20 +1006,55 @@ function App() {
                         </tbody>
                       </table>
                     </div>
-                    {executionInfo && executionInfo.rowCount && executionInfo.rowCount > 20 && (
-                      <div className="text-xs text-muted-foreground">
-                        Showing first {Math.min(20, executionInfo.rowCount)} of {executionInfo.rowCount} rows
+                    {executionInfo?.page && executionInfo.pageSize && (
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                          Rows {(executionInfo.page - 1) * executionInfo.pageSize + 1}–{(executionInfo.page - 1) * executionInfo.pageSize + (executionInfo.rowCount ?? 0)}
+                          {executionInfo.totalRows != null && ` of ${executionInfo.totalRows}`}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePageChange(executionInfo.page! - 1)}
+                            disabled={isLoading || executionInfo.page <= 1}
+                          >
+                            Previous
+                          </Button>
+                          <span>
+                            Page {executionInfo.page}{executionInfo.totalPages != null && ` of ${executionInfo.totalPages}`}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePageChange(executionInfo.page! + 1)}
+                            disabled={isLoading || !executionInfo.limited}
+                          >
+                            Next
+                          </Button>
+                        </div>
                       </div>
                     )}
                   </div>
                 )}
 
               </CardContent>
-              <CardFooter>
+              <CardFooter className="justify-end gap-2">
+                {runningPreviewId && (
+                  <Button variant="outline" onClick={handleCancelPreview}>
+                    Cancel
+                  </Button>
+                )}
+                <Button 
+                  variant="outline"
+                  onClick={handleRunInBackground} 
+                  disabled={isLoading || !canRunQueries || !sqlQuery.trim()} 
+                >
+                  Run in Background
+                </Button>
                 <Button 
                   onClick={handleValidateAndPreview} 
-                  disabled={isLoading || !sqlQuery.trim()} 
-                  className="ml-auto"
+                  disabled={isLoading || !canRunQueries || !sqlQuery.trim()} 
                 >
                   {isLoading ? 'Validating...' : 'Validate & Preview Query'}
                 </Button>
@@ -645,6 +1092,14 @@ function App() {
               </Card>
             )}
 
+            <SavedQueryLibrary
+              onOpen={handleOpenSavedQuery}
+              refreshKey={savedQueriesKey}
+              disabled={isLoading}
+              readOnly={!canRunQueries}
+              canDelete={(query) => hasRole(user, 'admin') || query.created_by === user.id}
+            />
+
             {/* Database Schema Info */}
             <Card>
               <CardHeader>
@@ -679,55 +1134,6 @@ function App() {
                 )}
               </CardContent>
             </Card>
-            
-            {/* Audit Trail */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Audit Trail</CardTitle>
-                <CardDescription>
-                  Last 5 query executions
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {auditTrail.length > 0 ? (
-                  <div className="space-y-3 max-h-80 overflow-auto pr-1">
-                    {auditTrail.map((entry) => (
-                      <div key={entry.id} className="border border-border rounded-lg p-3 space-y-2">
-                        <div className="text-xs text-muted-foreground">
-                          {new Date(entry.timestamp).toLocaleString()}
-                        </div>
-                        <div className="text-sm font-medium truncate" title={entry.naturalLanguageQuery}>
-                          "{entry.naturalLanguageQuery}"
-                        </div>
-                        <div className="text-xs font-mono bg-muted p-2 rounded truncate" title={entry.sqlQuery}>
-                          {entry.sqlQuery}
-                        </div>
-                        <div className="flex justify-between items-center text-xs">
-                          <span className={`font-medium ${entry.isValid ? 'text-green-600' : 'text-red-600'}`}>
-                            {entry.isValid ? '✅ Success' : '❌ Failed'}
-                          </span>
-                          {entry.isValid && entry.rowCount !== undefined && (
-                            <span className="text-muted-foreground">
-                              {entry.rowCount} rows
-                              {entry.executionTime && ` • ${entry.executionTime}`}
-                            </span>
-                          )}
-                        </div>
-                        {entry.error && (
-                          <div className="text-xs text-red-600 truncate" title={entry.error}>
-                            Error: {entry.error}
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-xs text-muted-foreground">
-                    No queries executed yet. Run a query to see execution history.
-                  </div>
-                )}
-              </CardContent>
-            </Card>
           </div>
         </div>
         )}
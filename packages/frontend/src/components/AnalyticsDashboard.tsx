@@ -0,0 +1,511 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface AnalyticsOverview {
+  successRates: { source: string; model: string | null; total: number; succeeded: number; successRate: number }[];
+  latency: { type: string; count: number; p50: number | null; p95: number | null }[];
+  errors: { code: string; count: number; example: string | null }[];
+  tables: { table: string; count: number }[];
+  sources: { source: string; kind: 'ai' | 'pattern'; count: number; share: number }[];
+  confidence: { day: string; generations: number; lowConfidence: number; averageConfidence: number | null }[];
+}
+
+interface DatabaseOption {
+  id: number;
+  name: string;
+}
+
+interface UsageTotals {
+  generations: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number | null;
+}
+
+interface UsageReport {
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  bySession: (UsageTotals & { session: string | null })[];
+  byDatabase: (UsageTotals & { databaseId: number | null; databaseName: string | null })[];
+  byUser: (UsageTotals & { userId: number | null; username: string | null })[];
+  byModel: (UsageTotals & { source: string; model: string | null })[];
+}
+
+interface BudgetStatus {
+  limit: number | null;
+  spent: number;
+  exceeded: boolean;
+}
+
+interface UsageBudgets {
+  month: string;
+  global: BudgetStatus;
+  databases: (BudgetStatus & { databaseId: number; databaseName: string })[];
+}
+
+const RANGES = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClassName = 'px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const sourceLabel = (source: string) => (source === 'pattern_matching' ? 'Pattern matching' : source);
+
+const formatCost = (cost: number | null) => (cost === null ? 'n/a' : `$${cost.toFixed(cost < 1 ? 4 : 2)}`);
+
+const formatTokens = (totals: UsageTotals) =>
+  `${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens`;
+
+const formatBudget = (budget: BudgetStatus) =>
+  `${formatCost(budget.spent)} of ${budget.limit === null ? 'no limit' : formatCost(budget.limit)}`;
+
+interface Bar {
+  key: string;
+  label: string;
+  value: number;
+  display: string;
+  title?: string;
+}
+
+// Horizontal bars scaled to the largest value
+function BarList({ bars, color = 'bg-purple-500' }: { bars: Bar[]; color?: string }) {
+  if (bars.length === 0) {
+    return <div className="text-xs text-muted-foreground">No data in this range.</div>;
+  }
+  const max = Math.max(...bars.map((bar) => bar.value), 1);
+  return (
+    <div className="space-y-2">
+      {bars.map((bar) => (
+        <div key={bar.key} className="space-y-1" title={bar.title}>
+          <div className="flex justify-between gap-2 text-xs">
+            <span className="truncate">{bar.label}</span>
+            <span className="text-muted-foreground">{bar.display}</span>
+          </div>
+          <div className="h-2 rounded bg-muted">
+            <div className={`h-2 rounded ${color}`} style={{ width: `${(bar.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Daily generations with the low-confidence share drawn as a line over the bars
+function ConfidenceChart({ points }: { points: AnalyticsOverview['confidence'] }) {
+  if (points.length === 0) {
+    return <div className="text-xs text-muted-foreground">No generations in this range.</div>;
+  }
+  const width = 600;
+  const height = 160;
+  const max = Math.max(...points.map((point) => point.generations), 1);
+  const step = width / points.length;
+  const line = points
+    .map((point, index) => {
+      const share = point.generations > 0 ? point.lowConfidence / point.generations : 0;
+      return `${index === 0 ? 'M' : 'L'}${index * step + step / 2},${height - share * height}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+        {points.map((point, index) => {
+          const barHeight = (point.generations / max) * height;
+          return (
+            <rect
+              key={point.day}
+              x={index * step + step * 0.15}
+              y={height - barHeight}
+              width={step * 0.7}
+              height={barHeight}
+              className="fill-purple-200 dark:fill-purple-900"
+            >
+              <title>
+                {`${point.day}: ${point.generations} generations, ${point.lowConfidence} low confidence`}
+                {point.averageConfidence !== null ? `, average ${percent(point.averageConfidence)}` : ''}
+              </title>
+            </rect>
+          );
+        })}
+        <path d={line} fill="none" strokeWidth={2} className="stroke-red-500" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{points[0].day}</span>
+        <span>
+          <span className="inline-block w-3 h-2 mr-1 bg-purple-200 dark:bg-purple-900" />generations
+          <span className="inline-block w-3 h-0.5 mx-1 align-middle bg-red-500" />low-confidence share
+        </span>
+        <span>{points[points.length - 1].day}</span>
+      </div>
+    </div>
+  );
+}
+
+// Token spend of AI generations and the monthly budgets that cap it; admins only
+function AIUsage({ days, databaseId, databases }: { days: number; databaseId: string; databases: DatabaseOption[] }) {
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [budgets, setBudgets] = useState<UsageBudgets | null>(null);
+  const [budgetDatabaseId, setBudgetDatabaseId] = useState('');
+  const [budgetLimit, setBudgetLimit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/usage/budgets`);
+      setBudgets(response.data.data);
+    } catch (err) {
+      console.error('Failed to load AI budgets:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    axios.get(`${API_BASE_URL}/api/usage`, {
+      params: { from: new Date(Date.now() - days * DAY_MS).toISOString(), databaseId: databaseId || undefined }
+    })
+      .then((response) => setUsage(response.data.data))
+      .catch((err) => {
+        console.error('Failed to load AI usage:', err);
+        setError('Failed to load AI usage');
+      });
+  }, [days, databaseId]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  const handleSaveBudget = async () => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/api/usage/budgets`, {
+        ...(budgetDatabaseId ? { databaseId: Number(budgetDatabaseId) } : {}),
+        monthlyLimit: budgetLimit.trim() ? Number(budgetLimit) : null
+      });
+      setBudgets(response.data.data);
+      setBudgetLimit('');
+      setError(null);
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.error) || 'Failed to save the budget');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">AI spend</CardTitle>
+          <CardDescription>
+            {usage
+              ? `${usage.totals.generations} generations • ${formatTokens(usage.totals)} • ${formatCost(usage.totals.estimatedCost)} estimated`
+              : 'Estimated from token counts and the model price table'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <div className="text-xs text-red-600">{error}</div>}
+          {usage && (
+            <>
+              <BarList
+                color="bg-amber-500"
+                bars={usage.byDay.map((day) => ({
+                  key: day.day,
+                  label: day.day,
+                  value: day.estimatedCost ?? 0,
+                  display: `${formatCost(day.estimatedCost)} • ${formatTokens(day)}`
+                }))}
+              />
+              <div className="text-xs font-medium">By model</div>
+              <BarList
+                color="bg-amber-500"
+                bars={usage.byModel.map((model) => ({
+                  key: `${model.source}/${model.model ?? ''}`,
+                  label: `${sourceLabel(model.source)}${model.model ? ` (${model.model})` : ''}`,
+                  value: model.estimatedCost ?? 0,
+                  display: `${formatCost(model.estimatedCost)} • ${formatTokens(model)}`
+                }))}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Top spenders</CardTitle>
+          <CardDescription>Estimated cost per database, user and session</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {usage && (
+            <>
+              <BarList
+                color="bg-amber-500"
+                bars={usage.byDatabase.map((database) => ({
+                  key: `db-${database.databaseId ?? 'none'}`,
+                  label: database.databaseName ?? 'Deleted connection',
+                  value: database.estimatedCost ?? 0,
+                  display: `${formatCost(database.estimatedCost)} • ${formatTokens(database)}`
+                }))}
+              />
+              <BarList
+                color="bg-amber-500"
+                bars={usage.byUser.map((user) => ({
+                  key: `user-${user.userId ?? 'none'}`,
+                  label: user.username ?? 'Unknown user',
+                  value: user.estimatedCost ?? 0,
+                  display: `${formatCost(user.estimatedCost)} • ${formatTokens(user)}`
+                }))}
+              />
+              <BarList
+                color="bg-amber-500"
+                bars={usage.bySession.map((session) => ({
+                  key: `session-${session.session ?? 'none'}`,
+                  label: session.session ?? 'No session',
+                  value: session.estimatedCost ?? 0,
+                  display: `${formatCost(session.estimatedCost)} • ${formatTokens(session)}`
+                }))}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {budgets && (
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Monthly budgets ({budgets.month})</CardTitle>
+            <CardDescription>Once a budget is spent, generation falls back to pattern matching until the month ends</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className={`text-sm ${budgets.global.exceeded ? 'text-red-600' : ''}`}>
+              All databases: {formatBudget(budgets.global)}
+            </div>
+            {budgets.databases.map((budget) => (
+              <div key={budget.databaseId} className={`text-sm ${budget.exceeded ? 'text-red-600' : ''}`}>
+                {budget.databaseName}: {formatBudget(budget)}
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <select className={inputClassName} value={budgetDatabaseId} onChange={(e) => setBudgetDatabaseId(e.target.value)}>
+                <option value="">All databases</option>
+                {databases.map((database) => (
+                  <option key={database.id} value={String(database.id)}>{database.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="USD per month (empty removes it)"
+                className={`${inputClassName} w-64`}
+                value={budgetLimit}
+                onChange={(e) => setBudgetLimit(e.target.value)}
+              />
+              <Button variant="outline" size="sm" onClick={handleSaveBudget}>Save budget</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface AnalyticsDashboardProps {
+  // AI spend and budgets are shown to admins only
+  showUsage?: boolean;
+}
+
+// Usage charts over the query log
+function AnalyticsDashboard({ showUsage = false }: AnalyticsDashboardProps) {
+  const [days, setDays] = useState(30);
+  const [databaseId, setDatabaseId] = useState('');
+  const [databases, setDatabases] = useState<DatabaseOption[]>([]);
+  const [overview, setOverview] = useState<AnalyticsOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios.get(`${API_BASE_URL}/api/databases`)
+      .then((response) => setDatabases(response.data || []))
+      .catch((err) => console.warn('Failed to load databases:', err));
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const response = await axios.get(`${API_BASE_URL}/api/analytics`, {
+          params: {
+            from: new Date(Date.now() - days * DAY_MS).toISOString(),
+            databaseId: databaseId || undefined
+          }
+        });
+        setOverview(response.data.data);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load analytics:', err);
+        setError('Failed to load analytics');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [days, databaseId]);
+
+  const generations = overview?.sources.reduce((sum, source) => sum + source.count, 0) ?? 0;
+  const aiShare = overview?.sources.filter((source) => source.kind === 'ai').reduce((sum, source) => sum + source.share, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Analytics</CardTitle>
+          <CardDescription>How queries are generated, how long they take and where they fail</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          <select className={inputClassName} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {RANGES.map((range) => (
+              <option key={range} value={range}>Last {range} days</option>
+            ))}
+          </select>
+          <select className={inputClassName} value={databaseId} onChange={(e) => setDatabaseId(e.target.value)}>
+            <option value="">All databases</option>
+            {databases.map((database) => (
+              <option key={database.id} value={String(database.id)}>{database.name}</option>
+            ))}
+          </select>
+          {isLoading && <span className="text-xs text-muted-foreground">Loading...</span>}
+          {error && <span className="text-xs text-red-600">{error}</span>}
+          {overview && generations > 0 && (
+            <span className="text-xs text-muted-foreground ml-auto">
+              {generations} generations • {percent(aiShare)} by AI, {percent(1 - aiShare)} by pattern matching
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
+      {overview && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Generation success rate</CardTitle>
+              <CardDescription>Per AI provider and model</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BarList
+                color="bg-green-500"
+                bars={overview.successRates.map((rate) => ({
+                  key: `${rate.source}/${rate.model ?? ''}`,
+                  label: `${sourceLabel(rate.source)}${rate.model ? ` (${rate.model})` : ''}`,
+                  value: rate.successRate,
+                  display: `${percent(rate.successRate)} of ${rate.total}`
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pattern matching vs AI</CardTitle>
+              <CardDescription>Share of generations by source</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BarList
+                bars={overview.sources.map((source) => ({
+                  key: source.source,
+                  label: sourceLabel(source.source),
+                  value: source.share,
+                  display: `${percent(source.share)} (${source.count})`
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Execution time</CardTitle>
+              <CardDescription>Median and 95th percentile per request type</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {overview.latency.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="font-medium pb-2">Type</th>
+                      <th className="font-medium pb-2 text-right">Requests</th>
+                      <th className="font-medium pb-2 text-right">p50</th>
+                      <th className="font-medium pb-2 text-right">p95</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overview.latency.map((row) => (
+                      <tr key={row.type} className="border-t border-border">
+                        <td className="py-1 capitalize">{row.type}</td>
+                        <td className="py-1 text-right">{row.count}</td>
+                        <td className="py-1 text-right">{row.p50 ?? '-'} ms</td>
+                        <td className="py-1 text-right">{row.p95 ?? '-'} ms</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="text-xs text-muted-foreground">No data in this range.</div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Most common errors</CardTitle>
+              <CardDescription>Failed requests by error code</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BarList
+                color="bg-red-500"
+                bars={overview.errors.map((error) => ({
+                  key: error.code,
+                  label: error.code,
+                  value: error.count,
+                  display: String(error.count),
+                  title: error.example ?? undefined
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Top tables</CardTitle>
+              <CardDescription>Tables read by logged queries</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BarList
+                color="bg-blue-500"
+                bars={overview.tables.map((table) => ({
+                  key: table.table,
+                  label: table.table,
+                  value: table.count,
+                  display: String(table.count)
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Low-confidence trend</CardTitle>
+              <CardDescription>Daily generations and the share scoring below 50%</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConfidenceChart points={overview.confidence} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {showUsage && <AIUsage days={days} databaseId={databaseId} databases={databases} />}
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+
+export interface ConversationTurn {
+  prompt: string;
+  sql: string;
+  reasoning?: string;
+  result?: {
+    rowCount: number;
+    columns: string[];
+  };
+}
+
+interface ConversationThreadProps {
+  turns: ConversationTurn[];
+  onSelect: (turn: ConversationTurn) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+// Earlier prompts of this session; the next prompt refines the latest query
+function ConversationThread({ turns, onSelect, onClear, disabled = false }: ConversationThreadProps) {
+  if (turns.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium">Conversation</span>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={disabled}>
+          New conversation
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-3 rounded-md border p-3 bg-muted/30">
+        {turns.map((turn, index) => (
+          <div key={index} className="space-y-1">
+            <div className="flex justify-end">
+              <div className="max-w-[85%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm">
+                {turn.prompt}
+              </div>
+            </div>
+            <div className="flex justify-start">
+              <button
+                type="button"
+                onClick={() => onSelect(turn)}
+                disabled={disabled}
+                title="Load this query into the editor"
+                className="max-w-[85%] text-left rounded-lg bg-background border px-3 py-2 hover:bg-muted transition-colors"
+              >
+                <code className="block text-xs whitespace-pre-wrap break-words">{turn.sql}</code>
+                {turn.result && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {turn.result.rowCount} row{turn.result.rowCount === 1 ? '' : 's'}
+                    {turn.result.columns.length > 0 && ` · ${turn.result.columns.join(', ')}`}
+                  </div>
+                )}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Follow-up requests such as "now only for 2006" edit the latest query.
+      </div>
+    </div>
+  );
+}
+
+export default ConversationThread;
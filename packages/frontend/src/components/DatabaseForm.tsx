@@ -3,8 +3,20 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
+type Dialect = 'mysql' | 'postgres' | 'sqlite' | 'mssql';
+
+const DIALECTS: { value: Dialect; label: string; defaultPort: number }[] = [
+  { value: 'mysql', label: 'MySQL', defaultPort: 3306 },
+  { value: 'postgres', label: 'PostgreSQL', defaultPort: 5432 },
+  { value: 'sqlite', label: 'SQLite', defaultPort: 0 },
+  { value: 'mssql', label: 'SQL Server', defaultPort: 1433 }
+];
+
+const defaultPort = (dialect: Dialect) => DIALECTS.find((d) => d.value === dialect)?.defaultPort ?? 3306;
+
 interface DatabaseFormData {
   name: string;
+  dialect: Dialect;
   host: string;
   port: number;
   database_name: string;
@@ -28,8 +40,9 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
 }) => {
   const [formData, setFormData] = useState<DatabaseFormData>({
     name: initialData.name || '',
+    dialect: initialData.dialect || 'mysql',
     host: initialData.host || 'localhost',
-    port: initialData.port || 3306,
+    port: initialData.port || defaultPort(initialData.dialect || 'mysql'),
     database_name: initialData.database_name || '',
     username: initialData.username || '',
     password: initialData.password || '',
@@ -37,6 +50,8 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Partial<Record<keyof DatabaseFormData, string>>>({});
+  // SQLite connects to a file on the backend host; there is no server to reach
+  const isSqlite = formData.dialect === 'sqlite';
 
   const validateForm = (): boolean => {
     const newErrors: Partial<Record<keyof DatabaseFormData, string>> = {};
@@ -45,19 +60,19 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
       newErrors.name = 'Database name is required';
     }
 
-    if (!formData.host.trim()) {
+    if (!isSqlite && !formData.host.trim()) {
       newErrors.host = 'Host is required';
     }
 
-    if (!formData.port || formData.port < 1 || formData.port > 65535) {
+    if (!isSqlite && (!formData.port || formData.port < 1 || formData.port > 65535)) {
       newErrors.port = 'Port must be between 1 and 65535';
     }
 
     if (!formData.database_name.trim()) {
-      newErrors.database_name = 'Database name is required';
+      newErrors.database_name = isSqlite ? 'Database file is required' : 'Database name is required';
     }
 
-    if (!formData.username.trim()) {
+    if (!isSqlite && !formData.username.trim()) {
       newErrors.username = 'Username is required';
     }
 
@@ -79,6 +94,17 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
     }
   };
 
+  const handleDialectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const dialect = e.target.value as Dialect;
+    setFormData(prev => ({
+      ...prev,
+      dialect,
+      // Follow the engine's default port unless a custom one was entered
+      port: prev.port === defaultPort(prev.dialect) ? defaultPort(dialect) : prev.port
+    }));
+    setErrors({});
+  };
+
   const handleInputChange = (field: keyof DatabaseFormData) => (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -131,6 +157,26 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
             )}
           </div>
 
+          {/* Database Engine */}
+          <div className="space-y-2">
+            <label htmlFor="dialect" className="text-sm font-medium">
+              Database Engine *
+            </label>
+            <select
+              id="dialect"
+              value={formData.dialect}
+              onChange={handleDialectChange}
+              className="w-full p-2 border border-gray-300 rounded-md bg-background"
+              disabled={isLoading}
+            >
+              {DIALECTS.map((dialect) => (
+                <option key={dialect.value} value={dialect.value}>{dialect.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {!isSqlite && (
+          <>
           {/* Host */}
           <div className="space-y-2">
             <label htmlFor="host" className="text-sm font-medium">
@@ -163,7 +209,7 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
               value={formData.port}
               onChange={handleInputChange('port')}
               className="w-full p-2 border border-gray-300 rounded-md bg-background"
-              placeholder="3306"
+              placeholder={String(defaultPort(formData.dialect))}
               min="1"
               max="65535"
               disabled={isLoading}
@@ -175,10 +221,13 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
             )}
           </div>
 
-          {/* Database Name */}
+          </>
+          )}
+
+          {/* Database Name (the file path for SQLite) */}
           <div className="space-y-2">
             <label htmlFor="database_name" className="text-sm font-medium">
-              Database Name *
+              {isSqlite ? 'Database File *' : 'Database Name *'}
             </label>
             <input
               id="database_name"
@@ -186,9 +235,14 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
               value={formData.database_name}
               onChange={handleInputChange('database_name')}
               className="w-full p-2 border border-gray-300 rounded-md bg-background"
-              placeholder="your_database"
+              placeholder={isSqlite ? 'data/your_database.db' : 'your_database'}
               disabled={isLoading}
             />
+            {isSqlite && (
+              <div className="text-xs text-muted-foreground">
+                Path on the backend server; the file is opened read-only
+              </div>
+            )}
             {errors.database_name && (
               <Alert variant="destructive" className="py-2">
                 <AlertDescription className="text-sm">{errors.database_name}</AlertDescription>
@@ -196,6 +250,8 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
             )}
           </div>
 
+          {!isSqlite && (
+          <>
           {/* Username */}
           <div className="space-y-2">
             <label htmlFor="username" className="text-sm font-medium">
@@ -250,6 +306,8 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
               Enable SSL/TLS encryption
             </label>
           </div>
+          </>
+          )}
 
           {/* Form Actions */}
           <div className="flex gap-2 pt-4">
@@ -269,10 +327,11 @@ const DatabaseForm: React.FC<DatabaseFormProps> = ({
           <h3 className="font-medium mb-2">Configuration Preview</h3>
           <div className="text-sm text-muted-foreground space-y-1">
             <div><strong>Name:</strong> {formData.name || 'Not set'}</div>
-            <div><strong>Connection:</strong> {formData.host}:{formData.port}</div>
+            <div><strong>Engine:</strong> {DIALECTS.find((d) => d.value === formData.dialect)?.label}</div>
+            {!isSqlite && <div><strong>Connection:</strong> {formData.host}:{formData.port}</div>}
             <div><strong>Database:</strong> {formData.database_name || 'Not set'}</div>
-            <div><strong>Username:</strong> {formData.username || 'Not set'}</div>
-            <div><strong>SSL:</strong> {formData.ssl_enabled ? 'Enabled' : 'Disabled'}</div>
+            {!isSqlite && <div><strong>Username:</strong> {formData.username || 'Not set'}</div>}
+            {!isSqlite && <div><strong>SSL:</strong> {formData.ssl_enabled ? 'Enabled' : 'Disabled'}</div>}
           </div>
         </div>
       </CardContent>
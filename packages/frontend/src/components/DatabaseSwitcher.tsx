@@ -9,6 +9,10 @@ interface Database {
   port: number;
   database_name: string;
   is_default: boolean;
+  // The stored password could not be decrypted and must be entered again
+  needs_credentials?: boolean;
+  // The connection this user is working against
+  is_selected: boolean;
 }
 
 interface DatabaseSwitcherProps {
@@ -30,14 +34,14 @@ function DatabaseSwitcher({ onDatabaseChange, disabled = false }: DatabaseSwitch
   const loadDatabases = async () => {
     setIsInitialLoading(true);
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/settings/databases`);
-      const dbList = response.data.data || [];
+      const response = await axios.get(`${API_BASE_URL}/api/databases`);
+      const dbList = response.data || [];
       setDatabases(dbList);
       
-      // Set current database (the default one)
-      const defaultDb = dbList.find((db: Database) => db.is_default);
-      if (defaultDb) {
-        setCurrentDatabase(defaultDb);
+      // Set current database (the one this user has selected)
+      const selectedDb = dbList.find((db: Database) => db.is_selected);
+      if (selectedDb) {
+        setCurrentDatabase(selectedDb);
       }
     } catch (err) {
       console.error('Failed to load databases:', err);
@@ -51,7 +55,7 @@ function DatabaseSwitcher({ onDatabaseChange, disabled = false }: DatabaseSwitch
     setShowDropdown(false);
     
     try {
-      await axios.post(`${API_BASE_URL}/api/settings/databases/${database.id}/switch`);
+      await axios.post(`${API_BASE_URL}/api/databases/${database.id}/switch`);
       setCurrentDatabase(database);
       
       // Dispatch custom event for other components to listen to
@@ -164,7 +168,12 @@ function DatabaseSwitcher({ onDatabaseChange, disabled = false }: DatabaseSwitch
                         <span className="font-medium text-sm truncate">{db.name}</span>
                         {db.is_default && (
                           <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">
-                            Active
+                            Default
+                          </span>
+                        )}
+                        {db.needs_credentials && (
+                          <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded">
+                            Password needed
                           </span>
                         )}
                       </div>
@@ -24,6 +24,9 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 interface TableSchema {
   columns: string[];
   description: string;
+  // Filled in by introspection; hand-written schemas may only have column names
+  columnDetails?: Record<string, { type?: string; nullable?: boolean; enumValues?: string[] }>;
+  primaryKey?: string[];
 }
 
 interface DatabaseSchema {
@@ -42,11 +45,13 @@ interface TableNodeData {
   label: string;
   columns: string[];
   description: string;
+  columnDetails?: TableSchema['columnDetails'];
+  primaryKey?: string[];
 }
 
 // Custom node component for tables
 const TableNode = ({ data }: { data: TableNodeData }) => {
-  const { label, columns, description } = data;
+  const { label, columns, description, columnDetails, primaryKey } = data;
   
   return (
     <div className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-lg min-w-[250px] max-w-[300px]">
@@ -61,12 +66,14 @@ const TableNode = ({ data }: { data: TableNodeData }) => {
       {/* Table Columns */}
       <div className="max-h-[300px] overflow-y-auto">
         {columns.map((column: string, idx: number) => {
-          const isPrimaryKey = column.toLowerCase() === 'id';
+          const isPrimaryKey = primaryKey ? primaryKey.includes(column) : column.toLowerCase() === 'id';
           const isForeignKey = column.toLowerCase().endsWith('_id') && !isPrimaryKey;
+          const details = columnDetails?.[column];
           
           return (
             <div 
               key={idx} 
+              title={details?.enumValues?.length ? details.enumValues.join(', ') : undefined}
               className={`px-4 py-2 border-b border-gray-200 dark:border-gray-700 last:border-b-0 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
                 isPrimaryKey ? 'bg-yellow-50 dark:bg-yellow-900/20' : isForeignKey ? 'bg-blue-50 dark:bg-blue-900/20' : ''
               }`}
@@ -77,6 +84,11 @@ const TableNode = ({ data }: { data: TableNodeData }) => {
                 <span className={`font-mono text-sm text-gray-900 dark:text-gray-100 ${isPrimaryKey || isForeignKey ? 'font-semibold' : ''}`}>
                   {column}
                 </span>
+                {details?.type && (
+                  <span className="ml-auto font-mono text-xs text-gray-500 dark:text-gray-400">
+                    {details.type}{details.nullable === false && !isPrimaryKey ? ' not null' : ''}
+                  </span>
+                )}
               </div>
             </div>
           );
@@ -214,6 +226,8 @@ function DiagramVisualizer({ schema: propSchema }: DiagramVisualizerProps) {
           label: tableName,
           columns: schemaData[tableName].columns,
           description: schemaData[tableName].description,
+          columnDetails: schemaData[tableName].columnDetails,
+          primaryKey: schemaData[tableName].primaryKey,
         },
       });
     });
@@ -1,12 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
 import { axios, API_BASE_URL } from '@/lib/axios';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
+interface ColumnDetails {
+  type?: string;
+  nullable?: boolean;
+  default?: string | null;
+  enumValues?: string[];
+  comment?: string;
+}
+
 interface TableSchema {
   columns: string[];
   description: string;
+  // Filled in by introspection; hand-written schemas may only have column names
+  columnDetails?: Record<string, ColumnDetails>;
+  primaryKey?: string[];
+  indexes?: { name: string; columns: string[]; unique: boolean }[];
 }
 
 interface DatabaseSchema {
@@ -19,11 +32,32 @@ interface TableRelationship {
   type: 'one-to-many' | 'many-to-one' | 'one-to-one' | 'many-to-many';
 }
 
+interface ColumnProfile {
+  nullRatio: number;
+  distinctCount?: number;
+  values?: string[];
+  min?: string | number;
+  max?: string | number;
+}
+
+interface TableProfile {
+  rowCount: number | null;
+  sampledRows: number;
+  columns: Record<string, ColumnProfile>;
+}
+
+interface SchemaProfile {
+  generatedAt: string;
+  tables: Record<string, TableProfile>;
+}
+
 interface ERDViewerProps {
   schema?: DatabaseSchema | null;
+  // Column profiles live under the admin-only settings API
+  canProfile?: boolean;
 }
 
-function ERDViewer({ schema: propSchema }: ERDViewerProps) {
+function ERDViewer({ schema: propSchema, canProfile = false }: ERDViewerProps) {
   const [schema, setSchema] = useState<DatabaseSchema | null>(propSchema || null);
   const [isLoading, setIsLoading] = useState(!propSchema);
   const [error, setError] = useState<string | null>(null);
@@ -31,6 +65,10 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [relationships, setRelationships] = useState<TableRelationship[]>([]);
+  const [databaseId, setDatabaseId] = useState<number | null>(null);
+  const [profile, setProfile] = useState<SchemaProfile | null>(null);
+  const [isProfiling, setIsProfiling] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
 
   // Update schema when prop changes
   useEffect(() => {
@@ -48,6 +86,56 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
     }
   }, [propSchema]);
 
+  const fetchProfile = useCallback(async (id: number) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/settings/databases/${id}/profile`);
+      setProfile(response.data.data || null);
+      setIsProfiling(!!response.data.running);
+      setProfileError(response.data.error || null);
+    } catch (err) {
+      console.error('Failed to load schema profile:', err);
+      setIsProfiling(false);
+    }
+  }, []);
+
+  // The profile belongs to the selected database, which is the one the schema describes
+  const loadProfile = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/databases`);
+      const selectedDb = (response.data || []).find((db: { is_selected: boolean }) => db.is_selected);
+      if (selectedDb) {
+        setDatabaseId(selectedDb.id);
+        await fetchProfile(selectedDb.id);
+      }
+    } catch (err) {
+      console.error('Failed to load databases:', err);
+    }
+  }, [fetchProfile]);
+
+  useEffect(() => {
+    if (canProfile) {
+      loadProfile();
+    }
+  }, [canProfile, loadProfile]);
+
+  // Poll while a profiling run is in progress
+  useEffect(() => {
+    if (!isProfiling || databaseId === null) return;
+    const timer = setInterval(() => fetchProfile(databaseId), 3000);
+    return () => clearInterval(timer);
+  }, [isProfiling, databaseId, fetchProfile]);
+
+  const startProfiling = async () => {
+    if (databaseId === null) return;
+    setProfileError(null);
+    try {
+      await axios.post(`${API_BASE_URL}/api/settings/databases/${databaseId}/profile`);
+      setIsProfiling(true);
+    } catch (err) {
+      setProfileError((isAxiosError(err) && err.response?.data?.error) || 'Failed to start profiling');
+    }
+  };
+
   const loadSchema = async () => {
     setIsLoading(true);
     setError(null);
@@ -117,6 +205,42 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
     return 'varchar';
   };
 
+  // Icon category for a declared database type
+  const getTypeCategory = (type: string): string => {
+    const lower = type.toLowerCase();
+    if (/int|serial/.test(lower)) return 'integer';
+    if (/dec|numeric|money|float|double|real/.test(lower)) return 'decimal';
+    if (/date|time|year/.test(lower)) return 'datetime';
+    if (/bool|^bit/.test(lower)) return 'boolean';
+    if (/json/.test(lower)) return 'json';
+    return 'varchar';
+  };
+
+  // Declared type and keys when the schema has them, naming heuristics otherwise
+  const describeColumn = (tableInfo: TableSchema, column: string) => {
+    const details = tableInfo.columnDetails?.[column];
+    const isPrimaryKey = tableInfo.primaryKey ? tableInfo.primaryKey.includes(column) : column.toLowerCase() === 'id';
+    const isForeignKey = column.toLowerCase().endsWith('_id') && !isPrimaryKey;
+    if (!details?.type) {
+      const columnType = getColumnType(column);
+      return { label: columnType, icon: getColumnIcon(columnType), isPrimaryKey, isForeignKey, title: undefined };
+    }
+
+    const notes = [
+      details.nullable === false && !isPrimaryKey ? 'not null' : null,
+      details.default != null ? `default ${details.default}` : null,
+      details.enumValues?.length ? `values: ${details.enumValues.join(', ')}` : null,
+      details.comment || null
+    ].filter(Boolean);
+    return {
+      label: details.enumValues?.length ? `${details.type} (${details.enumValues.length})` : details.type,
+      icon: isPrimaryKey ? getColumnIcon('PK/FK') : getColumnIcon(getTypeCategory(details.type)),
+      isPrimaryKey,
+      isForeignKey,
+      title: notes.length > 0 ? notes.join('\n') : undefined
+    };
+  };
+
   const getColumnIcon = (type: string): string => {
     switch (type) {
       case 'PK/FK': return '🔑';
@@ -132,6 +256,13 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
     }
   };
 
+  // Summary of a column's profile for the detail panel
+  const describeProfile = (stats: ColumnProfile): string => {
+    if (stats.values?.length) return stats.values.join(', ');
+    if (stats.min !== undefined && stats.max !== undefined) return `${stats.min} – ${stats.max}`;
+    return '';
+  };
+
   const getRelationshipsForTable = (tableName: string) => {
     return {
       outgoing: relationships.filter(r => r.from === tableName),
@@ -210,6 +341,11 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
             </svg>
           </Button>
+          {databaseId !== null && (
+            <Button variant="outline" size="sm" onClick={startProfiling} disabled={isProfiling}>
+              {isProfiling ? 'Profiling...' : 'Profile Data'}
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={loadSchema}>
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -219,6 +355,13 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
         </div>
       </div>
 
+      {profileError && (
+        <Alert variant="destructive">
+          <AlertTitle>Profiling failed</AlertTitle>
+          <AlertDescription>{profileError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Schema Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -306,14 +449,12 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
                 <CardContent>
                   <div className="space-y-1 max-h-60 overflow-y-auto">
                     {tableInfo.columns.map((column, idx) => {
-                      const columnType = getColumnType(column);
-                      const icon = getColumnIcon(columnType);
-                      const isPrimaryKey = column.toLowerCase() === 'id';
-                      const isForeignKey = column.toLowerCase().endsWith('_id') && !isPrimaryKey;
+                      const { label, icon, isPrimaryKey, isForeignKey, title } = describeColumn(tableInfo, column);
                       
                       return (
                         <div 
                           key={idx} 
+                          title={title}
                           className={`flex items-center justify-between text-sm py-1 px-2 rounded hover:bg-muted ${
                             isPrimaryKey ? 'bg-yellow-50 border-l-2 border-yellow-500' :
                             isForeignKey ? 'bg-blue-50 border-l-2 border-blue-500' : ''
@@ -325,7 +466,7 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
                               {column}
                             </span>
                           </div>
-                          <span className="text-xs text-muted-foreground">{columnType}</span>
+                          <span className="text-xs text-muted-foreground">{label}</span>
                         </div>
                       );
                     })}
@@ -372,6 +513,7 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
           {filteredTables.map(([tableName, tableInfo]) => {
             const tableRelationships = getRelationshipsForTable(tableName);
             const isSelected = selectedTable === tableName;
+            const tableProfile = profile?.tables[tableName];
             
             return (
               <Card 
@@ -395,6 +537,12 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
+                      {tableProfile?.rowCount != null && (
+                        <div className="text-sm">
+                          <span className="text-muted-foreground">Rows:</span>{' '}
+                          <span className="font-semibold">~{tableProfile.rowCount.toLocaleString()}</span>
+                        </div>
+                      )}
                       <div className="text-sm">
                         <span className="text-muted-foreground">Columns:</span>{' '}
                         <span className="font-semibold">{tableInfo.columns.length}</span>
@@ -414,14 +562,12 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
                   <CardContent>
                     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
                       {tableInfo.columns.map((column, idx) => {
-                        const columnType = getColumnType(column);
-                        const icon = getColumnIcon(columnType);
-                        const isPrimaryKey = column.toLowerCase() === 'id';
-                        const isForeignKey = column.toLowerCase().endsWith('_id') && !isPrimaryKey;
+                        const { label, icon, isPrimaryKey, isForeignKey, title } = describeColumn(tableInfo, column);
                         
                         return (
                           <div 
                             key={idx} 
+                            title={title}
                             className={`flex items-center gap-2 text-sm py-2 px-3 rounded border ${
                               isPrimaryKey ? 'bg-yellow-50 border-yellow-300' :
                               isForeignKey ? 'bg-blue-50 border-blue-300' : 
@@ -430,11 +576,54 @@ function ERDViewer({ schema: propSchema }: ERDViewerProps) {
                           >
                             <span>{icon}</span>
                             <span className="font-mono text-xs">{column}</span>
+                            <span className="ml-auto text-xs text-muted-foreground">{label}</span>
                           </div>
                         );
                       })}
                     </div>
                     
+                    {tableInfo.indexes && tableInfo.indexes.length > 0 && (
+                      <div className="mt-3 text-xs text-muted-foreground">
+                        Indexes:{' '}
+                        {tableInfo.indexes
+                          .map((index) => `${index.unique ? 'unique ' : ''}${index.name} (${index.columns.join(', ')})`)
+                          .join(' · ')}
+                      </div>
+                    )}
+
+                    {/* Column profile */}
+                    {tableProfile && Object.keys(tableProfile.columns).length > 0 && (
+                      <div className="mt-4 pt-4 border-t border-border">
+                        <div className="text-sm font-semibold mb-2">
+                          Data Profile
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            {tableProfile.sampledRows.toLocaleString()} rows sampled
+                            {profile && ` · ${new Date(profile.generatedAt).toLocaleString()}`}
+                          </span>
+                        </div>
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-muted-foreground">
+                              <th className="py-1 pr-3 font-medium">Column</th>
+                              <th className="py-1 pr-3 font-medium">Nulls</th>
+                              <th className="py-1 pr-3 font-medium">Distinct</th>
+                              <th className="py-1 font-medium">Values / Range</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {Object.entries(tableProfile.columns).map(([column, stats]) => (
+                              <tr key={column} className="border-t border-border">
+                                <td className="py-1 pr-3 font-mono">{column}</td>
+                                <td className="py-1 pr-3">{Math.round(stats.nullRatio * 100)}%</td>
+                                <td className="py-1 pr-3">{stats.distinctCount ?? '—'}</td>
+                                <td className="py-1 text-muted-foreground">{describeProfile(stats)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
                     {/* Relationships in list view */}
                     {(tableRelationships.outgoing.length > 0 || tableRelationships.incoming.length > 0) && (
                       <div className="mt-4 pt-4 border-t border-border grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -0,0 +1,156 @@
+import { useRef, useState } from 'react';
+import { isAxiosError, isCancel } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import type { ParameterValue, QueryParameter } from '@/lib/queryParameters';
+
+type ExportFormat = 'csv' | 'ndjson' | 'xlsx' | 'parquet';
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Comma-separated values' },
+  { value: 'ndjson', label: 'JSON Lines', description: 'One JSON object per row' },
+  { value: 'xlsx', label: 'Excel', description: 'XLSX workbook (up to ~1M rows)' },
+  { value: 'parquet', label: 'Parquet', description: 'Typed, compressed columnar file' }
+];
+
+interface ExportMenuProps {
+  sql: string;
+  // Values and definitions for the SQL's :name placeholders
+  parameters?: Record<string, ParameterValue>;
+  parameterDefinitions?: QueryParameter[];
+  disabled?: boolean;
+}
+
+// Error bodies arrive as blobs because the request asks for a file
+const readExportError = async (err: unknown): Promise<string> => {
+  if (isAxiosError(err) && err.response?.data instanceof Blob) {
+    try {
+      const body = JSON.parse(await err.response.data.text());
+      if (body?.error) return body.error;
+    } catch {
+      // Not JSON; fall through to the generic message
+    }
+  }
+  return err instanceof Error ? err.message : 'Export failed';
+};
+
+const filenameFrom = (disposition: string | undefined, format: ExportFormat) => {
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : `export.${format}`;
+};
+
+function ExportMenu({ sql, parameters, parameterDefinitions, disabled = false }: ExportMenuProps) {
+  const [showDropdown, setShowDropdown] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setShowDropdown(false);
+    setError(null);
+    setExportingFormat(format);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const response = await axios.post(`${API_BASE_URL}/api/export`, { sql, format, parameters, parameterDefinitions }, {
+        responseType: 'blob',
+        signal: controller.signal,
+        // Full exports can take far longer than the default request timeout
+        timeout: 0
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filenameFrom(response.headers['content-disposition'], format);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      if (!isCancel(err)) {
+        setError(await readExportError(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setExportingFormat(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  if (exportingFormat) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          <svg className="w-4 h-4 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Exporting {FORMATS.find(f => f.value === exportingFormat)?.label}...
+        </span>
+        <Button variant="outline" size="sm" onClick={handleCancel}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setShowDropdown(!showDropdown)}
+        disabled={disabled || !sql.trim()}
+        className="flex items-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Export
+        <svg
+          className={`w-4 h-4 transition-transform ${showDropdown ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </Button>
+
+      {showDropdown && (
+        <>
+          {/* Backdrop */}
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setShowDropdown(false)}
+          />
+
+          {/* Dropdown Menu */}
+          <div className="absolute right-0 top-full mt-2 w-64 bg-background border border-border rounded-lg shadow-lg z-50">
+            <div className="p-2">
+              <div className="text-xs font-semibold text-muted-foreground px-3 py-2">
+                Export full result
+              </div>
+              {FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  onClick={() => handleExport(format.value)}
+                  className="w-full text-left px-3 py-2 rounded-md hover:bg-muted transition-colors"
+                >
+                  <div className="font-medium text-sm">{format.label}</div>
+                  <div className="text-xs text-muted-foreground">{format.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
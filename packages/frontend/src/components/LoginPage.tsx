@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface LoginPageProps {
+  oidcEnabled: boolean;
+  // Message from a failed single sign-on redirect
+  error: string | null;
+  onLogin: (username: string, password: string) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-border rounded-md bg-background';
+
+// Username and password form, plus single sign-on when the backend has it configured
+function LoginPage({ oidcEnabled, error, onLogin }: LoginPageProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      await onLogin(username.trim(), password);
+    } catch (err) {
+      setFormError((isAxiosError(err) && err.response?.data?.error) || 'Failed to sign in');
+      setIsSubmitting(false);
+    }
+  };
+
+  const shownError = formError || error;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>AI-Powered Query Builder</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {shownError && (
+            <Alert variant="destructive">
+              <AlertDescription>{shownError}</AlertDescription>
+            </Alert>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">Username</span>
+              <input
+                className={inputClassName}
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </label>
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">Password</span>
+              <input
+                type="password"
+                className={inputClassName}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </label>
+            <Button type="submit" className="w-full" disabled={isSubmitting || !username.trim() || !password}>
+              {isSubmitting ? 'Signing in...' : 'Sign in'}
+            </Button>
+          </form>
+          {oidcEnabled && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => { window.location.href = `${API_BASE_URL}/api/auth/oidc/login`; }}
+            >
+              Sign in with single sign-on
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default LoginPage;
@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react';
+import { axios, API_BASE_URL, SESSION_ID } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export interface HistoryEntry {
+  id: number;
+  type: 'generation' | 'validation' | 'export' | 'job' | null;
+  prompt: string;
+  sql: string | null;
+  status: 'success' | 'validation_error' | 'execution_error';
+  confidence: number | null;
+  execution_time_ms: number | null;
+  error: string | null;
+  session: string | null;
+  repair_rounds: number | null;
+  database_settings_id: number | null;
+  database_name: string | null;
+  created_at: string;
+}
+
+interface DatabaseOption {
+  id: number;
+  name: string;
+}
+
+interface QueryHistoryProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+  // Viewers can open entries but not run them
+  readOnly?: boolean;
+}
+
+interface HistoryFilters {
+  search: string;
+  status: string;
+  type: string;
+  databaseId: string;
+  from: string;
+  to: string;
+  sessionOnly: boolean;
+}
+
+const emptyFilters: HistoryFilters = {
+  search: '',
+  status: '',
+  type: '',
+  databaseId: '',
+  from: '',
+  to: '',
+  sessionOnly: false
+};
+
+const PAGE_SIZE = 25;
+
+const STATUS_LABELS: Record<HistoryEntry['status'], string> = {
+  success: 'Success',
+  validation_error: 'Validation error',
+  execution_error: 'Execution error'
+};
+
+const inputClassName = 'px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+// Query-string parameters for GET /api/history; empty filters are left out
+const historyParams = (filters: HistoryFilters, cursor?: number) => ({
+  search: filters.search.trim() || undefined,
+  status: filters.status || undefined,
+  type: filters.type || undefined,
+  databaseId: filters.databaseId || undefined,
+  // Dates are days in the browser's time zone; "to" covers the whole day
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  session: filters.sessionOnly ? SESSION_ID : undefined,
+  cursor,
+  limit: PAGE_SIZE
+});
+
+// Searchable log of every generation, validation and export
+function QueryHistory({ onOpen, onRerun, disabled = false, readOnly = false }: QueryHistoryProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyFilters);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [databases, setDatabases] = useState<DatabaseOption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios.get(`${API_BASE_URL}/api/databases`)
+      .then((response) => setDatabases(response.data || []))
+      .catch((err) => console.warn('Failed to load databases:', err));
+  }, []);
+
+  const loadPage = useCallback(async (cursor?: number) => {
+    setIsLoading(true);
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/history`, { params: historyParams(filters, cursor) });
+      const page: HistoryEntry[] = response.data.data || [];
+      setEntries((current) => (cursor === undefined ? page : [...current, ...page]));
+      setNextCursor(response.data.nextCursor ?? null);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load query history:', err);
+      setError('Failed to load query history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    // Wait for typing to settle before searching
+    const timer = setTimeout(() => loadPage(), 300);
+    return () => clearTimeout(timer);
+  }, [loadPage]);
+
+  const setFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Query History</CardTitle>
+        <CardDescription>Every generated, validated and exported query, newest first</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <input
+            type="text"
+            placeholder="Search prompts and SQL..."
+            value={filters.search}
+            onChange={(e) => setFilter('search', e.target.value)}
+            className={`${inputClassName} md:col-span-3`}
+          />
+          <select className={inputClassName} value={filters.status} onChange={(e) => setFilter('status', e.target.value)}>
+            <option value="">All statuses</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select className={inputClassName} value={filters.type} onChange={(e) => setFilter('type', e.target.value)}>
+            <option value="">All actions</option>
+            <option value="generation">Generation</option>
+            <option value="validation">Validation</option>
+            <option value="export">Export</option>
+            <option value="job">Background job</option>
+          </select>
+          <select className={inputClassName} value={filters.databaseId} onChange={(e) => setFilter('databaseId', e.target.value)}>
+            <option value="">All databases</option>
+            {databases.map((database) => (
+              <option key={database.id} value={String(database.id)}>{database.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">From</span>
+            <input type="date" className={`${inputClassName} flex-1`} value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">To</span>
+            <input type="date" className={`${inputClassName} flex-1`} value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+          </label>
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={filters.sessionOnly} onChange={(e) => setFilter('sessionOnly', e.target.checked)} />
+              This session only
+            </label>
+            <Button variant="ghost" size="sm" onClick={() => setFilters(emptyFilters)}>Clear</Button>
+          </div>
+        </div>
+
+        {error && <div className="text-xs text-red-600">{error}</div>}
+
+        {entries.length > 0 ? (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div key={entry.id} className="border border-border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.type && ` • ${entry.type}`}
+                    {entry.database_name && ` • ${entry.database_name}`}
+                  </span>
+                  <span className={`font-medium ${entry.status === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                    {STATUS_LABELS[entry.status]}
+                    {entry.execution_time_ms !== null && ` • ${entry.execution_time_ms}ms`}
+                  </span>
+                </div>
+                <div className="text-sm font-medium truncate" title={entry.prompt}>
+                  {entry.prompt}
+                </div>
+                {entry.sql && (
+                  <div className="text-xs font-mono bg-muted p-2 rounded truncate" title={entry.sql}>
+                    {entry.sql}
+                  </div>
+                )}
+                {entry.error && (
+                  <div className="text-xs text-red-600 truncate" title={entry.error}>
+                    Error: {entry.error}
+                  </div>
+                )}
+                {entry.sql && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => onOpen(entry)} disabled={disabled}>Open in editor</Button>
+                    {!readOnly && <Button variant="ghost" size="sm" onClick={() => onRerun(entry)} disabled={disabled}>Re-run</Button>}
+                  </div>
+                )}
+              </div>
+            ))}
+            {nextCursor !== null && (
+              <Button variant="outline" className="w-full" onClick={() => loadPage(nextCursor)} disabled={isLoading}>
+                {isLoading ? 'Loading...' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            {isLoading ? 'Loading...' : 'No queries match. Generate or validate a query to see it here.'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default QueryHistory;
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export interface QueryJob {
+  id: string;
+  sql: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  row_count: number;
+  columns: string[];
+  masked_columns: { column: string; strategy: string }[];
+  truncated: boolean;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  expires_at: string | null;
+}
+
+interface JobResults {
+  rows: Record<string, unknown>[];
+  columns: string[];
+  page: number;
+  pageSize: number;
+  totalRows: number;
+  totalPages: number;
+}
+
+interface QueryJobsProps {
+  onOpen: (job: QueryJob) => void;
+  // Bumped by the parent after it submits a job
+  refreshKey?: number;
+  // Viewers can look at results but not cancel or delete jobs
+  readOnly?: boolean;
+}
+
+const RESULTS_PAGE_SIZE = 100;
+// How often the list is refreshed while a job is queued or running
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_LABELS: Record<QueryJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_COLORS: Record<QueryJob['status'], string> = {
+  queued: 'text-muted-foreground',
+  running: 'text-blue-600',
+  succeeded: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-yellow-600'
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (isAxiosError(err) && err.response?.data?.error) || fallback;
+
+const isActive = (job: QueryJob) => job.status === 'queued' || job.status === 'running';
+
+const formatCell = (value: unknown) =>
+  value === null || value === undefined ? 'NULL' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Background query jobs: their progress while running and their results once finished
+function QueryJobs({ onOpen, refreshKey = 0, readOnly = false }: QueryJobsProps) {
+  const [jobs, setJobs] = useState<QueryJob[]>([]);
+  const [selected, setSelected] = useState<QueryJob | null>(null);
+  const [results, setResults] = useState<JobResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/jobs`);
+      setJobs(response.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load query jobs:', err);
+      setError(errorMessage(err, 'Failed to load query jobs'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshKey]);
+
+  // Keep polling until nothing is left queued or running
+  const hasActiveJobs = jobs.some(isActive);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs]);
+
+  const loadResults = async (job: QueryJob, page: number) => {
+    setIsLoading(true);
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/jobs/${job.id}/results`, {
+        params: { page, pageSize: RESULTS_PAGE_SIZE }
+      });
+      setSelected(job);
+      setResults(response.data.data);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load job results'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async (job: QueryJob) => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/jobs/${job.id}/cancel`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to cancel job'));
+    }
+    loadJobs();
+  };
+
+  const handleDelete = async (job: QueryJob) => {
+    try {
+      await axios.delete(`${API_BASE_URL}/api/jobs/${job.id}`);
+      if (selected?.id === job.id) {
+        setSelected(null);
+        setResults(null);
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete job'));
+    }
+    loadJobs();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Background Jobs</CardTitle>
+          <CardDescription>
+            Queries run on the server without the 30-second preview limit; results are kept until they expire
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error && <div className="text-xs text-red-600">{error}</div>}
+
+          {jobs.length > 0 ? (
+            jobs.map((job) => (
+              <div key={job.id} className="border border-border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {new Date(job.created_at).toLocaleString()}
+                    {job.expires_at && ` • expires ${new Date(job.expires_at).toLocaleString()}`}
+                  </span>
+                  <span className={`font-medium ${STATUS_COLORS[job.status]}`}>
+                    {STATUS_LABELS[job.status]}
+                    {job.status !== 'queued' && ` • ${job.row_count.toLocaleString()} rows${job.truncated ? ' (truncated)' : ''}`}
+                  </span>
+                </div>
+                <div className="text-xs font-mono bg-muted p-2 rounded truncate" title={job.sql}>
+                  {job.sql}
+                </div>
+                {job.error && (
+                  <div className="text-xs text-red-600 truncate" title={job.error}>
+                    Error: {job.error}
+                  </div>
+                )}
+                <div className="flex gap-1">
+                  {job.status === 'succeeded' && (
+                    <Button variant="ghost" size="sm" onClick={() => loadResults(job, 1)} disabled={isLoading}>
+                      View results
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => onOpen(job)}>Open in editor</Button>
+                  {!readOnly && isActive(job) && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCancel(job)}>Cancel</Button>
+                  )}
+                  {!readOnly && !isActive(job) && (
+                    <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(job)}>Delete</Button>
+                  )}
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              No jobs yet. Use "Run in Background" in the Query Builder for queries that take longer than a preview allows.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && results && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Job Results</CardTitle>
+            <CardDescription className="font-mono truncate" title={selected.sql}>{selected.sql}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selected.masked_columns.length > 0 && (
+              <div className="text-xs text-muted-foreground">
+                Masked columns: {selected.masked_columns.map((m) => m.column).join(', ')}
+              </div>
+            )}
+            <div className="overflow-x-auto border border-border rounded-md">
+              <table className="min-w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    {results.columns.map((column) => (
+                      <th key={column} className="px-3 py-2 text-left font-medium">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.rows.map((row, index) => (
+                    <tr key={index} className="border-t border-border">
+                      {results.columns.map((column) => (
+                        <td key={column} className="px-3 py-1.5 whitespace-nowrap">{formatCell(row[column])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Page {results.page} of {results.totalPages} • {results.totalRows.toLocaleString()} rows
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => loadResults(selected, results.page - 1)} disabled={isLoading || results.page <= 1}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => loadResults(selected, results.page + 1)} disabled={isLoading || results.page >= results.totalPages}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default QueryJobs;
@@ -0,0 +1,79 @@
+import { parametersFor, type ParameterValue, type QueryParameter } from '@/lib/queryParameters';
+
+interface QueryParametersFormProps {
+  names: string[];
+  definitions: QueryParameter[];
+  values: Record<string, ParameterValue>;
+  onChange: (values: Record<string, ParameterValue>) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+const INPUT_TYPES: Record<QueryParameter['type'], string> = {
+  string: 'text',
+  int: 'number',
+  number: 'number',
+  date: 'date',
+  boolean: 'checkbox'
+};
+
+// Inputs for a query's named parameters; values are sent separately from the SQL
+function QueryParametersForm({ names, definitions, values, onChange, disabled = false }: QueryParametersFormProps) {
+  const setValue = (name: string, value: ParameterValue) => onChange({ ...values, [name]: value });
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-3 bg-muted/30">
+      <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Parameters</div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {parametersFor(names, definitions).map((parameter) => {
+          const value = values[parameter.name];
+          const id = `query-parameter-${parameter.name}`;
+          return (
+            <label key={parameter.name} htmlFor={id} className="space-y-1 text-sm">
+              <span className="block text-xs text-muted-foreground">
+                {parameter.label || parameter.name}
+                <code className="ml-1">:{parameter.name}</code>
+              </span>
+              {parameter.allowedValues && parameter.allowedValues.length > 0 ? (
+                <select
+                  id={id}
+                  className={inputClassName}
+                  value={value === null || value === undefined ? '' : String(value)}
+                  onChange={(e) => setValue(parameter.name, e.target.value || null)}
+                  disabled={disabled}
+                >
+                  <option value="">Choose...</option>
+                  {parameter.allowedValues.map((allowed) => (
+                    <option key={String(allowed)} value={String(allowed)}>{allowed}</option>
+                  ))}
+                </select>
+              ) : parameter.type === 'boolean' ? (
+                <input
+                  id={id}
+                  type="checkbox"
+                  className="block h-4 w-4"
+                  checked={value === true || value === 'true'}
+                  onChange={(e) => setValue(parameter.name, e.target.checked)}
+                  disabled={disabled}
+                />
+              ) : (
+                <input
+                  id={id}
+                  type={INPUT_TYPES[parameter.type]}
+                  step={parameter.type === 'number' ? 'any' : undefined}
+                  className={inputClassName}
+                  value={value === null || value === undefined ? '' : String(value)}
+                  onChange={(e) => setValue(parameter.name, e.target.value === '' ? null : e.target.value)}
+                  disabled={disabled}
+                />
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default QueryParametersForm;
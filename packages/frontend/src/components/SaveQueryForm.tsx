@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import type { SavedQuery } from '@/components/SavedQueryLibrary';
+import type { QueryParameter } from '@/lib/queryParameters';
+
+interface SaveQueryFormProps {
+  prompt: string;
+  sql: string;
+  // Definitions for the SQL's :name placeholders
+  parameters?: QueryParameter[];
+  onSaved: (query: SavedQuery) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+// Saves the editor's SQL and prompt to the library under the current connection
+function SaveQueryForm({ prompt, sql, parameters = [], onSaved, onCancel }: SaveQueryFormProps) {
+  const [name, setName] = useState(prompt.slice(0, 100));
+  const [description, setDescription] = useState('');
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await axios.post(`${API_BASE_URL}/api/queries`, {
+        name,
+        description: description.trim() || null,
+        prompt: prompt.trim() || null,
+        sql,
+        folder: folder.trim() || null,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        parameters
+      });
+      onSaved(response.data.data);
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.error) || 'Failed to save query');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 rounded-md border border-border p-3 bg-muted/30">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <input
+          className={inputClassName}
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={255}
+          required
+          autoFocus
+        />
+        <input
+          className={inputClassName}
+          placeholder="Folder (optional)"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          maxLength={255}
+        />
+        <input
+          className={inputClassName}
+          placeholder="Tags, comma separated"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <input
+          className={inputClassName}
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={2000}
+        />
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSaving || !name.trim()}>
+          {isSaving ? 'Saving...' : 'Save Query'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default SaveQueryForm;
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { QueryParameter } from '@/lib/queryParameters';
+
+export interface SavedQuery {
+  id: number;
+  name: string;
+  description: string | null;
+  prompt: string | null;
+  sql: string;
+  database_settings_id: number | null;
+  database_name: string | null;
+  tags: string[];
+  folder: string | null;
+  parameters: QueryParameter[];
+  // Id of the user who saved it; null for queries saved before authors were recorded
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SavedQueryLibraryProps {
+  onOpen: (query: SavedQuery) => void;
+  // Bump to reload the list after a query is saved elsewhere
+  refreshKey?: number;
+  disabled?: boolean;
+  // Viewers can open and share queries but not change the library
+  readOnly?: boolean;
+  // Only the author or an admin may delete a query
+  canDelete?: (query: SavedQuery) => boolean;
+}
+
+// Link that opens a saved query in the query builder
+const savedQueryLink = (id: number) =>
+  `${window.location.origin}${window.location.pathname}?savedQuery=${id}`;
+
+function SavedQueryLibrary({ onOpen, refreshKey = 0, disabled = false, readOnly = false, canDelete = () => true }: SavedQueryLibraryProps) {
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    // Wait for typing to settle before searching
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get(`${API_BASE_URL}/api/queries`, {
+          params: { search: search.trim() || undefined, tag: tag || undefined }
+        });
+        setQueries(response.data.data || []);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load saved queries:', err);
+        setError('Failed to load saved queries');
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, tag, refreshKey, reloadKey]);
+
+  const handleDuplicate = async (query: SavedQuery) => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/queries/${query.id}/duplicate`);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error('Failed to duplicate saved query:', err);
+      setError('Failed to duplicate saved query');
+    }
+  };
+
+  const handleDelete = async (query: SavedQuery) => {
+    if (!window.confirm(`Delete saved query "${query.name}"?`)) return;
+    try {
+      await axios.delete(`${API_BASE_URL}/api/queries/${query.id}`);
+      setQueries((current) => current.filter((q) => q.id !== query.id));
+    } catch (err) {
+      console.error('Failed to delete saved query:', err);
+      setError('Failed to delete saved query');
+    }
+  };
+
+  const handleShare = async (query: SavedQuery) => {
+    try {
+      await navigator.clipboard.writeText(savedQueryLink(query.id));
+      setCopiedId(query.id);
+      setTimeout(() => setCopiedId((id) => (id === query.id ? null : id)), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+      window.prompt('Copy this link to share the query:', savedQueryLink(query.id));
+    }
+  };
+
+  const folders = queries.reduce<Record<string, SavedQuery[]>>((grouped, query) => {
+    const folder = query.folder || 'Unfiled';
+    (grouped[folder] ??= []).push(query);
+    return grouped;
+  }, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Saved Queries</CardTitle>
+        <CardDescription>Search, open and share saved queries</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          type="text"
+          placeholder="Search saved queries..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+        />
+        {tag && (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Tag:</span>
+            <span className="rounded bg-purple-100 text-purple-800 px-2 py-0.5">{tag}</span>
+            <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => setTag(null)}>
+              Clear
+            </button>
+          </div>
+        )}
+        {error && <div className="text-xs text-red-600">{error}</div>}
+
+        {queries.length > 0 ? (
+          <div className="space-y-3 max-h-96 overflow-auto pr-1">
+            {Object.entries(folders).map(([folder, items]) => (
+              <div key={folder} className="space-y-2">
+                <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{folder}</div>
+                {items.map((query) => (
+                  <div key={query.id} className="border border-border rounded-lg p-2 space-y-1">
+                    <button
+                      type="button"
+                      onClick={() => onOpen(query)}
+                      disabled={disabled}
+                      title={query.description || query.prompt || query.sql}
+                      className="block w-full text-left text-sm font-medium hover:text-purple-600 truncate"
+                    >
+                      {query.name}
+                    </button>
+                    {query.database_name && (
+                      <div className="text-xs text-muted-foreground">{query.database_name}</div>
+                    )}
+                    {query.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {query.tags.map((t) => (
+                          <button
+                            key={t}
+                            type="button"
+                            onClick={() => setTag(t)}
+                            className="rounded bg-muted px-1.5 py-0.5 text-xs hover:bg-purple-100 hover:text-purple-800"
+                          >
+                            {t}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => onOpen(query)} disabled={disabled}>Open</Button>
+                      {!readOnly && <Button variant="ghost" size="sm" onClick={() => handleDuplicate(query)}>Duplicate</Button>}
+                      <Button variant="ghost" size="sm" onClick={() => handleShare(query)}>
+                        {copiedId === query.id ? 'Copied' : 'Share'}
+                      </Button>
+                      {!readOnly && canDelete(query) && <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(query)}>Delete</Button>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            {search || tag ? 'No saved queries match.' : 'No saved queries yet. Use Save next to the SQL editor.'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SavedQueryLibrary;
@@ -3,11 +3,37 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 
+interface ColumnDetails {
+  type?: string;
+  nullable?: boolean;
+  default?: string | null;
+  enumValues?: string[];
+  comment?: string;
+}
+
 interface TableSchema {
   columns: string[];
   description: string;
+  columnDetails?: Record<string, ColumnDetails>;
+  primaryKey?: string[];
+  indexes?: { name: string; columns: string[]; unique: boolean }[];
 }
 
+// "name" or "name type", e.g. "rating varchar(10)"
+const parseColumnLine = (line: string): { name: string; type?: string } => {
+  const [name, ...type] = line.trim().split(/\s+/);
+  return { name, type: type.length > 0 ? type.join(' ') : undefined };
+};
+
+const formatColumn = (tableInfo: TableSchema, column: string): string => {
+  const details = tableInfo.columnDetails?.[column];
+  const parts = [column, details?.type];
+  if (tableInfo.primaryKey?.includes(column)) parts.push('PK');
+  else if (details?.nullable === false) parts.push('not null');
+  if (details?.enumValues?.length) parts.push(`[${details.enumValues.join(', ')}]`);
+  return parts.filter(Boolean).join(' ');
+};
+
 interface SchemaEditorProps {
   schema: Record<string, TableSchema>;
   onSchemaChange: (newSchema: Record<string, TableSchema>) => void;
@@ -22,16 +48,20 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSchemaChange }) =
   const addNewTable = () => {
     if (!newTableName.trim()) return;
     
-    const columns = newTableColumns
+    const parsed = newTableColumns
       .split('\n')
-      .map(col => col.trim())
-      .filter(col => col.length > 0);
+      .filter(col => col.trim().length > 0)
+      .map(parseColumnLine);
+    const typed = parsed.filter(col => col.type);
     
     const newSchema = {
       ...schema,
       [newTableName.trim()]: {
-        columns,
-        description: newTableDescription.trim() || 'No description provided'
+        columns: parsed.map(col => col.name),
+        description: newTableDescription.trim() || 'No description provided',
+        ...(typed.length > 0
+          ? { columnDetails: Object.fromEntries(typed.map(col => [col.name, { type: col.type }])) }
+          : {})
       }
     };
     
@@ -82,8 +112,8 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSchemaChange }) =
                 <div className="text-sm font-medium">Columns ({tableInfo.columns.length})</div>
                 <div className="text-xs text-muted-foreground max-h-32 overflow-y-auto">
                   {tableInfo.columns.map((column, index) => (
-                    <div key={index} className="py-1 px-2 bg-muted rounded mb-1">
-                      {column}
+                    <div key={index} className="py-1 px-2 bg-muted rounded mb-1 font-mono">
+                      {formatColumn(tableInfo, column)}
                     </div>
                   ))}
                 </div>
@@ -136,11 +166,11 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSchemaChange }) =
           </div>
           
           <div className="space-y-2">
-            <label className="text-sm font-medium">Columns (one per line)</label>
+            <label className="text-sm font-medium">Columns (one per line, optionally followed by the type)</label>
             <Textarea
               value={newTableColumns}
               onChange={(e) => setNewTableColumns(e.target.value)}
-              placeholder={`id\nname\nemail\ncreated_at\nupdated_at`}
+              placeholder={`id integer\nname varchar(100)\nemail\ncreated_at timestamp\nupdated_at`}
               className="font-mono text-sm"
               rows={6}
             />
@@ -182,19 +212,69 @@ interface TableEditorProps {
   onCancel: () => void;
 }
 
+interface ColumnRow {
+  // Name the column had when editing started; null for added columns
+  originalName: string | null;
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey: boolean;
+  enumValues: string;
+}
+
 const TableEditor: React.FC<TableEditorProps> = ({ tableInfo, onSave, onCancel }) => {
   const [description, setDescription] = useState(tableInfo.description);
-  const [columns, setColumns] = useState(tableInfo.columns.join('\n'));
+  const [rows, setRows] = useState<ColumnRow[]>(() =>
+    tableInfo.columns.map(column => {
+      const details = tableInfo.columnDetails?.[column];
+      return {
+        originalName: column,
+        name: column,
+        type: details?.type ?? '',
+        notNull: details?.nullable === false,
+        primaryKey: tableInfo.primaryKey?.includes(column) ?? false,
+        enumValues: details?.enumValues?.join(', ') ?? ''
+      };
+    })
+  );
+
+  const updateRow = (index: number, changes: Partial<ColumnRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
 
   const handleSave = () => {
-    const columnList = columns
-      .split('\n')
-      .map(col => col.trim())
-      .filter(col => col.length > 0);
-    
+    const kept = rows
+      .map(row => ({ ...row, name: row.name.trim() }))
+      .filter(row => row.name.length > 0);
+    const renamed = new Map(kept.filter(row => row.originalName).map(row => [row.originalName as string, row.name]));
+
+    const columnDetails: Record<string, ColumnDetails> = {};
+    for (const row of kept) {
+      const original = row.originalName ? tableInfo.columnDetails?.[row.originalName] : undefined;
+      const enumValues = row.enumValues.split(',').map(value => value.trim()).filter(value => value.length > 0);
+      const details: ColumnDetails = {
+        ...original,
+        type: row.type.trim() || undefined,
+        // Only record nullability the database reported or the user set
+        nullable: row.notNull ? false : original?.nullable === undefined ? undefined : true,
+        enumValues: enumValues.length > 0 ? enumValues : undefined
+      };
+      const known = Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+      if (Object.keys(known).length > 0) columnDetails[row.name] = known;
+    }
+
+    const primaryKey = kept.filter(row => row.primaryKey).map(row => row.name);
+    // Indexes follow renamed columns and are dropped with removed ones
+    const indexes = (tableInfo.indexes ?? [])
+      .filter(index => index.columns.every(column => renamed.has(column)))
+      .map(index => ({ ...index, columns: index.columns.map(column => renamed.get(column) as string) }));
+
     onSave({
-      columns: columnList,
-      description: description.trim() || 'No description provided'
+      columns: kept.map(row => row.name),
+      description: description.trim() || 'No description provided',
+      ...(Object.keys(columnDetails).length > 0 ? { columnDetails } : {}),
+      ...(primaryKey.length > 0 ? { primaryKey } : {}),
+      ...(indexes.length > 0 ? { indexes } : {})
     });
   };
 
@@ -212,16 +292,63 @@ const TableEditor: React.FC<TableEditorProps> = ({ tableInfo, onSave, onCancel }
       </div>
       
       <div className="space-y-2">
-        <label className="text-sm font-medium">Columns (one per line)</label>
-        <Textarea
-          value={columns}
-          onChange={(e) => setColumns(e.target.value)}
-          placeholder="Enter column names, one per line"
-          className="font-mono text-sm"
-          rows={10}
-        />
+        <label className="text-sm font-medium">Columns</label>
+        <div className="grid grid-cols-[1fr_1fr_auto_auto_1.5fr_auto] gap-2 items-center text-xs text-muted-foreground">
+          <span>Name</span>
+          <span>Type</span>
+          <span>PK</span>
+          <span>Not null</span>
+          <span>Allowed values (comma-separated)</span>
+          <span />
+          {rows.map((row, index) => (
+            <React.Fragment key={index}>
+              <input
+                type="text"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                className="px-2 py-1 border border-input rounded-md text-sm font-mono"
+              />
+              <input
+                type="text"
+                value={row.type}
+                onChange={(e) => updateRow(index, { type: e.target.value })}
+                placeholder="e.g. varchar(50)"
+                className="px-2 py-1 border border-input rounded-md text-sm font-mono"
+              />
+              <input
+                type="checkbox"
+                checked={row.primaryKey}
+                onChange={(e) => updateRow(index, { primaryKey: e.target.checked })}
+                className="h-4 w-4 justify-self-center"
+              />
+              <input
+                type="checkbox"
+                checked={row.notNull}
+                onChange={(e) => updateRow(index, { notNull: e.target.checked })}
+                className="h-4 w-4 justify-self-center"
+              />
+              <input
+                type="text"
+                value={row.enumValues}
+                onChange={(e) => updateRow(index, { enumValues: e.target.value })}
+                placeholder="e.g. G, PG, PG-13"
+                className="px-2 py-1 border border-input rounded-md text-sm font-mono"
+              />
+              <Button variant="ghost" size="sm" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                Remove
+              </Button>
+            </React.Fragment>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRows([...rows, { originalName: null, name: '', type: '', notNull: false, primaryKey: false, enumValues: '' }])}
+        >
+          Add Column
+        </Button>
         <div className="text-xs text-muted-foreground">
-          Current columns: {columns.split('\n').filter(col => col.trim()).length}
+          Current columns: {rows.filter(row => row.name.trim()).length}
         </div>
       </div>
       
@@ -5,7 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import DatabaseForm from '@/components/DatabaseForm';
-import AIProviderSelector from '@/components/AIProviderSelector';
+import AIProviderSelector, { type AIProvider } from '@/components/AIProviderSelector';
+import UserManagement from '@/components/UserManagement';
+import TeamManagement from '@/components/TeamManagement';
 
 interface QueryPattern {
   intent: string;
@@ -16,6 +18,7 @@ interface QueryPattern {
 }
 
 interface DatabaseSettings {
+  dialect?: 'mysql' | 'postgres' | 'sqlite' | 'mssql';
   host: string;
   port: number;
   database_name: string;
@@ -62,12 +65,12 @@ const Settings: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'rules' | 'database' | 'ai'>('rules');
+  const [activeTab, setActiveTab] = useState<'rules' | 'database' | 'ai' | 'users'>('rules');
   const [availableDatabases, setAvailableDatabases] = useState<any[]>([]);
   const [selectedDatabaseId, setSelectedDatabaseId] = useState<number | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [isSandboxMode, setIsSandboxMode] = useState(false);
-  const [currentAIProvider, setCurrentAIProvider] = useState<'anthropic' | 'openai'>('anthropic');
+  const [currentAIProvider, setCurrentAIProvider] = useState<AIProvider>('anthropic');
 
   useEffect(() => {
     loadCurrentSettings();
@@ -206,6 +209,7 @@ const Settings: React.FC = () => {
     try {
       const parsed = JSON.parse(dbSettingsJson);
       const payload = {
+        dialect: parsed.dialect,
         host: parsed.host,
         port: parsed.port,
         database: parsed.database || parsed.database_name,
@@ -390,6 +394,7 @@ const Settings: React.FC = () => {
                   <option key={db.id} value={db.id}>
                     {db.name} ({db.host}:{db.port}/{db.database_name})
                     {!!db.is_default && ' - Default'}
+                    {!!db.needs_credentials && ' - Password needed'}
                   </option>
                 ))}
               </select>
@@ -437,6 +442,16 @@ const Settings: React.FC = () => {
         >
           AI Settings
         </button>
+        <button
+          onClick={() => setActiveTab('users')}
+          className={`px-4 py-2 rounded-md transition-colors ${
+            activeTab === 'users' 
+              ? 'bg-background text-foreground shadow-sm' 
+              : 'text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          Users & Teams
+        </button>
       </div>
 
       {error && (
@@ -647,6 +662,13 @@ const Settings: React.FC = () => {
   "model": "claude-sonnet-4-20250514",
   "temperature": 0.2,
   "maxTokens": 2000
+}` : currentAIProvider === 'openai-compatible' ? `{
+  "enabled": true,
+  "apiKey": "",
+  "baseURL": "http://localhost:11434/v1",
+  "model": "llama3.1",
+  "temperature": 0.2,
+  "maxTokens": 2000
 }` : `{
   "enabled": true,
   "apiKey": "sk-your-openai-api-key",
@@ -669,6 +691,8 @@ const Settings: React.FC = () => {
                       <div><code>claude-3-sonnet-20240229</code> - Claude 3 Sonnet</div>
                       <div><code>claude-3-haiku-20240307</code> - Claude 3 Haiku</div>
                     </>
+                  ) : currentAIProvider === 'openai-compatible' ? (
+                    <div>Models are listed by the endpoint (<code>GET /v1/models</code>); use the name your server serves, e.g. <code>llama3.1</code></div>
                   ) : (
                     <>
                       <div><code>gpt-4-turbo-preview</code> - Latest GPT-4 Turbo (Recommended)</div>
@@ -691,6 +715,14 @@ const Settings: React.FC = () => {
         </Card>
         </>
       )}
+
+      {/* User Accounts Tab */}
+      {activeTab === 'users' && (
+        <div className="space-y-6">
+          <UserManagement />
+          <TeamManagement />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface Team {
+  id: number;
+  name: string;
+  description: string | null;
+  member_ids: number[];
+  database_ids: number[];
+}
+
+interface TeamUser {
+  id: number;
+  username: string;
+  display_name: string | null;
+}
+
+interface TeamDatabase {
+  id: number;
+  name: string;
+  database_name: string;
+}
+
+const inputClassName = 'px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (isAxiosError(err) && err.response?.data?.error) || fallback;
+
+const toggle = (ids: number[], id: number) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+// Admin-only list of teams, their members and the connections they may use
+function TeamManagement() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [users, setUsers] = useState<TeamUser[]>([]);
+  const [databases, setDatabases] = useState<TeamDatabase[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTeams = useCallback(async () => {
+    try {
+      const [teamResponse, userResponse, databaseResponse] = await Promise.all([
+        axios.get(`${API_BASE_URL}/api/teams`),
+        axios.get(`${API_BASE_URL}/api/users`),
+        axios.get(`${API_BASE_URL}/api/databases`)
+      ]);
+      setTeams(teamResponse.data.data || []);
+      setUsers(userResponse.data.data || []);
+      setDatabases(databaseResponse.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load teams:', err);
+      setError(errorMessage(err, 'Failed to load teams'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTeams();
+  }, [loadTeams]);
+
+  const updateTeam = async (id: number, changes: Partial<Pick<Team, 'member_ids' | 'database_ids'>>) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/api/teams/${id}`, changes);
+      setTeams((current) => current.map((team) => (team.id === id ? response.data.data : team)));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update team'));
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    if (!window.confirm(`Delete team ${team.name}? Its members lose access to its connections.`)) return;
+    try {
+      await axios.delete(`${API_BASE_URL}/api/teams/${team.id}`);
+      setTeams((current) => current.filter((existing) => existing.id !== team.id));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete team'));
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await axios.post(`${API_BASE_URL}/api/teams`, { name: newTeamName.trim() });
+      setNewTeamName('');
+      await loadTeams();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create team'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teams</CardTitle>
+        <CardDescription>
+          Non-admin users can only use the database connections granted to one of their teams
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-xs text-red-600">{error}</div>}
+
+        <div className="space-y-2">
+          {teams.map((team) => (
+            <div key={team.id} className="border border-border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium">{team.name}</div>
+                  {team.description && <div className="text-xs text-muted-foreground">{team.description}</div>}
+                </div>
+                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(team)}>
+                  Delete
+                </Button>
+              </div>
+              <div>
+                <div className="text-xs font-semibold text-muted-foreground mb-1">Members</div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {users.map((user) => (
+                    <label key={user.id} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={team.member_ids.includes(user.id)}
+                        onChange={() => updateTeam(team.id, { member_ids: toggle(team.member_ids, user.id) })}
+                      />
+                      {user.display_name || user.username}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-semibold text-muted-foreground mb-1">Connections</div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {databases.map((database) => (
+                    <label key={database.id} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={team.database_ids.includes(database.id)}
+                        onChange={() => updateTeam(team.id, { database_ids: toggle(team.database_ids, database.id) })}
+                      />
+                      {database.name}
+                      <span className="text-xs text-muted-foreground">({database.database_name})</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+          {teams.length === 0 && (
+            <div className="text-sm text-muted-foreground">No teams yet. Only admins can use database connections.</div>
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            className={`${inputClassName} flex-1`}
+            placeholder="Team name"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+          />
+          <Button type="submit" disabled={isSaving || !newTeamName.trim()}>
+            {isSaving ? 'Adding...' : 'Add team'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TeamManagement;
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import { useAuth, type UserRole } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface ManagedUser {
+  id: number;
+  username: string;
+  display_name: string | null;
+  email: string | null;
+  role: UserRole;
+  has_password: boolean;
+  oidc_issuer: string | null;
+  is_active: boolean;
+  last_login_at: string | null;
+}
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer - history, analytics and saved queries' },
+  { value: 'analyst', label: 'Analyst - also generate, run, export and save queries' },
+  { value: 'admin', label: 'Admin - also settings and users' }
+];
+
+const inputClassName = 'px-3 py-1.5 text-sm border border-border rounded-md bg-background';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (isAxiosError(err) && err.response?.data?.error) || fallback;
+
+// Admin-only list of accounts with role, enable/disable and password reset
+function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newUser, setNewUser] = useState({ username: '', password: '', role: 'viewer' as UserRole });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/users`);
+      setUsers(response.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      setError(errorMessage(err, 'Failed to load users'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const updateUser = async (id: number, changes: Partial<Pick<ManagedUser, 'role' | 'is_active'>> & { password?: string }) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/api/users/${id}`, changes);
+      setUsers((current) => current.map((user) => (user.id === id ? response.data.data : user)));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update user'));
+    }
+  };
+
+  const handleResetPassword = (user: ManagedUser) => {
+    const password = window.prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (password) updateUser(user.id, { password });
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await axios.post(`${API_BASE_URL}/api/users`, { ...newUser, username: newUser.username.trim() });
+      setNewUser({ username: '', password: '', role: 'viewer' });
+      await loadUsers();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create user'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+        <CardDescription>Who can sign in and what they can do</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-xs text-red-600">{error}</div>}
+
+        <div className="space-y-2">
+          {users.map((user) => {
+            const isSelf = user.id === currentUser.id;
+            return (
+              <div key={user.id} className="flex flex-wrap items-center gap-2 border border-border rounded-lg p-3">
+                <div className="flex-1 min-w-40">
+                  <div className={`text-sm font-medium ${user.is_active ? '' : 'line-through text-muted-foreground'}`}>
+                    {user.display_name || user.username}
+                    {user.display_name && <span className="ml-1 text-xs text-muted-foreground">({user.username})</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {user.oidc_issuer ? 'Single sign-on' : 'Password'}
+                    {user.last_login_at && ` • last signed in ${new Date(user.last_login_at).toLocaleString()}`}
+                  </div>
+                </div>
+                <select
+                  className={inputClassName}
+                  value={user.role}
+                  onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                  disabled={isSelf}
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.value}</option>
+                  ))}
+                </select>
+                <Button variant="ghost" size="sm" onClick={() => handleResetPassword(user)}>
+                  {user.has_password ? 'Reset password' : 'Set password'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={user.is_active ? 'text-red-600' : ''}
+                  onClick={() => updateUser(user.id, { is_active: !user.is_active })}
+                  disabled={isSelf}
+                >
+                  {user.is_active ? 'Disable' : 'Enable'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <input
+            className={inputClassName}
+            placeholder="Username"
+            value={newUser.username}
+            onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+          />
+          <input
+            type="password"
+            className={inputClassName}
+            placeholder="Password (8+ characters)"
+            value={newUser.password}
+            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            autoComplete="new-password"
+          />
+          <select
+            className={inputClassName}
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+          >
+            {ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <Button type="submit" disabled={isSaving || !newUser.username.trim() || newUser.password.length < 8}>
+            {isSaving ? 'Adding...' : 'Add user'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default UserManagement;
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { axios, API_BASE_URL } from '@/lib/axios';
+import {
+  AUTH_EXPIRED_EVENT,
+  AuthContext,
+  clearAuthToken,
+  consumeAuthRedirect,
+  getAuthToken,
+  setAuthToken,
+  type AuthConfig,
+  type AuthUser
+} from '@/lib/auth';
+import LoginPage from '@/components/LoginPage';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const defaultConfig: AuthConfig = { authDisabled: false, oidcEnabled: false, sandboxMode: false };
+
+// Renders the login page until someone is signed in, then the app
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [config, setConfig] = useState<AuthConfig>(defaultConfig);
+  const [isChecking, setIsChecking] = useState(true);
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  const loadUser = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/auth/me`);
+      setUser(response.data.data);
+    } catch {
+      setUser(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    const check = async () => {
+      setLoginError(consumeAuthRedirect());
+      try {
+        const response = await axios.get(`${API_BASE_URL}/api/auth/config`);
+        const loaded: AuthConfig = { ...defaultConfig, ...response.data.data };
+        setConfig(loaded);
+        if (loaded.authDisabled || getAuthToken()) {
+          await loadUser();
+        }
+      } catch (err) {
+        console.warn('Failed to load sign-in options:', err);
+      } finally {
+        setIsChecking(false);
+      }
+    };
+    check();
+  }, [loadUser]);
+
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const handleLogin = async (username: string, password: string) => {
+    const response = await axios.post(`${API_BASE_URL}/api/auth/login`, { username, password });
+    setAuthToken(response.data.data.token);
+    setLoginError(null);
+    setUser(response.data.data.user);
+  };
+
+  const signOut = () => {
+    clearAuthToken();
+    setUser(null);
+  };
+
+  if (isChecking) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading...</div>;
+  }
+
+  if (!user) {
+    return <LoginPage oidcEnabled={config.oidcEnabled} error={loginError} onLogin={handleLogin} />;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, config, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearAuthToken, consumeAuthRedirect, getAuthToken, hasRole } from './auth'
+
+describe('hasRole', () => {
+  it('grants each role everything the roles below it can do', () => {
+    expect(hasRole({ role: 'admin' }, 'analyst')).toBe(true)
+    expect(hasRole({ role: 'analyst' }, 'analyst')).toBe(true)
+    expect(hasRole({ role: 'viewer' }, 'analyst')).toBe(false)
+    expect(hasRole(null, 'viewer')).toBe(false)
+  })
+})
+
+describe('consumeAuthRedirect', () => {
+  beforeEach(() => {
+    clearAuthToken()
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('stores the token from the fragment and removes it from the address bar', () => {
+    window.history.replaceState(null, '', '/?savedQuery=4#token=abc.def.ghi')
+
+    expect(consumeAuthRedirect()).toBeNull()
+    expect(getAuthToken()).toBe('abc.def.ghi')
+    expect(window.location.hash).toBe('')
+    expect(window.location.search).toBe('?savedQuery=4')
+  })
+
+  it('returns a single sign-on error without storing anything', () => {
+    window.history.replaceState(null, '', '/#error=Single+sign-on+failed')
+
+    expect(consumeAuthRedirect()).toBe('Single sign-on failed')
+    expect(getAuthToken()).toBeNull()
+  })
+})
@@ -0,0 +1,87 @@
+import { createContext, useContext } from 'react';
+
+// Access token storage, role checks and the signed-in user's context, shared by the login page and the app shell
+
+export type UserRole = 'viewer' | 'analyst' | 'admin';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  display_name: string | null;
+  email: string | null;
+  role: UserRole;
+}
+
+export interface AuthConfig {
+  authDisabled: boolean;
+  oidcEnabled: boolean;
+  sandboxMode: boolean;
+}
+
+interface AuthContextType {
+  user: AuthUser;
+  config: AuthConfig;
+  signOut: () => void;
+}
+
+// Provided by AuthProvider once someone is signed in
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+// Ordered from least to most access, matching the backend
+const ROLES: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+// Fired when the backend rejects the stored token so the app can show the login page
+export const AUTH_EXPIRED_EVENT = 'authExpired';
+
+const TOKEN_STORAGE_KEY = 'query-builder-auth-token';
+
+export const hasRole = (user: Pick<AuthUser, 'role'> | null, required: UserRole): boolean =>
+  user !== null && ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+
+export const getAuthToken = (): string | null => {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setAuthToken = (token: string) => {
+  try {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } catch {
+    // Storage unavailable (private mode); the user signs in again next visit
+  }
+};
+
+export const clearAuthToken = () => {
+  try {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+};
+
+/**
+ * Single sign-on returns to the app with `#token=...` or `#error=...`.
+ * Stores the token, clears the fragment from the address bar and returns
+ * the error, if any.
+ */
+export const consumeAuthRedirect = (): string | null => {
+  const fragment = new URLSearchParams(window.location.hash.slice(1));
+  const token = fragment.get('token');
+  const error = fragment.get('error');
+  if (!token && !error) return null;
+
+  if (token) setAuthToken(token);
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  return error;
+};
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { AUTH_EXPIRED_EVENT, clearAuthToken, getAuthToken } from './auth';
 
 // Use environment-aware API base URL
 // In development (npm run dev): uses direct backend URL
@@ -7,18 +8,47 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://maisql.com';
 
 console.log('API Base URL:', API_BASE_URL);
 
+// Identifies this browser tab to the backend (query logs, conversation threads)
+const SESSION_STORAGE_KEY = 'query-builder-session-id';
+
+// Random id for sessions and query runs; randomUUID is missing outside secure contexts
+const createClientId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const getSessionId = (): string => {
+  try {
+    let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!sessionId) {
+      sessionId = createClientId();
+      sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return createClientId();
+  }
+};
+
+const SESSION_ID = getSessionId();
+
 // Create axios instance with default config
 const axiosInstance = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
+    'X-Session-Id': SESSION_ID,
   },
   timeout: 30000, // 30 second timeout
 });
 
-// Request interceptor for debugging
+// Request interceptor: attach the access token and log the request
 axiosInstance.interceptors.request.use(
   (config) => {
+    const token = getAuthToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     console.log(`Making ${config.method?.toUpperCase()} request to:`, config.url);
     return config;
   },
@@ -32,6 +62,12 @@ axiosInstance.interceptors.request.use(
 axiosInstance.interceptors.response.use(
   (response) => response,
   (error) => {
+    // An expired or revoked token sends the user back to the login page; a failed login is not that
+    if (error.response?.status === 401 && !error.config?.url?.endsWith('/api/auth/login')) {
+      clearAuthToken();
+      window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+    }
+
     if (error.response) {
       console.error('Response error:', {
         status: error.response.status,
@@ -47,4 +83,4 @@ axiosInstance.interceptors.response.use(
   }
 );
 
-export { axiosInstance as axios, API_BASE_URL };
+export { axiosInstance as axios, API_BASE_URL, SESSION_ID, createClientId };
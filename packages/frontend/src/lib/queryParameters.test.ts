@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { defaultParameterValues, findParameterNames, parametersFor } from './queryParameters'
+
+describe('findParameterNames', () => {
+  it('lists named placeholders once, in order of first use', () => {
+    expect(findParameterNames('SELECT * FROM film WHERE title LIKE :q OR description LIKE :q LIMIT :limit')).toEqual(['q', 'limit'])
+  })
+
+  it('ignores quoted text, comments, casts and times', () => {
+    const sql = "SELECT ':not', created::date, '10:30' -- :comment\nFROM t /* :block */ WHERE id = :id"
+    expect(findParameterNames(sql)).toEqual(['id'])
+  })
+})
+
+describe('parametersFor', () => {
+  it('uses known definitions and falls back to text inputs', () => {
+    const definitions = [{ name: 'limit', type: 'int' as const, default: 10 }]
+    expect(parametersFor(['city', 'limit'], definitions)).toEqual([{ name: 'city', type: 'string' }, definitions[0]])
+    expect(defaultParameterValues(definitions)).toEqual({ limit: 10 })
+  })
+})
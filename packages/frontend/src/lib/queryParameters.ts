@@ -0,0 +1,31 @@
+export type ParameterValue = string | number | boolean | null;
+
+export interface QueryParameter {
+  name: string;
+  type: 'string' | 'int' | 'number' | 'date' | 'boolean';
+  label?: string;
+  default?: ParameterValue;
+  allowedValues?: (string | number)[];
+  lookup?: string;
+  required?: boolean;
+}
+
+/**
+ * `:name` placeholders in the SQL, in order of first use. Quoted text and
+ * comments are blanked first, and `::type` casts are not placeholders.
+ */
+export const findParameterNames = (sql: string): string[] => {
+  const stripped = sql
+    .replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|--[^\n]*|\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/::/g, ' ');
+  const names = [...stripped.matchAll(/(?<![\w:]):([A-Za-z_]\w*)/g)].map((match) => match[1]);
+  return [...new Set(names)];
+};
+
+// Definitions for the placeholders in use; undefined ones are plain text inputs
+export const parametersFor = (names: string[], definitions: QueryParameter[]): QueryParameter[] =>
+  names.map((name) => definitions.find((d) => d.name === name) ?? { name, type: 'string' });
+
+// Starting values: each parameter's default, where it has one
+export const defaultParameterValues = (definitions: QueryParameter[]): Record<string, ParameterValue> =>
+  Object.fromEntries(definitions.filter((d) => d.default !== undefined).map((d) => [d.name, d.default as ParameterValue]));